@@ -0,0 +1,108 @@
+import mongoose, { Types } from 'mongoose';
+import FranchiseStockLot from '../models/Franchise/FranchiseStockLot';
+import FranchiseInventory from '../models/Franchise/FranchiseInventory';
+import FranchiseProduct from '../models/Franchise/FranchiseProduct';
+
+export interface WriteOffResult {
+  lotsWrittenOff: number;
+  unitsWrittenOff: number;
+  failures: Array<{ lot: Types.ObjectId; error: string }>;
+}
+
+const DEFAULT_INTERVAL_HOURS = 24;
+
+/**
+ * Write off every lot past its expiry date as an 'expired' inventory
+ * transaction against that exact lot. Limit to one franchise by passing its ID.
+ * Each lot is written off in its own transaction, against what is left of it
+ * once the franchise's stock has been reconciled with its lots.
+ */
+export const writeOffExpiredLots = async (franchiseId?: Types.ObjectId, asOf: Date = new Date()): Promise<WriteOffResult> => {
+  const filter: any = {
+    expiryDate: { $lt: asOf },
+    quantityRemaining: { $gt: 0 }
+  };
+  if (franchiseId) {
+    filter.franchise = franchiseId;
+  }
+
+  const lots = await FranchiseStockLot.find(filter).sort({ expiryDate: 1 });
+  const result: WriteOffResult = { lotsWrittenOff: 0, unitsWrittenOff: 0, failures: [] };
+
+  for (const { _id: lotId, franchise, franchiseProduct } of lots) {
+    const session = await mongoose.startSession();
+    let units = 0;
+    try {
+      await session.withTransaction(async () => {
+        units = 0;
+
+        // Reconciling lots with stock may have drained some or all of this lot since it was listed
+        const product = await FranchiseProduct.findOne({ _id: franchiseProduct, franchise }).select('stock').session(session);
+        if (!product) {
+          throw new Error('Product not found');
+        }
+        await FranchiseStockLot.reconcile(franchise, franchiseProduct, product.stock, session);
+
+        const lot = await FranchiseStockLot.findById(lotId).session(session);
+        if (!lot || lot.quantityRemaining <= 0) {
+          return;
+        }
+
+        await FranchiseInventory.recordTransaction(
+          franchise,
+          franchiseProduct,
+          'expired',
+          -lot.quantityRemaining,
+          {
+            lot: lot._id,
+            batchNumber: lot.batchNumber,
+            expiryDate: lot.expiryDate,
+            costPerUnit: lot.costPerUnit,
+            referenceNumber: lot.referenceNumber,
+            notes: `Expired on ${lot.expiryDate!.toISOString().slice(0, 10)} - automatic write-off`,
+            session
+          }
+        );
+        units = lot.quantityRemaining;
+      });
+
+      if (units > 0) {
+        result.lotsWrittenOff += 1;
+        result.unitsWrittenOff += units;
+      }
+    } catch (error) {
+      result.failures.push({ lot: lotId, error: (error as Error).message });
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Run the expiry write-off on a timer. EXPIRED_STOCK_WRITE_OFF_INTERVAL_HOURS
+ * sets the interval (default 24); set it to 0 to disable the job.
+ */
+export const scheduleExpiredStockWriteOff = (): void => {
+  const intervalHours = parseFloat(process.env.EXPIRED_STOCK_WRITE_OFF_INTERVAL_HOURS || String(DEFAULT_INTERVAL_HOURS));
+  if (!intervalHours || intervalHours <= 0) {
+    console.log('Expired stock write-off job disabled');
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const result = await writeOffExpiredLots();
+      if (result.lotsWrittenOff || result.failures.length) {
+        console.log('Expired stock write-off:', result);
+      }
+    } catch (error) {
+      console.error('Expired stock write-off job error:', error);
+    }
+  };
+
+  const timer = setInterval(run, intervalHours * 60 * 60 * 1000);
+  timer.unref();
+  void run();
+};
@@ -0,0 +1,113 @@
+import { Types } from 'mongoose';
+import Franchise from '../models/Franchise/Franchise';
+import FranchiseProduct from '../models/Franchise/FranchiseProduct';
+import PriceChange, { IPriceChangeDocument } from '../models/Franchise/PriceChange';
+import PriceList from '../models/Franchise/PriceList';
+import Product from '../models/Product/Product';
+import { findPriceViolation, getPriceBounds } from '../utils/franchisePricing';
+
+export interface PriceChangeRunResult {
+  changesApplied: number;
+  franchisesUpdated: number;
+  franchisesSkipped: number;
+  failures: Array<{ priceChange: Types.ObjectId; error: string }>;
+}
+
+const DEFAULT_INTERVAL_MINUTES = 15;
+
+/**
+ * Apply one price change: every franchise whose winning price list is the
+ * change's list and that stocks the product gets the new selling price,
+ * unless it would fall below that franchise's landed cost or above MRP.
+ * The change is marked applied either way, with the skipped franchises listed.
+ */
+export const applyPriceChange = async (
+  change: IPriceChangeDocument,
+  winningLists: Map<string, string | null> = new Map()
+): Promise<IPriceChangeDocument> => {
+  const product = await Product.findById(change.product);
+  const franchiseProducts = await FranchiseProduct.find({
+    bharatmartProduct: change.product,
+    variant: change.variant || null
+  });
+
+  change.franchisesUpdated = 0;
+  change.skipped = [];
+
+  for (const franchiseProduct of franchiseProducts) {
+    const franchiseKey = franchiseProduct.franchise.toString();
+    if (!winningLists.has(franchiseKey)) {
+      const franchise = await Franchise.findById(franchiseProduct.franchise).select('city franchiseType');
+      const priceList = franchise ? await PriceList.findForFranchise(franchise) : null;
+      winningLists.set(franchiseKey, priceList ? priceList._id.toString() : null);
+    }
+    if (winningLists.get(franchiseKey) !== change.priceList.toString()) {
+      continue;
+    }
+
+    const violation = findPriceViolation(change.price, await getPriceBounds(franchiseProduct, product));
+    if (violation) {
+      change.skipped.push({ franchise: franchiseProduct.franchise, franchiseProduct: franchiseProduct._id, reason: violation });
+      continue;
+    }
+
+    if (franchiseProduct.sellingPrice !== change.price) {
+      franchiseProduct.sellingPrice = change.price;
+      await franchiseProduct.save();
+    }
+    change.franchisesUpdated += 1;
+  }
+
+  change.status = 'applied';
+  change.appliedAt = new Date();
+  await change.save();
+
+  return change;
+};
+
+// Apply every scheduled price change whose effective date has passed, oldest first
+export const applyDuePriceChanges = async (asOf: Date = new Date()): Promise<PriceChangeRunResult> => {
+  const changes = await PriceChange.findDue(asOf);
+  const result: PriceChangeRunResult = { changesApplied: 0, franchisesUpdated: 0, franchisesSkipped: 0, failures: [] };
+  const winningLists = new Map<string, string | null>();
+
+  for (const change of changes) {
+    try {
+      await applyPriceChange(change, winningLists);
+      result.changesApplied += 1;
+      result.franchisesUpdated += change.franchisesUpdated;
+      result.franchisesSkipped += change.skipped.length;
+    } catch (error) {
+      result.failures.push({ priceChange: change._id, error: (error as Error).message });
+    }
+  }
+
+  return result;
+};
+
+/**
+ * Run scheduled price changes on a timer. PRICE_CHANGE_INTERVAL_MINUTES sets
+ * the interval (default 15); set it to 0 to disable the job.
+ */
+export const schedulePriceChanges = (): void => {
+  const intervalMinutes = parseFloat(process.env.PRICE_CHANGE_INTERVAL_MINUTES || String(DEFAULT_INTERVAL_MINUTES));
+  if (!intervalMinutes || intervalMinutes <= 0) {
+    console.log('Scheduled price change job disabled');
+    return;
+  }
+
+  const run = async () => {
+    try {
+      const result = await applyDuePriceChanges();
+      if (result.changesApplied || result.failures.length) {
+        console.log('Scheduled price changes:', result);
+      }
+    } catch (error) {
+      console.error('Scheduled price change job error:', error);
+    }
+  };
+
+  const timer = setInterval(run, intervalMinutes * 60 * 1000);
+  timer.unref();
+  void run();
+};
@@ -1,7 +1,9 @@
 import { AuthRequest, AuthResponse, AuthNextFunction } from '../types/express';
 import User from '../models/User/User';
 import Shop, { IShopStaffMember } from '../models/Shop/Shop';
-import jwt from 'jsonwebtoken';
+import Session from '../models/Auth/Session';
+import { verifyAccessToken } from '../utils/authTokens';
+import { Permission, scopedPermission } from '../utils/permissions';
 import { Types } from 'mongoose';
 
 interface JwtPayload {
@@ -24,8 +26,17 @@ export const authenticateToken = async (req: AuthRequest, res: AuthResponse, nex
       });
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as JwtPayload;
-    
+    const decoded = verifyAccessToken<JwtPayload>(token);
+
+    // Tokens from a logged-out or revoked session stop working before they expire
+    const session = decoded.sid ? await Session.findActive(decoded.sid, 'user', decoded.userId) : null;
+    if (!session) {
+      return res.status(401).json({
+        success: false,
+        error: 'Session has been revoked or has expired'
+      });
+    }
+
     const user = await User.findById(decoded.userId).select('-password');
     if (!user) {
       return res.status(401).json({
@@ -42,6 +53,7 @@ export const authenticateToken = async (req: AuthRequest, res: AuthResponse, nex
     }
 
     req.user = user;
+    req.sessionId = session._id;
 
     // If shopId is in token, attach shop to request
     if (decoded.shopId) {
@@ -71,11 +83,16 @@ export const optionalAuth = async (req: AuthRequest, res: AuthResponse, next: Au
       return next();
     }
 
-    const decoded = jwt.verify(token, process.env.JWT_SECRET || 'your-secret-key') as JwtPayload;
-    
+    const decoded = verifyAccessToken<JwtPayload>(token);
+    const session = decoded.sid ? await Session.findActive(decoded.sid, 'user', decoded.userId) : null;
+    if (!session) {
+      return next();
+    }
+
     const user = await User.findById(decoded.userId).select('-password');
     if (user && user.isActive) {
       req.user = user;
+      req.sessionId = session._id;
 
       if (decoded.shopId) {
         const shop = await Shop.findById(decoded.shopId);
@@ -132,21 +149,33 @@ export const requireSuperAdmin = (req: AuthRequest, res: AuthResponse, next: Aut
   next();
 };
 
-// Middleware to require specific permission
-export const requirePermission = (permission: string) => {
-  return (req: AuthRequest, res: AuthResponse, next: AuthNextFunction) => {
-    if (!req.user) {
+// Whether the authenticated user or employee holds a permission; superadmins hold every one
+export const hasPermission = (req: AuthRequest, permission: Permission): boolean => {
+  // Employee tokens are judged by their role's permissions
+  if (req.employee) {
+    return !!req.employeePermissions?.includes(permission);
+  }
+  return !!req.user && (req.user.role === 'superadmin' || req.user.permissions.includes(permission));
+};
+
+// Whether the request holds a permission outright or granted for the one record, e.g. franchise:<id>:read
+export const hasScopedPermission = (req: AuthRequest, permission: Permission, id: Types.ObjectId | string): boolean => {
+  const grant = scopedPermission(permission, id);
+  const granted = req.employee ? req.employeePermissions : req.user?.permissions;
+  return hasPermission(req, permission) || !!granted?.includes(grant);
+};
+
+// Middleware to require specific permission; tagged with it so the routes each permission unlocks can be listed
+export const requirePermission = (permission: Permission) => {
+  const middleware = (req: AuthRequest, res: AuthResponse, next: AuthNextFunction) => {
+    if (!req.employee && !req.user) {
       return res.status(401).json({
         success: false,
         error: 'Authentication required'
       });
     }
 
-    if (req.user.role === 'superadmin') {
-      return next();
-    }
-
-    if (!req.user.permissions.includes(permission)) {
+    if (!hasPermission(req, permission)) {
       return res.status(403).json({
         success: false,
         error: 'Insufficient permissions'
@@ -155,6 +184,40 @@ export const requirePermission = (permission: string) => {
 
     next();
   };
+
+  return Object.assign(middleware, { permission });
+};
+
+/**
+ * Middleware to require a permission except where isExempt lets the request
+ * through without one, e.g. a franchise reading its own records or a
+ * customer their own order. Tagged like requirePermission.
+ */
+export const requirePermissionUnless = (
+  permission: Permission,
+  isExempt: (req: AuthRequest) => boolean | Promise<boolean>
+) => {
+  const middleware = async (req: AuthRequest, res: AuthResponse, next: AuthNextFunction) => {
+    try {
+      if (hasPermission(req, permission) || await isExempt(req)) {
+        return next();
+      }
+
+      res.status(403).json({
+        success: false,
+        error: 'Insufficient permissions'
+      });
+    } catch (error) {
+      console.error('Permission check error:', error);
+      res.status(500).json({
+        success: false,
+        error: 'Server error',
+        details: (error as Error).message
+      });
+    }
+  };
+
+  return Object.assign(middleware, { permission });
 };
 
 // Middleware to require shop ownership
@@ -0,0 +1,131 @@
+import jwt from 'jsonwebtoken';
+import { AuthRequest, AuthResponse } from '../types/routes';
+import { IStaffActor } from '../types/common';
+import Employee, { IEmployee } from '../models/Employee/Employee';
+import EmployeeRole from '../models/Employee/EmployeeRole';
+import Session from '../models/Auth/Session';
+import { verifyAccessToken } from '../utils/authTokens';
+import { authenticateToken } from './auth';
+
+interface EmployeeJwtPayload {
+  employeeId: string;
+  role: string;
+  employeeRole?: string;
+  permissions?: string[];
+}
+
+/**
+ * Permissions granted by an employee's role. An employee whose role no longer
+ * exists or has been deactivated gets none.
+ */
+export const getEmployeePermissions = async (employee: Pick<IEmployee, 'role'>): Promise<string[]> => {
+  const role = await EmployeeRole.findOne({ name: employee.role, isActive: true });
+  return role ? [...role.permissions] : [];
+};
+
+/**
+ * Middleware to authenticate employees via JWT token.
+ * Permissions are re-read from the employee's role on every request, so a
+ * role change applies without waiting for the token to expire.
+ */
+export const authenticateEmployee = async (
+  req: AuthRequest,
+  res: AuthResponse,
+  next: any
+) => {
+  try {
+    const authHeader = req.headers['authorization'];
+    const token = authHeader && authHeader.split(' ')[1];
+
+    if (!token) {
+      return res.status(401).json({
+        success: false,
+        error: 'Access token is required'
+      });
+    }
+
+    const decoded = verifyAccessToken<EmployeeJwtPayload>(token);
+
+    if (decoded.role !== 'employee') {
+      return res.status(401).json({
+        success: false,
+        error: 'Not an employee account'
+      });
+    }
+
+    // Tokens from a logged-out or revoked session stop working before they expire
+    const session = decoded.sid ? await Session.findActive(decoded.sid, 'employee', decoded.employeeId) : null;
+    if (!session) {
+      return res.status(401).json({
+        success: false,
+        error: 'Session has been revoked or has expired'
+      });
+    }
+
+    const employee = await Employee.findById(decoded.employeeId).select('-password');
+    if (!employee) {
+      return res.status(401).json({
+        success: false,
+        error: 'Employee not found'
+      });
+    }
+
+    if (employee.status !== 'Active') {
+      return res.status(401).json({
+        success: false,
+        error: 'Employee account is inactive'
+      });
+    }
+
+    req.employee = employee;
+    req.employeePermissions = await getEmployeePermissions(employee);
+    req.sessionId = session._id;
+
+    next();
+  } catch (error) {
+    console.error('Employee authentication error:', error);
+
+    if (error instanceof jwt.JsonWebTokenError) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid or expired token'
+      });
+    }
+
+    return res.status(500).json({
+      success: false,
+      error: 'Authentication failed',
+      details: (error as Error).message
+    });
+  }
+};
+
+/**
+ * Middleware for back-office routes guarded by requirePermission: accepts a
+ * user token or an employee token. Employee requests carry no req.user, so
+ * routes record who acted through getStaffActor.
+ */
+export const authenticateStaff = async (
+  req: AuthRequest,
+  res: AuthResponse,
+  next: any
+) => {
+  const authHeader = req.headers['authorization'];
+  const token = authHeader && authHeader.split(' ')[1];
+
+  // Only picks the middleware; that middleware verifies the token
+  const claims = token ? jwt.decode(token) : null;
+  if (claims && typeof claims === 'object' && claims.role === 'employee') {
+    return authenticateEmployee(req, res, next);
+  }
+
+  return authenticateToken(req, res, next);
+};
+
+// The employee or user behind a request authenticated by authenticateStaff
+export const getStaffActor = (req: AuthRequest): IStaffActor =>
+  req.employee ? { id: req.employee._id, isEmployee: true } : { id: req.user?._id };
+
+// Inventory ledger fields naming who moved the stock
+export const performedByFields = (actor: IStaffActor) =>
+  actor.isEmployee ? { performedByEmployee: actor.id } : { performedBy: actor.id };
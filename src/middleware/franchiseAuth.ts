@@ -1,7 +1,11 @@
 import { AuthRequest, AuthResponse } from '../types/routes';
 import Franchise from '../models/Franchise/Franchise';
 import User from '../models/User/User';
+import Session from '../models/Auth/Session';
+import { verifyAccessToken } from '../utils/authTokens';
 import jwt from 'jsonwebtoken';
+import { requirePermissionUnless } from './auth';
+import { Permission } from '../utils/permissions';
 
 interface FranchiseJwtPayload {
   franchiseId: string;
@@ -16,6 +20,9 @@ interface AdminJwtPayload {
   permissions?: string[];
 }
 
+// authenticateAdminOrFranchise accepts either token, so either set of claims may be present
+type AdminOrFranchiseJwtPayload = Partial<FranchiseJwtPayload> & Partial<AdminJwtPayload>;
+
 /**
  * Middleware to authenticate franchise users via JWT token
  */
@@ -36,10 +43,7 @@ export const authenticateFranchise = async (
     }
 
     // Verify and decode the JWT token
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || 'your-secret-key'
-    ) as FranchiseJwtPayload;
+    const decoded = verifyAccessToken<FranchiseJwtPayload>(token);
 
     // Check if the token is for a franchise account
     if (decoded.role !== 'franchise') {
@@ -49,6 +53,15 @@ export const authenticateFranchise = async (
       });
     }
 
+    // Tokens from a logged-out or revoked session stop working before they expire
+    const session = decoded.sid ? await Session.findActive(decoded.sid, 'franchise', decoded.franchiseId) : null;
+    if (!session) {
+      return res.status(401).json({
+        success: false,
+        error: 'Session has been revoked or has expired'
+      });
+    }
+
     // Fetch franchise details from database
     const franchise = await Franchise.findById(decoded.franchiseId);
     
@@ -69,6 +82,7 @@ export const authenticateFranchise = async (
 
     // Attach franchise ID to request object
     req.franchiseId = franchise._id;
+    req.sessionId = session._id;
     
     next();
   } catch (error) {
@@ -106,16 +120,17 @@ export const optionalFranchiseAuth = async (
       return next();
     }
 
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || 'your-secret-key'
-    ) as FranchiseJwtPayload;
+    const decoded = verifyAccessToken<FranchiseJwtPayload>(token);
 
-    if (decoded.role === 'franchise') {
+    const session = decoded.role === 'franchise' && decoded.sid
+      ? await Session.findActive(decoded.sid, 'franchise', decoded.franchiseId)
+      : null;
+    if (session) {
       const franchise = await Franchise.findById(decoded.franchiseId);
       
       if (franchise && franchise.isActive) {
         req.franchiseId = franchise._id;
+        req.sessionId = session._id;
       }
     }
 
@@ -175,14 +190,7 @@ export const authenticateAdminOrFranchise = async (
     const authHeader = req.headers['authorization'];
     const token = authHeader && authHeader.split(' ')[1];
 
-    console.log('[authenticateAdminOrFranchise] Request received:', {
-      path: req.path,
-      hasAuthHeader: !!authHeader,
-      tokenLength: token?.length || 0
-    });
-
     if (!token) {
-      console.log('[authenticateAdminOrFranchise] No token provided');
       return res.status(401).json({
         success: false,
         error: 'Access token is required'
@@ -190,25 +198,21 @@ export const authenticateAdminOrFranchise = async (
     }
 
     // Verify and decode the JWT token
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || 'your-secret-key'
-    ) as any; // Use any to access properties dynamically
-
-    console.log('[authenticateAdminOrFranchise] Decoded token:', {
-      fullPayload: decoded,
-      hasFranchiseId: 'franchiseId' in decoded,
-      hasUserId: 'userId' in decoded,
-      role: decoded.role
-    });
+    const decoded = verifyAccessToken<AdminOrFranchiseJwtPayload>(token);
 
     // Check if it's a franchise token - role should be 'franchise' and franchiseId should exist
     if (decoded.role === 'franchise' && decoded.franchiseId) {
-      console.log('[authenticateAdminOrFranchise] Processing franchise token for ID:', decoded.franchiseId);
+      const session = decoded.sid ? await Session.findActive(decoded.sid, 'franchise', decoded.franchiseId) : null;
+      if (!session) {
+        return res.status(401).json({
+          success: false,
+          error: 'Session has been revoked or has expired'
+        });
+      }
+
       const franchise = await Franchise.findById(decoded.franchiseId);
       
       if (!franchise) {
-        console.error('[authenticateAdminOrFranchise] Franchise not found:', decoded.franchiseId);
         return res.status(404).json({
           success: false,
           error: 'Franchise not found'
@@ -216,26 +220,31 @@ export const authenticateAdminOrFranchise = async (
       }
 
       if (!franchise.isActive) {
-        console.error('[authenticateAdminOrFranchise] Franchise is inactive:', decoded.franchiseId);
         return res.status(401).json({
           success: false,
           error: 'Franchise account is inactive'
         });
       }
 
-      console.log('[authenticateAdminOrFranchise] Franchise authenticated successfully:', franchise._id);
       req.franchiseId = franchise._id;
+      req.sessionId = session._id;
       req.userType = 'franchise';
       return next();
     }
 
     // Check if it's an admin token - should have userId and NOT be a franchise role
     if (decoded.userId && decoded.role !== 'franchise') {
-      console.log('[authenticateAdminOrFranchise] Processing admin token for user ID:', decoded.userId);
+      const session = decoded.sid ? await Session.findActive(decoded.sid, 'user', decoded.userId) : null;
+      if (!session) {
+        return res.status(401).json({
+          success: false,
+          error: 'Session has been revoked or has expired'
+        });
+      }
+
       const user = await User.findById(decoded.userId).select('-password');
       
       if (!user) {
-        console.error('[authenticateAdminOrFranchise] User not found:', decoded.userId);
         return res.status(404).json({
           success: false,
           error: 'User not found'
@@ -243,31 +252,25 @@ export const authenticateAdminOrFranchise = async (
       }
 
       if (!user.isActive) {
-        console.error('[authenticateAdminOrFranchise] User is inactive:', decoded.userId);
         return res.status(401).json({
           success: false,
           error: 'User account is inactive'
         });
       }
 
-      console.log('[authenticateAdminOrFranchise] Admin authenticated successfully:', user._id);
       req.user = user;
+      req.sessionId = session._id;
       req.userType = 'admin';
       return next();
     }
 
-    console.error('[authenticateAdminOrFranchise] Invalid token format:', decoded);
     return res.status(401).json({
       success: false,
       error: 'Invalid token format - neither valid franchise nor admin token'
     });
 
   } catch (error) {
-    console.error('[authenticateAdminOrFranchise] Authentication error:', error);
-    console.error('[authenticateAdminOrFranchise] Error details:', {
-      name: (error as Error).name,
-      message: (error as Error).message
-    });
+    console.error('Admin or franchise authentication error:', error);
     
     if (error instanceof jwt.JsonWebTokenError) {
       return res.status(401).json({
@@ -283,3 +286,7 @@ export const authenticateAdminOrFranchise = async (
     });
   }
 };
+
+// After authenticateAdminOrFranchise: admins need the permission, franchises are scoped to their own records by the route
+export const requireAdminPermission = (permission: Permission) =>
+  requirePermissionUnless(permission, (req: AuthRequest) => req.userType === 'franchise');
@@ -0,0 +1,107 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+
+export type SessionRealm = 'user' | 'franchise' | 'employee';
+
+export const SESSION_REALMS: SessionRealm[] = ['user', 'franchise', 'employee'];
+
+// A signed-in device; access tokens carry its ID so it can be revoked before they expire
+export interface ISession extends ITimestamps {
+  realm: SessionRealm;
+  subject: Types.ObjectId;    // User, Franchise or Employee ID, per realm
+  refreshTokenHash: string;   // SHA-256 of the current refresh token; rotated on every refresh
+  userAgent?: string;
+  ip?: string;
+  lastUsedAt: Date;
+  expiresAt: Date;            // When the refresh token stops working; expired sessions are removed
+  revokedAt?: Date;
+  revokedReason?: string;
+}
+
+export interface ISessionDocument extends ISession, Document {
+  _id: Types.ObjectId;
+  isActive(at?: Date): boolean;
+}
+
+interface ISessionModel extends Model<ISessionDocument> {
+  findActive(sessionId: Types.ObjectId | string, realm: SessionRealm, subject: Types.ObjectId | string): Promise<ISessionDocument | null>;
+  revokeAll(
+    realm: SessionRealm,
+    subject: Types.ObjectId | string,
+    reason: string,
+    exceptSessionId?: Types.ObjectId | string
+  ): Promise<number>;
+}
+
+const sessionSchema = new Schema<ISessionDocument, ISessionModel>({
+  realm: {
+    type: String,
+    required: true,
+    enum: SESSION_REALMS
+  },
+  subject: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  refreshTokenHash: {
+    type: String,
+    required: true,
+    select: false
+  },
+  userAgent: {
+    type: String,
+    maxlength: 500
+  },
+  ip: String,
+  lastUsedAt: {
+    type: Date,
+    default: Date.now
+  },
+  expiresAt: {
+    type: Date,
+    required: true
+  },
+  revokedAt: Date,
+  revokedReason: String
+}, {
+  timestamps: true
+});
+
+// Indexes
+sessionSchema.index({ realm: 1, subject: 1, revokedAt: 1 });
+sessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Method to check the session has not been revoked or run out
+sessionSchema.methods.isActive = function(at: Date = new Date()): boolean {
+  return !this.revokedAt && this.expiresAt > at;
+};
+
+// Static method to find a live session belonging to the given account
+sessionSchema.statics.findActive = async function(
+  sessionId: Types.ObjectId | string,
+  realm: SessionRealm,
+  subject: Types.ObjectId | string
+): Promise<ISessionDocument | null> {
+  if (!Types.ObjectId.isValid(sessionId) || !Types.ObjectId.isValid(subject)) {
+    return null;
+  }
+  const session: ISessionDocument | null = await this.findOne({ _id: sessionId, realm, subject });
+  return session && session.isActive() ? session : null;
+};
+
+// Static method to revoke every live session of an account, optionally keeping one
+sessionSchema.statics.revokeAll = async function(
+  realm: SessionRealm,
+  subject: Types.ObjectId | string,
+  reason: string,
+  exceptSessionId?: Types.ObjectId | string
+): Promise<number> {
+  const filter: any = { realm, subject, revokedAt: null };
+  if (exceptSessionId) {
+    filter._id = { $ne: exceptSessionId };
+  }
+  const result = await this.updateMany(filter, { revokedAt: new Date(), revokedReason: reason });
+  return result.modifiedCount;
+};
+
+export default mongoose.model<ISessionDocument, ISessionModel>('Session', sessionSchema);
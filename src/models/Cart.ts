@@ -1,20 +1,39 @@
 import mongoose, { Document, Model, Schema, Types } from 'mongoose';
 import { ITimestamps } from '../types/common';
+import { PromotionType } from './Promotion/Promotion';
+import FranchiseProduct from './Franchise/FranchiseProduct';
+import { evaluatePromotions, IPromotionLine } from '../utils/promotions';
 
 export interface ICartItem {
+  _id?: Types.ObjectId;
   product: Types.ObjectId;
   franchiseProduct?: Types.ObjectId;
+  variant?: Types.ObjectId;  // Variant of the main product the franchise product lists
   quantity: number;
   price: number;
   total: number;
 }
 
+// A promotion applied to the cart, shown as a discount line under the items
+export interface ICartDiscount {
+  promotion: Types.ObjectId;
+  code?: string;
+  name: string;
+  type: PromotionType;
+  amount: number;
+}
+
 export interface ICart extends ITimestamps {
   user: Types.ObjectId;
   items: ICartItem[];
+  couponCode?: string;
+  couponError?: string;   // Why the entered coupon is not applied, if it is not
+  discounts: ICartDiscount[];
   totalItems: number;
   totalQuantity: number;
-  totalAmount: number;
+  subTotal: number;       // Items before discounts
+  discountTotal: number;
+  totalAmount: number;    // Items after discounts
 }
 
 export interface ICartDocument extends ICart, Document {
@@ -23,6 +42,7 @@ export interface ICartDocument extends ICart, Document {
   removeItem(productId: Types.ObjectId): Promise<void>;
   updateItemQuantity(productId: Types.ObjectId, quantity: number): Promise<void>;
   clearCart(): Promise<void>;
+  applyPromotions(): Promise<void>;
   calculateTotals(): void;
 }
 
@@ -41,6 +61,9 @@ const cartItemSchema = new Schema<ICartItem>({
     type: Schema.Types.ObjectId,
     ref: 'FranchiseProduct'
   },
+  variant: {
+    type: Schema.Types.ObjectId
+  },
   quantity: {
     type: Number,
     required: true,
@@ -67,6 +90,33 @@ const cartSchema = new Schema<ICartDocument, ICartModel>({
     unique: true
   },
   items: [cartItemSchema],
+  couponCode: {
+    type: String,
+    trim: true,
+    uppercase: true
+  },
+  couponError: String,
+  discounts: [{
+    promotion: {
+      type: Schema.Types.ObjectId,
+      ref: 'Promotion',
+      required: true
+    },
+    code: String,
+    name: {
+      type: String,
+      required: true
+    },
+    type: {
+      type: String,
+      required: true
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    }
+  }],
   totalItems: {
     type: Number,
     default: 0
@@ -75,6 +125,14 @@ const cartSchema = new Schema<ICartDocument, ICartModel>({
     type: Number,
     default: 0
   },
+  subTotal: {
+    type: Number,
+    default: 0
+  },
+  discountTotal: {
+    type: Number,
+    default: 0
+  },
   totalAmount: {
     type: Number,
     default: 0
@@ -86,6 +144,14 @@ const cartSchema = new Schema<ICartDocument, ICartModel>({
 // Indexes
 cartSchema.index({ user: 1 });
 
+// Re-price promotions whenever the items or the coupon change
+cartSchema.pre('save', async function(next) {
+  if (this.isNew || this.isModified('items') || this.isModified('couponCode')) {
+    await this.applyPromotions();
+  }
+  next();
+});
+
 // Method to add item to cart
 cartSchema.methods.addItem = async function(item: ICartItem): Promise<void> {
   const existingItemIndex = this.items.findIndex(
@@ -139,11 +205,45 @@ cartSchema.methods.clearCart = async function(): Promise<void> {
   await this.save();
 };
 
-// Method to calculate totals
+// Method to work out which promotions apply and set them as the cart's discount lines
+cartSchema.methods.applyPromotions = async function(): Promise<void> {
+  const franchiseProductIds = this.items
+    .filter((item: ICartItem) => item.franchiseProduct)
+    .map((item: ICartItem) => item.franchiseProduct);
+  const franchiseProducts = franchiseProductIds.length > 0
+    ? await FranchiseProduct.find({ _id: { $in: franchiseProductIds } }).select('bharatmartProduct franchise')
+    : [];
+  const franchiseProductById = new Map(franchiseProducts.map(product => [product._id.toString(), product]));
+
+  // Franchise lines are priced against the catalogue product they list
+  const lines: IPromotionLine[] = this.items.map((item: ICartItem) => {
+    const franchiseProduct = item.franchiseProduct ? franchiseProductById.get(item.franchiseProduct.toString()) : undefined;
+    return {
+      key: item._id!.toString(),
+      product: franchiseProduct ? franchiseProduct.bharatmartProduct : item.product,
+      franchise: franchiseProduct?.franchise,
+      quantity: item.quantity,
+      price: item.price,
+      total: item.total
+    };
+  });
+
+  const result = await evaluatePromotions(lines, { user: this.user, couponCode: this.couponCode });
+  this.discounts = result.applied.map(({ promotion, code, name, type, amount }) => ({ promotion, code, name, type, amount }));
+  this.couponError = this.couponCode ? result.couponError : undefined;
+  this.calculateTotals();
+};
+
+// Method to calculate totals, net of the discount lines
 cartSchema.methods.calculateTotals = function(): void {
   this.totalItems = this.items.length;
   this.totalQuantity = this.items.reduce((sum: number, item: ICartItem) => sum + item.quantity, 0);
-  this.totalAmount = this.items.reduce((sum: number, item: ICartItem) => sum + item.total, 0);
+  this.subTotal = this.items.reduce((sum: number, item: ICartItem) => sum + item.total, 0);
+  this.discountTotal = Math.min(
+    this.subTotal,
+    Math.round(this.discounts.reduce((sum: number, discount: ICartDiscount) => sum + discount.amount, 0) * 100) / 100
+  );
+  this.totalAmount = Math.round((this.subTotal - this.discountTotal) * 100) / 100;
 };
 
 // Static method to find cart by user
@@ -162,8 +262,11 @@ cartSchema.statics.createOrUpdateForUser = async function(userId: Types.ObjectId
   cart = new this({
     user: userId,
     items: [],
+    discounts: [],
     totalItems: 0,
     totalQuantity: 0,
+    subTotal: 0,
+    discountTotal: 0,
     totalAmount: 0
   });
   
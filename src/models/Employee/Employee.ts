@@ -36,6 +36,9 @@ export interface IEmployee {
   
   // Authentication
   password?: string;
+  loginAttempts: number;
+  lockUntil?: Date;
+  lockCount: number; // Lockouts since the last successful login, for backoff
   
   // User Reference (if employee is also a user in the system)
   userId?: Types.ObjectId;
@@ -143,6 +146,15 @@ const employeeSchema = new Schema<IEmployeeDocument>({
     type: String,
     select: false
   },
+  loginAttempts: {
+    type: Number,
+    default: 0
+  },
+  lockUntil: Date,
+  lockCount: {
+    type: Number,
+    default: 0
+  },
   
   // User Reference
   userId: {
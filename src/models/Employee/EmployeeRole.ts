@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document } from 'mongoose';
 import { BaseDocument } from '../../types/common';
+import { permissionListValidator } from '../../utils/permissions';
 
 export interface IEmployeeRole extends BaseDocument {
   name: string;
@@ -21,7 +22,8 @@ const employeeRoleSchema = new Schema<IEmployeeRole>({
   },
   permissions: {
     type: [String],
-    default: []
+    default: [],
+    validate: permissionListValidator
   },
   isActive: {
     type: Boolean,
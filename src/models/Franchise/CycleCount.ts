@@ -0,0 +1,335 @@
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
+import { IStaffActor, ITimestamps } from '../../types/common';
+
+export type CycleCountStatus = 'counting' | 'submitted' | 'approved' | 'rejected' | 'cancelled';
+
+export const CYCLE_COUNT_STATUSES: CycleCountStatus[] = ['counting', 'submitted', 'approved', 'rejected', 'cancelled'];
+
+/**
+ * Raised when a cycle count cannot be changed as asked; statusCode is the
+ * HTTP status the route should answer with.
+ */
+export class CycleCountError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'CycleCountError';
+  }
+}
+
+export interface ICycleCountItem {
+  _id?: Types.ObjectId;
+  franchiseProduct: Types.ObjectId;
+  bharatmartProduct: Types.ObjectId;
+  name: string;
+  sku?: string;
+  barcode?: string;
+  expectedQuantity: number;   // FranchiseProduct.stock when the count was opened
+  countedQuantity?: number;   // Unset until the shelf has been counted
+  variance: number;           // counted - expected
+  unitCost: number;
+  varianceValue: number;      // variance x unit cost
+  countedAt?: Date;
+  notes?: string;
+}
+
+export interface ICycleCountSummary {
+  totalLines: number;
+  countedLines: number;
+  varianceLines: number;
+  shortageUnits: number;
+  shortageValue: number;
+  surplusUnits: number;
+  surplusValue: number;
+  netVarianceValue: number;
+}
+
+export interface ICycleCount extends ITimestamps {
+  countNumber: string;
+  franchise: Types.ObjectId;
+  status: CycleCountStatus;
+  items: ICycleCountItem[];
+  summary: ICycleCountSummary;
+  notes?: string;
+  submittedAt?: Date;
+  reviewedBy?: Types.ObjectId;
+  reviewedByEmployee?: Types.ObjectId; // Set instead of reviewedBy when an employee reviewed it
+  reviewedAt?: Date;
+  resolutionNotes?: string;
+}
+
+export interface ICycleCountDocument extends ICycleCount, Document {
+  _id: Types.ObjectId;
+  recordCount(itemId: Types.ObjectId, countedQuantity: number, notes?: string): ICycleCountItem;
+  calculateSummary(): void;
+  submit(notes?: string): Promise<void>;
+  approve(reviewedBy: IStaffActor, notes?: string, session?: ClientSession): Promise<void>;
+  reject(reviewedBy: IStaffActor, reason: string): Promise<void>;
+}
+
+interface ICycleCountModel extends Model<ICycleCountDocument> {
+  generateCountNumber(): Promise<string>;
+  findOpenByFranchise(franchiseId: Types.ObjectId): Promise<ICycleCountDocument | null>;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const cycleCountItemSchema = new Schema<ICycleCountItem>({
+  franchiseProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'FranchiseProduct',
+    required: true
+  },
+  bharatmartProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  sku: String,
+  barcode: String,
+  expectedQuantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  countedQuantity: {
+    type: Number,
+    min: 0
+  },
+  variance: {
+    type: Number,
+    default: 0
+  },
+  unitCost: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  varianceValue: {
+    type: Number,
+    default: 0
+  },
+  countedAt: Date,
+  notes: {
+    type: String,
+    maxlength: 500
+  }
+});
+
+const cycleCountSchema = new Schema<ICycleCountDocument, ICycleCountModel>({
+  countNumber: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  franchise: {
+    type: Schema.Types.ObjectId,
+    ref: 'Franchise',
+    required: true
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: CYCLE_COUNT_STATUSES,
+    default: 'counting'
+  },
+  items: {
+    type: [cycleCountItemSchema],
+    validate: [(items: ICycleCountItem[]) => items.length > 0, 'A cycle count needs at least one product']
+  },
+  summary: {
+    totalLines: { type: Number, default: 0 },
+    countedLines: { type: Number, default: 0 },
+    varianceLines: { type: Number, default: 0 },
+    shortageUnits: { type: Number, default: 0 },
+    shortageValue: { type: Number, default: 0 },
+    surplusUnits: { type: Number, default: 0 },
+    surplusValue: { type: Number, default: 0 },
+    netVarianceValue: { type: Number, default: 0 }
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  },
+  submittedAt: Date,
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedByEmployee: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
+  reviewedAt: Date,
+  resolutionNotes: {
+    type: String,
+    maxlength: 500
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+cycleCountSchema.index({ franchise: 1, createdAt: -1 });
+cycleCountSchema.index({ status: 1, createdAt: -1 });
+
+// Static method to generate count number, e.g. CC2510140002
+cycleCountSchema.statics.generateCountNumber = async function(): Promise<string> {
+  const date = new Date();
+  const year = date.getFullYear().toString().slice(-2);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  const prefix = `CC${year}${month}${day}`;
+
+  const lastCount = await this.findOne({ countNumber: { $regex: `^${prefix}` } }, {}, { sort: { countNumber: -1 } });
+  let sequence = 1;
+
+  if (lastCount) {
+    const lastSequence = parseInt(lastCount.countNumber.slice(-4));
+    sequence = lastSequence + 1;
+  }
+
+  return `${prefix}${sequence.toString().padStart(4, '0')}`;
+};
+
+// Static method to find the count a franchise still has open (counting or awaiting approval)
+cycleCountSchema.statics.findOpenByFranchise = function(
+  franchiseId: Types.ObjectId
+): Promise<ICycleCountDocument | null> {
+  return this.findOne({ franchise: franchiseId, status: { $in: ['counting', 'submitted'] } });
+};
+
+// Method to record a counted quantity against a line; recounts overwrite the earlier figure
+cycleCountSchema.methods.recordCount = function(
+  this: ICycleCountDocument,
+  itemId: Types.ObjectId,
+  countedQuantity: number,
+  notes?: string
+): ICycleCountItem {
+  if (this.status !== 'counting') {
+    throw new CycleCountError(`Cannot record counts on a ${this.status} cycle count`);
+  }
+
+  const item = this.items.find(line => line._id?.equals(itemId));
+  if (!item) {
+    throw new CycleCountError(`Cycle count line ${itemId} not found`, 404);
+  }
+
+  item.countedQuantity = countedQuantity;
+  item.variance = countedQuantity - item.expectedQuantity;
+  item.varianceValue = roundCurrency(item.variance * item.unitCost);
+  item.countedAt = new Date();
+  if (notes !== undefined) {
+    item.notes = notes;
+  }
+
+  return item;
+};
+
+// Method to total shortages and surpluses across counted lines
+cycleCountSchema.methods.calculateSummary = function(this: ICycleCountDocument): void {
+  const summary: ICycleCountSummary = {
+    totalLines: this.items.length,
+    countedLines: 0,
+    varianceLines: 0,
+    shortageUnits: 0,
+    shortageValue: 0,
+    surplusUnits: 0,
+    surplusValue: 0,
+    netVarianceValue: 0
+  };
+
+  for (const item of this.items) {
+    if (item.countedQuantity === undefined || item.countedQuantity === null) {
+      continue;
+    }
+
+    summary.countedLines += 1;
+    if (item.variance < 0) {
+      summary.varianceLines += 1;
+      summary.shortageUnits -= item.variance;
+      summary.shortageValue -= item.varianceValue;
+    } else if (item.variance > 0) {
+      summary.varianceLines += 1;
+      summary.surplusUnits += item.variance;
+      summary.surplusValue += item.varianceValue;
+    }
+  }
+
+  summary.shortageValue = roundCurrency(summary.shortageValue);
+  summary.surplusValue = roundCurrency(summary.surplusValue);
+  summary.netVarianceValue = roundCurrency(summary.surplusValue - summary.shortageValue);
+
+  this.summary = summary;
+};
+
+// Method to hand the count to a supervisor; every line must have been counted
+cycleCountSchema.methods.submit = async function(this: ICycleCountDocument, notes?: string): Promise<void> {
+  if (this.status !== 'counting') {
+    throw new CycleCountError(`Cannot submit a ${this.status} cycle count`);
+  }
+
+  const uncounted = this.items.filter(item => item.countedQuantity === undefined || item.countedQuantity === null);
+  if (uncounted.length > 0) {
+    throw new CycleCountError(`${uncounted.length} products have not been counted yet`);
+  }
+
+  this.calculateSummary();
+  this.status = 'submitted';
+  this.submittedAt = new Date();
+  if (notes !== undefined) {
+    this.notes = notes;
+  }
+
+  await this.save();
+};
+
+// Method to accept the count; the caller posts the adjustments in the same session
+cycleCountSchema.methods.approve = async function(
+  this: ICycleCountDocument,
+  reviewedBy: IStaffActor,
+  notes?: string,
+  session?: ClientSession
+): Promise<void> {
+  if (this.status !== 'submitted') {
+    throw new CycleCountError('Only submitted cycle counts can be approved');
+  }
+
+  this.status = 'approved';
+  if (reviewedBy.isEmployee) {
+    this.reviewedByEmployee = reviewedBy.id;
+  } else {
+    this.reviewedBy = reviewedBy.id;
+  }
+  this.reviewedAt = new Date();
+  this.resolutionNotes = notes;
+
+  await this.save({ session });
+};
+
+// Method to send the count back; stock is left untouched
+cycleCountSchema.methods.reject = async function(
+  this: ICycleCountDocument,
+  reviewedBy: IStaffActor,
+  reason: string
+): Promise<void> {
+  if (this.status !== 'submitted') {
+    throw new CycleCountError('Only submitted cycle counts can be rejected');
+  }
+
+  this.status = 'rejected';
+  if (reviewedBy.isEmployee) {
+    this.reviewedByEmployee = reviewedBy.id;
+  } else {
+    this.reviewedBy = reviewedBy.id;
+  }
+  this.reviewedAt = new Date();
+  this.resolutionNotes = reason;
+
+  await this.save();
+};
+
+export default mongoose.model<ICycleCountDocument, ICycleCountModel>('CycleCount', cycleCountSchema);
@@ -1,6 +1,6 @@
 import mongoose, { Schema, Model, Types } from 'mongoose';
 import bcrypt from 'bcryptjs';
-import { BaseDocument } from '../../types/common';
+import { BaseDocument, IGeoPoint } from '../../types/common';
 
 export interface IFranchiseBank {
   name?: string;
@@ -16,6 +16,14 @@ export interface IFranchiseInvestment {
   max?: number;
 }
 
+// Reorder planning settings used by the replenishment engine
+export interface IFranchiseReplenishment {
+  leadTimeDays: number;       // Days between requesting stock and receiving it
+  safetyStockDays: number;    // Days of sales held back as a buffer
+  reviewPeriodDays: number;   // Days of sales each reorder should cover
+  velocityWindowDays: number; // Sales history used to compute velocity
+}
+
 export interface IFranchise extends BaseDocument {
   // Franchise details
   name: string;
@@ -30,6 +38,8 @@ export interface IFranchise extends BaseDocument {
   phone?: string;
   email?: string;
   address?: string;
+  city?: string;        // Used to assign city-wide price lists
+  location?: IGeoPoint; // Used to pick the nearest warehouse for transfers
 
   // Owner reference
   owner?: Types.ObjectId;
@@ -49,6 +59,9 @@ export interface IFranchise extends BaseDocument {
   establishedYear?: number;
   totalUnits?: number;
 
+  // Inventory planning
+  replenishment: IFranchiseReplenishment;
+
   // Status
   isActive: boolean;
   isVerified: boolean;
@@ -59,6 +72,10 @@ export interface IFranchise extends BaseDocument {
   // Password reset OTP fields
   resetPasswordOTP?: string;
   resetPasswordExpires?: Date;
+  // Lockout after repeated failed logins
+  loginAttempts: number;
+  lockUntil?: Date;
+  lockCount: number;
 }
 
 interface IFranchiseModel extends Model<IFranchise> {
@@ -102,6 +119,22 @@ const franchiseSchema = new Schema<IFranchise>({
   phone: String,
   email: String,
   address: String,
+  city: {
+    type: String,
+    trim: true
+  },
+  location: {
+    latitude: {
+      type: Number,
+      min: -90,
+      max: 90
+    },
+    longitude: {
+      type: Number,
+      min: -180,
+      max: 180
+    }
+  },
 
   // Owner reference
   owner: {
@@ -131,6 +164,30 @@ const franchiseSchema = new Schema<IFranchise>({
   establishedYear: Number,
   totalUnits: Number,
 
+  // Inventory planning
+  replenishment: {
+    leadTimeDays: {
+      type: Number,
+      min: 0,
+      default: 3
+    },
+    safetyStockDays: {
+      type: Number,
+      min: 0,
+      default: 2
+    },
+    reviewPeriodDays: {
+      type: Number,
+      min: 1,
+      default: 7
+    },
+    velocityWindowDays: {
+      type: Number,
+      min: 1,
+      default: 28
+    }
+  },
+
   // Status
   isActive: {
     type: Boolean,
@@ -156,6 +213,15 @@ const franchiseSchema = new Schema<IFranchise>({
   },
   resetPasswordExpires: {
     type: Date
+  },
+  loginAttempts: {
+    type: Number,
+    default: 0
+  },
+  lockUntil: Date,
+  lockCount: {
+    type: Number,
+    default: 0
   }
 }, {
   timestamps: true // This replaces the manual createdAt and updatedAt fields
@@ -1,5 +1,6 @@
-import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
 import { ITimestamps } from '../../types/common';
+import FranchiseStockLot, { ILotAllocation } from './FranchiseStockLot';
 
 export type InventoryTransactionType = 
   | 'purchase' 
@@ -23,11 +24,13 @@ export interface IFranchiseInventory extends ITimestamps {
   referenceNumber?: string; // Order ID, Purchase Order, etc.
   notes?: string;
   performedBy?: Types.ObjectId; // User who performed the transaction
+  performedByEmployee?: Types.ObjectId; // Set instead of performedBy when an employee performed it
   costPerUnit?: number;
   totalCost?: number;
   supplier?: string;
   expiryDate?: Date;
   batchNumber?: string;
+  lots?: ILotAllocation[]; // Stock lots the movement was booked against
 }
 
 export interface IFranchiseInventoryDocument extends IFranchiseInventory, Document {
@@ -44,10 +47,13 @@ interface IFranchiseInventoryModel extends Model<IFranchiseInventoryDocument> {
       referenceNumber?: string;
       notes?: string;
       performedBy?: Types.ObjectId;
+      performedByEmployee?: Types.ObjectId;
       costPerUnit?: number;
       supplier?: string;
       expiryDate?: Date;
       batchNumber?: string;
+      lot?: Types.ObjectId; // Consume from this lot instead of FEFO
+      session?: ClientSession; // Run inside the caller's transaction
     }
   ): Promise<IFranchiseInventoryDocument>;
   
@@ -117,6 +123,10 @@ const franchiseInventorySchema = new Schema<IFranchiseInventoryDocument, IFranch
     type: Schema.Types.ObjectId,
     ref: 'User'
   },
+  performedByEmployee: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
   costPerUnit: {
     type: Number,
     min: 0
@@ -135,7 +145,17 @@ const franchiseInventorySchema = new Schema<IFranchiseInventoryDocument, IFranch
   batchNumber: {
     type: String,
     trim: true
-  }
+  },
+  lots: [{
+    _id: false,
+    lot: {
+      type: Schema.Types.ObjectId,
+      ref: 'FranchiseStockLot'
+    },
+    quantity: Number,
+    batchNumber: String,
+    expiryDate: Date
+  }]
 }, {
   timestamps: true
 });
@@ -154,12 +174,13 @@ franchiseInventorySchema.statics.recordTransaction = async function(
   options = {}
 ): Promise<IFranchiseInventoryDocument> {
   const FranchiseProduct = mongoose.model('FranchiseProduct');
+  const { session, lot, ...details } = options;
   
   // Get current product stock
   const product = await FranchiseProduct.findOne({ 
     _id: productId, 
     franchise: franchiseId 
-  });
+  }).session(session || null);
   
   if (!product) {
     throw new Error('Product not found');
@@ -173,10 +194,28 @@ franchiseInventorySchema.statics.recordTransaction = async function(
   }
   
   // Calculate total cost if costPerUnit is provided
-  const totalCost = options.costPerUnit ? Math.abs(quantity) * options.costPerUnit : undefined;
+  const totalCost = details.costPerUnit ? Math.abs(quantity) * details.costPerUnit : undefined;
+
+  // Book the movement against stock lots: additions open a lot, reductions consume FEFO
+  await FranchiseStockLot.reconcile(franchiseId, productId, previousStock, session);
+  let lots: ILotAllocation[] = [];
+  if (quantity > 0) {
+    const received = await FranchiseStockLot.receive(franchiseId, productId, quantity, type, {
+      batchNumber: details.batchNumber,
+      expiryDate: details.expiryDate,
+      costPerUnit: details.costPerUnit,
+      referenceNumber: details.referenceNumber,
+      session
+    });
+    lots = [{ lot: received._id, quantity, batchNumber: received.batchNumber, expiryDate: received.expiryDate }];
+  } else if (quantity < 0) {
+    // Expired units are written off, never sold or shipped
+    const unexpiredOnly = type === 'sale' || type === 'transfer_out';
+    lots = await FranchiseStockLot.consume(franchiseId, productId, -quantity, { lot, unexpiredOnly, session });
+  }
   
   // Create inventory transaction
-  const transaction = await this.create({
+  const [transaction] = await this.create([{
     franchise: franchiseId,
     product: productId,
     transactionType: type,
@@ -184,12 +223,13 @@ franchiseInventorySchema.statics.recordTransaction = async function(
     previousStock,
     newStock,
     totalCost,
-    ...options
-  });
+    lots,
+    ...details
+  }], { session });
   
   // Update product stock
   product.stock = newStock;
-  await product.save();
+  await product.save({ session });
   
   return transaction;
 };
@@ -216,6 +256,7 @@ franchiseInventorySchema.statics.getInventoryHistory = async function(
   return this.find(query)
     .populate('product', 'name sku')
     .populate('performedBy', 'name email')
+    .populate('performedByEmployee', 'firstName lastName email')
     .sort({ createdAt: -1 })
     .lean()
     .exec();
@@ -3,6 +3,7 @@ import { ITimestamps, IImage, IWeight, IDimensions } from '../../types/common';
 
 export interface IFranchiseProduct extends ITimestamps {
   bharatmartProduct: Types.ObjectId; // Required reference to main Bharatmart product
+  variant?: Types.ObjectId | null; // Variant of the main product, for products sold in variants
   franchise: Types.ObjectId;
   stock: number;
   minStock: number;
@@ -32,6 +33,10 @@ const franchiseProductSchema = new Schema<IFranchiseProductDocument, IFranchiseP
     required: true,
     index: true
   },
+  variant: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
   franchise: {
     type: Schema.Types.ObjectId,
     ref: 'Franchise',
@@ -63,7 +68,7 @@ const franchiseProductSchema = new Schema<IFranchiseProductDocument, IFranchiseP
 });
 
 // Indexes
-franchiseProductSchema.index({ franchise: 1, bharatmartProduct: 1 }, { unique: true }); // One franchise can only have one entry per product
+franchiseProductSchema.index({ franchise: 1, bharatmartProduct: 1, variant: 1 }, { unique: true }); // One franchise can only have one entry per product variant
 franchiseProductSchema.index({ bharatmartProduct: 1 });
 franchiseProductSchema.index({ franchise: 1 });
 franchiseProductSchema.index({ isActive: 1 });
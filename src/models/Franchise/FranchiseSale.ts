@@ -0,0 +1,254 @@
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+
+export type PosPaymentMode = 'cash' | 'card' | 'upi' | 'wallet';
+export type SaleStatus = 'completed' | 'voided';
+export type DiscountType = 'percent' | 'flat';
+
+export interface ISaleDiscount {
+  type: DiscountType;
+  value: number;
+}
+
+export interface ISaleLine {
+  franchiseProduct: Types.ObjectId;
+  bharatmartProduct: Types.ObjectId;
+  name: string;
+  sku?: string;
+  quantity: number;
+  unitPrice: number;     // Counter price, GST inclusive
+  discount: number;      // Line discount amount
+  billDiscount: number;  // Share of the bill-level discount
+  gstRate: number;
+  taxAmount: number;     // GST contained in the line total
+  total: number;
+}
+
+export interface ISalePayment {
+  mode: PosPaymentMode;
+  amount: number;
+  reference?: string; // Card slip / UPI transaction reference
+}
+
+export interface IFranchiseSale extends ITimestamps {
+  billNumber: string;
+  franchise: Types.ObjectId;
+  businessDate: string; // YYYY-MM-DD in store time, used for Z-reports
+  items: ISaleLine[];
+  subTotal: number;
+  discountTotal: number;
+  billDiscount?: ISaleDiscount;
+  taxAmount: number;
+  total: number;
+  payments: ISalePayment[];
+  amountPaid: number;
+  changeDue: number;
+  customer?: {
+    name?: string;
+    phone?: string;
+  };
+  status: SaleStatus;
+  voidReason?: string;
+  voidedAt?: Date;
+  zReport?: Types.ObjectId;
+  notes?: string;
+}
+
+export interface IFranchiseSaleDocument extends IFranchiseSale, Document {
+  _id: Types.ObjectId;
+}
+
+interface IFranchiseSaleModel extends Model<IFranchiseSaleDocument> {
+  generateBillNumber(franchiseId: Types.ObjectId, session?: ClientSession): Promise<string>;
+}
+
+const POS_TIMEZONE = 'Asia/Kolkata';
+
+// Store-local calendar date (YYYY-MM-DD) a sale belongs to
+export const getBusinessDate = (date: Date = new Date()): string =>
+  date.toLocaleDateString('en-CA', { timeZone: POS_TIMEZONE });
+
+const saleLineSchema = new Schema<ISaleLine>({
+  franchiseProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'FranchiseProduct',
+    required: true
+  },
+  bharatmartProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  sku: String,
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  unitPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  discount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  billDiscount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  gstRate: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  taxAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  total: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+});
+
+const salePaymentSchema = new Schema<ISalePayment>({
+  mode: {
+    type: String,
+    required: true,
+    enum: ['cash', 'card', 'upi', 'wallet']
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  reference: {
+    type: String,
+    trim: true
+  }
+}, { _id: false });
+
+const franchiseSaleSchema = new Schema<IFranchiseSaleDocument, IFranchiseSaleModel>({
+  billNumber: {
+    type: String,
+    required: true
+  },
+  franchise: {
+    type: Schema.Types.ObjectId,
+    ref: 'Franchise',
+    required: true
+  },
+  businessDate: {
+    type: String,
+    required: true
+  },
+  items: {
+    type: [saleLineSchema],
+    validate: [(items: ISaleLine[]) => items.length > 0, 'A bill needs at least one line']
+  },
+  subTotal: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  discountTotal: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  billDiscount: {
+    type: {
+      type: String,
+      enum: ['percent', 'flat']
+    },
+    value: Number
+  },
+  taxAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  total: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  payments: [salePaymentSchema],
+  amountPaid: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  changeDue: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  customer: {
+    name: {
+      type: String,
+      trim: true
+    },
+    phone: {
+      type: String,
+      trim: true
+    }
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['completed', 'voided'],
+    default: 'completed'
+  },
+  voidReason: String,
+  voidedAt: Date,
+  zReport: {
+    type: Schema.Types.ObjectId,
+    ref: 'FranchiseZReport'
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+franchiseSaleSchema.index({ franchise: 1, billNumber: 1 }, { unique: true });
+franchiseSaleSchema.index({ franchise: 1, businessDate: 1, status: 1 });
+franchiseSaleSchema.index({ franchise: 1, createdAt: -1 });
+
+// Static method to generate the next bill number of the day for a franchise, e.g. B2510140007
+franchiseSaleSchema.statics.generateBillNumber = async function(
+  franchiseId: Types.ObjectId,
+  session?: ClientSession
+): Promise<string> {
+  const prefix = `B${getBusinessDate().replace(/-/g, '').slice(2)}`;
+
+  const lastSale = await this.findOne(
+    { franchise: franchiseId, billNumber: { $regex: `^${prefix}` } },
+    {},
+    { sort: { billNumber: -1 }, session }
+  );
+  let sequence = 1;
+
+  if (lastSale) {
+    const lastSequence = parseInt(lastSale.billNumber.slice(-4));
+    sequence = lastSequence + 1;
+  }
+
+  return `${prefix}${sequence.toString().padStart(4, '0')}`;
+};
+
+export default mongoose.model<IFranchiseSaleDocument, IFranchiseSaleModel>('FranchiseSale', franchiseSaleSchema);
@@ -0,0 +1,265 @@
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+
+export interface IFranchiseStockLot extends ITimestamps {
+  franchise: Types.ObjectId;
+  franchiseProduct: Types.ObjectId;
+  batchNumber?: string;
+  expiryDate?: Date;
+  receivedAt: Date;
+  quantityReceived: number;
+  quantityRemaining: number;
+  costPerUnit?: number;
+  source: string; // Inventory transaction type that created the lot
+  referenceNumber?: string;
+}
+
+export interface IFranchiseStockLotDocument extends IFranchiseStockLot, Document {
+  _id: Types.ObjectId;
+}
+
+export interface ILotAllocation {
+  lot: Types.ObjectId;
+  quantity: number;
+  batchNumber?: string;
+  expiryDate?: Date;
+}
+
+export interface IReceiveLotOptions {
+  batchNumber?: string;
+  expiryDate?: Date;
+  costPerUnit?: number;
+  referenceNumber?: string;
+  session?: ClientSession;
+}
+
+export interface IConsumeLotOptions {
+  lot?: Types.ObjectId;
+  unexpiredOnly?: boolean; // Leave lots past their expiry date on the shelf for the write-off
+  session?: ClientSession;
+}
+
+interface IFranchiseStockLotModel extends Model<IFranchiseStockLotDocument> {
+  receive(
+    franchiseId: Types.ObjectId,
+    productId: Types.ObjectId,
+    quantity: number,
+    source: string,
+    options?: IReceiveLotOptions
+  ): Promise<IFranchiseStockLotDocument>;
+  consume(
+    franchiseId: Types.ObjectId,
+    productId: Types.ObjectId,
+    quantity: number,
+    options?: IConsumeLotOptions
+  ): Promise<ILotAllocation[]>;
+  reconcile(
+    franchiseId: Types.ObjectId,
+    productId: Types.ObjectId,
+    currentStock: number,
+    session?: ClientSession
+  ): Promise<void>;
+}
+
+const franchiseStockLotSchema = new Schema<IFranchiseStockLotDocument, IFranchiseStockLotModel>({
+  franchise: {
+    type: Schema.Types.ObjectId,
+    ref: 'Franchise',
+    required: true
+  },
+  franchiseProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'FranchiseProduct',
+    required: true
+  },
+  batchNumber: {
+    type: String,
+    trim: true
+  },
+  expiryDate: {
+    type: Date
+  },
+  receivedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  quantityReceived: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  quantityRemaining: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  costPerUnit: {
+    type: Number,
+    min: 0
+  },
+  source: {
+    type: String,
+    required: true
+  },
+  referenceNumber: {
+    type: String,
+    trim: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+franchiseStockLotSchema.index({ franchise: 1, franchiseProduct: 1, quantityRemaining: 1 });
+franchiseStockLotSchema.index({ franchise: 1, expiryDate: 1, quantityRemaining: 1 });
+franchiseStockLotSchema.index({ expiryDate: 1, quantityRemaining: 1 });
+
+// First-expiry-first-out: earliest expiry first, lots without expiry last, then oldest receipt
+const fefoOrder = (a: IFranchiseStockLotDocument, b: IFranchiseStockLotDocument): number => {
+  const aExpiry = a.expiryDate ? a.expiryDate.getTime() : Number.POSITIVE_INFINITY;
+  const bExpiry = b.expiryDate ? b.expiryDate.getTime() : Number.POSITIVE_INFINITY;
+  if (aExpiry !== bExpiry) {
+    return aExpiry - bExpiry;
+  }
+  return a.receivedAt.getTime() - b.receivedAt.getTime();
+};
+
+// Static method to put received units on the shelf, topping up an open lot of the same batch and expiry
+franchiseStockLotSchema.statics.receive = async function(
+  franchiseId: Types.ObjectId,
+  productId: Types.ObjectId,
+  quantity: number,
+  source: string,
+  options: IReceiveLotOptions = {}
+): Promise<IFranchiseStockLotDocument> {
+  const { session, ...details } = options;
+
+  if (details.batchNumber || details.expiryDate) {
+    const existing = await this.findOneAndUpdate(
+      {
+        franchise: franchiseId,
+        franchiseProduct: productId,
+        batchNumber: details.batchNumber,
+        expiryDate: details.expiryDate,
+        quantityRemaining: { $gt: 0 }
+      },
+      { $inc: { quantityReceived: quantity, quantityRemaining: quantity } },
+      { new: true, session }
+    );
+    if (existing) {
+      return existing;
+    }
+  }
+
+  const [lot] = await this.create([{
+    franchise: franchiseId,
+    franchiseProduct: productId,
+    quantityReceived: quantity,
+    quantityRemaining: quantity,
+    receivedAt: new Date(),
+    source,
+    ...details
+  }], { session });
+  return lot;
+};
+
+/**
+ * Static method to take units off the shelf. A specific lot is drained when
+ * given (e.g. an expiry write-off), otherwise lots are consumed FEFO. With
+ * unexpiredOnly, expired lots are skipped and nothing is taken unless the
+ * rest cover the quantity. Returns how many units came from each lot.
+ */
+franchiseStockLotSchema.statics.consume = async function(
+  franchiseId: Types.ObjectId,
+  productId: Types.ObjectId,
+  quantity: number,
+  options: IConsumeLotOptions = {}
+): Promise<ILotAllocation[]> {
+  const filter: any = {
+    franchise: franchiseId,
+    franchiseProduct: productId,
+    quantityRemaining: { $gt: 0 }
+  };
+  if (options.lot) {
+    filter._id = options.lot;
+  }
+  if (options.unexpiredOnly) {
+    filter.$or = [{ expiryDate: null }, { expiryDate: { $gte: new Date() } }];
+  }
+
+  const lots: IFranchiseStockLotDocument[] = await this.find(filter).session(options.session || null);
+  lots.sort(fefoOrder);
+
+  if (options.unexpiredOnly) {
+    const available = lots.reduce((sum, lot) => sum + lot.quantityRemaining, 0);
+    if (available < quantity) {
+      throw new Error(`Only ${available} unexpired units on hand, ${quantity} requested`);
+    }
+  }
+
+  const allocations: ILotAllocation[] = [];
+  let outstanding = quantity;
+
+  for (const lot of lots) {
+    if (outstanding <= 0) {
+      break;
+    }
+    const taken = Math.min(lot.quantityRemaining, outstanding);
+    lot.quantityRemaining -= taken;
+    outstanding -= taken;
+    await lot.save({ session: options.session });
+
+    allocations.push({
+      lot: lot._id,
+      quantity: taken,
+      batchNumber: lot.batchNumber,
+      expiryDate: lot.expiryDate
+    });
+  }
+
+  if (options.lot && outstanding > 0) {
+    throw new Error(`Lot ${options.lot} does not hold ${quantity} units`);
+  }
+
+  return allocations;
+};
+
+/**
+ * Static method to line lots up with FranchiseProduct.stock before a movement.
+ * Stock that predates lot tracking gets an untracked opening lot; stock taken
+ * outside the ledger (online order reservations) is consumed FEFO.
+ */
+franchiseStockLotSchema.statics.reconcile = async function(
+  franchiseId: Types.ObjectId,
+  productId: Types.ObjectId,
+  currentStock: number,
+  session?: ClientSession
+): Promise<void> {
+  const [tracked] = await this.aggregate([
+    {
+      $match: {
+        franchise: new Types.ObjectId(franchiseId),
+        franchiseProduct: new Types.ObjectId(productId),
+        quantityRemaining: { $gt: 0 }
+      }
+    },
+    { $group: { _id: null, quantity: { $sum: '$quantityRemaining' } } }
+  ]).session(session || null);
+
+  const untracked = currentStock - (tracked?.quantity || 0);
+  if (untracked < 0) {
+    await (this as IFranchiseStockLotModel).consume(franchiseId, productId, -untracked, { session });
+  } else if (untracked > 0) {
+    await this.create([{
+      franchise: franchiseId,
+      franchiseProduct: productId,
+      quantityReceived: untracked,
+      quantityRemaining: untracked,
+      receivedAt: new Date(0),
+      source: 'initial_stock'
+    }], { session });
+  }
+};
+
+export default mongoose.model<IFranchiseStockLotDocument, IFranchiseStockLotModel>('FranchiseStockLot', franchiseStockLotSchema);
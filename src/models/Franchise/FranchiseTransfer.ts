@@ -1,31 +1,46 @@
 import mongoose, { Document, Model, Schema, Types } from 'mongoose';
-import { ITimestamps } from '../../types/common';
+import { IStaffActor, ITimestamps } from '../../types/common';
 
-export type TransferStatus = 'requested' | 'rejected' | 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
+export type TransferStatus = 'requested' | 'rejected' | 'pending' | 'processing' | 'shipped' | 'partially_received' | 'delivered' | 'cancelled';
 
 export interface ITransferItem {
+  _id?: Types.ObjectId;
   bharatmartProduct: Types.ObjectId; // Reference to main product
+  variant?: Types.ObjectId;          // Product variant shipped, for products sold in variants
   franchiseProduct: Types.ObjectId;  // Reference to franchise product
+  sourceFranchiseProduct?: Types.ObjectId; // Product debited at the source franchise, if any
   quantity: number;
   unitPrice: number;
   totalPrice: number;
+  batchNumber?: string; // Lot details carried into the franchise stock lot on receipt
+  expiryDate?: Date;
+  receivedQuantity?: number;  // Units that arrived in saleable condition
+  damagedQuantity?: number;   // Units that arrived damaged and were written off
+  missingQuantity?: number;   // Units reported short; cleared again if admin rejects the discrepancy
+  creditedQuantity?: number;  // Damaged or missing units accepted by admin and not billed
 }
 
 export interface ITransfer extends ITimestamps {
   transferNumber: string;
   bharatmartManager?: Types.ObjectId;  // Who initiated/approved the transfer
   franchise: Types.ObjectId;          // Target franchise
+  sourceFranchise?: Types.ObjectId;   // Sending franchise; central catalogue when absent
+  sourceWarehouse?: Types.ObjectId;   // Central warehouse the stock ships from
+  stockReserved?: boolean;            // Warehouse stock is held for this transfer until it ships
   items: ITransferItem[];
   status: TransferStatus;
   notes?: string;
   deliveredAt?: Date;
   deliveredBy?: Types.ObjectId;       // Who marked as delivered
+  deliveredByEmployee?: Types.ObjectId; // Set instead of deliveredBy when an employee marked it
   // Request-specific fields
   requestedBy?: Types.ObjectId;       // Franchise user who requested
   requestedAt?: Date;                 // When requested
   approvedBy?: Types.ObjectId;        // Admin who approved
+  approvedByEmployee?: Types.ObjectId; // Set instead of approvedBy when an employee approved
   approvedAt?: Date;                  // When approved
   rejectedBy?: Types.ObjectId;        // Admin who rejected
+  rejectedByEmployee?: Types.ObjectId; // Set instead of rejectedBy when an employee rejected
   rejectedAt?: Date;                  // When rejected
   rejectionReason?: string;           // Why rejected
   statusHistory?: Array<{             // Track all status changes
@@ -33,16 +48,17 @@ export interface ITransfer extends ITimestamps {
     timestamp: Date;
     notes?: string;
     changedBy?: Types.ObjectId;
+    changedByEmployee?: Types.ObjectId;
   }>;
 }
 
 export interface ITransferDocument extends ITransfer, Document {
   _id: Types.ObjectId;
-  updateStatus(status: TransferStatus, notes?: string, changedBy?: Types.ObjectId): Promise<void>;
-  markAsDelivered(deliveredBy?: Types.ObjectId): Promise<void>;
+  updateStatus(status: TransferStatus, notes?: string, changedBy?: IStaffActor): Promise<void>;
+  markAsDelivered(deliveredBy?: IStaffActor, notes?: string): Promise<void>;
   addNote(note: string): Promise<void>;
-  approve(approvedBy: Types.ObjectId, notes?: string): Promise<void>;
-  reject(rejectedBy: Types.ObjectId, reason: string): Promise<void>;
+  approve(approvedBy: IStaffActor, notes?: string): Promise<void>;
+  reject(rejectedBy: IStaffActor, reason: string): Promise<void>;
 }
 
 interface ITransferModel extends Model<ITransferDocument> {
@@ -57,11 +73,18 @@ const transferItemSchema = new Schema<ITransferItem>({
     ref: 'Product',
     required: true
   },
+  variant: {
+    type: Schema.Types.ObjectId
+  },
   franchiseProduct: {
     type: Schema.Types.ObjectId,
     ref: 'FranchiseProduct',
     required: true
   },
+  sourceFranchiseProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'FranchiseProduct'
+  },
   quantity: {
     type: Number,
     required: true,
@@ -76,9 +99,40 @@ const transferItemSchema = new Schema<ITransferItem>({
     type: Number,
     required: true,
     min: 0
+  },
+  batchNumber: {
+    type: String,
+    trim: true
+  },
+  expiryDate: {
+    type: Date
+  },
+  receivedQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  damagedQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  missingQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  creditedQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
   }
 });
 
+// Units of a line the franchise has not yet accounted for as received, damaged or missing
+export const getOutstandingQuantity = (item: ITransferItem): number =>
+  item.quantity - (item.receivedQuantity || 0) - (item.damagedQuantity || 0) - (item.missingQuantity || 0);
+
 const transferSchema = new Schema<ITransferDocument, ITransferModel>({
   transferNumber: {
     type: String,
@@ -94,11 +148,23 @@ const transferSchema = new Schema<ITransferDocument, ITransferModel>({
     ref: 'Franchise',
     required: true
   },
+  sourceFranchise: {
+    type: Schema.Types.ObjectId,
+    ref: 'Franchise'
+  },
+  sourceWarehouse: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse'
+  },
+  stockReserved: {
+    type: Boolean,
+    default: false
+  },
   items: [transferItemSchema],
   status: {
     type: String,
     required: true,
-    enum: ['requested', 'rejected', 'pending', 'processing', 'shipped', 'delivered', 'cancelled'],
+    enum: ['requested', 'rejected', 'pending', 'processing', 'shipped', 'partially_received', 'delivered', 'cancelled'],
     default: 'requested'
   },
   notes: {
@@ -111,6 +177,10 @@ const transferSchema = new Schema<ITransferDocument, ITransferModel>({
     type: Schema.Types.ObjectId,
     ref: 'User'
   },
+  deliveredByEmployee: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
   // Request fields
   requestedBy: {
     type: Schema.Types.ObjectId,
@@ -123,6 +193,10 @@ const transferSchema = new Schema<ITransferDocument, ITransferModel>({
     type: Schema.Types.ObjectId,
     ref: 'User'
   },
+  approvedByEmployee: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
   approvedAt: {
     type: Date
   },
@@ -130,6 +204,10 @@ const transferSchema = new Schema<ITransferDocument, ITransferModel>({
     type: Schema.Types.ObjectId,
     ref: 'User'
   },
+  rejectedByEmployee: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
   rejectedAt: {
     type: Date
   },
@@ -139,7 +217,7 @@ const transferSchema = new Schema<ITransferDocument, ITransferModel>({
   statusHistory: [{
     status: {
       type: String,
-      enum: ['requested', 'rejected', 'pending', 'processing', 'shipped', 'delivered', 'cancelled'],
+      enum: ['requested', 'rejected', 'pending', 'processing', 'shipped', 'partially_received', 'delivered', 'cancelled'],
       required: true
     },
     timestamp: {
@@ -150,6 +228,10 @@ const transferSchema = new Schema<ITransferDocument, ITransferModel>({
     changedBy: {
       type: Schema.Types.ObjectId,
       ref: 'User'
+    },
+    changedByEmployee: {
+      type: Schema.Types.ObjectId,
+      ref: 'Employee'
     }
   }]
 }, {
@@ -159,6 +241,8 @@ const transferSchema = new Schema<ITransferDocument, ITransferModel>({
 // Indexes
 transferSchema.index({ transferNumber: 1 }, { unique: true });
 transferSchema.index({ franchise: 1 });
+transferSchema.index({ sourceFranchise: 1 }, { sparse: true });
+transferSchema.index({ sourceWarehouse: 1 }, { sparse: true });
 transferSchema.index({ status: 1 });
 transferSchema.index({ bharatmartManager: 1 });
 transferSchema.index({ createdAt: -1 });
@@ -181,8 +265,12 @@ transferSchema.statics.generateTransferNumber = async function(): Promise<string
   return `TRF${year}${month}${day}${sequence.toString().padStart(4, '0')}`;
 };
 
+// Employees are kept in their own collection, so their changes are recorded under the employee reference
+const changedByFields = (changedBy?: IStaffActor) =>
+  changedBy?.isEmployee ? { changedByEmployee: changedBy.id } : { changedBy: changedBy?.id };
+
 // Method to update status
-transferSchema.methods.updateStatus = async function(status: TransferStatus, notes?: string, changedBy?: Types.ObjectId): Promise<void> {
+transferSchema.methods.updateStatus = async function(status: TransferStatus, notes?: string, changedBy?: IStaffActor): Promise<void> {
   const oldStatus = this.status;
   this.status = status;
   
@@ -194,7 +282,7 @@ transferSchema.methods.updateStatus = async function(status: TransferStatus, not
     status,
     timestamp: new Date(),
     notes,
-    changedBy
+    ...changedByFields(changedBy)
   });
   
   if (notes) {
@@ -213,25 +301,33 @@ transferSchema.methods.updateStatus = async function(status: TransferStatus, not
 };
 
 // Method to approve transfer request
-transferSchema.methods.approve = async function(approvedBy: Types.ObjectId, notes?: string): Promise<void> {
+transferSchema.methods.approve = async function(approvedBy: IStaffActor, notes?: string): Promise<void> {
   if (this.status !== 'requested') {
     throw new Error('Only requested transfers can be approved');
   }
   
-  this.approvedBy = approvedBy;
+  if (approvedBy.isEmployee) {
+    this.approvedByEmployee = approvedBy.id;
+  } else {
+    this.approvedBy = approvedBy.id;
+    this.bharatmartManager = approvedBy.id; // Set as manager
+  }
   this.approvedAt = new Date();
-  this.bharatmartManager = approvedBy; // Set as manager
   
   await this.updateStatus('pending', notes || 'Transfer request approved', approvedBy);
 };
 
 // Method to reject transfer request
-transferSchema.methods.reject = async function(rejectedBy: Types.ObjectId, reason: string): Promise<void> {
+transferSchema.methods.reject = async function(rejectedBy: IStaffActor, reason: string): Promise<void> {
   if (this.status !== 'requested') {
     throw new Error('Only requested transfers can be rejected');
   }
   
-  this.rejectedBy = rejectedBy;
+  if (rejectedBy.isEmployee) {
+    this.rejectedByEmployee = rejectedBy.id;
+  } else {
+    this.rejectedBy = rejectedBy.id;
+  }
   this.rejectedAt = new Date();
   this.rejectionReason = reason;
   
@@ -239,11 +335,15 @@ transferSchema.methods.reject = async function(rejectedBy: Types.ObjectId, reaso
 };
 
 // Method to mark as delivered
-transferSchema.methods.markAsDelivered = async function(deliveredBy?: Types.ObjectId): Promise<void> {
+transferSchema.methods.markAsDelivered = async function(deliveredBy?: IStaffActor, notes?: string): Promise<void> {
   this.status = 'delivered';
   this.deliveredAt = new Date();
-  if (deliveredBy) {
-    this.deliveredBy = deliveredBy;
+  if (deliveredBy?.id) {
+    if (deliveredBy.isEmployee) {
+      this.deliveredByEmployee = deliveredBy.id;
+    } else {
+      this.deliveredBy = deliveredBy.id;
+    }
   }
   
   // Add to status history
@@ -253,8 +353,8 @@ transferSchema.methods.markAsDelivered = async function(deliveredBy?: Types.Obje
   this.statusHistory.push({
     status: 'delivered',
     timestamp: new Date(),
-    notes: 'Transfer received by franchise',
-    changedBy: deliveredBy
+    notes: notes || 'Transfer received by franchise',
+    ...changedByFields(deliveredBy)
   });
   
   await this.save();
@@ -270,9 +370,9 @@ transferSchema.methods.addNote = async function(note: string): Promise<void> {
   await this.save();
 };
 
-// Static method to find transfers by franchise
+// Static method to find transfers a franchise sends or receives
 transferSchema.statics.findByFranchise = function(franchiseId: Types.ObjectId): Promise<ITransferDocument[]> {
-  return this.find({ franchise: franchiseId });
+  return this.find({ $or: [{ franchise: franchiseId }, { sourceFranchise: franchiseId }] });
 };
 
 // Static method to find transfers by status
@@ -0,0 +1,211 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+import FranchiseSale, { PosPaymentMode } from './FranchiseSale';
+
+export interface IZReportPayment {
+  mode: PosPaymentMode;
+  count: number;
+  amount: number;
+}
+
+export interface IZReportTaxLine {
+  gstRate: number;
+  taxableValue: number;
+  taxAmount: number;
+}
+
+export interface IZReportSummary {
+  businessDate: string;
+  firstBill?: string;
+  lastBill?: string;
+  billCount: number;
+  voidCount: number;
+  voidTotal: number;
+  itemsSold: number;
+  grossSales: number;
+  discountTotal: number;
+  netSales: number;
+  taxAmount: number;
+  payments: IZReportPayment[];
+  taxBreakdown: IZReportTaxLine[];
+  cashExpected: number;
+}
+
+export interface IFranchiseZReport extends IZReportSummary, ITimestamps {
+  reportNumber: string;
+  franchise: Types.ObjectId;
+  cashCounted?: number;
+  cashVariance?: number;
+  notes?: string;
+  closedAt: Date;
+}
+
+export interface IFranchiseZReportDocument extends IFranchiseZReport, Document {
+  _id: Types.ObjectId;
+}
+
+interface IFranchiseZReportModel extends Model<IFranchiseZReportDocument> {
+  summarise(franchiseId: Types.ObjectId, businessDate: string): Promise<IZReportSummary>;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const zReportSchema = new Schema<IFranchiseZReportDocument, IFranchiseZReportModel>({
+  reportNumber: {
+    type: String,
+    required: true
+  },
+  franchise: {
+    type: Schema.Types.ObjectId,
+    ref: 'Franchise',
+    required: true
+  },
+  businessDate: {
+    type: String,
+    required: true
+  },
+  firstBill: String,
+  lastBill: String,
+  billCount: {
+    type: Number,
+    default: 0
+  },
+  voidCount: {
+    type: Number,
+    default: 0
+  },
+  voidTotal: {
+    type: Number,
+    default: 0
+  },
+  itemsSold: {
+    type: Number,
+    default: 0
+  },
+  grossSales: {
+    type: Number,
+    default: 0
+  },
+  discountTotal: {
+    type: Number,
+    default: 0
+  },
+  netSales: {
+    type: Number,
+    default: 0
+  },
+  taxAmount: {
+    type: Number,
+    default: 0
+  },
+  payments: [{
+    _id: false,
+    mode: {
+      type: String,
+      enum: ['cash', 'card', 'upi', 'wallet']
+    },
+    count: Number,
+    amount: Number
+  }],
+  taxBreakdown: [{
+    _id: false,
+    gstRate: Number,
+    taxableValue: Number,
+    taxAmount: Number
+  }],
+  cashExpected: {
+    type: Number,
+    default: 0
+  },
+  cashCounted: Number,
+  cashVariance: Number,
+  notes: {
+    type: String,
+    maxlength: 500
+  },
+  closedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  }
+}, {
+  timestamps: true
+});
+
+// A franchise closes each business day exactly once
+zReportSchema.index({ franchise: 1, businessDate: 1 }, { unique: true });
+zReportSchema.index({ franchise: 1, reportNumber: 1 }, { unique: true });
+
+// Static method to total a franchise's POS activity for one business day
+zReportSchema.statics.summarise = async function(
+  franchiseId: Types.ObjectId,
+  businessDate: string
+): Promise<IZReportSummary> {
+  const sales = await FranchiseSale.find({ franchise: franchiseId, businessDate })
+    .sort({ billNumber: 1 })
+    .lean();
+
+  const completed = sales.filter(sale => sale.status === 'completed');
+  const voided = sales.filter(sale => sale.status === 'voided');
+
+  const payments = new Map<PosPaymentMode, IZReportPayment>();
+  const taxes = new Map<number, IZReportTaxLine>();
+  let itemsSold = 0;
+  let grossSales = 0;
+  let discountTotal = 0;
+  let netSales = 0;
+  let taxAmount = 0;
+  let cashExpected = 0;
+
+  for (const sale of completed) {
+    grossSales += sale.subTotal;
+    discountTotal += sale.discountTotal;
+    netSales += sale.total;
+    taxAmount += sale.taxAmount;
+
+    for (const line of sale.items) {
+      itemsSold += line.quantity;
+      const tax = taxes.get(line.gstRate) || { gstRate: line.gstRate, taxableValue: 0, taxAmount: 0 };
+      tax.taxableValue += line.total - line.taxAmount;
+      tax.taxAmount += line.taxAmount;
+      taxes.set(line.gstRate, tax);
+    }
+
+    for (const payment of sale.payments) {
+      const entry = payments.get(payment.mode) || { mode: payment.mode, count: 0, amount: 0 };
+      entry.count += 1;
+      entry.amount += payment.amount;
+      payments.set(payment.mode, entry);
+    }
+
+    // Change is handed back from the drawer
+    cashExpected += sale.payments
+      .filter(payment => payment.mode === 'cash')
+      .reduce((sum, payment) => sum + payment.amount, 0) - sale.changeDue;
+  }
+
+  return {
+    businessDate,
+    firstBill: sales[0]?.billNumber,
+    lastBill: sales[sales.length - 1]?.billNumber,
+    billCount: completed.length,
+    voidCount: voided.length,
+    voidTotal: roundCurrency(voided.reduce((sum, sale) => sum + sale.total, 0)),
+    itemsSold,
+    grossSales: roundCurrency(grossSales),
+    discountTotal: roundCurrency(discountTotal),
+    netSales: roundCurrency(netSales),
+    taxAmount: roundCurrency(taxAmount),
+    payments: Array.from(payments.values()).map(entry => ({ ...entry, amount: roundCurrency(entry.amount) })),
+    taxBreakdown: Array.from(taxes.values())
+      .sort((a, b) => a.gstRate - b.gstRate)
+      .map(tax => ({
+        gstRate: tax.gstRate,
+        taxableValue: roundCurrency(tax.taxableValue),
+        taxAmount: roundCurrency(tax.taxAmount)
+      })),
+    cashExpected: roundCurrency(cashExpected)
+  };
+};
+
+export default mongoose.model<IFranchiseZReportDocument, IFranchiseZReportModel>('FranchiseZReport', zReportSchema);
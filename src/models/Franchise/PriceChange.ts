@@ -0,0 +1,142 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+
+export type PriceChangeStatus = 'scheduled' | 'applied' | 'cancelled';
+
+// A franchise left on its old price because the new one broke its bounds
+export interface IPriceChangeSkip {
+  franchise: Types.ObjectId;
+  franchiseProduct: Types.ObjectId;
+  reason: string;
+}
+
+export interface IPriceChange extends ITimestamps {
+  priceList: Types.ObjectId;
+  product: Types.ObjectId;
+  variant?: Types.ObjectId | null; // Variant priced, for products sold in variants
+  price: number;
+  previousPrice?: number;          // List price this change replaced, if any
+  effectiveFrom: Date;
+  status: PriceChangeStatus;
+  appliedAt?: Date;
+  franchisesUpdated: number;
+  skipped: IPriceChangeSkip[];
+  notes?: string;
+  createdBy?: Types.ObjectId;
+  cancelledBy?: Types.ObjectId;
+  cancelledAt?: Date;
+}
+
+export interface IPriceChangeDocument extends IPriceChange, Document {
+  _id: Types.ObjectId;
+}
+
+interface IPriceChangeModel extends Model<IPriceChangeDocument> {
+  getCurrentPrice(
+    priceListId: Types.ObjectId | string,
+    productId: Types.ObjectId | string,
+    variantId?: Types.ObjectId | string | null
+  ): Promise<IPriceChangeDocument | null>;
+  getCurrentPrices(priceListId: Types.ObjectId | string): Promise<IPriceChangeDocument[]>;
+  findDue(asOf?: Date): Promise<IPriceChangeDocument[]>;
+}
+
+const priceChangeSchema = new Schema<IPriceChangeDocument, IPriceChangeModel>({
+  priceList: {
+    type: Schema.Types.ObjectId,
+    ref: 'PriceList',
+    required: true
+  },
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  price: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  previousPrice: {
+    type: Number,
+    min: 0
+  },
+  effectiveFrom: {
+    type: Date,
+    required: true
+  },
+  status: {
+    type: String,
+    enum: ['scheduled', 'applied', 'cancelled'],
+    default: 'scheduled'
+  },
+  appliedAt: Date,
+  franchisesUpdated: {
+    type: Number,
+    default: 0
+  },
+  skipped: [{
+    franchise: {
+      type: Schema.Types.ObjectId,
+      ref: 'Franchise'
+    },
+    franchiseProduct: {
+      type: Schema.Types.ObjectId,
+      ref: 'FranchiseProduct'
+    },
+    reason: String
+  }],
+  notes: String,
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  cancelledBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  cancelledAt: Date
+}, {
+  timestamps: true
+});
+
+// Indexes
+priceChangeSchema.index({ priceList: 1, product: 1, variant: 1, effectiveFrom: -1 });
+priceChangeSchema.index({ status: 1, effectiveFrom: 1 });
+
+// Static method to get the change that currently sets a product's price on a list
+priceChangeSchema.statics.getCurrentPrice = function(
+  priceListId: Types.ObjectId | string,
+  productId: Types.ObjectId | string,
+  variantId?: Types.ObjectId | string | null
+): Promise<IPriceChangeDocument | null> {
+  return this.findOne({
+    priceList: priceListId,
+    product: productId,
+    variant: variantId || null,
+    status: 'applied'
+  }).sort({ effectiveFrom: -1, appliedAt: -1 });
+};
+
+// Static method to get every product price a list currently sets, one per product/variant
+priceChangeSchema.statics.getCurrentPrices = async function(priceListId: Types.ObjectId | string): Promise<IPriceChangeDocument[]> {
+  const changes = await this.aggregate([
+    { $match: { priceList: new Types.ObjectId(priceListId), status: 'applied' } },
+    { $sort: { effectiveFrom: -1, appliedAt: -1 } },
+    { $group: { _id: { product: '$product', variant: '$variant' }, change: { $first: '$$ROOT' } } },
+    { $replaceRoot: { newRoot: '$change' } },
+    { $project: { skipped: 0 } }
+  ]);
+  return this.populate(changes, { path: 'product', select: 'name sku mrp variants._id variants.name variants.sku variants.mrp' });
+};
+
+// Static method to find scheduled changes whose effective date has passed, oldest first
+priceChangeSchema.statics.findDue = function(asOf: Date = new Date()): Promise<IPriceChangeDocument[]> {
+  return this.find({ status: 'scheduled', effectiveFrom: { $lte: asOf } }).sort({ effectiveFrom: 1, createdAt: 1 });
+};
+
+export default mongoose.model<IPriceChangeDocument, IPriceChangeModel>('PriceChange', priceChangeSchema);
@@ -0,0 +1,113 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+import { IFranchise } from './Franchise';
+
+export type FranchiseType = 'foco' | 'fofo';
+
+// Franchises a price list covers: named franchises, whole cities or whole franchise types
+export interface IPriceListAssignment {
+  franchises: Types.ObjectId[];
+  cities: string[];
+  franchiseTypes: FranchiseType[];
+}
+
+export interface IPriceList extends ITimestamps {
+  name: string;
+  code: string;          // Short unique code, e.g. DEL-FOFO
+  description?: string;
+  assignment: IPriceListAssignment;
+  priority: number;      // Higher wins when several lists cover a franchise
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+}
+
+export interface IPriceListDocument extends IPriceList, Document {
+  _id: Types.ObjectId;
+  getMatchRank(franchise: Pick<IFranchise, '_id' | 'city' | 'franchiseType'>): number;
+}
+
+interface IPriceListModel extends Model<IPriceListDocument> {
+  findForFranchise(franchise: Pick<IFranchise, '_id' | 'city' | 'franchiseType'>): Promise<IPriceListDocument | null>;
+}
+
+const priceListSchema = new Schema<IPriceListDocument, IPriceListModel>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true
+  },
+  description: String,
+  assignment: {
+    franchises: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Franchise'
+    }],
+    cities: [{
+      type: String,
+      trim: true,
+      lowercase: true
+    }],
+    franchiseTypes: [{
+      type: String,
+      enum: ['foco', 'fofo']
+    }]
+  },
+  priority: {
+    type: Number,
+    default: 0
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+priceListSchema.index({ isActive: 1, priority: -1 });
+priceListSchema.index({ 'assignment.franchises': 1 });
+
+/**
+ * Method to rank how closely the list targets a franchise: 3 when it names
+ * the franchise, 2 for its city, 1 for its type and 0 when it does not apply.
+ */
+priceListSchema.methods.getMatchRank = function(franchise: Pick<IFranchise, '_id' | 'city' | 'franchiseType'>): number {
+  if (this.assignment.franchises.some((id: Types.ObjectId) => id.equals(franchise._id))) {
+    return 3;
+  }
+  if (franchise.city && this.assignment.cities.includes(franchise.city.trim().toLowerCase())) {
+    return 2;
+  }
+  if (franchise.franchiseType && this.assignment.franchiseTypes.includes(franchise.franchiseType)) {
+    return 1;
+  }
+  return 0;
+};
+
+// Static method to find the active list that sets a franchise's prices: highest priority, then closest match
+priceListSchema.statics.findForFranchise = async function(
+  franchise: Pick<IFranchise, '_id' | 'city' | 'franchiseType'>
+): Promise<IPriceListDocument | null> {
+  const lists: IPriceListDocument[] = await this.find({ isActive: true });
+
+  const ranked = lists
+    .map(list => ({ list, rank: list.getMatchRank(franchise) }))
+    .filter(entry => entry.rank > 0)
+    .sort((a, b) => b.list.priority - a.list.priority || b.rank - a.rank);
+
+  return ranked[0]?.list || null;
+};
+
+export default mongoose.model<IPriceListDocument, IPriceListModel>('PriceList', priceListSchema);
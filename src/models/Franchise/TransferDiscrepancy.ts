@@ -0,0 +1,200 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { IStaffActor, ITimestamps } from '../../types/common';
+
+export type DiscrepancyStatus = 'pending' | 'approved' | 'rejected';
+
+export interface IDiscrepancyItem {
+  transferItem: Types.ObjectId;      // Line on the transfer the shortfall belongs to
+  bharatmartProduct: Types.ObjectId;
+  franchiseProduct: Types.ObjectId;
+  expectedQuantity: number;          // Units outstanding when the receipt was recorded
+  receivedQuantity: number;
+  damagedQuantity: number;
+  missingQuantity: number;
+  unitPrice: number;
+  value: number;                     // (damaged + missing) x unit price
+}
+
+export interface ITransferDiscrepancy extends ITimestamps {
+  transfer: Types.ObjectId;
+  transferNumber: string;
+  franchise: Types.ObjectId;
+  items: IDiscrepancyItem[];
+  totalValue: number;
+  status: DiscrepancyStatus;
+  notes?: string;                    // Franchise's account of the shortfall
+  raisedBy?: Types.ObjectId;
+  raisedByEmployee?: Types.ObjectId;   // Set instead of raisedBy when an employee recorded the receipt
+  reviewedBy?: Types.ObjectId;
+  reviewedByEmployee?: Types.ObjectId; // Set instead of reviewedBy when an employee reviewed it
+  reviewedAt?: Date;
+  resolutionNotes?: string;
+}
+
+export interface ITransferDiscrepancyDocument extends ITransferDiscrepancy, Document {
+  _id: Types.ObjectId;
+  approve(reviewedBy: IStaffActor, notes?: string): Promise<void>;
+  reject(reviewedBy: IStaffActor, reason: string): Promise<void>;
+}
+
+interface ITransferDiscrepancyModel extends Model<ITransferDiscrepancyDocument> {
+  findPendingByTransfer(transferId: Types.ObjectId): Promise<ITransferDiscrepancyDocument | null>;
+}
+
+const discrepancyItemSchema = new Schema<IDiscrepancyItem>({
+  transferItem: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  bharatmartProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  franchiseProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'FranchiseProduct',
+    required: true
+  },
+  expectedQuantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  receivedQuantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  damagedQuantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  missingQuantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  unitPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  value: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+const transferDiscrepancySchema = new Schema<ITransferDiscrepancyDocument, ITransferDiscrepancyModel>({
+  transfer: {
+    type: Schema.Types.ObjectId,
+    ref: 'FranchiseTransfer',
+    required: true
+  },
+  transferNumber: {
+    type: String,
+    required: true
+  },
+  franchise: {
+    type: Schema.Types.ObjectId,
+    ref: 'Franchise',
+    required: true
+  },
+  items: {
+    type: [discrepancyItemSchema],
+    validate: [(items: IDiscrepancyItem[]) => items.length > 0, 'A discrepancy needs at least one line']
+  },
+  totalValue: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: ['pending', 'approved', 'rejected'],
+    default: 'pending'
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  },
+  raisedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  raisedByEmployee: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
+  reviewedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  reviewedByEmployee: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
+  reviewedAt: {
+    type: Date
+  },
+  resolutionNotes: {
+    type: String,
+    maxlength: 500
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+transferDiscrepancySchema.index({ transfer: 1, createdAt: -1 });
+transferDiscrepancySchema.index({ status: 1, createdAt: -1 });
+transferDiscrepancySchema.index({ franchise: 1, status: 1 });
+
+// Method to accept the shortfall; the franchise is not billed for damaged or missing units
+transferDiscrepancySchema.methods.approve = async function(reviewedBy: IStaffActor, notes?: string): Promise<void> {
+  if (this.status !== 'pending') {
+    throw new Error('Only pending discrepancies can be approved');
+  }
+
+  this.status = 'approved';
+  if (reviewedBy.isEmployee) {
+    this.reviewedByEmployee = reviewedBy.id;
+  } else {
+    this.reviewedBy = reviewedBy.id;
+  }
+  this.reviewedAt = new Date();
+  this.resolutionNotes = notes;
+
+  await this.save();
+};
+
+// Method to dispute the shortfall; missing units stay outstanding on the transfer
+transferDiscrepancySchema.methods.reject = async function(reviewedBy: IStaffActor, reason: string): Promise<void> {
+  if (this.status !== 'pending') {
+    throw new Error('Only pending discrepancies can be rejected');
+  }
+
+  this.status = 'rejected';
+  if (reviewedBy.isEmployee) {
+    this.reviewedByEmployee = reviewedBy.id;
+  } else {
+    this.reviewedBy = reviewedBy.id;
+  }
+  this.reviewedAt = new Date();
+  this.resolutionNotes = reason;
+
+  await this.save();
+};
+
+// Static method to find the discrepancy awaiting review on a transfer
+transferDiscrepancySchema.statics.findPendingByTransfer = function(
+  transferId: Types.ObjectId
+): Promise<ITransferDiscrepancyDocument | null> {
+  return this.findOne({ transfer: transferId, status: 'pending' });
+};
+
+export default mongoose.model<ITransferDiscrepancyDocument, ITransferDiscrepancyModel>('TransferDiscrepancy', transferDiscrepancySchema);
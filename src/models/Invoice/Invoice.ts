@@ -0,0 +1,253 @@
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+import { GstSupplyType, getFinancialYear } from '../../utils/gst';
+import InvoiceSequence from './InvoiceSequence';
+
+export type InvoiceSource = 'order' | 'transfer';
+
+export interface IInvoiceParty {
+  name: string;
+  gstin?: string;
+  address?: string;
+  state?: string;
+  stateCode?: string;
+}
+
+export interface IInvoiceLine {
+  product?: Types.ObjectId;
+  description: string;
+  hsnCode?: string;
+  quantity: number;
+  unitPrice: number;
+  taxableValue: number;
+  gstRate: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  total: number;
+}
+
+export interface IInvoice extends ITimestamps {
+  invoiceNumber: string;
+  financialYear: string;
+  sequence: number;
+  source: InvoiceSource;
+  order?: Types.ObjectId;
+  transfer?: Types.ObjectId;
+  franchise?: Types.ObjectId; // Franchise that sold (order) or bought (transfer)
+  sellerFranchise?: Types.ObjectId; // Franchise whose GSTIN issued the invoice and whose series numbers it; none for the company
+  issuedAt: Date;
+  seller: IInvoiceParty;
+  buyer: IInvoiceParty;
+  placeOfSupply?: string;
+  supplyType: GstSupplyType;
+  items: IInvoiceLine[];
+  taxableValue: number;
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+  otherCharges: number; // Shipping and similar charges outside the taxable lines
+  grandTotal: number;
+}
+
+export interface IInvoiceDocument extends IInvoice, Document {
+  _id: Types.ObjectId;
+}
+
+// The invoice series of a franchise seller: its ID numbers the series and prefixes each number
+export interface IInvoiceSeries {
+  franchise: Types.ObjectId;
+  prefix: string;
+}
+
+interface IInvoiceModel extends Model<IInvoiceDocument> {
+  nextInvoiceNumber(
+    issuedAt: Date,
+    series?: IInvoiceSeries,
+    session?: ClientSession
+  ): Promise<Pick<IInvoice, 'invoiceNumber' | 'financialYear' | 'sequence'>>;
+}
+
+const INVOICE_PREFIX = 'BM';
+
+const invoicePartySchema = new Schema<IInvoiceParty>({
+  name: {
+    type: String,
+    required: true
+  },
+  gstin: String,
+  address: String,
+  state: String,
+  stateCode: String
+}, { _id: false });
+
+const invoiceLineSchema = new Schema<IInvoiceLine>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product'
+  },
+  description: {
+    type: String,
+    required: true
+  },
+  hsnCode: String,
+  quantity: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  unitPrice: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  taxableValue: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  gstRate: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  cgst: {
+    type: Number,
+    default: 0
+  },
+  sgst: {
+    type: Number,
+    default: 0
+  },
+  igst: {
+    type: Number,
+    default: 0
+  },
+  total: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+});
+
+const invoiceSchema = new Schema<IInvoiceDocument, IInvoiceModel>({
+  invoiceNumber: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  financialYear: {
+    type: String,
+    required: true
+  },
+  sequence: {
+    type: Number,
+    required: true
+  },
+  source: {
+    type: String,
+    required: true,
+    enum: ['order', 'transfer']
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order'
+  },
+  transfer: {
+    type: Schema.Types.ObjectId,
+    ref: 'FranchiseTransfer'
+  },
+  franchise: {
+    type: Schema.Types.ObjectId,
+    ref: 'Franchise'
+  },
+  sellerFranchise: {
+    type: Schema.Types.ObjectId,
+    ref: 'Franchise'
+  },
+  issuedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  seller: {
+    type: invoicePartySchema,
+    required: true
+  },
+  buyer: {
+    type: invoicePartySchema,
+    required: true
+  },
+  placeOfSupply: String,
+  supplyType: {
+    type: String,
+    required: true,
+    enum: ['intra_state', 'inter_state']
+  },
+  items: [invoiceLineSchema],
+  taxableValue: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  cgst: {
+    type: Number,
+    default: 0
+  },
+  sgst: {
+    type: Number,
+    default: 0
+  },
+  igst: {
+    type: Number,
+    default: 0
+  },
+  totalTax: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  otherCharges: {
+    type: Number,
+    default: 0
+  },
+  grandTotal: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, {
+  timestamps: true
+});
+
+// One invoice per order and per transfer
+invoiceSchema.index({ order: 1 }, { unique: true, sparse: true });
+invoiceSchema.index({ transfer: 1 }, { unique: true, sparse: true });
+invoiceSchema.index({ sellerFranchise: 1, financialYear: 1, sequence: 1 });
+invoiceSchema.index({ franchise: 1, issuedAt: -1 });
+
+/**
+ * Static method to allocate the next sequential invoice number of the
+ * financial year, e.g. BM/25-26/000042. GST wants one consecutive series per
+ * supplier GSTIN, so a franchise seller numbers from its own series under its
+ * franchise ID, e.g. FF123456/25-26/000007.
+ */
+invoiceSchema.statics.nextInvoiceNumber = async function(
+  issuedAt: Date,
+  series?: IInvoiceSeries,
+  session?: ClientSession
+): Promise<Pick<IInvoice, 'invoiceNumber' | 'financialYear' | 'sequence'>> {
+  const financialYear = getFinancialYear(issuedAt);
+  const sequence = await InvoiceSequence.next(financialYear, series?.franchise, session);
+  const [startYear, endYear] = financialYear.split('-');
+  const prefix = series?.prefix || INVOICE_PREFIX;
+
+  return {
+    invoiceNumber: `${prefix}/${startYear.slice(-2)}-${endYear}/${sequence.toString().padStart(6, '0')}`,
+    financialYear,
+    sequence
+  };
+};
+
+export default mongoose.model<IInvoiceDocument, IInvoiceModel>('Invoice', invoiceSchema);
@@ -0,0 +1,49 @@
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
+
+export interface IInvoiceSequence {
+  franchise?: Types.ObjectId | null; // Franchise whose series this is; none for the company's own
+  financialYear: string;
+  sequence: number;
+}
+
+export interface IInvoiceSequenceDocument extends IInvoiceSequence, Document {}
+
+interface IInvoiceSequenceModel extends Model<IInvoiceSequenceDocument> {
+  next(financialYear: string, franchise?: Types.ObjectId, session?: ClientSession): Promise<number>;
+}
+
+const invoiceSequenceSchema = new Schema<IInvoiceSequenceDocument, IInvoiceSequenceModel>({
+  franchise: {
+    type: Schema.Types.ObjectId,
+    ref: 'Franchise',
+    default: null
+  },
+  financialYear: {
+    type: String,
+    required: true
+  },
+  sequence: {
+    type: Number,
+    required: true,
+    default: 0
+  }
+});
+
+// One series per supplier and financial year
+invoiceSequenceSchema.index({ franchise: 1, financialYear: 1 }, { unique: true });
+
+// Static method to atomically take the next invoice sequence of a supplier's financial year
+invoiceSequenceSchema.statics.next = async function(
+  financialYear: string,
+  franchise?: Types.ObjectId,
+  session?: ClientSession
+): Promise<number> {
+  const counter = await this.findOneAndUpdate(
+    { franchise: franchise || null, financialYear },
+    { $inc: { sequence: 1 } },
+    { upsert: true, new: true, session }
+  );
+  return counter!.sequence;
+};
+
+export default mongoose.model<IInvoiceSequenceDocument, IInvoiceSequenceModel>('InvoiceSequence', invoiceSequenceSchema);
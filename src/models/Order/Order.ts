@@ -1,21 +1,149 @@
-import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
 import { ITimestamps } from '../../types/common';
+import { IUser } from '../User/User';
+import { runOrderStatusHooks } from '../../utils/orderStatusHooks';
+import { PromotionType } from '../Promotion/Promotion';
 
 export type OrderStatus = 'pending' | 'processing' | 'shipped' | 'delivered' | 'cancelled' | 'refunded' | 'confirmed';
 
+export const ORDER_STATUSES: OrderStatus[] = ['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded'];
+
+// Who is moving the order: a user role, 'employee' for an employee token with order:write, or 'system' for payment webhooks, refunds and jobs
+export type OrderActor = IUser['role'] | 'employee' | 'system';
+
+const FULFILMENT_ACTORS: OrderActor[] = ['superadmin', 'admin', 'staff', 'shop_owner', 'employee'];
+const REFUND_ACTORS: OrderActor[] = ['superadmin', 'admin', 'employee', 'system'];
+
+/**
+ * Order status state machine: for every status, the statuses it may move to
+ * and the actors allowed to make that move. Anything not listed is illegal.
+ */
+export const ORDER_STATUS_TRANSITIONS: Record<OrderStatus, Partial<Record<OrderStatus, OrderActor[]>>> = {
+  pending: {
+    confirmed: [...FULFILMENT_ACTORS, 'system'],
+    cancelled: [...FULFILMENT_ACTORS, 'customer', 'system']
+  },
+  confirmed: {
+    processing: FULFILMENT_ACTORS,
+    cancelled: [...FULFILMENT_ACTORS, 'system'],
+    refunded: REFUND_ACTORS
+  },
+  processing: {
+    shipped: FULFILMENT_ACTORS,
+    cancelled: ['superadmin', 'admin', 'shop_owner', 'employee'],
+    refunded: REFUND_ACTORS
+  },
+  shipped: {
+    delivered: [...FULFILMENT_ACTORS, 'system'],
+    refunded: REFUND_ACTORS
+  },
+  delivered: {
+    refunded: REFUND_ACTORS
+  },
+  cancelled: {
+    refunded: REFUND_ACTORS
+  },
+  refunded: {}
+};
+
+// Lifecycle timestamp stamped when an order enters a status
+const ORDER_STATUS_TIMESTAMPS: Partial<Record<OrderStatus, 'confirmedAt' | 'shippedAt' | 'deliveredAt' | 'cancelledAt'>> = {
+  confirmed: 'confirmedAt',
+  shipped: 'shippedAt',
+  delivered: 'deliveredAt',
+  cancelled: 'cancelledAt'
+};
+
+/**
+ * Raised for a status change the state machine does not allow. statusCode is
+ * 403 when the move exists but the actor may not make it, 400 otherwise.
+ */
+export class OrderStatusTransitionError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'OrderStatusTransitionError';
+  }
+}
+
+// Statuses the given actor may move an order to from its current status
+export const getAllowedTransitions = (from: OrderStatus, actor: OrderActor): OrderStatus[] =>
+  (Object.keys(ORDER_STATUS_TRANSITIONS[from]) as OrderStatus[])
+    .filter(to => ORDER_STATUS_TRANSITIONS[from][to]!.includes(actor));
+
+export const assertOrderTransition = (from: OrderStatus, to: OrderStatus, actor: OrderActor): void => {
+  if (from === to) {
+    throw new OrderStatusTransitionError(`Order is already ${to}`);
+  }
+
+  const actors = ORDER_STATUS_TRANSITIONS[from][to];
+  if (!actors) {
+    const allowed = Object.keys(ORDER_STATUS_TRANSITIONS[from]);
+    throw new OrderStatusTransitionError(
+      `Invalid status transition from ${from} to ${to}. Allowed: ${allowed.length ? allowed.join(', ') : 'none'}`
+    );
+  }
+  if (!actors.includes(actor)) {
+    throw new OrderStatusTransitionError(`Role ${actor} cannot move an order from ${from} to ${to}`, 403);
+  }
+};
+
 export interface IOrderItem {
+  _id?: Types.ObjectId;
   product: Types.ObjectId;
-  variant?: string;
+  franchiseProduct?: Types.ObjectId; // Set when the line was fulfilled from franchise stock
+  franchise?: Types.ObjectId;
+  variant?: Types.ObjectId;
+  variantName?: string; // Snapshot of the variant name at order time
+  sku?: string;
   quantity: number;
   price: number;
   total: number;
-  shop: Types.ObjectId;
+  discount?: number; // Promotion discount taken off this line; tax is charged on total - discount
+  hsnCode?: string;
+  gstRate?: number; // GST percentage applied to the line
+  taxAmount?: number;
+  refundedQuantity?: number;
+  shop?: Types.ObjectId;
+}
+
+// A promotion applied to the order, kept for reporting and refunds
+export interface IOrderPromotion {
+  promotion: Types.ObjectId;
+  code?: string;
+  name: string;
+  type: PromotionType;
+  amount: number;
+}
+
+export interface IOrderRefundLine {
+  item: Types.ObjectId; // _id of the refunded order item
+  product: Types.ObjectId;
+  franchiseProduct?: Types.ObjectId;
+  franchise?: Types.ObjectId;
+  quantity: number;
+  amount: number;
+}
+
+export interface IOrderRefund {
+  _id?: Types.ObjectId;
+  amount: number;
+  reason: string;
+  items: IOrderRefundLine[];
+  processedBy?: Types.ObjectId;
+  processedByEmployee?: Types.ObjectId; // Set instead of processedBy when an employee issued the refund
+  providerRefundId?: string; // Set when the refund was made at the payment provider and booked from its webhook
+  processedAt: Date;
 }
 
+export type PaymentStatus = 'pending' | 'completed' | 'failed' | 'refunded';
+
 export interface IOrderPayment {
   method: string;
+  provider?: string;
+  intentId?: string; // Provider-side order/intent reference
   transactionId?: string;
-  status: 'pending' | 'completed' | 'failed' | 'refunded';
+  status: PaymentStatus;
+  paidAt?: Date;
   amount: number;
   currency: string;
   refundId?: string;
@@ -28,6 +156,7 @@ export interface IOrderTimelineEntry {
   status: OrderStatus;
   note: string;
   updatedBy?: Types.ObjectId;
+  updatedByEmployee?: Types.ObjectId; // Set instead of updatedBy when an employee made the change
 }
 
 export interface IOrderShipping {
@@ -53,21 +182,39 @@ export interface IOrder extends ITimestamps {
   items: IOrderItem[];
   status: OrderStatus;
   subTotal: number;
+  discount: number;
+  promotions: IOrderPromotion[];
   tax: number;
   shipping: IOrderShipping;
   total: number;
   payment: IOrderPayment;
   timeline: IOrderTimelineEntry[];
+  refunds: IOrderRefund[];
+  confirmedAt?: Date;
+  shippedAt?: Date;
+  deliveredAt?: Date;
+  cancelledAt?: Date;
   notes?: string;
   isGift?: boolean;
   giftMessage?: string;
 }
 
+export interface IRefundOptions {
+  lines?: IOrderRefundLine[]; // Units refunded, if the refund is for goods
+  processedBy?: Types.ObjectId;
+  actor?: OrderActor;
+  providerRefundId?: string;
+  session?: ClientSession; // Save in the caller's transaction; the caller then runs the status hooks once it commits
+}
+
 export interface IOrderDocument extends IOrder, Document {
   _id: Types.ObjectId;
   addTimelineEntry(entry: IOrderTimelineEntry): Promise<void>;
-  updateStatus(status: OrderStatus, note: string, updatedBy?: Types.ObjectId): Promise<void>;
-  processRefund(amount: number, reason: string): Promise<void>;
+  updateStatus(status: OrderStatus, note?: string, updatedBy?: Types.ObjectId, actor?: OrderActor): Promise<void>;
+  getPaidAmount(): number;
+  getRefundableAmount(): number;
+  processRefund(amount: number, reason: string, options?: IRefundOptions): Promise<IOrderRefund>;
+  applyPaymentUpdate(status: PaymentStatus, note: string, transactionId?: string): Promise<void>;
 }
 
 interface IOrderModel extends Model<IOrderDocument> {
@@ -83,7 +230,19 @@ const orderItemSchema = new Schema<IOrderItem>({
     ref: 'Product',
     required: true
   },
-  variant: String,
+  franchiseProduct: {
+    type: Schema.Types.ObjectId,
+    ref: 'FranchiseProduct'
+  },
+  franchise: {
+    type: Schema.Types.ObjectId,
+    ref: 'Franchise'
+  },
+  variant: {
+    type: Schema.Types.ObjectId
+  },
+  variantName: String,
+  sku: String,
   quantity: {
     type: Number,
     required: true,
@@ -99,19 +258,116 @@ const orderItemSchema = new Schema<IOrderItem>({
     required: true,
     min: 0
   },
+  discount: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  hsnCode: String,
+  gstRate: {
+    type: Number,
+    min: 0
+  },
+  taxAmount: {
+    type: Number,
+    min: 0
+  },
+  refundedQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
   shop: {
     type: Schema.Types.ObjectId,
-    ref: 'Shop',
+    ref: 'Shop'
+  }
+});
+
+const orderRefundSchema = new Schema<IOrderRefund>({
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  reason: {
+    type: String,
     required: true
+  },
+  items: [{
+    item: {
+      type: Schema.Types.ObjectId,
+      required: true
+    },
+    product: {
+      type: Schema.Types.ObjectId,
+      ref: 'Product',
+      required: true
+    },
+    franchiseProduct: {
+      type: Schema.Types.ObjectId,
+      ref: 'FranchiseProduct'
+    },
+    franchise: {
+      type: Schema.Types.ObjectId,
+      ref: 'Franchise'
+    },
+    quantity: {
+      type: Number,
+      required: true,
+      min: 1
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0
+    }
+  }],
+  providerRefundId: String,
+  processedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  processedByEmployee: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
+  processedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
   }
 });
 
+const orderPromotionSchema = new Schema<IOrderPromotion>({
+  promotion: {
+    type: Schema.Types.ObjectId,
+    ref: 'Promotion',
+    required: true
+  },
+  code: String,
+  name: {
+    type: String,
+    required: true
+  },
+  type: {
+    type: String,
+    required: true
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
 const orderPaymentSchema = new Schema<IOrderPayment>({
   method: {
     type: String,
     required: true,
     enum: ['card', 'upi', 'netbanking', 'cod']
   },
+  provider: String,
+  intentId: String,
   transactionId: String,
   status: {
     type: String,
@@ -119,6 +375,7 @@ const orderPaymentSchema = new Schema<IOrderPayment>({
     enum: ['pending', 'completed', 'failed', 'refunded'],
     default: 'pending'
   },
+  paidAt: Date,
   amount: {
     type: Number,
     required: true,
@@ -146,7 +403,7 @@ const orderTimelineSchema = new Schema<IOrderTimelineEntry>({
   status: {
     type: String,
     required: true,
-    enum: ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'confirmed']
+    enum: ORDER_STATUSES
   },
   note: {
     type: String,
@@ -155,6 +412,10 @@ const orderTimelineSchema = new Schema<IOrderTimelineEntry>({
   updatedBy: {
     type: Schema.Types.ObjectId,
     ref: 'User'
+  },
+  updatedByEmployee: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee'
   }
 });
 
@@ -220,7 +481,7 @@ const orderSchema = new Schema<IOrderDocument, IOrderModel>({
   status: {
     type: String,
     required: true,
-    enum: ['pending', 'processing', 'shipped', 'delivered', 'cancelled', 'refunded', 'confirmed'],
+    enum: ORDER_STATUSES,
     default: 'pending'
   },
   subTotal: {
@@ -228,6 +489,12 @@ const orderSchema = new Schema<IOrderDocument, IOrderModel>({
     required: true,
     min: 0
   },
+  discount: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  promotions: [orderPromotionSchema],
   tax: {
     type: Number,
     required: true,
@@ -241,6 +508,11 @@ const orderSchema = new Schema<IOrderDocument, IOrderModel>({
   },
   payment: orderPaymentSchema,
   timeline: [orderTimelineSchema],
+  refunds: [orderRefundSchema],
+  confirmedAt: Date,
+  shippedAt: Date,
+  deliveredAt: Date,
+  cancelledAt: Date,
   notes: String,
   isGift: {
     type: Boolean,
@@ -255,8 +527,11 @@ const orderSchema = new Schema<IOrderDocument, IOrderModel>({
 // orderSchema.index({ orderNumber: 1 }, { unique: true }); // Duplicate, unique: true already creates index
 orderSchema.index({ user: 1 });
 orderSchema.index({ 'items.shop': 1 });
+orderSchema.index({ 'items.franchise': 1 });
 orderSchema.index({ status: 1 });
 orderSchema.index({ createdAt: -1 });
+orderSchema.index({ 'payment.intentId': 1 }, { sparse: true });
+orderSchema.index({ 'promotions.promotion': 1 });
 
 // Static method to generate order number
 orderSchema.statics.generateOrderNumber = async function(): Promise<string> {
@@ -285,40 +560,156 @@ orderSchema.methods.addTimelineEntry = async function(entry: IOrderTimelineEntry
   await this.save();
 };
 
-// Method to update status
+// Employees are kept in their own collection, so their changes are recorded under the employee reference
+const changedByFields = (changedBy: Types.ObjectId | undefined, actor: OrderActor | undefined) =>
+  actor === 'employee' ? { updatedByEmployee: changedBy } : { updatedBy: changedBy };
+
+// Validate a transition against the state machine and apply it, stamping the lifecycle timestamp
+const applyTransition = (order: IOrderDocument, status: OrderStatus, actor: OrderActor): OrderStatus => {
+  const previousStatus = order.status;
+  assertOrderTransition(previousStatus, status, actor);
+
+  order.status = status;
+  const timestampField = ORDER_STATUS_TIMESTAMPS[status];
+  if (timestampField) {
+    order[timestampField] = new Date();
+  }
+  return previousStatus;
+};
+
+// Method to update status through the state machine and run its side effects
 orderSchema.methods.updateStatus = async function(
+  this: IOrderDocument,
   status: OrderStatus,
-  note: string,
-  updatedBy?: Types.ObjectId
+  note?: string,
+  updatedBy?: Types.ObjectId,
+  actor: OrderActor = 'system'
 ): Promise<void> {
-  this.status = status;
+  const previousStatus = applyTransition(this, status, actor);
   this.timeline.push({
     timestamp: new Date(),
     status,
-    note,
-    updatedBy
+    note: note || `Status changed from ${previousStatus} to ${status}`,
+    ...changedByFields(updatedBy, actor)
   });
   await this.save();
+
+  await runOrderStatusHooks(this, previousStatus, status);
+};
+
+// Amount actually collected from the customer (COD is collected on delivery)
+orderSchema.methods.getPaidAmount = function(): number {
+  const collected = ['completed', 'refunded'].includes(this.payment.status)
+    || (this.payment.method === 'cod' && this.status === 'delivered');
+  return collected ? this.payment.amount : 0;
 };
 
-// Method to process refund
-orderSchema.methods.processRefund = async function(amount: number, reason: string): Promise<void> {
-  if (amount > this.total) {
-    throw new Error('Refund amount cannot be greater than order total');
+// Amount that can still be refunded
+orderSchema.methods.getRefundableAmount = function(): number {
+  return Math.max(0, Math.round((this.getPaidAmount() - (this.payment.refundAmount || 0)) * 100) / 100);
+};
+
+/**
+ * Method to process a (partial) refund and record it in the refund ledger.
+ * The save is conditional on the version that was read, so two refunds racing
+ * for the same money cannot both pass the refundable check.
+ */
+orderSchema.methods.processRefund = async function(
+  this: IOrderDocument,
+  amount: number,
+  reason: string,
+  options: IRefundOptions = {}
+): Promise<IOrderRefund> {
+  const { lines = [], processedBy, actor, providerRefundId, session } = options;
+
+  if (amount <= 0) {
+    throw new Error('Refund amount must be greater than zero');
+  }
+
+  const refundable = this.getRefundableAmount();
+  if (amount > refundable + 0.005) {
+    throw new Error(`Refund amount ${amount} exceeds refundable amount ${refundable}`);
+  }
+
+  for (const line of lines) {
+    const item = this.items.find(orderItem => orderItem._id?.equals(line.item));
+    if (!item) {
+      throw new Error(`Order item ${line.item} not found`);
+    }
+    const remaining = item.quantity - (item.refundedQuantity || 0);
+    if (line.quantity > remaining) {
+      throw new Error(`Cannot refund ${line.quantity} units of item ${line.item}; only ${remaining} remaining`);
+    }
+    item.refundedQuantity = (item.refundedQuantity || 0) + line.quantity;
   }
 
-  this.payment.status = 'refunded';
-  this.payment.refundAmount = amount;
+  const refund: IOrderRefund = {
+    amount,
+    reason,
+    items: lines,
+    ...(actor === 'employee' ? { processedByEmployee: processedBy } : { processedBy }),
+    providerRefundId,
+    processedAt: new Date()
+  };
+  this.refunds.push(refund);
+
+  this.payment.refundAmount = Math.round(((this.payment.refundAmount || 0) + amount) * 100) / 100;
   this.payment.refundReason = reason;
-  this.status = 'refunded';
+
+  const fullyRefunded = this.getRefundableAmount() === 0;
+  let previousStatus: OrderStatus | undefined;
+  if (fullyRefunded) {
+    this.payment.status = 'refunded';
+    previousStatus = applyTransition(this, 'refunded', 'system');
+  }
 
   this.timeline.push({
     timestamp: new Date(),
-    status: 'refunded',
-    note: `Refunded ${amount} - ${reason}`
+    status: this.status,
+    note: `${fullyRefunded ? 'Refunded' : 'Partially refunded'} ${amount} - ${reason}`,
+    ...changedByFields(processedBy, actor)
+  });
+
+  this.increment();
+  await this.save({ session });
+
+  if (previousStatus && !session) {
+    await runOrderStatusHooks(this, previousStatus, 'refunded');
+  }
+
+  return this.refunds[this.refunds.length - 1];
+};
+
+// Method to record a payment status change coming from a provider
+orderSchema.methods.applyPaymentUpdate = async function(
+  this: IOrderDocument,
+  status: PaymentStatus,
+  note: string,
+  transactionId?: string
+): Promise<void> {
+  this.payment.status = status;
+  if (transactionId) {
+    this.payment.transactionId = transactionId;
+  }
+  let previousStatus: OrderStatus | undefined;
+  if (status === 'completed') {
+    this.payment.paidAt = new Date();
+    if (this.status === 'pending') {
+      previousStatus = applyTransition(this, 'confirmed', 'system');
+    }
+  }
+
+  this.timeline.push({
+    timestamp: new Date(),
+    status: this.status,
+    note
   });
 
   await this.save();
+
+  if (previousStatus) {
+    await runOrderStatusHooks(this, previousStatus, this.status);
+  }
 };
 
 // Static method to find orders by user
@@ -343,7 +734,7 @@ orderSchema.pre('save', function(next) {
     this.subTotal = this.items.reduce((total, item) => total + item.total, 0);
     
     // Calculate total
-    this.total = this.subTotal + this.tax + this.shipping.cost;
+    this.total = this.subTotal - (this.discount || 0) + this.tax + this.shipping.cost;
   }
   next();
 });
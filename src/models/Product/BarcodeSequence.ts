@@ -0,0 +1,37 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IBarcodeSequence {
+  prefix: string;
+  sequence: number;
+}
+
+export interface IBarcodeSequenceDocument extends IBarcodeSequence, Document {}
+
+interface IBarcodeSequenceModel extends Model<IBarcodeSequenceDocument> {
+  next(prefix: string): Promise<number>;
+}
+
+const barcodeSequenceSchema = new Schema<IBarcodeSequenceDocument, IBarcodeSequenceModel>({
+  prefix: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  sequence: {
+    type: Number,
+    required: true,
+    default: 0
+  }
+});
+
+// Static method to atomically take the next in-store barcode number for a prefix
+barcodeSequenceSchema.statics.next = async function(prefix: string): Promise<number> {
+  const counter = await this.findOneAndUpdate(
+    { prefix },
+    { $inc: { sequence: 1 } },
+    { upsert: true, new: true }
+  );
+  return counter!.sequence;
+};
+
+export default mongoose.model<IBarcodeSequenceDocument, IBarcodeSequenceModel>('BarcodeSequence', barcodeSequenceSchema);
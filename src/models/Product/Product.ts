@@ -1,5 +1,24 @@
 import mongoose, { Document, Model, Schema, Types } from 'mongoose';
-import { IImage } from '../../types/common';
+import { IDimensions, IImage, IWeight } from '../../types/common';
+import { GST_RATES, DEFAULT_GST_RATE } from '../../utils/gst';
+import { isValidGtin } from '../../utils/barcode';
+import ProductInventory from './ProductInventory';
+
+// A sellable size/weight/pack of a product, stocked and priced on its own
+export interface IProductVariant {
+  _id?: Types.ObjectId;
+  name: string;          // e.g. "5 kg" or "Pack of 6"
+  sku: string;
+  barcode?: string;      // GTIN/EAN, unique across products and variants
+  mrp?: number;
+  salePrice?: number;
+  costPrice?: number;
+  sellingPrice?: number;
+  stock: number;
+  weight?: IWeight;
+  dimensions?: IDimensions;
+  isActive: boolean;
+}
 
 export interface IProduct {
   name: string;
@@ -7,12 +26,18 @@ export interface IProduct {
   category: Types.ObjectId;
   brand?: Types.ObjectId;
   sku: string;
+  barcode?: string; // Manufacturer GTIN/EAN-13, or an in-store code issued for labels
+  mrp?: number;     // Maximum retail price printed on the pack; nothing may sell above it
   salePrice?: number;
   costPrice?: number;
   sellingPrice?: number;
+  hsnCode?: string;
+  gstRate: number; // GST percentage, e.g. 18
   stock: number;
   minStock: number;
   images: IImage[];
+  variants: IProductVariant[]; // When present, stock lives on the variants and Product.stock is their total
+  searchKeywords: string[];    // Category and brand names, copied in so the text index can match them
   isActive: boolean;
 }
 
@@ -20,9 +45,83 @@ export interface IProductDocument extends IProduct, Document {
   _id: Types.ObjectId;
   updateStock(quantity: number): Promise<void>;
   isLowStock(): boolean;
+  getVariant(variantId?: Types.ObjectId | string): IProductVariant | undefined;
+  getAvailableStock(variantId?: Types.ObjectId | string): number;
+  getTransferPrice(variantId?: Types.ObjectId | string): number;
+  getSellingPrice(variantId?: Types.ObjectId | string): number;
+  getMrp(variantId?: Types.ObjectId | string): number | undefined;
+}
+
+export interface IBarcodeMatch {
+  product: IProductDocument;
+  variant?: IProductVariant;
 }
 
-interface IProductModel extends Model<IProductDocument> {}
+interface IProductModel extends Model<IProductDocument> {
+  findByBarcode(code: string): Promise<IBarcodeMatch | null>;
+  isBarcodeTaken(code: string, exclude?: { productId?: Types.ObjectId | string; variantId?: Types.ObjectId | string }): Promise<boolean>;
+  refreshSearchKeywords(filter: Record<string, any>): Promise<number>;
+}
+
+const barcodeValidator = {
+  validator: (value?: string) => !value || isValidGtin(value),
+  message: 'Barcode must be a valid GTIN/EAN with a correct check digit'
+};
+
+const productVariantSchema = new Schema<IProductVariant>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  sku: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  barcode: {
+    type: String,
+    trim: true,
+    validate: barcodeValidator
+  },
+  mrp: {
+    type: Number,
+    min: 0
+  },
+  salePrice: {
+    type: Number,
+    min: 0
+  },
+  costPrice: {
+    type: Number,
+    min: 0
+  },
+  sellingPrice: {
+    type: Number,
+    min: 0
+  },
+  stock: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  weight: {
+    value: Number,
+    unit: String
+  },
+  dimensions: {
+    length: Number,
+    width: Number,
+    height: Number,
+    unit: String
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+});
 
 const productSchema = new Schema<IProductDocument, IProductModel>({
   name: {
@@ -56,6 +155,17 @@ const productSchema = new Schema<IProductDocument, IProductModel>({
     unique: true,
     default: () => 'SKU-' + Math.random().toString(36).substr(2, 9).toUpperCase()
   },
+  barcode: {
+    type: String,
+    trim: true,
+    unique: true,
+    sparse: true,
+    validate: barcodeValidator
+  },
+  mrp: {
+    type: Number,
+    min: 0
+  },
   salePrice: {
     type: Number,
     min: 0
@@ -68,6 +178,16 @@ const productSchema = new Schema<IProductDocument, IProductModel>({
     type: Number,
     min: 0
   },
+  hsnCode: {
+    type: String,
+    trim: true,
+    match: /^(\d{4}|\d{6}|\d{8})$/
+  },
+  gstRate: {
+    type: Number,
+    enum: GST_RATES,
+    default: DEFAULT_GST_RATE
+  },
   stock: {
     type: Number,
     required: true,
@@ -91,19 +211,143 @@ const productSchema = new Schema<IProductDocument, IProductModel>({
       default: false
     }
   }],
+  variants: [productVariantSchema],
+  searchKeywords: {
+    type: [String],
+    default: []
+  },
   isActive: {
     type: Boolean,
     default: true
   }
 });
 
-// Method to update stock
+// Indexes
+productSchema.index({ 'variants.sku': 1 }, { unique: true, sparse: true });
+productSchema.index({ 'variants.barcode': 1 }); // Uniqueness against products is checked by isBarcodeTaken
+productSchema.index({ category: 1 });
+productSchema.index({ brand: 1 });
+productSchema.index(
+  {
+    name: 'text',
+    sku: 'text',
+    'variants.name': 'text',
+    'variants.sku': 'text',
+    searchKeywords: 'text',
+    description: 'text'
+  },
+  {
+    name: 'product_search',
+    weights: { name: 10, sku: 8, 'variants.sku': 8, 'variants.name': 6, searchKeywords: 4, description: 1 }
+  }
+);
+
+// Category and brand names a product should be found by
+const buildSearchKeywords = async (categoryId?: Types.ObjectId, brandId?: Types.ObjectId | null): Promise<string[]> => {
+  const [category, brand] = await Promise.all([
+    categoryId ? mongoose.model('ProductCategory').findById(categoryId).select('name').lean<{ name: string }>() : null,
+    brandId ? mongoose.model('Vendor').findById(brandId).select('name').lean<{ name: string }>() : null
+  ]);
+  return [category?.name, brand?.name].filter((name): name is string => !!name);
+};
+
+// Keep the copied category and brand names in step with the references
+productSchema.pre('save', async function(next) {
+  if (this.isNew || this.isModified('category') || this.isModified('brand')) {
+    this.searchKeywords = await buildSearchKeywords(this.category, this.brand);
+  }
+  next();
+});
+
+// Static method to recopy category and brand names after one is renamed; returns products updated
+productSchema.statics.refreshSearchKeywords = async function(filter: Record<string, any>): Promise<number> {
+  const products = await this.find(filter).select('category brand').lean();
+  if (products.length === 0) {
+    return 0;
+  }
+
+  const operations = await Promise.all(products.map(async (product: IProductDocument) => ({
+    updateOne: {
+      filter: { _id: product._id },
+      update: { $set: { searchKeywords: await buildSearchKeywords(product.category, product.brand) } }
+    }
+  })));
+  await this.bulkWrite(operations);
+
+  return products.length;
+};
+
+// Static method to find the product, and variant if any, a scanned code belongs to
+productSchema.statics.findByBarcode = async function(code: string): Promise<IBarcodeMatch | null> {
+  const product = await this.findOne({ $or: [{ barcode: code }, { 'variants.barcode': code }] });
+  if (!product) {
+    return null;
+  }
+
+  const variant = product.barcode === code
+    ? undefined
+    : product.variants.find((entry: IProductVariant) => entry.barcode === code);
+  return { product, variant };
+};
+
+// Static method to check whether a code is already used by another product or variant
+productSchema.statics.isBarcodeTaken = async function(
+  code: string,
+  exclude: { productId?: Types.ObjectId | string; variantId?: Types.ObjectId | string } = {}
+): Promise<boolean> {
+  const match = await (this as IProductModel).findByBarcode(code);
+  if (!match) {
+    return false;
+  }
+
+  const sameProduct = !!exclude.productId && match.product._id.equals(exclude.productId);
+  if (exclude.variantId) {
+    return !(sameProduct && match.variant?._id?.equals(exclude.variantId));
+  }
+  return !(sameProduct && !match.variant);
+};
+
+// Method to update stock, booked on the inventory ledger as an adjustment
 productSchema.methods.updateStock = async function(quantity: number): Promise<void> {
-  this.stock += quantity;
-  if (this.stock < 0) {
-    this.stock = 0;
+  const change = Math.max(quantity, -this.stock);
+  if (change === 0) {
+    return;
   }
-  await this.save();
+
+  const transaction = await ProductInventory.recordTransaction(this._id, 'adjustment', change);
+  this.stock = transaction.newStock;
+};
+
+// Method to find one of the product's variants
+productSchema.methods.getVariant = function(variantId?: Types.ObjectId | string): IProductVariant | undefined {
+  if (!variantId) {
+    return undefined;
+  }
+  return this.variants.find((variant: IProductVariant) => variant._id?.toString() === variantId.toString());
+};
+
+// Method to get units on hand for the product, or for one of its variants
+productSchema.methods.getAvailableStock = function(variantId?: Types.ObjectId | string): number {
+  const variant = this.getVariant(variantId);
+  return variant ? variant.stock : this.stock;
+};
+
+// Method to get the price a franchise pays centrally, preferring the variant's own price
+productSchema.methods.getTransferPrice = function(variantId?: Types.ObjectId | string): number {
+  const variant = this.getVariant(variantId);
+  return variant?.costPrice || variant?.salePrice || this.costPrice || this.salePrice || 0;
+};
+
+// Method to get the customer price, preferring the variant's own price
+productSchema.methods.getSellingPrice = function(variantId?: Types.ObjectId | string): number {
+  const variant = this.getVariant(variantId);
+  return variant?.sellingPrice ?? variant?.salePrice ?? this.sellingPrice ?? this.salePrice ?? 0;
+};
+
+// Method to get the MRP, preferring the variant's own; undefined when none is recorded
+productSchema.methods.getMrp = function(variantId?: Types.ObjectId | string): number | undefined {
+  const variant = this.getVariant(variantId);
+  return variant?.mrp ?? this.mrp ?? undefined;
 };
 
 // Method to check if product is low on stock
@@ -0,0 +1,306 @@
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+import WarehouseStock from '../Warehouse/WarehouseStock';
+
+export type ProductInventoryTransactionType =
+  | 'initial_stock'
+  | 'purchase'      // Goods receipt from a vendor
+  | 'sale'          // Reserved by a customer order
+  | 'return'        // Released by a cancellation or refund
+  | 'transfer_out'  // Shipped to a franchise
+  | 'adjustment'    // Manual correction
+  | 'damage'
+  | 'expired';
+
+export const PRODUCT_INVENTORY_TRANSACTION_TYPES: ProductInventoryTransactionType[] = [
+  'initial_stock', 'purchase', 'sale', 'return', 'transfer_out', 'adjustment', 'damage', 'expired'
+];
+
+export interface IProductInventory extends ITimestamps {
+  product: Types.ObjectId;
+  variant?: Types.ObjectId;   // Product variant whose stock moved, for products sold in variants
+  warehouse?: Types.ObjectId; // Warehouse the units moved in or out of, if any
+  transactionType: ProductInventoryTransactionType;
+  quantity: number; // positive for additions, negative for reductions
+  previousStock: number;
+  newStock: number;
+  referenceNumber?: string; // Order, transfer or GRN number
+  notes?: string;
+  performedBy?: Types.ObjectId;
+  performedByEmployee?: Types.ObjectId; // Set instead of performedBy when an employee moved the stock
+  costPerUnit?: number;
+  totalCost?: number;
+}
+
+export interface IProductInventoryDocument extends IProductInventory, Document {
+  _id: Types.ObjectId;
+}
+
+export interface IProductInventoryOptions {
+  referenceNumber?: string;
+  notes?: string;
+  performedBy?: Types.ObjectId;
+  performedByEmployee?: Types.ObjectId;
+  costPerUnit?: number;
+  onlyActive?: boolean;     // Refuse the movement when the product is inactive
+  variant?: Types.ObjectId;
+  warehouse?: Types.ObjectId;
+  fromReserved?: boolean;   // Units taken out of the warehouse were reserved earlier
+  session?: ClientSession;  // Run inside the caller's transaction
+}
+
+/**
+ * Raised when a central stock movement cannot be applied because the product
+ * is missing, inactive or would go below zero.
+ */
+export class ProductStockError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProductStockError';
+  }
+}
+
+interface IProductInventoryModel extends Model<IProductInventoryDocument> {
+  recordTransaction(
+    productId: Types.ObjectId,
+    type: ProductInventoryTransactionType,
+    quantity: number,
+    options?: IProductInventoryOptions
+  ): Promise<IProductInventoryDocument>;
+
+  setStock(
+    productId: Types.ObjectId,
+    stock: number,
+    options?: IProductInventoryOptions
+  ): Promise<IProductInventoryDocument | null>;
+
+  getInventoryHistory(
+    productId: Types.ObjectId,
+    startDate?: Date,
+    endDate?: Date
+  ): Promise<IProductInventoryDocument[]>;
+}
+
+const productInventorySchema = new Schema<IProductInventoryDocument, IProductInventoryModel>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true,
+    index: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId
+  },
+  warehouse: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse',
+    index: true
+  },
+  transactionType: {
+    type: String,
+    enum: PRODUCT_INVENTORY_TRANSACTION_TYPES,
+    required: true,
+    index: true
+  },
+  quantity: {
+    type: Number,
+    required: true
+  },
+  previousStock: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  newStock: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  referenceNumber: {
+    type: String,
+    trim: true,
+    index: true
+  },
+  notes: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  performedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  performedByEmployee: {
+    type: Schema.Types.ObjectId,
+    ref: 'Employee'
+  },
+  costPerUnit: {
+    type: Number,
+    min: 0
+  },
+  totalCost: {
+    type: Number,
+    min: 0
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+productInventorySchema.index({ product: 1, createdAt: -1 });
+productInventorySchema.index({ transactionType: 1, createdAt: -1 });
+
+// Explain why a conditional stock update matched nothing
+const describeStockFailure = async (
+  productId: Types.ObjectId,
+  quantity: number,
+  variantId?: Types.ObjectId,
+  session?: ClientSession
+): Promise<string> => {
+  const product = await mongoose.model('Product').findById(productId).select('variants').session(session || null);
+  if (!product) {
+    return `Product ${productId} not found`;
+  }
+  if (variantId && !product.variants.some((variant: any) => variant._id.equals(variantId))) {
+    return `Variant ${variantId} not found on product ${productId}`;
+  }
+  if (!variantId && product.variants.length > 0) {
+    return `Product ${productId} is sold in variants; choose a variant`;
+  }
+  return `Insufficient stock for product ${productId}. Requested: ${-quantity}`;
+};
+
+/**
+ * Static method to record a central stock movement. Product.stock is changed
+ * with a conditional $inc, so concurrent reductions can never take the same
+ * unit, and the ledger row is written from the stock actually seen. Products
+ * sold in variants must name one: the variant's stock and the product total
+ * move together. When a warehouse is given its stock moves too, and is put
+ * back if the product update fails outside a transaction.
+ */
+productInventorySchema.statics.recordTransaction = async function(
+  productId: Types.ObjectId,
+  type: ProductInventoryTransactionType,
+  quantity: number,
+  options: IProductInventoryOptions = {}
+): Promise<IProductInventoryDocument> {
+  const Product = mongoose.model('Product');
+  const { session, onlyActive, fromReserved, ...details } = options;
+
+  if (details.warehouse) {
+    const warehouseStock = await WarehouseStock.adjust(details.warehouse, productId, quantity, {
+      variant: details.variant,
+      fromReserved,
+      session
+    });
+    if (!warehouseStock) {
+      throw new ProductStockError(`Insufficient stock for product ${productId} at warehouse ${details.warehouse}. Requested: ${-quantity}`);
+    }
+  }
+
+  const filter: any = { _id: productId };
+  const update: any = { stock: quantity };
+  if (details.variant) {
+    const variantMatch: any = { _id: details.variant };
+    if (quantity < 0) variantMatch.stock = { $gte: -quantity };
+    if (onlyActive) variantMatch.isActive = true;
+    filter.variants = { $elemMatch: variantMatch };
+    update['variants.$.stock'] = quantity;
+  } else {
+    if (quantity < 0) filter.stock = { $gte: -quantity };
+    filter['variants.0'] = { $exists: false };
+  }
+  if (onlyActive) {
+    filter.isActive = true;
+  }
+
+  const product = await Product.findOneAndUpdate(
+    filter,
+    { $inc: update },
+    { new: true, session }
+  ).select('name stock variants');
+
+  if (!product) {
+    // Put the warehouse units back; inside a transaction the abort does this
+    if (details.warehouse && !session) {
+      await WarehouseStock.adjust(details.warehouse, productId, -quantity, { variant: details.variant });
+      if (fromReserved) {
+        await WarehouseStock.reserve(details.warehouse, productId, -quantity, { variant: details.variant });
+      }
+    }
+    throw new ProductStockError(await describeStockFailure(productId, quantity, details.variant, session));
+  }
+
+  // Variant rows record the variant's own stock; the product total moved with it
+  const newStock = details.variant
+    ? product.variants.find((variant: any) => variant._id.equals(details.variant)).stock
+    : product.stock;
+  const totalCost = details.costPerUnit !== undefined ? Math.abs(quantity) * details.costPerUnit : undefined;
+
+  const [transaction] = await this.create([{
+    product: productId,
+    transactionType: type,
+    quantity,
+    previousStock: newStock - quantity,
+    newStock,
+    totalCost,
+    ...details
+  }], { session });
+
+  return transaction;
+};
+
+// Static method to set stock to a counted figure, recording the difference
+productInventorySchema.statics.setStock = async function(
+  productId: Types.ObjectId,
+  stock: number,
+  options: IProductInventoryOptions = {}
+): Promise<IProductInventoryDocument | null> {
+  const Product = mongoose.model('Product');
+  const product = await Product.findById(productId).select('stock variants').session(options.session || null);
+  if (!product) {
+    throw new ProductStockError(`Product ${productId} not found`);
+  }
+
+  let current = product.stock;
+  if (options.variant) {
+    const variant = product.variants.find((entry: any) => entry._id.equals(options.variant));
+    if (!variant) {
+      throw new ProductStockError(`Variant ${options.variant} not found on product ${productId}`);
+    }
+    current = variant.stock;
+  }
+
+  const difference = stock - current;
+  if (difference === 0) {
+    return null;
+  }
+
+  return (this as IProductInventoryModel).recordTransaction(productId, 'adjustment', difference, options);
+};
+
+// Static method to get inventory history
+productInventorySchema.statics.getInventoryHistory = async function(
+  productId: Types.ObjectId,
+  startDate?: Date,
+  endDate?: Date
+): Promise<IProductInventoryDocument[]> {
+  const query: any = { product: productId };
+
+  if (startDate || endDate) {
+    query.createdAt = {};
+    if (startDate) query.createdAt.$gte = startDate;
+    if (endDate) query.createdAt.$lte = endDate;
+  }
+
+  return this.find(query)
+    .populate('performedBy', 'firstName lastName email')
+    .populate('performedByEmployee', 'firstName lastName email')
+    .sort({ createdAt: -1 })
+    .lean()
+    .exec();
+};
+
+export default mongoose.model<IProductInventoryDocument, IProductInventoryModel>('ProductInventory', productInventorySchema);
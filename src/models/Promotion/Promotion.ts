@@ -0,0 +1,179 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+
+export type PromotionType = 'percentage' | 'flat' | 'buy_x_get_y';
+
+export const PROMOTION_TYPES: PromotionType[] = ['percentage', 'flat', 'buy_x_get_y'];
+
+// What a promotion applies to; an empty list places no restriction
+export interface IPromotionScope {
+  products: Types.ObjectId[];
+  categories: Types.ObjectId[];
+  brands: Types.ObjectId[];
+  franchises: Types.ObjectId[]; // Only lines sold by these franchises
+}
+
+export interface IPromotion extends ITimestamps {
+  name: string;
+  description?: string;
+  code?: string;            // Coupon code the customer enters; automatic offers have none
+  type: PromotionType;
+  value: number;            // Percentage off, or flat amount off the eligible lines
+  maxDiscount?: number;     // Cap on a percentage discount
+  buyQuantity?: number;     // Buy-X-get-Y: units bought...
+  getQuantity?: number;     // ...and units discounted in every group
+  getDiscountPercent: number; // Discount on the "get" units, 100 for free
+  scope: IPromotionScope;
+  minBasketAmount: number;  // Eligible lines must add up to at least this
+  minBasketQuantity: number;
+  usageLimit?: number;      // Total redemptions allowed across all customers
+  usageLimitPerUser?: number;
+  usedCount: number;
+  startsAt?: Date;
+  endsAt?: Date;
+  isActive: boolean;
+  createdBy?: Types.ObjectId;
+}
+
+export interface IPromotionDocument extends IPromotion, Document {
+  _id: Types.ObjectId;
+  isLive(at?: Date): boolean;
+}
+
+interface IPromotionModel extends Model<IPromotionDocument> {
+  findLive(at?: Date): Promise<IPromotionDocument[]>;
+  findByCode(code: string): Promise<IPromotionDocument | null>;
+}
+
+const promotionSchema = new Schema<IPromotionDocument, IPromotionModel>({
+  name: {
+    type: String,
+    required: true,
+    trim: true,
+    maxlength: 100
+  },
+  description: {
+    type: String,
+    trim: true,
+    maxlength: 500
+  },
+  code: {
+    type: String,
+    trim: true,
+    uppercase: true,
+    unique: true,
+    sparse: true
+  },
+  type: {
+    type: String,
+    required: true,
+    enum: PROMOTION_TYPES
+  },
+  value: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  maxDiscount: {
+    type: Number,
+    min: 0
+  },
+  buyQuantity: {
+    type: Number,
+    min: 1
+  },
+  getQuantity: {
+    type: Number,
+    min: 1
+  },
+  getDiscountPercent: {
+    type: Number,
+    min: 0,
+    max: 100,
+    default: 100
+  },
+  scope: {
+    products: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Product'
+    }],
+    categories: [{
+      type: Schema.Types.ObjectId,
+      ref: 'ProductCategory'
+    }],
+    brands: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Vendor'
+    }],
+    franchises: [{
+      type: Schema.Types.ObjectId,
+      ref: 'Franchise'
+    }]
+  },
+  minBasketAmount: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  minBasketQuantity: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  usageLimit: {
+    type: Number,
+    min: 1
+  },
+  usageLimitPerUser: {
+    type: Number,
+    min: 1
+  },
+  usedCount: {
+    type: Number,
+    min: 0,
+    default: 0
+  },
+  startsAt: Date,
+  endsAt: Date,
+  isActive: {
+    type: Boolean,
+    default: true
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+promotionSchema.index({ isActive: 1, startsAt: 1, endsAt: 1 });
+
+// Method to check the promotion is switched on, within its dates and not used up
+promotionSchema.methods.isLive = function(at: Date = new Date()): boolean {
+  return this.isActive
+    && (!this.startsAt || this.startsAt <= at)
+    && (!this.endsAt || this.endsAt >= at)
+    && (!this.usageLimit || this.usedCount < this.usageLimit);
+};
+
+// Static method to find automatic offers (no coupon code) that are live
+promotionSchema.statics.findLive = async function(at: Date = new Date()): Promise<IPromotionDocument[]> {
+  const promotions: IPromotionDocument[] = await this.find({
+    isActive: true,
+    code: { $exists: false },
+    $and: [
+      { $or: [{ startsAt: null }, { startsAt: { $lte: at } }] },
+      { $or: [{ endsAt: null }, { endsAt: { $gte: at } }] }
+    ]
+  }).sort({ createdAt: 1 });
+  return promotions.filter(promotion => promotion.isLive(at));
+};
+
+// Static method to find a coupon by the code a customer typed
+promotionSchema.statics.findByCode = function(code: string): Promise<IPromotionDocument | null> {
+  return this.findOne({ code: code.trim().toUpperCase() });
+};
+
+export default mongoose.model<IPromotionDocument, IPromotionModel>('Promotion', promotionSchema);
@@ -0,0 +1,69 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+
+export type RedemptionStatus = 'applied' | 'reversed';
+
+// One use of a promotion on an order, counted against its usage limits
+export interface IPromotionRedemption extends ITimestamps {
+  promotion: Types.ObjectId;
+  user: Types.ObjectId;
+  order: Types.ObjectId;
+  code?: string;
+  discount: number;
+  status: RedemptionStatus;  // Reversed when the order is cancelled, freeing the use again
+  reversedAt?: Date;
+}
+
+export interface IPromotionRedemptionDocument extends IPromotionRedemption, Document {
+  _id: Types.ObjectId;
+}
+
+interface IPromotionRedemptionModel extends Model<IPromotionRedemptionDocument> {
+  countForUser(promotionId: Types.ObjectId | string, userId: Types.ObjectId | string): Promise<number>;
+}
+
+const promotionRedemptionSchema = new Schema<IPromotionRedemptionDocument, IPromotionRedemptionModel>({
+  promotion: {
+    type: Schema.Types.ObjectId,
+    ref: 'Promotion',
+    required: true
+  },
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: 'User',
+    required: true
+  },
+  order: {
+    type: Schema.Types.ObjectId,
+    ref: 'Order',
+    required: true
+  },
+  code: String,
+  discount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  status: {
+    type: String,
+    enum: ['applied', 'reversed'],
+    default: 'applied'
+  },
+  reversedAt: Date
+}, {
+  timestamps: true
+});
+
+// Indexes
+promotionRedemptionSchema.index({ promotion: 1, user: 1, status: 1 });
+promotionRedemptionSchema.index({ order: 1 });
+
+// Static method to count a user's standing uses of a promotion
+promotionRedemptionSchema.statics.countForUser = function(
+  promotionId: Types.ObjectId | string,
+  userId: Types.ObjectId | string
+): Promise<number> {
+  return this.countDocuments({ promotion: promotionId, user: userId, status: 'applied' });
+};
+
+export default mongoose.model<IPromotionRedemptionDocument, IPromotionRedemptionModel>('PromotionRedemption', promotionRedemptionSchema);
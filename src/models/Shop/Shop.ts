@@ -1,5 +1,6 @@
 import mongoose, { Document, Model, Schema, Types } from 'mongoose';
 import { ITimestamps, IAddress, ISEO } from '../../types/common';
+import { permissionListValidator } from '../../utils/permissions';
 
 export interface IShopStaffMember {
   user: Types.ObjectId;
@@ -62,10 +63,13 @@ const shopStaffSchema = new Schema<IShopStaffMember>({
     required: true,
     enum: ['manager', 'staff']
   },
-  permissions: [{
-    type: String,
-    required: true
-  }],
+  permissions: {
+    type: [{
+      type: String,
+      required: true
+    }],
+    validate: permissionListValidator
+  },
   isActive: {
     type: Boolean,
     default: true
@@ -1,6 +1,17 @@
 import mongoose, { Document, Model, Schema, Types, CallbackError } from 'mongoose';
 import bcrypt from 'bcryptjs';
 import { ITimestamps, IAddress } from '../../types/common';
+import { permissionListValidator } from '../../utils/permissions';
+
+// TOTP two-factor state; the secret fields are never selected unless asked for
+export interface IUserTwoFactor {
+  enabled: boolean;
+  secret?: string;          // Base32 TOTP secret, set once enrollment is confirmed
+  pendingSecret?: string;   // Secret awaiting its first code during enrollment
+  backupCodes?: string[];   // SHA-256 hashes of unused recovery codes
+  lastUsedStep?: number;    // TOTP step of the last accepted code, so a code cannot be replayed
+  enabledAt?: Date;
+}
 
 export interface IUser extends ITimestamps {
   firstName: string;
@@ -17,6 +28,8 @@ export interface IUser extends ITimestamps {
   lastLogin?: Date;
   loginAttempts: number;
   lockUntil?: Date;
+  lockCount: number; // Lockouts since the last successful login, for backoff
+  twoFactor: IUserTwoFactor;
 }
 
 export interface IUserDocument extends IUser, Document {
@@ -70,7 +83,8 @@ const userSchema = new Schema<IUserDocument, IUserModel>({
   },
   permissions: {
     type: [String],
-    default: []
+    default: [],
+    validate: permissionListValidator
   },
   isActive: {
     type: Boolean,
@@ -94,7 +108,34 @@ const userSchema = new Schema<IUserDocument, IUserModel>({
     required: true,
     default: 0
   },
-  lockUntil: Date
+  lockUntil: Date,
+  lockCount: {
+    type: Number,
+    default: 0
+  },
+  twoFactor: {
+    enabled: {
+      type: Boolean,
+      default: false
+    },
+    secret: {
+      type: String,
+      select: false
+    },
+    pendingSecret: {
+      type: String,
+      select: false
+    },
+    backupCodes: {
+      type: [String],
+      select: false
+    },
+    lastUsedStep: {
+      type: Number,
+      select: false
+    },
+    enabledAt: Date
+  }
 }, {
   timestamps: true
 });
@@ -159,7 +200,8 @@ userSchema.methods.unlock = async function(): Promise<void> {
   await this.updateOne({
     $set: {
       lockUntil: undefined,
-      loginAttempts: 0
+      loginAttempts: 0,
+      lockCount: 0
     }
   });
 };
@@ -188,6 +230,10 @@ userSchema.methods.toJSON = function() {
   delete obj.resetPasswordExpires;
   delete obj.loginAttempts;
   delete obj.lockUntil;
+  delete obj.lockCount;
+  if (obj.twoFactor) {
+    obj.twoFactor = { enabled: obj.twoFactor.enabled, enabledAt: obj.twoFactor.enabledAt };
+  }
   return obj;
 };
 
@@ -0,0 +1,165 @@
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+
+export interface IGoodsReceiptItem {
+  purchaseOrderItem: Types.ObjectId;
+  product: Types.ObjectId;
+  quantity: number;
+  unitCost: number;       // Ex-GST cost billed by the vendor for this delivery
+  gstRate: number;
+  taxableValue: number;
+  taxAmount: number;
+  total: number;
+}
+
+export interface IGoodsReceipt extends ITimestamps {
+  grnNumber: string;
+  purchaseOrder: Types.ObjectId;
+  vendor: Types.ObjectId;
+  warehouse?: Types.ObjectId;   // Warehouse the goods were received into
+  items: IGoodsReceiptItem[];
+  subTotal: number;
+  taxAmount: number;
+  total: number;           // Amount owed to the vendor for this delivery
+  vendorInvoiceNumber?: string;
+  vendorInvoiceDate?: Date;
+  receivedBy?: Types.ObjectId;
+  receivedAt: Date;
+  notes?: string;
+}
+
+export interface IGoodsReceiptDocument extends IGoodsReceipt, Document {
+  _id: Types.ObjectId;
+}
+
+interface IGoodsReceiptModel extends Model<IGoodsReceiptDocument> {
+  generateGrnNumber(session?: ClientSession): Promise<string>;
+}
+
+const goodsReceiptItemSchema = new Schema<IGoodsReceiptItem>({
+  purchaseOrderItem: {
+    type: Schema.Types.ObjectId,
+    required: true
+  },
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  unitCost: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  gstRate: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  taxableValue: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  taxAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  total: {
+    type: Number,
+    required: true,
+    min: 0
+  }
+}, { _id: false });
+
+const goodsReceiptSchema = new Schema<IGoodsReceiptDocument, IGoodsReceiptModel>({
+  grnNumber: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  purchaseOrder: {
+    type: Schema.Types.ObjectId,
+    ref: 'PurchaseOrder',
+    required: true
+  },
+  vendor: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vendor',
+    required: true
+  },
+  warehouse: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse'
+  },
+  items: {
+    type: [goodsReceiptItemSchema],
+    validate: [(items: IGoodsReceiptItem[]) => items.length > 0, 'A goods receipt needs at least one line']
+  },
+  subTotal: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  taxAmount: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  total: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  vendorInvoiceNumber: {
+    type: String,
+    trim: true
+  },
+  vendorInvoiceDate: Date,
+  receivedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  receivedAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+goodsReceiptSchema.index({ purchaseOrder: 1, createdAt: -1 });
+goodsReceiptSchema.index({ vendor: 1, receivedAt: -1 });
+
+// Static method to generate GRN number, e.g. GRN2510140001
+goodsReceiptSchema.statics.generateGrnNumber = async function(session?: ClientSession): Promise<string> {
+  const date = new Date();
+  const year = date.getFullYear().toString().slice(-2);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  const prefix = `GRN${year}${month}${day}`;
+
+  const lastReceipt = await this.findOne({ grnNumber: { $regex: `^${prefix}` } }, {}, { sort: { grnNumber: -1 }, session });
+  let sequence = 1;
+
+  if (lastReceipt) {
+    const lastSequence = parseInt(lastReceipt.grnNumber.slice(-4));
+    sequence = lastSequence + 1;
+  }
+
+  return `${prefix}${sequence.toString().padStart(4, '0')}`;
+};
+
+export default mongoose.model<IGoodsReceiptDocument, IGoodsReceiptModel>('GoodsReceipt', goodsReceiptSchema);
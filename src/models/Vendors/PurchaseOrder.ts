@@ -0,0 +1,267 @@
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+import { GST_RATES, DEFAULT_GST_RATE } from '../../utils/gst';
+
+export type PurchaseOrderStatus = 'draft' | 'sent' | 'partially_received' | 'received' | 'closed' | 'cancelled';
+
+export const PURCHASE_ORDER_STATUSES: PurchaseOrderStatus[] = [
+  'draft', 'sent', 'partially_received', 'received', 'closed', 'cancelled'
+];
+
+// Receipt statuses are reached through goods receipts; the rest are set by buyers
+export const PURCHASE_ORDER_TRANSITIONS: Record<PurchaseOrderStatus, PurchaseOrderStatus[]> = {
+  draft: ['sent', 'cancelled'],
+  sent: ['partially_received', 'received', 'cancelled'],
+  partially_received: ['partially_received', 'received', 'closed'], // Closing short-closes the balance
+  received: ['closed'],
+  closed: [],
+  cancelled: []
+};
+
+/**
+ * Raised when a purchase order cannot be changed as asked; statusCode is the
+ * HTTP status the route should answer with.
+ */
+export class PurchaseOrderError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PurchaseOrderError';
+  }
+}
+
+export interface IPurchaseOrderItem {
+  _id?: Types.ObjectId;
+  product: Types.ObjectId;
+  name: string;
+  sku?: string;
+  quantity: number;
+  unitCost: number;          // Ex-GST cost per unit agreed with the vendor
+  gstRate: number;
+  taxAmount: number;
+  total: number;             // Line total including GST
+  receivedQuantity: number;
+}
+
+export interface IPurchaseOrder extends ITimestamps {
+  poNumber: string;
+  vendor: Types.ObjectId;
+  items: IPurchaseOrderItem[];
+  subTotal: number;
+  taxAmount: number;
+  total: number;
+  status: PurchaseOrderStatus;
+  expectedDate?: Date;
+  notes?: string;
+  createdBy?: Types.ObjectId;
+  sentAt?: Date;
+  closedAt?: Date;
+  statusHistory: Array<{
+    status: PurchaseOrderStatus;
+    timestamp: Date;
+    notes?: string;
+    changedBy?: Types.ObjectId;
+  }>;
+}
+
+export interface IPurchaseOrderDocument extends IPurchaseOrder, Document {
+  _id: Types.ObjectId;
+  calculateTotals(): void;
+  updateStatus(
+    status: PurchaseOrderStatus,
+    notes?: string,
+    changedBy?: Types.ObjectId,
+    session?: ClientSession
+  ): Promise<void>;
+}
+
+interface IPurchaseOrderModel extends Model<IPurchaseOrderDocument> {
+  generatePoNumber(): Promise<string>;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Units of a line still to come from the vendor
+export const getPendingQuantity = (item: IPurchaseOrderItem): number =>
+  Math.max(0, item.quantity - (item.receivedQuantity || 0));
+
+const purchaseOrderItemSchema = new Schema<IPurchaseOrderItem>({
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true
+  },
+  name: {
+    type: String,
+    required: true
+  },
+  sku: String,
+  quantity: {
+    type: Number,
+    required: true,
+    min: 1
+  },
+  unitCost: {
+    type: Number,
+    required: true,
+    min: 0
+  },
+  gstRate: {
+    type: Number,
+    enum: GST_RATES,
+    default: DEFAULT_GST_RATE
+  },
+  taxAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  total: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  receivedQuantity: {
+    type: Number,
+    default: 0,
+    min: 0
+  }
+});
+
+const purchaseOrderSchema = new Schema<IPurchaseOrderDocument, IPurchaseOrderModel>({
+  poNumber: {
+    type: String,
+    required: true,
+    unique: true
+  },
+  vendor: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vendor',
+    required: true
+  },
+  items: {
+    type: [purchaseOrderItemSchema],
+    validate: [(items: IPurchaseOrderItem[]) => items.length > 0, 'A purchase order needs at least one line']
+  },
+  subTotal: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  taxAmount: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  total: {
+    type: Number,
+    default: 0,
+    min: 0
+  },
+  status: {
+    type: String,
+    required: true,
+    enum: PURCHASE_ORDER_STATUSES,
+    default: 'draft'
+  },
+  expectedDate: Date,
+  notes: {
+    type: String,
+    maxlength: 1000
+  },
+  createdBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  },
+  sentAt: Date,
+  closedAt: Date,
+  statusHistory: [{
+    _id: false,
+    status: {
+      type: String,
+      enum: PURCHASE_ORDER_STATUSES,
+      required: true
+    },
+    timestamp: {
+      type: Date,
+      default: Date.now
+    },
+    notes: String,
+    changedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User'
+    }
+  }]
+}, {
+  timestamps: true
+});
+
+// Indexes
+purchaseOrderSchema.index({ vendor: 1, createdAt: -1 });
+purchaseOrderSchema.index({ status: 1, createdAt: -1 });
+
+// Static method to generate PO number, e.g. PO2510140003
+purchaseOrderSchema.statics.generatePoNumber = async function(): Promise<string> {
+  const date = new Date();
+  const year = date.getFullYear().toString().slice(-2);
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  const prefix = `PO${year}${month}${day}`;
+
+  const lastOrder = await this.findOne({ poNumber: { $regex: `^${prefix}` } }, {}, { sort: { poNumber: -1 } });
+  let sequence = 1;
+
+  if (lastOrder) {
+    const lastSequence = parseInt(lastOrder.poNumber.slice(-4));
+    sequence = lastSequence + 1;
+  }
+
+  return `${prefix}${sequence.toString().padStart(4, '0')}`;
+};
+
+// Method to price each line and total the order
+purchaseOrderSchema.methods.calculateTotals = function(this: IPurchaseOrderDocument): void {
+  let subTotal = 0;
+  let taxAmount = 0;
+
+  for (const item of this.items) {
+    const taxable = item.unitCost * item.quantity;
+    item.taxAmount = roundCurrency(taxable * item.gstRate / 100);
+    item.total = roundCurrency(taxable + item.taxAmount);
+    subTotal += taxable;
+    taxAmount += item.taxAmount;
+  }
+
+  this.subTotal = roundCurrency(subTotal);
+  this.taxAmount = roundCurrency(taxAmount);
+  this.total = roundCurrency(subTotal + taxAmount);
+};
+
+// Method to move the order along its lifecycle
+purchaseOrderSchema.methods.updateStatus = async function(
+  this: IPurchaseOrderDocument,
+  status: PurchaseOrderStatus,
+  notes?: string,
+  changedBy?: Types.ObjectId,
+  session?: ClientSession
+): Promise<void> {
+  if (!PURCHASE_ORDER_TRANSITIONS[this.status].includes(status)) {
+    const allowed = PURCHASE_ORDER_TRANSITIONS[this.status];
+    throw new PurchaseOrderError(
+      `Invalid status transition from ${this.status} to ${status}. Allowed: ${allowed.length ? allowed.join(', ') : 'none'}`
+    );
+  }
+
+  this.status = status;
+  this.statusHistory.push({ status, timestamp: new Date(), notes, changedBy });
+
+  if (status === 'sent') {
+    this.sentAt = new Date();
+  }
+  if (status === 'closed' || status === 'cancelled') {
+    this.closedAt = new Date();
+  }
+
+  await this.save({ session });
+};
+
+export default mongoose.model<IPurchaseOrderDocument, IPurchaseOrderModel>('PurchaseOrder', purchaseOrderSchema);
@@ -0,0 +1,144 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+import GoodsReceipt from './GoodsReceipt';
+
+export type VendorPaymentMode = 'bank_transfer' | 'cheque' | 'upi' | 'cash';
+
+export interface IVendorPayment extends ITimestamps {
+  vendor: Types.ObjectId;
+  purchaseOrder?: Types.ObjectId;   // Optional: the order the payment settles
+  amount: number;
+  mode: VendorPaymentMode;
+  reference?: string;               // UTR / cheque number
+  paidAt: Date;
+  notes?: string;
+  recordedBy?: Types.ObjectId;
+}
+
+export interface IVendorPaymentDocument extends IVendorPayment, Document {
+  _id: Types.ObjectId;
+}
+
+export interface IVendorPayable {
+  vendor: Types.ObjectId;
+  billed: number;       // Value of goods received (GRN totals)
+  paid: number;
+  outstanding: number;
+  receiptCount: number;
+  lastReceivedAt?: Date;
+  lastPaidAt?: Date;
+}
+
+interface IVendorPaymentModel extends Model<IVendorPaymentDocument> {
+  summarisePayables(vendorId?: Types.ObjectId): Promise<IVendorPayable[]>;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const vendorPaymentSchema = new Schema<IVendorPaymentDocument, IVendorPaymentModel>({
+  vendor: {
+    type: Schema.Types.ObjectId,
+    ref: 'Vendor',
+    required: true
+  },
+  purchaseOrder: {
+    type: Schema.Types.ObjectId,
+    ref: 'PurchaseOrder'
+  },
+  amount: {
+    type: Number,
+    required: true,
+    min: 0.01
+  },
+  mode: {
+    type: String,
+    required: true,
+    enum: ['bank_transfer', 'cheque', 'upi', 'cash']
+  },
+  reference: {
+    type: String,
+    trim: true
+  },
+  paidAt: {
+    type: Date,
+    required: true,
+    default: Date.now
+  },
+  notes: {
+    type: String,
+    maxlength: 500
+  },
+  recordedBy: {
+    type: Schema.Types.ObjectId,
+    ref: 'User'
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+vendorPaymentSchema.index({ vendor: 1, paidAt: -1 });
+vendorPaymentSchema.index({ purchaseOrder: 1 });
+
+// Static method to work out what is owed to each vendor: goods received less payments made
+vendorPaymentSchema.statics.summarisePayables = async function(vendorId?: Types.ObjectId): Promise<IVendorPayable[]> {
+  const match = vendorId ? { vendor: new Types.ObjectId(vendorId) } : {};
+
+  const billed = await GoodsReceipt.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: '$vendor',
+        billed: { $sum: '$total' },
+        receiptCount: { $sum: 1 },
+        lastReceivedAt: { $max: '$receivedAt' }
+      }
+    }
+  ]);
+
+  const paid = await this.aggregate([
+    { $match: match },
+    {
+      $group: {
+        _id: '$vendor',
+        paid: { $sum: '$amount' },
+        lastPaidAt: { $max: '$paidAt' }
+      }
+    }
+  ]);
+
+  const payables = new Map<string, IVendorPayable>();
+  for (const entry of billed) {
+    payables.set(String(entry._id), {
+      vendor: entry._id,
+      billed: entry.billed,
+      paid: 0,
+      outstanding: 0,
+      receiptCount: entry.receiptCount,
+      lastReceivedAt: entry.lastReceivedAt
+    });
+  }
+  for (const entry of paid) {
+    const payable: IVendorPayable = payables.get(String(entry._id)) || {
+      vendor: entry._id,
+      billed: 0,
+      paid: 0,
+      outstanding: 0,
+      receiptCount: 0
+    };
+    payable.paid = entry.paid;
+    payable.lastPaidAt = entry.lastPaidAt;
+    payables.set(String(entry._id), payable);
+  }
+
+  return Array.from(payables.values())
+    .map(payable => ({
+      ...payable,
+      billed: roundCurrency(payable.billed),
+      paid: roundCurrency(payable.paid),
+      outstanding: roundCurrency(payable.billed - payable.paid)
+    }))
+    .sort((a, b) => b.outstanding - a.outstanding);
+};
+
+export default mongoose.model<IVendorPaymentDocument, IVendorPaymentModel>('VendorPayment', vendorPaymentSchema);
@@ -0,0 +1,88 @@
+import mongoose, { Document, Model, Schema, Types } from 'mongoose';
+import { IAddress, IGeoPoint, ITimestamps } from '../../types/common';
+
+export interface IWarehouse extends ITimestamps {
+  name: string;
+  code: string;            // Short unique code, e.g. DEL-01
+  address?: IAddress;
+  location?: IGeoPoint;    // Used to find the nearest warehouse to a franchise
+  contactPerson?: string;
+  phone?: string;
+  isDefault: boolean;      // Preferred when distance cannot be worked out
+  isActive: boolean;
+}
+
+export interface IWarehouseDocument extends IWarehouse, Document {
+  _id: Types.ObjectId;
+}
+
+interface IWarehouseModel extends Model<IWarehouseDocument> {
+  findActive(): Promise<IWarehouseDocument[]>;
+}
+
+const warehouseSchema = new Schema<IWarehouseDocument, IWarehouseModel>({
+  name: {
+    type: String,
+    required: true,
+    trim: true
+  },
+  code: {
+    type: String,
+    required: true,
+    unique: true,
+    uppercase: true,
+    trim: true
+  },
+  address: {
+    street: String,
+    city: String,
+    state: String,
+    zipCode: String,
+    country: String
+  },
+  location: {
+    latitude: {
+      type: Number,
+      min: -90,
+      max: 90
+    },
+    longitude: {
+      type: Number,
+      min: -180,
+      max: 180
+    }
+  },
+  contactPerson: String,
+  phone: String,
+  isDefault: {
+    type: Boolean,
+    default: false
+  },
+  isActive: {
+    type: Boolean,
+    default: true
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+warehouseSchema.index({ isActive: 1 });
+
+// Only one warehouse can be the default
+warehouseSchema.pre('save', async function(next) {
+  if (this.isModified('isDefault') && this.isDefault) {
+    await mongoose.model('Warehouse').updateMany(
+      { _id: { $ne: this._id }, isDefault: true },
+      { isDefault: false }
+    );
+  }
+  next();
+});
+
+// Static method to list warehouses that can ship stock
+warehouseSchema.statics.findActive = function(): Promise<IWarehouseDocument[]> {
+  return this.find({ isActive: true }).sort({ isDefault: -1, name: 1 });
+};
+
+export default mongoose.model<IWarehouseDocument, IWarehouseModel>('Warehouse', warehouseSchema);
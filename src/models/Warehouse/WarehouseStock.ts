@@ -0,0 +1,173 @@
+import mongoose, { ClientSession, Document, Model, Schema, Types } from 'mongoose';
+import { ITimestamps } from '../../types/common';
+
+export interface IWarehouseStock extends ITimestamps {
+  warehouse: Types.ObjectId;
+  product: Types.ObjectId;
+  variant?: Types.ObjectId | null;  // Set for products sold in variants
+  stock: number;     // Units physically held at the warehouse
+  reserved: number;  // Units promised to approved transfers that have not shipped
+}
+
+export interface IWarehouseStockDocument extends IWarehouseStock, Document {
+  _id: Types.ObjectId;
+}
+
+export interface IWarehouseStockOptions {
+  variant?: Types.ObjectId;
+  session?: ClientSession;
+}
+
+export interface IWarehouseStockChangeOptions extends IWarehouseStockOptions {
+  fromReserved?: boolean;  // The units being taken out were reserved earlier
+}
+
+interface IWarehouseStockModel extends Model<IWarehouseStockDocument> {
+  adjust(
+    warehouseId: Types.ObjectId,
+    productId: Types.ObjectId,
+    quantity: number,
+    options?: IWarehouseStockChangeOptions
+  ): Promise<IWarehouseStockDocument | null>;
+
+  reserve(
+    warehouseId: Types.ObjectId,
+    productId: Types.ObjectId,
+    quantity: number,
+    options?: IWarehouseStockOptions
+  ): Promise<boolean>;
+
+  release(
+    warehouseId: Types.ObjectId,
+    productId: Types.ObjectId,
+    quantity: number,
+    options?: IWarehouseStockOptions
+  ): Promise<void>;
+
+  getAllocatedStock(productId: Types.ObjectId, options?: IWarehouseStockOptions): Promise<number>;
+}
+
+const warehouseStockSchema = new Schema<IWarehouseStockDocument, IWarehouseStockModel>({
+  warehouse: {
+    type: Schema.Types.ObjectId,
+    ref: 'Warehouse',
+    required: true
+  },
+  product: {
+    type: Schema.Types.ObjectId,
+    ref: 'Product',
+    required: true,
+    index: true
+  },
+  variant: {
+    type: Schema.Types.ObjectId,
+    default: null
+  },
+  stock: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  },
+  reserved: {
+    type: Number,
+    required: true,
+    min: 0,
+    default: 0
+  }
+}, {
+  timestamps: true
+});
+
+// Indexes
+warehouseStockSchema.index({ warehouse: 1, product: 1, variant: 1 }, { unique: true });
+
+/**
+ * Static method to move stock in or out of a warehouse. Reductions only
+ * apply when enough is on hand (and reserved, for reserved units), so a
+ * null result means the warehouse cannot cover the quantity.
+ */
+warehouseStockSchema.statics.adjust = async function(
+  warehouseId: Types.ObjectId,
+  productId: Types.ObjectId,
+  quantity: number,
+  options: IWarehouseStockChangeOptions = {}
+): Promise<IWarehouseStockDocument | null> {
+  const { fromReserved, session } = options;
+  const key = { warehouse: warehouseId, product: productId, variant: options.variant || null };
+
+  if (quantity >= 0) {
+    return this.findOneAndUpdate(
+      key,
+      { $inc: { stock: quantity } },
+      { new: true, upsert: true, setDefaultsOnInsert: true, session }
+    );
+  }
+
+  const filter: any = { ...key };
+  const update: any = { stock: quantity };
+  if (fromReserved) {
+    filter.stock = { $gte: -quantity };
+    filter.reserved = { $gte: -quantity };
+    update.reserved = quantity;
+  } else {
+    // Unreserved units only: reserved stock is already spoken for
+    filter.$expr = { $gte: [{ $subtract: ['$stock', '$reserved'] }, -quantity] };
+  }
+
+  return this.findOneAndUpdate(filter, { $inc: update }, { new: true, session });
+};
+
+// Static method to hold stock for a transfer; false when not enough is free
+warehouseStockSchema.statics.reserve = async function(
+  warehouseId: Types.ObjectId,
+  productId: Types.ObjectId,
+  quantity: number,
+  options: IWarehouseStockOptions = {}
+): Promise<boolean> {
+  const result = await this.updateOne(
+    {
+      warehouse: warehouseId,
+      product: productId,
+      variant: options.variant || null,
+      $expr: { $gte: [{ $subtract: ['$stock', '$reserved'] }, quantity] }
+    },
+    { $inc: { reserved: quantity } },
+    { session: options.session }
+  );
+  return result.modifiedCount === 1;
+};
+
+// Static method to give back a reservation that will not ship
+warehouseStockSchema.statics.release = async function(
+  warehouseId: Types.ObjectId,
+  productId: Types.ObjectId,
+  quantity: number,
+  options: IWarehouseStockOptions = {}
+): Promise<void> {
+  await this.updateOne(
+    { warehouse: warehouseId, product: productId, variant: options.variant || null },
+    [{ $set: { reserved: { $max: [0, { $subtract: ['$reserved', quantity] }] } } }],
+    { session: options.session }
+  );
+};
+
+// Static method to total a product's (or variant's) stock held across all warehouses
+warehouseStockSchema.statics.getAllocatedStock = async function(
+  productId: Types.ObjectId,
+  options: IWarehouseStockOptions = {}
+): Promise<number> {
+  const [result] = await this.aggregate([
+    {
+      $match: {
+        product: new Types.ObjectId(productId),
+        variant: options.variant ? new Types.ObjectId(options.variant) : null
+      }
+    },
+    { $group: { _id: null, stock: { $sum: '$stock' } } }
+  ]).session(options.session || null);
+
+  return result ? result.stock : 0;
+};
+
+export default mongoose.model<IWarehouseStockDocument, IWarehouseStockModel>('WarehouseStock', warehouseStockSchema);
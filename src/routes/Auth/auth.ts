@@ -1,13 +1,33 @@
 // import express from 'express';
 const express = require('express');
-import { body, validationResult } from 'express-validator';
+import { body, param, validationResult } from 'express-validator';
 import User, { IUserDocument } from '../../models/User/User';
 import { authenticateToken, requirePermission } from '../../middleware/auth';
 import { sendEmail } from '../../utils/email';
 import { AuthRequest, AuthResponse, ApiResponse } from '../../types/routes';
+import Session from '../../models/Auth/Session';
+import { buildLockedResponse, isAccountLocked, recordFailedLogin, recordSuccessfulLogin } from '../../utils/accountLockout';
+import {
+  createSession,
+  listSessions,
+  revokeSession,
+  rotateRefreshToken,
+  SessionError,
+  signAccessToken,
+  signChallengeToken,
+  verifyChallengeToken
+} from '../../utils/authTokens';
+import { buildOtpauthUri, generateTotpSecret, verifyTotp } from '../../utils/totp';
+import {
+  canEnrollTwoFactor,
+  generateBackupCodes,
+  getTwoFactorPolicy,
+  isTwoFactorMandatory,
+  TWO_FACTOR_ISSUER,
+  verifyTwoFactorCode
+} from '../../utils/twoFactor';
 
 const router = express.Router();
-import jwt from 'jsonwebtoken';
 import bcrypt from 'bcryptjs';
 import { Types } from 'mongoose';
 import nodemailer from 'nodemailer';
@@ -31,6 +51,68 @@ const validateRegistration = [
     .withMessage('Valid phone number is required')
 ];
 
+// Claims carried by a user's access token
+const buildTokenPayload = (user: IUserDocument) => ({
+  userId: user._id,
+  role: user.role || 'user',
+  permissions: user.permissions || []
+});
+
+// Start a session for a user who has passed every login step and send their tokens
+const sendLoginResponse = async (req: AuthRequest, res: AuthResponse, user: IUserDocument, extra: object = {}) => {
+  const { token, refreshToken, expiresIn } = await createSession('user', user._id, buildTokenPayload(user), req);
+
+  // Remove sensitive fields from response
+  const userResponse = {
+    ...user.toJSON(),
+    role: user.role || 'user',
+    permissions: user.permissions || []
+  };
+
+  return res.json({
+    success: true,
+    user: userResponse,
+    token,
+    refreshToken,
+    expiresIn,
+    ...extra
+  });
+};
+
+// Two-factor enrollment is open to signed-in users, and to admins whose login is held until they enroll
+const authenticateForEnrollment = async (req: AuthRequest, res: AuthResponse, next: () => void) => {
+  if (!req.body?.challengeToken) {
+    return authenticateToken(req, res, next);
+  }
+
+  try {
+    const userId = verifyChallengeToken(req.body.challengeToken, '2fa_setup');
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({
+        success: false,
+        error: 'User account is inactive'
+      });
+    }
+
+    req.user = user;
+    next();
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Two-factor enrollment authentication error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+};
+
 // Register new user
 router.post('/register', validateRegistration, async (req: AuthRequest, res: AuthResponse) => {
   try {
@@ -68,16 +150,8 @@ router.post('/register', validateRegistration, async (req: AuthRequest, res: Aut
 
     await user.save();
 
-    // Generate token
-    const token = jwt.sign(
-      {
-        userId: user._id,
-        role: user.role || 'user',
-        permissions: user.permissions || []
-      },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '7d' }
-    );
+    // Start a session and issue its tokens
+    const { token, refreshToken, expiresIn } = await createSession('user', user._id, buildTokenPayload(user), req);
 
     // Remove sensitive fields from response
     const userResponse = {
@@ -90,7 +164,9 @@ router.post('/register', validateRegistration, async (req: AuthRequest, res: Aut
       success: true,
       message: 'Registration successful',
       user: userResponse,
-      token
+      token,
+      refreshToken,
+      expiresIn
     });
   } catch (error) {
     console.error('Registration error:', error);
@@ -128,6 +204,11 @@ router.post('/login', [
       });
     }
 
+    // A locked account is refused before the password is checked, so guessing cannot continue
+    if (isAccountLocked(user)) {
+      return res.status(423).json(buildLockedResponse(user.lockUntil!));
+    }
+
     // Check if password exists
     if (!user.password) {
       return res.status(401).json({
@@ -139,6 +220,10 @@ router.post('/login', [
     // Check password
     const isMatch = await user.comparePassword(password);
     if (!isMatch) {
+      const lockUntil = await recordFailedLogin(user, 'user', user.firstName || user.email);
+      if (lockUntil) {
+        return res.status(423).json(buildLockedResponse(lockUntil));
+      }
       return res.status(401).json({
         success: false,
         error: 'Invalid email or password'
@@ -155,31 +240,345 @@ router.post('/login', [
 
     // Skip email verification check for now
 
-    // Generate token
-    const token = jwt.sign(
-      {
-        userId: user._id,
-        role: user.role || 'user',
-        permissions: user.permissions || []
+    // Enrolled users owe a code before any session starts; failed attempts are
+    // only cleared once it is given, so the lockout still covers code guessing
+    if (user.twoFactor?.enabled) {
+      return res.json({
+        success: true,
+        twoFactorRequired: true,
+        ...signChallengeToken(user._id, '2fa_login')
+      });
+    }
+
+    const policy = await getTwoFactorPolicy();
+    if (isTwoFactorMandatory(user, policy)) {
+      return res.json({
+        success: true,
+        twoFactorSetupRequired: true,
+        ...signChallengeToken(user._id, '2fa_setup')
+      });
+    }
+
+    await recordSuccessfulLogin(user);
+    await sendLoginResponse(req, res, user);
+  } catch (error) {
+    console.error('Login error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Second login step: exchange the challenge token and a TOTP or backup code for a session
+router.post('/login/2fa', [
+  body('challengeToken').isString().notEmpty().withMessage('Challenge token is required'),
+  body('code').isString().trim().notEmpty().withMessage('Authentication code is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const userId = verifyChallengeToken(req.body.challengeToken, '2fa_login');
+    const user = await User.findById(userId);
+    if (!user || !user.isActive) {
+      return res.status(401).json({
+        success: false,
+        error: 'Your account has been deactivated'
+      });
+    }
+
+    if (isAccountLocked(user)) {
+      return res.status(423).json(buildLockedResponse(user.lockUntil!));
+    }
+
+    const method = await verifyTwoFactorCode(user._id, req.body.code);
+    if (!method) {
+      const lockUntil = await recordFailedLogin(user, 'user', user.firstName || user.email);
+      if (lockUntil) {
+        return res.status(423).json(buildLockedResponse(lockUntil));
+      }
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid authentication code'
+      });
+    }
+
+    await recordSuccessfulLogin(user);
+    await sendLoginResponse(req, res, user, { twoFactorMethod: method });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Two-factor login error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Start two-factor enrollment: a new secret and its otpauth URI for the
+ * authenticator app (usually shown as a QR code). Nothing changes until the
+ * first code is confirmed through /2fa/enable.
+ */
+router.post('/2fa/setup', authenticateForEnrollment, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const user = req.user!;
+    const policy = await getTwoFactorPolicy();
+    if (!canEnrollTwoFactor(user, policy)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Two-factor authentication is not available for this account'
+      });
+    }
+
+    if (user.twoFactor?.enabled) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    const secret = generateTotpSecret();
+    await User.updateOne({ _id: user._id }, { 'twoFactor.pendingSecret': secret });
+
+    res.json({
+      success: true,
+      data: {
+        secret,
+        otpauthUri: buildOtpauthUri(secret, user.email, TWO_FACTOR_ISSUER)
+      }
+    });
+  } catch (error) {
+    console.error('Two-factor setup error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Confirm enrollment with a code from the app. Returns the backup codes,
+ * which are never shown again; other sessions are signed out. An admin
+ * finishing mandatory setup during login is signed in here as well.
+ */
+router.post('/2fa/enable', [
+  authenticateForEnrollment,
+  body('code').isString().trim().notEmpty().withMessage('Authentication code is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.user!._id).select('+twoFactor.pendingSecret');
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    if (user.twoFactor?.enabled) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is already enabled'
+      });
+    }
+
+    if (!user.twoFactor?.pendingSecret) {
+      return res.status(400).json({
+        success: false,
+        error: 'Start two-factor setup first'
+      });
+    }
+
+    const step = verifyTotp(user.twoFactor.pendingSecret, req.body.code.replace(/\s/g, ''));
+    if (step === null) {
+      return res.status(400).json({
+        success: false,
+        error: 'Invalid authentication code'
+      });
+    }
+
+    const { codes, hashes } = generateBackupCodes();
+    await User.updateOne({ _id: user._id }, {
+      $set: {
+        'twoFactor.enabled': true,
+        'twoFactor.secret': user.twoFactor.pendingSecret,
+        'twoFactor.backupCodes': hashes,
+        'twoFactor.lastUsedStep': step,
+        'twoFactor.enabledAt': new Date()
       },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '7d' }
-    );
+      $unset: { 'twoFactor.pendingSecret': 1 }
+    });
 
-    // Remove sensitive fields from response
-    const userResponse = {
-      ...user.toJSON(),
-      role: user.role || 'user',
-      permissions: user.permissions || []
-    };
+    // Sessions started on the password alone are signed out
+    await Session.revokeAll('user', user._id, 'two_factor_enabled', req.sessionId);
+
+    if (!req.sessionId) {
+      await recordSuccessfulLogin(user);
+      return sendLoginResponse(req, res, user, { backupCodes: codes });
+    }
 
     res.json({
       success: true,
-      user: userResponse,
-      token
+      message: 'Two-factor authentication enabled',
+      data: { backupCodes: codes }
     });
   } catch (error) {
-    console.error('Login error:', error);
+    console.error('Two-factor enable error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Turn two-factor off; needs the password and a current code, and is refused where it is mandatory
+router.post('/2fa/disable', [
+  authenticateToken,
+  body('password').notEmpty().withMessage('Password is required'),
+  body('code').isString().trim().notEmpty().withMessage('Authentication code is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.user!._id).select('+password');
+    if (!user || !user.twoFactor?.enabled) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    const policy = await getTwoFactorPolicy();
+    if (isTwoFactorMandatory(user, policy)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Two-factor authentication is mandatory for your role'
+      });
+    }
+
+    // Wrong codes count towards the lockout here too, so this cannot be used to guess them
+    if (isAccountLocked(user)) {
+      return res.status(423).json(buildLockedResponse(user.lockUntil!));
+    }
+
+    if (!(await user.comparePassword(req.body.password)) || !(await verifyTwoFactorCode(user._id, req.body.code))) {
+      const lockUntil = await recordFailedLogin(user, 'user', user.firstName || user.email);
+      if (lockUntil) {
+        return res.status(423).json(buildLockedResponse(lockUntil));
+      }
+      return res.status(401).json({
+        success: false,
+        error: 'Password or authentication code is incorrect'
+      });
+    }
+
+    await recordSuccessfulLogin(user);
+    await User.updateOne({ _id: user._id }, {
+      $set: { 'twoFactor.enabled': false },
+      $unset: {
+        'twoFactor.secret': 1,
+        'twoFactor.pendingSecret': 1,
+        'twoFactor.backupCodes': 1,
+        'twoFactor.lastUsedStep': 1,
+        'twoFactor.enabledAt': 1
+      }
+    });
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication disabled'
+    });
+  } catch (error) {
+    console.error('Two-factor disable error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Replace the backup codes, e.g. when they run low; the old ones stop working
+router.post('/2fa/backup-codes', [
+  authenticateToken,
+  body('code').isString().trim().notEmpty().withMessage('Authentication code is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const user = await User.findById(req.user!._id);
+    if (!user || !user.twoFactor?.enabled) {
+      return res.status(400).json({
+        success: false,
+        error: 'Two-factor authentication is not enabled'
+      });
+    }
+
+    // Wrong codes count towards the lockout, as on /2fa/disable
+    if (isAccountLocked(user)) {
+      return res.status(423).json(buildLockedResponse(user.lockUntil!));
+    }
+
+    if (!(await verifyTwoFactorCode(user._id, req.body.code))) {
+      const lockUntil = await recordFailedLogin(user, 'user', user.firstName || user.email);
+      if (lockUntil) {
+        return res.status(423).json(buildLockedResponse(lockUntil));
+      }
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid authentication code'
+      });
+    }
+
+    await recordSuccessfulLogin(user);
+    const { codes, hashes } = generateBackupCodes();
+    await User.updateOne({ _id: user._id }, { 'twoFactor.backupCodes': hashes });
+
+    res.json({
+      success: true,
+      data: { backupCodes: codes }
+    });
+  } catch (error) {
+    console.error('Backup code regeneration error:', error);
     res.status(500).json({
       success: false,
       error: 'Server error',
@@ -234,6 +633,9 @@ router.post('/change-password', [
     user.password = newPassword;
     await user.save();
 
+    // Sign out every other device; whoever knew the old password may be using one
+    await Session.revokeAll('user', user._id, 'password_changed', req.sessionId);
+
     res.json({
       success: true,
       message: 'Password changed successfully'
@@ -248,6 +650,155 @@ router.post('/change-password', [
   }
 });
 
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', [
+  body('refreshToken').isString().notEmpty().withMessage('Refresh token is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { session, refreshToken } = await rotateRefreshToken(req.body.refreshToken, 'user');
+
+    // Claims are rebuilt so role and permission changes apply from the next refresh
+    const user = await User.findById(session.subject);
+    if (!user || !user.isActive) {
+      await revokeSession(session._id, 'account_inactive');
+      return res.status(401).json({
+        success: false,
+        error: 'User account is inactive'
+      });
+    }
+
+    const { token, expiresIn } = signAccessToken(buildTokenPayload(user), session);
+
+    res.json({
+      success: true,
+      token,
+      refreshToken,
+      expiresIn
+    });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Log out of the current session
+router.post('/logout', authenticateToken, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    if (req.sessionId) {
+      await revokeSession(req.sessionId, 'logout');
+    }
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Logout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Log out of every session on every device, this one included
+router.post('/logout-all', authenticateToken, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const revokedCount = await Session.revokeAll('user', req.user!._id, 'logout_all');
+
+    res.json({
+      success: true,
+      message: 'Logged out of all devices',
+      data: { revokedCount }
+    });
+  } catch (error) {
+    console.error('Logout all error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// List the current user's signed-in devices
+router.get('/sessions', authenticateToken, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const sessions = await listSessions('user', req.user!._id, req.sessionId);
+
+    res.json({
+      success: true,
+      data: sessions
+    });
+  } catch (error) {
+    console.error('Get sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Sign out one of the current user's devices
+router.delete('/sessions/:sessionId', [
+  authenticateToken,
+  param('sessionId').isMongoId().withMessage('Valid session ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const session = await Session.findActive(req.params.sessionId, 'user', req.user!._id);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+    }
+
+    await revokeSession(session._id, 'revoked_by_user');
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully'
+    });
+  } catch (error) {
+    console.error('Revoke session error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
 // Get current user
 router.get('/me', authenticateToken, async (req: AuthRequest, res: AuthResponse) => {
   try {
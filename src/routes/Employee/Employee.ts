@@ -8,7 +8,10 @@ import Employee, { IEmployee, IEmployeeDocument } from '../../models/Employee/Em
 import Department from '../../models/Employee/Department';
 import EmployeeRole from '../../models/Employee/EmployeeRole';
 import { authenticateToken, requireSuperAdmin, requirePermission } from '../../middleware/auth';
+import { authenticateStaff } from '../../middleware/employeeAuth';
+import { isAssignablePermission } from '../../utils/permissions';
 import { AuthRequest, AuthResponse } from '../../types/routes';
+import { unlockAccount } from '../../utils/accountLockout';
 
 const router = express.Router();
 
@@ -46,12 +49,35 @@ const upload = multer({
   }
 });
 
+// Fields the employee routes set from the request body; credentials, documents and lockout state have their own routes
+const EMPLOYEE_FIELDS: (keyof IEmployee)[] = [
+  'firstName', 'lastName', 'email', 'phoneNumber', 'dateOfBirth', 'gender', 'address', 'joinDate',
+  'role', 'department', 'skills', 'performanceScore', 'status'
+];
+
+const pickEmployeeFields = (body: Record<string, unknown>): Partial<IEmployee> =>
+  Object.fromEntries(EMPLOYEE_FIELDS.filter(field => body[field] !== undefined).map(field => [field, body[field]]));
+
+/**
+ * Permissions of an employee role that the caller does not hold. Only roles
+ * within the caller's own access may be handed out, so employee:create and
+ * employee:update cannot raise anyone's permissions, the caller's included.
+ */
+const findUnheldRolePermissions = async (req: AuthRequest, roleName: string): Promise<string[]> => {
+  if (!req.employee && req.user?.role === 'superadmin') {
+    return [];
+  }
+  const role = await EmployeeRole.findOne({ name: roleName });
+  const held = (req.employee ? req.employeePermissions : req.user?.permissions) || [];
+  return (role?.permissions || []).filter(permission => !held.includes(permission));
+};
+
 // =============================================
 // EMPLOYEE ROLE ROUTES
 // =============================================
 
 // Get all employee roles
-router.get('/roles', authenticateToken, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
+router.get('/roles', authenticateStaff, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
   try {
     const roles = await EmployeeRole.find({ isActive: true }).sort({ name: 1 });
     
@@ -69,7 +95,7 @@ router.get('/roles', authenticateToken, requirePermission('employee:read'), asyn
 });
 
 // Get single employee role by ID
-router.get('/roles/:id', authenticateToken, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
+router.get('/roles/:id', authenticateStaff, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
   try {
     const role = await EmployeeRole.findById(req.params.id);
     
@@ -100,7 +126,8 @@ router.post('/roles',
   [
     body('name').trim().notEmpty().withMessage('Role name is required'),
     body('description').optional().trim(),
-    body('permissions').optional().isArray().withMessage('Permissions must be an array')
+    body('permissions').optional().isArray().withMessage('Permissions must be an array'),
+    body('permissions.*').custom(isAssignablePermission).withMessage('Unknown permission')
   ],
   async (req: AuthRequest, res: AuthResponse) => {
     try {
@@ -156,6 +183,7 @@ router.put('/roles/:id',
     body('name').optional().trim().notEmpty().withMessage('Role name cannot be empty'),
     body('description').optional().trim(),
     body('permissions').optional().isArray().withMessage('Permissions must be an array'),
+    body('permissions.*').custom(isAssignablePermission).withMessage('Unknown permission'),
     body('isActive').optional().isBoolean().withMessage('isActive must be a boolean')
   ],
   async (req: AuthRequest, res: AuthResponse) => {
@@ -235,7 +263,7 @@ router.delete('/roles/:id',
 // =============================================
 
 // Get all employees with pagination and filters
-router.get('/', authenticateToken, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
+router.get('/', authenticateStaff, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
   try {
     const {
       page = '1',
@@ -299,7 +327,7 @@ router.get('/', authenticateToken, requirePermission('employee:read'), async (re
 });
 
 // Get single employee by ID
-router.get('/:id', authenticateToken, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
+router.get('/:id', authenticateStaff, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
   try {
     const employee = await Employee.findById(req.params.id)
       .select('-password')
@@ -328,7 +356,7 @@ router.get('/:id', authenticateToken, requirePermission('employee:read'), async
 
 // Create new employee
 router.post('/',
-  authenticateToken,
+  authenticateStaff,
   requirePermission('employee:create'),
   [
     body('firstName').trim().notEmpty().withMessage('First name is required'),
@@ -377,7 +405,16 @@ router.post('/',
         }
       }
 
-      const newEmployee = new Employee(req.body);
+      const unheldPermissions = await findUnheldRolePermissions(req, req.body.role);
+      if (unheldPermissions.length > 0) {
+        return res.status(403).json({
+          success: false,
+          error: 'You cannot assign a role with permissions you do not hold',
+          details: unheldPermissions
+        });
+      }
+
+      const newEmployee = new Employee({ ...pickEmployeeFields(req.body), password: req.body.password });
       await newEmployee.save();
 
       // Remove password from response
@@ -402,7 +439,7 @@ router.post('/',
 
 // Update employee
 router.put('/:id',
-  authenticateToken,
+  authenticateStaff,
   requirePermission('employee:update'),
   [
     param('id').isMongoId().withMessage('Invalid employee ID'),
@@ -459,12 +496,18 @@ router.put('/:id',
         }
       }
 
-      // Update fields
-      Object.keys(req.body).forEach(key => {
-        if (key !== 'password' && key !== '_id') {
-          (employee as any)[key] = req.body[key];
+      if (req.body.role !== undefined && req.body.role !== employee.role) {
+        const unheldPermissions = await findUnheldRolePermissions(req, req.body.role);
+        if (unheldPermissions.length > 0) {
+          return res.status(403).json({
+            success: false,
+            error: 'You cannot assign a role with permissions you do not hold',
+            details: unheldPermissions
+          });
         }
-      });
+      }
+
+      employee.set(pickEmployeeFields(req.body));
 
       await employee.save();
 
@@ -489,7 +532,7 @@ router.put('/:id',
 
 // Delete employee
 router.delete('/:id',
-  authenticateToken,
+  authenticateStaff,
   requirePermission('employee:delete'),
   async (req: AuthRequest, res: AuthResponse) => {
     try {
@@ -530,13 +573,44 @@ router.delete('/:id',
   }
 );
 
+// Lift a login lockout on an employee account
+router.post('/:id/unlock',
+  authenticateStaff,
+  requirePermission('employee:update'),
+  async (req: AuthRequest, res: AuthResponse) => {
+    try {
+      const employee = await Employee.findById(req.params.id);
+
+      if (!employee) {
+        return res.status(404).json({
+          success: false,
+          error: 'Employee not found'
+        });
+      }
+
+      await unlockAccount(employee);
+
+      res.json({
+        success: true,
+        message: 'Employee account unlocked successfully'
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Server error',
+        details: (error as Error).message
+      });
+    }
+  }
+);
+
 // =============================================
 // DOCUMENT UPLOAD ROUTES
 // =============================================
 
 // Upload employee documents (PAN, Aadhar, Joining Letter)
 router.post('/:id/documents',
-  authenticateToken,
+  authenticateStaff,
   requirePermission('employee:update'),
   upload.fields([
     { name: 'pan', maxCount: 1 },
@@ -621,7 +695,7 @@ router.post('/:id/documents',
 
 // Delete a specific document
 router.delete('/:id/documents/:documentType',
-  authenticateToken,
+  authenticateStaff,
   requirePermission('employee:update'),
   async (req: AuthRequest, res: AuthResponse) => {
     try {
@@ -3,12 +3,13 @@ import { body, param, validationResult } from 'express-validator';
 import Department, { IDepartment } from '../../models/Employee/Department';
 import Employee from '../../models/Employee/Employee';
 import { authenticateToken, requireSuperAdmin, requirePermission } from '../../middleware/auth';
+import { authenticateStaff } from '../../middleware/employeeAuth';
 import { AuthRequest, AuthResponse } from '../../types/routes';
 
 const router = express.Router();
 
 // Get all departments
-router.get('/', authenticateToken, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
+router.get('/', authenticateStaff, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
   try {
     const { isActive, search } = req.query;
 
@@ -41,7 +42,7 @@ router.get('/', authenticateToken, requirePermission('employee:read'), async (re
 });
 
 // Get single department by ID
-router.get('/:id', authenticateToken, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
+router.get('/:id', authenticateStaff, requirePermission('employee:read'), async (req: AuthRequest, res: AuthResponse) => {
   try {
     const department = await Department.findById(req.params.id)
       .populate('headOfDepartment', 'firstName lastName email phoneNumber');
@@ -279,7 +280,7 @@ router.delete('/:id',
 
 // Get employees in a department
 router.get('/:id/employees',
-  authenticateToken,
+  authenticateStaff,
   requirePermission('employee:read'),
   async (req: AuthRequest, res: AuthResponse) => {
     try {
@@ -0,0 +1,262 @@
+import express from 'express';
+import { body, validationResult } from 'express-validator';
+import Employee, { IEmployeeDocument } from '../../models/Employee/Employee';
+import Session from '../../models/Auth/Session';
+import { AuthRequest, AuthResponse } from '../../types/routes';
+import { authenticateEmployee, getEmployeePermissions } from '../../middleware/employeeAuth';
+import { buildLockedResponse, isAccountLocked, recordFailedLogin, recordSuccessfulLogin } from '../../utils/accountLockout';
+import { createSession, revokeSession, rotateRefreshToken, SessionError, signAccessToken } from '../../utils/authTokens';
+
+const router = express.Router();
+
+// Claims carried by an employee's access token
+const buildTokenPayload = (employee: IEmployeeDocument, permissions: string[]) => ({
+  employeeId: employee._id,
+  role: 'employee',
+  employeeRole: employee.role,
+  permissions
+});
+
+// Employee record as returned to the employee, without credentials or lockout state
+const buildEmployeeResponse = (employee: IEmployeeDocument, permissions: string[]) => {
+  const { password: _password, loginAttempts: _loginAttempts, lockUntil: _lockUntil, lockCount: _lockCount, ...employeeData } = employee.toObject();
+  return {
+    ...employeeData,
+    permissions
+  };
+};
+
+// Login employee
+router.post('/login', [
+  body('email').isEmail().normalizeEmail(),
+  body('password').notEmpty()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { email, password } = req.body;
+
+    const employee = await Employee.findOne({ email }).select('+password');
+    if (!employee) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid email or password'
+      });
+    }
+
+    // A locked account is refused before the password is checked, so guessing cannot continue
+    if (isAccountLocked(employee)) {
+      return res.status(423).json(buildLockedResponse(employee.lockUntil!));
+    }
+
+    if (!employee.password) {
+      return res.status(401).json({
+        success: false,
+        error: 'Password not set. Please ask an administrator to set one.'
+      });
+    }
+
+    const isMatch = await employee.comparePassword(password);
+    if (!isMatch) {
+      const lockUntil = await recordFailedLogin(employee, 'employee', `${employee.firstName} ${employee.lastName}`);
+      if (lockUntil) {
+        return res.status(423).json(buildLockedResponse(lockUntil));
+      }
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid email or password'
+      });
+    }
+
+    if (employee.status !== 'Active') {
+      return res.status(401).json({
+        success: false,
+        error: 'Employee account is inactive'
+      });
+    }
+
+    await recordSuccessfulLogin(employee);
+    await Employee.updateOne({ _id: employee._id }, { lastLogin: new Date() });
+
+    const permissions = await getEmployeePermissions(employee);
+
+    // Start a session and issue its tokens
+    const { token, refreshToken, expiresIn } = await createSession('employee', employee._id, buildTokenPayload(employee, permissions), req);
+
+    res.json({
+      success: true,
+      employee: buildEmployeeResponse(employee, permissions),
+      token,
+      refreshToken,
+      expiresIn
+    });
+  } catch (error) {
+    console.error('Employee login error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get current employee
+router.get('/me', authenticateEmployee, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const employee = await Employee.findById(req.employee!._id).populate('department', 'name');
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        error: 'Employee not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      employee: buildEmployeeResponse(employee, req.employeePermissions || [])
+    });
+  } catch (error) {
+    console.error('Get current employee error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Change password
+router.post('/change-password', [
+  authenticateEmployee,
+  body('currentPassword').notEmpty().withMessage('Current password is required'),
+  body('newPassword').isLength({ min: 6 }).withMessage('New password must be at least 6 characters')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { currentPassword, newPassword } = req.body;
+
+    const employee = await Employee.findById(req.employee!._id).select('+password');
+    if (!employee) {
+      return res.status(404).json({
+        success: false,
+        error: 'Employee not found'
+      });
+    }
+
+    const isMatch = await employee.comparePassword(currentPassword);
+    if (!isMatch) {
+      return res.status(400).json({
+        success: false,
+        error: 'Current password is incorrect'
+      });
+    }
+
+    // Hashed by the pre-save hook
+    employee.password = newPassword;
+    await employee.save();
+
+    // Sign out every other device; whoever knew the old password may be using one
+    await Session.revokeAll('employee', employee._id, 'password_changed', req.sessionId);
+
+    res.json({
+      success: true,
+      message: 'Password changed successfully'
+    });
+  } catch (error) {
+    console.error('Employee change password error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', [
+  body('refreshToken').isString().notEmpty().withMessage('Refresh token is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { session, refreshToken } = await rotateRefreshToken(req.body.refreshToken, 'employee');
+
+    const employee = await Employee.findById(session.subject);
+    if (!employee || employee.status !== 'Active') {
+      await revokeSession(session._id, 'account_inactive');
+      return res.status(401).json({
+        success: false,
+        error: 'Employee account is inactive'
+      });
+    }
+
+    // Re-read so the new token reflects any change to the employee's role
+    const permissions = await getEmployeePermissions(employee);
+    const { token, expiresIn } = signAccessToken(buildTokenPayload(employee, permissions), session);
+
+    res.json({
+      success: true,
+      token,
+      refreshToken,
+      expiresIn
+    });
+  } catch (error) {
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Employee refresh token error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Log out of the current session
+router.post('/logout', authenticateEmployee, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    if (req.sessionId) {
+      await revokeSession(req.sessionId, 'logout');
+    }
+
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Employee logout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+export default router;
@@ -40,6 +40,7 @@ import { body, validationResult, param } from 'express-validator';
 import Franchise, { IFranchise } from '../../models/Franchise/Franchise';
 import { authenticateToken, requirePermission, requireSuperAdmin, optionalAuth } from '../../middleware/auth';
 import { AuthRequest, AuthResponse, PaginatedResponse, ApiResponse } from '../../types/routes';
+import { unlockAccount } from '../../utils/accountLockout';
 
 interface FranchiseQuery {
   page?: string;
@@ -138,6 +139,19 @@ const validateFranchise = [
     .isNumeric()
     .isFloat({ min: 0, max: 100 })
     .withMessage('ROI must be between 0 and 100'),
+  body('city')
+    .optional()
+    .trim()
+    .isLength({ max: 100 })
+    .withMessage('City must be at most 100 characters'),
+  body('location.latitude')
+    .optional()
+    .isFloat({ min: -90, max: 90 })
+    .withMessage('Latitude must be between -90 and 90'),
+  body('location.longitude')
+    .optional()
+    .isFloat({ min: -180, max: 180 })
+    .withMessage('Longitude must be between -180 and 180'),
   body('establishedYear')
     .optional()
     .isInt({ min: 1900, max: new Date().getFullYear() })
@@ -604,6 +618,46 @@ router.patch('/:id/toggle-status', [
   }
 });
 
+// Lift a login lockout on a franchise account (Superadmin only)
+router.post('/:id/unlock', [
+  authenticateToken,
+  requireSuperAdmin,
+  param('id').isMongoId().withMessage('Invalid franchise ID')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const franchise = await Franchise.findById(req.params.id);
+    if (!franchise) {
+      return res.status(404).json({
+        success: false,
+        error: 'Franchise not found'
+      });
+    }
+
+    await unlockAccount(franchise);
+
+    res.json({
+      success: true,
+      message: 'Franchise account unlocked successfully'
+    });
+  } catch (error) {
+    console.error('Unlock franchise error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
 // Verify franchise (Superadmin only)
 router.patch('/:id/verify', [
   authenticateToken,
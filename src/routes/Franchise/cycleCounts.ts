@@ -0,0 +1,526 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import mongoose, { Types } from 'mongoose';
+import CycleCount, {
+  CycleCountError,
+  CYCLE_COUNT_STATUSES,
+  ICycleCountDocument,
+  ICycleCountItem
+} from '../../models/Franchise/CycleCount';
+import FranchiseProduct from '../../models/Franchise/FranchiseProduct';
+import FranchiseInventory from '../../models/Franchise/FranchiseInventory';
+import { requirePermission } from '../../middleware/auth';
+import { authenticateStaff, getStaffActor, performedByFields } from '../../middleware/employeeAuth';
+import { authenticateFranchise, authenticateAdminOrFranchise, requireAdminPermission } from '../../middleware/franchiseAuth';
+import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
+import { normaliseBarcode } from '../../utils/barcode';
+
+const router = express.Router();
+
+// Find the count line a scanned or typed code refers to: its SKU or its barcode
+const findLineByCode = (count: ICycleCountDocument, code: string): ICycleCountItem | undefined => {
+  const normalised = code.trim().toUpperCase();
+  const barcode = normaliseBarcode(code);
+  return count.items.find(item => item.sku?.toUpperCase() === normalised || (!!item.barcode && item.barcode === barcode));
+};
+
+// Load a count and check the caller may see it; franchises only see their own
+const loadCycleCount = async (req: AuthRequest): Promise<ICycleCountDocument> => {
+  const count = await CycleCount.findById(req.params.id);
+  if (!count) {
+    throw new CycleCountError('Cycle count not found', 404);
+  }
+
+  if (req.userType !== 'admin' && !count.franchise.equals(req.franchiseId as Types.ObjectId)) {
+    throw new CycleCountError('Access denied', 403);
+  }
+
+  return count;
+};
+
+const sendCycleCountError = (res: AuthResponse, error: unknown, label: string) => {
+  if (error instanceof CycleCountError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+  console.error(`${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: 'Server error',
+    details: (error as Error).message
+  });
+};
+
+// Open a cycle count, snapshotting expected stock for the chosen products
+router.post('/', [
+  authenticateFranchise,
+  body('productIds').optional().isArray({ min: 1 }).withMessage('productIds must be a non-empty array'),
+  body('productIds.*').optional().isMongoId().withMessage('Valid franchise product ID is required'),
+  body('category').optional().isMongoId().withMessage('Valid category ID is required'),
+  body('notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const franchiseId = req.franchiseId as Types.ObjectId;
+
+    // One count at a time, so two snapshots never post adjustments over each other
+    const open = await CycleCount.findOpenByFranchise(franchiseId);
+    if (open) {
+      return res.status(409).json({
+        success: false,
+        error: `Cycle count ${open.countNumber} is still ${open.status}`
+      });
+    }
+
+    const filter: any = { franchise: franchiseId, isActive: true };
+    if (req.body.productIds) {
+      filter._id = { $in: req.body.productIds };
+    }
+
+    const products = await FranchiseProduct.find(filter)
+      .populate('bharatmartProduct', 'name sku barcode category price costPrice variants')
+      .lean();
+
+    const items = products
+      .filter((product: any) => product.bharatmartProduct)
+      .filter((product: any) => !req.body.category || String(product.bharatmartProduct.category) === req.body.category)
+      .map((product: any) => {
+        const main = product.bharatmartProduct;
+        const variant = product.variant
+          ? main.variants?.find((entry: any) => String(entry._id) === String(product.variant))
+          : undefined;
+
+        return {
+          franchiseProduct: product._id,
+          bharatmartProduct: main._id,
+          name: variant ? `${main.name} - ${variant.name}` : main.name,
+          sku: variant?.sku ?? main.sku,
+          barcode: variant ? variant.barcode : main.barcode,
+          expectedQuantity: product.stock,
+          variance: 0,
+          unitCost: variant?.costPrice || main.costPrice || main.price || 0,
+          varianceValue: 0
+        };
+      });
+
+    if (items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'No products match the count scope'
+      });
+    }
+
+    const count = new CycleCount({
+      countNumber: await CycleCount.generateCountNumber(),
+      franchise: franchiseId,
+      items,
+      notes: req.body.notes
+    });
+    count.calculateSummary();
+    await count.save();
+
+    res.status(201).json({
+      success: true,
+      message: 'Cycle count opened',
+      data: count
+    });
+  } catch (error) {
+    sendCycleCountError(res, error, 'Create cycle count');
+  }
+});
+
+// Get cycle counts with filtering and pagination
+router.get('/', [
+  authenticateAdminOrFranchise,
+  requireAdminPermission('franchise:read'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('status').optional().isIn(CYCLE_COUNT_STATUSES),
+  query('franchise').optional().isMongoId()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { page = '1', limit = '20', status, franchise } = req.query as any;
+
+    const filter: any = {};
+    if (status) filter.status = status;
+    if (req.userType === 'admin') {
+      if (franchise) filter.franchise = franchise;
+    } else {
+      filter.franchise = req.franchiseId;
+    }
+
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+
+    const counts = await CycleCount.find(filter)
+      .select('-items')
+      .populate('franchise', 'name franchiseId')
+      .populate('reviewedBy', 'firstName lastName email')
+      .populate('reviewedByEmployee', 'firstName lastName email')
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .skip((pageNum - 1) * limitNum);
+
+    const total = await CycleCount.countDocuments(filter);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: counts,
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum < Math.ceil(total / limitNum),
+        hasPrev: pageNum > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    sendCycleCountError(res, error, 'Get cycle counts');
+  }
+});
+
+// Get a cycle count with its lines
+router.get('/:id', [
+  authenticateAdminOrFranchise,
+  requireAdminPermission('franchise:read'),
+  param('id').isMongoId().withMessage('Valid cycle count ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const count = await loadCycleCount(req);
+    await count.populate('franchise', 'name franchiseId');
+    await count.populate('reviewedBy', 'firstName lastName email');
+    await count.populate('reviewedByEmployee', 'firstName lastName email');
+
+    res.json({
+      success: true,
+      data: count
+    });
+  } catch (error) {
+    sendCycleCountError(res, error, 'Get cycle count');
+  }
+});
+
+// Get the variance report kept for a cycle count
+router.get('/:id/variance-report', [
+  authenticateAdminOrFranchise,
+  requireAdminPermission('franchise:read'),
+  param('id').isMongoId().withMessage('Valid cycle count ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const count = await loadCycleCount(req);
+
+    // Largest value at risk first
+    const lines = count.items
+      .filter(item => item.variance !== 0)
+      .sort((a, b) => Math.abs(b.varianceValue) - Math.abs(a.varianceValue));
+
+    res.json({
+      success: true,
+      data: {
+        countNumber: count.countNumber,
+        franchise: count.franchise,
+        status: count.status,
+        submittedAt: count.submittedAt,
+        reviewedBy: count.reviewedBy,
+        reviewedAt: count.reviewedAt,
+        summary: count.summary,
+        lines
+      }
+    });
+  } catch (error) {
+    sendCycleCountError(res, error, 'Get cycle count variance report');
+  }
+});
+
+// Enter counted quantities, by line ID or by scanned/typed code
+router.patch('/:id/counts', [
+  authenticateFranchise,
+  param('id').isMongoId().withMessage('Valid cycle count ID is required'),
+  body('counts').isArray({ min: 1 }).withMessage('At least one count is required'),
+  body('counts.*.itemId').optional().isMongoId().withMessage('Valid cycle count line ID is required'),
+  body('counts.*.code').optional().trim().notEmpty().withMessage('Code cannot be empty'),
+  body('counts.*.countedQuantity').isInt({ min: 0 }).withMessage('Counted quantity must be a non-negative integer'),
+  body('counts.*.notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const count = await loadCycleCount(req);
+    const entries = req.body.counts as Array<{ itemId?: string; code?: string; countedQuantity: number; notes?: string }>;
+
+    for (const entry of entries) {
+      const line = entry.itemId
+        ? count.items.find(item => item._id?.equals(entry.itemId))
+        : entry.code ? findLineByCode(count, entry.code) : undefined;
+      if (!line) {
+        throw new CycleCountError(`No product in this count matches ${entry.itemId || entry.code || 'the entry'}`, 404);
+      }
+
+      count.recordCount(line._id as Types.ObjectId, Number(entry.countedQuantity), entry.notes);
+    }
+
+    count.calculateSummary();
+    await count.save();
+
+    res.json({
+      success: true,
+      message: `${entries.length} counts recorded`,
+      data: count
+    });
+  } catch (error) {
+    sendCycleCountError(res, error, 'Record cycle counts');
+  }
+});
+
+// Record one barcode scan, adding to the line's running count
+router.post('/:id/scan', [
+  authenticateFranchise,
+  param('id').isMongoId().withMessage('Valid cycle count ID is required'),
+  body('code').trim().notEmpty().withMessage('Scanned code is required'),
+  body('quantity').optional().isInt({ min: 1 }).withMessage('Quantity must be at least 1')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const count = await loadCycleCount(req);
+
+    const line = findLineByCode(count, req.body.code);
+    if (!line) {
+      throw new CycleCountError(`No product in this count matches ${req.body.code}`, 404);
+    }
+
+    const quantity = req.body.quantity ? Number(req.body.quantity) : 1;
+    const item = count.recordCount(line._id as Types.ObjectId, (line.countedQuantity || 0) + quantity);
+
+    count.calculateSummary();
+    await count.save();
+
+    res.json({
+      success: true,
+      data: item
+    });
+  } catch (error) {
+    sendCycleCountError(res, error, 'Scan cycle count item');
+  }
+});
+
+// Submit a completed count for supervisor approval
+router.post('/:id/submit', [
+  authenticateFranchise,
+  param('id').isMongoId().withMessage('Valid cycle count ID is required'),
+  body('notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const count = await loadCycleCount(req);
+    await count.submit(req.body.notes);
+
+    res.json({
+      success: true,
+      message: 'Cycle count submitted for approval',
+      data: count
+    });
+  } catch (error) {
+    sendCycleCountError(res, error, 'Submit cycle count');
+  }
+});
+
+// Abandon a count that is still being taken
+router.post('/:id/cancel', [
+  authenticateFranchise,
+  param('id').isMongoId().withMessage('Valid cycle count ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const count = await loadCycleCount(req);
+    if (count.status !== 'counting') {
+      throw new CycleCountError(`Cannot cancel a ${count.status} cycle count`);
+    }
+
+    count.status = 'cancelled';
+    await count.save();
+
+    res.json({
+      success: true,
+      message: 'Cycle count cancelled',
+      data: count
+    });
+  } catch (error) {
+    sendCycleCountError(res, error, 'Cancel cycle count');
+  }
+});
+
+// Approve a submitted count (supervisor): posts an adjustment for every line with a variance
+router.patch('/:id/approve', [
+  authenticateStaff,
+  requirePermission('franchise:write'),
+  param('id').isMongoId().withMessage('Valid cycle count ID is required'),
+  body('notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    // The count is only approved if every adjustment posts
+    const actor = getStaffActor(req);
+    const session = await mongoose.startSession();
+    let count: ICycleCountDocument | null = null;
+
+    try {
+      await session.withTransaction(async () => {
+        count = await CycleCount.findById(req.params.id).session(session);
+        if (!count) {
+          throw new CycleCountError('Cycle count not found', 404);
+        }
+
+        for (const item of count.items) {
+          if (!item.variance) {
+            continue;
+          }
+
+          // Sales since the snapshot may have left less on hand than the shortage; never go below zero
+          const product = await FranchiseProduct.findById(item.franchiseProduct).select('stock').session(session);
+          if (!product) {
+            continue;
+          }
+          const change = Math.max(item.variance, -product.stock);
+          if (change === 0) {
+            continue;
+          }
+
+          await FranchiseInventory.recordTransaction(count.franchise, item.franchiseProduct, 'adjustment', change, {
+            referenceNumber: count.countNumber,
+            notes: `Cycle count variance: expected ${item.expectedQuantity}, counted ${item.countedQuantity}`,
+            ...performedByFields(actor),
+            costPerUnit: item.unitCost,
+            session
+          });
+        }
+
+        await count.approve(actor, req.body.notes, session);
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    res.json({
+      success: true,
+      message: 'Cycle count approved and stock adjusted',
+      data: count
+    });
+  } catch (error) {
+    sendCycleCountError(res, error, 'Approve cycle count');
+  }
+});
+
+// Reject a submitted count (supervisor); stock is left untouched
+router.patch('/:id/reject', [
+  authenticateStaff,
+  requirePermission('franchise:write'),
+  param('id').isMongoId().withMessage('Valid cycle count ID is required'),
+  body('reason').trim().isLength({ min: 3, max: 500 }).withMessage('A rejection reason is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const count = await CycleCount.findById(req.params.id);
+    if (!count) {
+      throw new CycleCountError('Cycle count not found', 404);
+    }
+
+    await count.reject(getStaffActor(req), req.body.reason);
+
+    res.json({
+      success: true,
+      message: 'Cycle count rejected',
+      data: count
+    });
+  } catch (error) {
+    sendCycleCountError(res, error, 'Reject cycle count');
+  }
+});
+
+export default router;
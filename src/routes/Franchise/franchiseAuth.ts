@@ -1,14 +1,23 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
-import Franchise from '../../models/Franchise/Franchise';
-import jwt from 'jsonwebtoken';
+import { body, param, validationResult } from 'express-validator';
+import Franchise, { IFranchise } from '../../models/Franchise/Franchise';
+import Session from '../../models/Auth/Session';
 import bcrypt from 'bcryptjs';
 import { authenticateToken } from '../../middleware/auth';
 import { AuthRequest, AuthResponse } from '../../types/routes';
 import { authenticateFranchise } from '../../middleware/franchiseAuth';
+import { buildLockedResponse, isAccountLocked, recordFailedLogin, recordSuccessfulLogin } from '../../utils/accountLockout';
+import { createSession, listSessions, revokeSession, rotateRefreshToken, SessionError, signAccessToken } from '../../utils/authTokens';
 
 const router = express.Router();
 
+// Claims carried by a franchise's access token
+const buildTokenPayload = (franchise: IFranchise) => ({
+  franchiseId: franchise._id,
+  role: 'franchise',
+  permissions: [] // Add franchise-specific permissions if needed
+});
+
 // Login franchise
 router.post('/login', [
   body('email').isEmail().normalizeEmail(),
@@ -35,6 +44,11 @@ router.post('/login', [
       });
     }
 
+    // A locked account is refused before the password is checked, so guessing cannot continue
+    if (isAccountLocked(franchise)) {
+      return res.status(423).json(buildLockedResponse(franchise.lockUntil!));
+    }
+
     // Check if password exists
     if (!franchise.password) {
       return res.status(401).json({
@@ -55,6 +69,10 @@ router.post('/login', [
     console.log('=== END DEBUG ===');
     
     if (!isMatch) {
+      const lockUntil = await recordFailedLogin(franchise, 'franchise', franchise.contactPerson || franchise.name);
+      if (lockUntil) {
+        return res.status(423).json(buildLockedResponse(lockUntil));
+      }
       return res.status(401).json({
         success: false,
         error: 'Invalid email or password'
@@ -69,16 +87,10 @@ router.post('/login', [
       });
     }
 
-    // Generate token
-    const token = jwt.sign(
-      {
-        franchiseId: franchise._id,
-        role: 'franchise', // Add franchise-specific role
-        permissions: [] // Add franchise-specific permissions if needed
-      },
-      process.env.JWT_SECRET || 'your-secret-key',
-      { expiresIn: '7d' }
-    );
+    await recordSuccessfulLogin(franchise);
+
+    // Start a session and issue its tokens
+    const { token, refreshToken, expiresIn } = await createSession('franchise', franchise._id, buildTokenPayload(franchise), req);
 
     // Remove sensitive fields from response
     const franchiseResponse = {
@@ -93,7 +105,9 @@ router.post('/login', [
     res.json({
       success: true,
       franchise: franchiseResponse,
-      token
+      token,
+      refreshToken,
+      expiresIn
     });
   } catch (error) {
     console.error('Franchise login error:', error);
@@ -106,64 +120,76 @@ router.post('/login', [
 });
 
 // Get current franchise
-router.get('/me', async (req: AuthRequest, res: AuthResponse) => {
+router.get('/me', authenticateFranchise, async (req: AuthRequest, res: AuthResponse) => {
   try {
-    const authHeader = req.headers['authorization'];
-    const token = authHeader && authHeader.split(' ')[1];
-
-    if (!token) {
-      return res.status(401).json({
+    // Fetch franchise data
+    const franchise = await Franchise.findById(req.franchiseId).select('-password');
+    
+    if (!franchise) {
+      return res.status(404).json({
         success: false,
-        error: 'Access token is required'
+        error: 'Franchise not found'
       });
     }
 
-    // Verify and decode token
-    const decoded = jwt.verify(
-      token,
-      process.env.JWT_SECRET || 'your-secret-key'
-    ) as { franchiseId: string; role: string };
+    res.json({
+      success: true,
+      franchise: {
+        ...franchise.toJSON(),
+        role: 'franchise'
+      }
+    });
+  } catch (error) {
+    console.error('Get current franchise error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
 
-    // Check if this is a franchise token
-    if (decoded.role !== 'franchise') {
-      return res.status(401).json({
+// Exchange a refresh token for a new access token and refresh token
+router.post('/refresh', [
+  body('refreshToken').isString().notEmpty().withMessage('Refresh token is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
         success: false,
-        error: 'Not a franchise account'
+        error: 'Validation failed',
+        details: errors.array()
       });
     }
 
-    // Fetch franchise data
-    const franchise = await Franchise.findById(decoded.franchiseId).select('-password');
-    
-    if (!franchise) {
-      return res.status(404).json({
-        success: false,
-        error: 'Franchise not found'
-      });
-    }
+    const { session, refreshToken } = await rotateRefreshToken(req.body.refreshToken, 'franchise');
 
-    if (!franchise.isActive) {
+    const franchise = await Franchise.findById(session.subject);
+    if (!franchise || !franchise.isActive) {
+      await revokeSession(session._id, 'account_inactive');
       return res.status(401).json({
         success: false,
         error: 'Franchise account is inactive'
       });
     }
 
+    const { token, expiresIn } = signAccessToken(buildTokenPayload(franchise), session);
+
     res.json({
       success: true,
-      franchise: {
-        ...franchise.toJSON(),
-        role: 'franchise'
-      }
+      token,
+      refreshToken,
+      expiresIn
     });
   } catch (error) {
-    console.error('Get current franchise error:', error);
-    if (error instanceof jwt.JsonWebTokenError) {
-      return res.status(401).json({
+    if (error instanceof SessionError) {
+      return res.status(error.statusCode).json({
         success: false,
-        error: 'Invalid or expired token'
+        error: error.message
       });
     }
+    console.error('Franchise refresh token error:', error);
     res.status(500).json({
       success: false,
       error: 'Server error',
@@ -172,39 +198,97 @@ router.get('/me', async (req: AuthRequest, res: AuthResponse) => {
   }
 });
 
-// Test endpoint to verify password hash (development only)
-router.post('/test-password', async (req: AuthRequest, res: AuthResponse) => {
+// Log out of the current session
+router.post('/logout', authenticateFranchise, async (req: AuthRequest, res: AuthResponse) => {
   try {
-    if (process.env.NODE_ENV === 'production') {
-      return res.status(403).json({ success: false, error: 'Not available in production' });
+    if (req.sessionId) {
+      await revokeSession(req.sessionId, 'logout');
     }
 
-    const { email, password } = req.body;
-    
-    const franchise = await Franchise.findOne({ email }).select('+password');
-    if (!franchise) {
-      return res.json({
+    res.json({
+      success: true,
+      message: 'Logged out successfully'
+    });
+  } catch (error) {
+    console.error('Franchise logout error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Log out of every session on every device, this one included
+router.post('/logout-all', authenticateFranchise, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const revokedCount = await Session.revokeAll('franchise', req.franchiseId!, 'logout_all');
+
+    res.json({
+      success: true,
+      message: 'Logged out of all devices',
+      data: { revokedCount }
+    });
+  } catch (error) {
+    console.error('Franchise logout all error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// List the franchise's signed-in devices
+router.get('/sessions', authenticateFranchise, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const sessions = await listSessions('franchise', req.franchiseId!, req.sessionId);
+
+    res.json({
+      success: true,
+      data: sessions
+    });
+  } catch (error) {
+    console.error('Get franchise sessions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Sign out one of the franchise's devices
+router.delete('/sessions/:sessionId', [
+  authenticateFranchise,
+  param('sessionId').isMongoId().withMessage('Valid session ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
         success: false,
-        error: 'Franchise not found',
-        email: email
+        error: 'Validation failed',
+        details: errors.array()
       });
     }
 
-    const isMatch = await bcrypt.compare(password, franchise.password || '');
-    
+    const session = await Session.findActive(req.params.sessionId, 'franchise', req.franchiseId!);
+    if (!session) {
+      return res.status(404).json({
+        success: false,
+        error: 'Session not found'
+      });
+    }
+
+    await revokeSession(session._id, 'revoked_by_user');
+
     res.json({
       success: true,
-      data: {
-        email: franchise.email,
-        hasPassword: !!franchise.password,
-        passwordHashLength: franchise.password?.length,
-        providedPasswordLength: password?.length,
-        passwordMatch: isMatch,
-        isActive: franchise.isActive,
-        mustChangePassword: franchise.mustChangePassword
-      }
+      message: 'Session revoked successfully'
     });
   } catch (error) {
+    console.error('Revoke franchise session error:', error);
     res.status(500).json({
       success: false,
       error: 'Server error',
@@ -281,6 +365,9 @@ router.post('/update-password', authenticateFranchise, [
     franchise.password = newPassword;
     await franchise.save(); // This triggers the pre-save hook which hashes the password
 
+    // Sign out every other device; whoever knew the old password may be using one
+    await Session.revokeAll('franchise', franchise._id, 'password_changed', req.sessionId);
+
     res.json({
       success: true,
       message: 'Password updated successfully'
@@ -395,6 +482,7 @@ router.post('/reset-password', [
     franchise.resetPasswordOTP = undefined as any;
     franchise.resetPasswordExpires = undefined as any;
     await franchise.save();
+    await Session.revokeAll('franchise', franchise._id, 'password_reset');
 
     res.json({ success: true, message: 'Password has been reset successfully' });
   } catch (error) {
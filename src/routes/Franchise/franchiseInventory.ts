@@ -2,8 +2,14 @@ import express from 'express';
 import { body, validationResult, param, query } from 'express-validator';
 import FranchiseInventory, { InventoryTransactionType } from '../../models/Franchise/FranchiseInventory';
 import FranchiseProduct from '../../models/Franchise/FranchiseProduct';
+import FranchiseStockLot from '../../models/Franchise/FranchiseStockLot';
 import { authenticateFranchise } from '../../middleware/franchiseAuth';
 import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
+import Franchise from '../../models/Franchise/Franchise';
+import FranchiseTransfer from '../../models/Franchise/FranchiseTransfer';
+import { writeOffExpiredLots } from '../../jobs/expiredStockWriteOff';
+import { DEFAULT_REPLENISHMENT, getReorderSuggestions, getReplenishmentSettings } from '../../utils/replenishment';
+import { createTransferRequest, TransferRequestError } from '../../utils/transferRequests';
 import { Types } from 'mongoose';
 
 const router = express.Router();
@@ -112,6 +118,56 @@ router.get('/', authenticateFranchise, [
   }
 });
 
+// Get stock lots on hand, in FEFO order
+router.get('/lots', [
+  authenticateFranchise,
+  query('productId').optional().isMongoId(),
+  query('includeEmpty').optional().isBoolean()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { productId, includeEmpty } = req.query as any;
+    const filter: any = { franchise: req.franchiseId };
+    if (productId) filter.franchiseProduct = productId;
+    if (includeEmpty !== 'true') filter.quantityRemaining = { $gt: 0 };
+
+    const lots = await FranchiseStockLot.find(filter)
+      .populate({
+        path: 'franchiseProduct',
+        select: 'bharatmartProduct sellingPrice',
+        populate: { path: 'bharatmartProduct', select: 'name sku' }
+      })
+      .sort({ expiryDate: 1, receivedAt: 1 })
+      .lean();
+
+    // Mongo sorts missing expiry dates first; FEFO puts them last
+    const sorted = [
+      ...lots.filter(lot => lot.expiryDate),
+      ...lots.filter(lot => !lot.expiryDate)
+    ];
+
+    res.json({
+      success: true,
+      data: sorted
+    });
+  } catch (error) {
+    console.error('Get stock lots error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
 // Get inventory transaction by ID
 router.get('/:id', [
   authenticateFranchise,
@@ -169,7 +225,8 @@ router.post('/', [
   body('costPerUnit').optional().isFloat({ min: 0 }),
   body('supplier').optional().trim().isLength({ max: 100 }),
   body('expiryDate').optional().isISO8601(),
-  body('batchNumber').optional().trim().isLength({ max: 50 })
+  body('batchNumber').optional().trim().isLength({ max: 50 }),
+  body('lotId').optional().isMongoId().withMessage('Valid lot ID is required')
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
     const errors = validationResult(req);
@@ -190,7 +247,8 @@ router.post('/', [
       costPerUnit,
       supplier,
       expiryDate,
-      batchNumber
+      batchNumber,
+      lotId
     } = req.body;
 
     // Verify product belongs to franchise
@@ -226,7 +284,8 @@ router.post('/', [
         costPerUnit,
         supplier,
         expiryDate: expiryDate ? new Date(expiryDate) : undefined,
-        batchNumber
+        batchNumber,
+        lot: lotId ? new Types.ObjectId(lotId) : undefined
       }
     );
 
@@ -417,7 +476,8 @@ router.get('/alerts/low-stock', authenticateFranchise, async (req: AuthRequest,
       franchise: req.franchiseId,
       $expr: { $lte: ['$stock', '$minStock'] }
     })
-      .select('name sku stock minStock price category brand')
+      .select('bharatmartProduct stock minStock sellingPrice')
+      .populate('bharatmartProduct', 'name sku category brand')
       .sort({ stock: 1 });
 
     res.json({
@@ -435,6 +495,289 @@ router.get('/alerts/low-stock', authenticateFranchise, async (req: AuthRequest,
   }
 });
 
+// Get reorder planning settings
+router.get('/reorder/settings', authenticateFranchise, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const settings = await getReplenishmentSettings(req.franchiseId as Types.ObjectId);
+
+    res.json({
+      success: true,
+      data: settings
+    });
+  } catch (error) {
+    console.error('Get reorder settings error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Update reorder planning settings
+router.put('/reorder/settings', [
+  authenticateFranchise,
+  body('leadTimeDays').optional().isInt({ min: 0, max: 90 }).withMessage('Lead time must be 0-90 days'),
+  body('safetyStockDays').optional().isInt({ min: 0, max: 90 }).withMessage('Safety stock must be 0-90 days'),
+  body('reviewPeriodDays').optional().isInt({ min: 1, max: 90 }).withMessage('Review period must be 1-90 days'),
+  body('velocityWindowDays').optional().isInt({ min: 1, max: 365 }).withMessage('Velocity window must be 1-365 days')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const settings = await getReplenishmentSettings(req.franchiseId as Types.ObjectId);
+    for (const key of Object.keys(DEFAULT_REPLENISHMENT) as Array<keyof typeof DEFAULT_REPLENISHMENT>) {
+      if (req.body[key] !== undefined) {
+        settings[key] = parseInt(req.body[key]);
+      }
+    }
+
+    await Franchise.findByIdAndUpdate(req.franchiseId, { replenishment: settings }, { runValidators: true });
+
+    res.json({
+      success: true,
+      data: settings,
+      message: 'Reorder settings updated'
+    });
+  } catch (error) {
+    console.error('Update reorder settings error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get reorder suggestions based on sales velocity
+router.get('/reorder/suggestions', [
+  authenticateFranchise,
+  query('includeAll').optional().isBoolean()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const plan = await getReorderSuggestions(req.franchiseId as Types.ObjectId, {
+      includeAll: req.query.includeAll === 'true'
+    });
+
+    res.json({
+      success: true,
+      data: {
+        ...plan,
+        totalQuantity: plan.suggestions.reduce((sum, line) => sum + line.suggestedQuantity, 0),
+        estimatedCost: plan.suggestions.reduce((sum, line) => sum + line.estimatedCost, 0)
+      }
+    });
+  } catch (error) {
+    console.error('Get reorder suggestions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Raise a transfer request from the reorder suggestions, optionally picking lines and overriding quantities
+router.post('/reorder/request', [
+  authenticateFranchise,
+  body('items').optional().isArray({ min: 1 }).withMessage('Items must be a non-empty array'),
+  body('items.*.franchiseProduct').optional().isMongoId().withMessage('Valid franchise product ID is required'),
+  body('items.*.quantity').optional().isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+  body('notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { items, notes } = req.body as {
+      items?: Array<{ franchiseProduct: string; quantity?: number }>;
+      notes?: string;
+    };
+
+    const plan = await getReorderSuggestions(req.franchiseId as Types.ObjectId, {
+      productIds: items?.map(item => item.franchiseProduct),
+      includeAll: !!items
+    });
+
+    let lines = plan.suggestions.map(suggestion => ({
+      bharatmartProduct: suggestion.bharatmartProduct,
+      franchiseProduct: suggestion.franchiseProduct,
+      quantity: suggestion.suggestedQuantity
+    }));
+
+    if (items) {
+      const missing = items.find(item => !lines.some(line => String(line.franchiseProduct) === item.franchiseProduct));
+      if (missing) {
+        return res.status(404).json({
+          success: false,
+          error: `Franchise product ${missing.franchiseProduct} not found or inactive`
+        });
+      }
+      lines = items.map(item => {
+        const line = lines.find(entry => String(entry.franchiseProduct) === item.franchiseProduct)!;
+        return { ...line, quantity: item.quantity ?? line.quantity };
+      });
+    }
+
+    lines = lines.filter(line => line.quantity > 0);
+    if (lines.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Nothing to reorder'
+      });
+    }
+
+    const transfer = await createTransferRequest(req.franchiseId as Types.ObjectId, lines, {
+      notes: notes || 'Replenishment reorder from sales velocity',
+      requestedBy: req.user?._id,
+      historyNote: 'Transfer request created from reorder suggestions'
+    });
+
+    const populatedTransfer = await FranchiseTransfer.findById(transfer._id)
+      .populate('items.bharatmartProduct', 'name sku');
+
+    res.status(201).json({
+      success: true,
+      message: 'Reorder request created successfully. Waiting for admin approval.',
+      data: populatedTransfer
+    });
+  } catch (error) {
+    if (error instanceof TransferRequestError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Create reorder request error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get lots that are expired or expire within the given number of days
+router.get('/reports/near-expiry', [
+  authenticateFranchise,
+  query('days').optional().isInt({ min: 0, max: 365 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const days = parseInt((req.query.days as string) || '30');
+    const now = new Date();
+    const horizon = new Date(now.getTime() + days * 24 * 60 * 60 * 1000);
+
+    const lots = await FranchiseStockLot.find({
+      franchise: req.franchiseId,
+      quantityRemaining: { $gt: 0 },
+      expiryDate: { $lte: horizon }
+    })
+      .populate({
+        path: 'franchiseProduct',
+        select: 'bharatmartProduct sellingPrice',
+        populate: { path: 'bharatmartProduct', select: 'name sku costPrice' }
+      })
+      .sort({ expiryDate: 1 })
+      .lean();
+
+    const report = lots.map((lot: any) => {
+      const product = lot.franchiseProduct?.bharatmartProduct;
+      const costPerUnit = lot.costPerUnit ?? product?.costPrice ?? 0;
+      const sellingPrice = lot.franchiseProduct?.sellingPrice || 0;
+      const daysToExpiry = Math.ceil((new Date(lot.expiryDate).getTime() - now.getTime()) / (24 * 60 * 60 * 1000));
+
+      return {
+        lot: lot._id,
+        franchiseProduct: lot.franchiseProduct?._id,
+        name: product?.name || 'Unknown',
+        sku: product?.sku || 'N/A',
+        batchNumber: lot.batchNumber,
+        expiryDate: lot.expiryDate,
+        daysToExpiry,
+        status: daysToExpiry < 0 ? 'expired' : 'near_expiry',
+        quantity: lot.quantityRemaining,
+        valueAtCost: lot.quantityRemaining * costPerUnit,
+        valueAtSelling: lot.quantityRemaining * sellingPrice
+      };
+    });
+
+    const summary = {
+      days,
+      lots: report.length,
+      expiredLots: report.filter(lot => lot.status === 'expired').length,
+      units: report.reduce((sum, lot) => sum + lot.quantity, 0),
+      valueAtCost: report.reduce((sum, lot) => sum + lot.valueAtCost, 0),
+      valueAtSelling: report.reduce((sum, lot) => sum + lot.valueAtSelling, 0)
+    };
+
+    res.json({
+      success: true,
+      data: {
+        summary,
+        lots: report
+      }
+    });
+  } catch (error) {
+    console.error('Get near-expiry report error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Write off this franchise's expired lots now instead of waiting for the scheduled job
+router.post('/lots/write-off-expired', authenticateFranchise, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const result = await writeOffExpiredLots(req.franchiseId as Types.ObjectId);
+
+    res.json({
+      success: true,
+      message: `${result.lotsWrittenOff} expired lots written off`,
+      data: result
+    });
+  } catch (error) {
+    console.error('Write off expired lots error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
 // Get stock valuation
 router.get('/reports/stock-valuation', authenticateFranchise, async (req: AuthRequest, res: AuthResponse) => {
   try {
@@ -0,0 +1,653 @@
+import express from 'express';
+import { body, validationResult, param, query } from 'express-validator';
+import mongoose, { Types } from 'mongoose';
+import FranchiseSale, {
+  IFranchiseSaleDocument,
+  ISaleDiscount,
+  ISaleLine,
+  ISalePayment,
+  getBusinessDate
+} from '../../models/Franchise/FranchiseSale';
+import FranchiseZReport from '../../models/Franchise/FranchiseZReport';
+import FranchiseProduct from '../../models/Franchise/FranchiseProduct';
+import FranchiseInventory from '../../models/Franchise/FranchiseInventory';
+import { IProductDocument } from '../../models/Product/Product';
+import { authenticateFranchise } from '../../middleware/franchiseAuth';
+import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
+import { DEFAULT_GST_RATE } from '../../utils/gst';
+
+const router = express.Router();
+
+interface SaleQuery {
+  page?: string;
+  limit?: string;
+  date?: string;
+  status?: string;
+}
+
+interface PricedLineInput {
+  franchiseProduct: Types.ObjectId;
+  bharatmartProduct: Types.ObjectId;
+  name: string;
+  sku?: string;
+  quantity: number;
+  unitPrice: number;
+  gstRate: number;
+  discount?: ISaleDiscount;
+}
+
+const PAYMENT_MODES = ['cash', 'card', 'upi', 'wallet'];
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Amount taken off a base by a percent or flat discount, never more than the base
+const discountAmount = (base: number, discount?: ISaleDiscount): number => {
+  if (!discount || !discount.value) {
+    return 0;
+  }
+  const amount = discount.type === 'percent' ? base * discount.value / 100 : discount.value;
+  return roundCurrency(Math.min(base, amount));
+};
+
+/**
+ * Price a bill. Counter prices are GST inclusive, so tax is the part of each
+ * line total that is GST. The bill discount is spread over the lines in
+ * proportion to their value so every line carries its own taxable amount.
+ */
+const priceBill = (inputs: PricedLineInput[], billDiscount?: ISaleDiscount) => {
+  const lines = inputs.map(input => {
+    const gross = roundCurrency(input.unitPrice * input.quantity);
+    const discount = discountAmount(gross, input.discount);
+    return { input, gross, discount, net: roundCurrency(gross - discount) };
+  });
+
+  const netBeforeBillDiscount = roundCurrency(lines.reduce((sum, line) => sum + line.net, 0));
+  const billDiscountTotal = discountAmount(netBeforeBillDiscount, billDiscount);
+
+  let allocated = 0;
+  const items: ISaleLine[] = lines.map((line, index) => {
+    const share = index === lines.length - 1
+      ? roundCurrency(billDiscountTotal - allocated)
+      : netBeforeBillDiscount > 0 ? roundCurrency(billDiscountTotal * line.net / netBeforeBillDiscount) : 0;
+    allocated = roundCurrency(allocated + share);
+
+    const total = roundCurrency(line.net - share);
+    return {
+      franchiseProduct: line.input.franchiseProduct,
+      bharatmartProduct: line.input.bharatmartProduct,
+      name: line.input.name,
+      sku: line.input.sku,
+      quantity: line.input.quantity,
+      unitPrice: line.input.unitPrice,
+      discount: line.discount,
+      billDiscount: share,
+      gstRate: line.input.gstRate,
+      taxAmount: roundCurrency(total * line.input.gstRate / (100 + line.input.gstRate)),
+      total
+    };
+  });
+
+  return {
+    items,
+    subTotal: roundCurrency(lines.reduce((sum, line) => sum + line.gross, 0)),
+    discountTotal: roundCurrency(lines.reduce((sum, line) => sum + line.discount, 0) + billDiscountTotal),
+    taxAmount: roundCurrency(items.reduce((sum, line) => sum + line.taxAmount, 0)),
+    total: roundCurrency(items.reduce((sum, line) => sum + line.total, 0))
+  };
+};
+
+const isDayClosed = async (franchiseId: Types.ObjectId, businessDate: string): Promise<boolean> =>
+  !!(await FranchiseZReport.exists({ franchise: franchiseId, businessDate }));
+
+// Create a counter sale (bill)
+router.post('/sales', [
+  authenticateFranchise,
+  body('items').isArray({ min: 1 }).withMessage('At least one line is required'),
+  body('items.*.productId').isMongoId().withMessage('Valid franchise product ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+  body('items.*.discount.type').optional().isIn(['percent', 'flat']).withMessage('Discount type must be percent or flat'),
+  body('items.*.discount.value').optional().isFloat({ min: 0 }).withMessage('Discount must be a non-negative number'),
+  body('discount.type').optional().isIn(['percent', 'flat']).withMessage('Discount type must be percent or flat'),
+  body('discount.value').optional().isFloat({ min: 0 }).withMessage('Discount must be a non-negative number'),
+  body('payments').isArray({ min: 1 }).withMessage('At least one payment is required'),
+  body('payments.*.mode').isIn(PAYMENT_MODES).withMessage(`Payment mode must be one of ${PAYMENT_MODES.join(', ')}`),
+  body('payments.*.amount').isFloat({ min: 0 }).withMessage('Payment amount must be a non-negative number'),
+  body('payments.*.reference').optional().trim().isLength({ max: 100 }),
+  body('customer.name').optional().trim().isLength({ max: 100 }),
+  body('customer.phone').optional().trim().isLength({ max: 20 }),
+  body('notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const franchiseId = req.franchiseId as Types.ObjectId;
+    const { items, discount, payments, customer, notes } = req.body;
+
+    const businessDate = getBusinessDate();
+    if (await isDayClosed(franchiseId, businessDate)) {
+      return res.status(400).json({
+        success: false,
+        error: `Business day ${businessDate} is already closed with a Z-report`
+      });
+    }
+
+    // Resolve lines against this franchise's catalogue
+    const productIds: string[] = items.map((item: { productId: string }) => item.productId);
+    const franchiseProducts = await FranchiseProduct.find({
+      _id: { $in: productIds },
+      franchise: franchiseId
+    }).populate<{ bharatmartProduct: IProductDocument }>('bharatmartProduct', 'name sku gstRate isActive');
+    const productById = new Map(franchiseProducts.map(product => [product._id.toString(), product]));
+
+    const requested = new Map<string, number>();
+    const inputs: PricedLineInput[] = [];
+
+    for (const item of items) {
+      const franchiseProduct = productById.get(item.productId);
+      if (!franchiseProduct || !franchiseProduct.bharatmartProduct) {
+        return res.status(404).json({
+          success: false,
+          error: `Product ${item.productId} not found or does not belong to this franchise`
+        });
+      }
+
+      const product = franchiseProduct.bharatmartProduct;
+      if (!franchiseProduct.isActive || !product.isActive) {
+        return res.status(400).json({
+          success: false,
+          error: `Product ${product.name} is not available for sale`
+        });
+      }
+
+      const quantity = Number(item.quantity);
+      const totalRequested = (requested.get(item.productId) || 0) + quantity;
+      if (totalRequested > franchiseProduct.stock) {
+        return res.status(400).json({
+          success: false,
+          error: `Insufficient stock for ${product.name}. Available: ${franchiseProduct.stock}, Requested: ${totalRequested}`
+        });
+      }
+      requested.set(item.productId, totalRequested);
+
+      inputs.push({
+        franchiseProduct: franchiseProduct._id,
+        bharatmartProduct: product._id,
+        name: product.name,
+        sku: product.sku,
+        quantity,
+        unitPrice: franchiseProduct.sellingPrice,
+        gstRate: product.gstRate ?? DEFAULT_GST_RATE,
+        discount: item.discount?.type ? { type: item.discount.type, value: Number(item.discount.value || 0) } : undefined
+      });
+    }
+
+    const billDiscount: ISaleDiscount | undefined = discount?.type
+      ? { type: discount.type, value: Number(discount.value || 0) }
+      : undefined;
+    const bill = priceBill(inputs, billDiscount);
+
+    // Tendered amounts: only cash may exceed the bill, the excess is returned as change
+    const salePayments: ISalePayment[] = payments.map((payment: ISalePayment) => ({
+      mode: payment.mode,
+      amount: roundCurrency(Number(payment.amount)),
+      reference: payment.reference
+    }));
+    const amountPaid = roundCurrency(salePayments.reduce((sum, payment) => sum + payment.amount, 0));
+    const nonCashPaid = roundCurrency(salePayments
+      .filter(payment => payment.mode !== 'cash')
+      .reduce((sum, payment) => sum + payment.amount, 0));
+
+    if (amountPaid < bill.total) {
+      return res.status(400).json({
+        success: false,
+        error: `Payment of ${amountPaid} is short of bill total ${bill.total}`
+      });
+    }
+    if (nonCashPaid > bill.total) {
+      return res.status(400).json({
+        success: false,
+        error: 'Card, UPI and wallet payments cannot exceed the bill total'
+      });
+    }
+
+    // Stock, ledger rows and the bill are written together or not at all
+    const session = await mongoose.startSession();
+    let sale: IFranchiseSaleDocument | undefined;
+
+    try {
+      await session.withTransaction(async () => {
+        const billNumber = await FranchiseSale.generateBillNumber(franchiseId, session);
+
+        for (const line of bill.items) {
+          await FranchiseInventory.recordTransaction(
+            franchiseId,
+            line.franchiseProduct,
+            'sale',
+            -line.quantity,
+            {
+              referenceNumber: billNumber,
+              notes: 'POS sale',
+              session
+            }
+          );
+        }
+
+        sale = new FranchiseSale({
+          billNumber,
+          franchise: franchiseId,
+          businessDate,
+          ...bill,
+          billDiscount,
+          payments: salePayments,
+          amountPaid,
+          changeDue: roundCurrency(amountPaid - bill.total),
+          customer,
+          status: 'completed',
+          notes
+        });
+        await sale.save({ session });
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Sale recorded successfully',
+      data: sale
+    });
+  } catch (error) {
+    console.error('POS sale error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get sales (bills) for the franchise
+router.get('/sales', [
+  authenticateFranchise,
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('date').optional().isDate({ format: 'YYYY-MM-DD' }),
+  query('status').optional().isIn(['completed', 'voided'])
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { page = '1', limit = '20', date, status } = req.query as SaleQuery;
+
+    const filter: any = { franchise: req.franchiseId };
+    if (date) filter.businessDate = date;
+    if (status) filter.status = status;
+
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+
+    const [sales, total] = await Promise.all([
+      FranchiseSale.find(filter)
+        .sort({ createdAt: -1 })
+        .limit(limitNum)
+        .skip((pageNum - 1) * limitNum)
+        .lean(),
+      FranchiseSale.countDocuments(filter)
+    ]);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: sales,
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum * limitNum < total,
+        hasPrev: pageNum > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get POS sales error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get a single sale (bill)
+router.get('/sales/:id', [
+  authenticateFranchise,
+  param('id').isMongoId()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const sale = await FranchiseSale.findOne({ _id: req.params.id, franchise: req.franchiseId });
+    if (!sale) {
+      return res.status(404).json({
+        success: false,
+        error: 'Sale not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: sale
+    });
+  } catch (error) {
+    console.error('Get POS sale error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Void a sale from a day that has not been closed yet, returning its stock
+router.post('/sales/:id/void', [
+  authenticateFranchise,
+  param('id').isMongoId(),
+  body('reason').trim().isLength({ min: 1, max: 200 }).withMessage('Void reason is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const franchiseId = req.franchiseId as Types.ObjectId;
+    const sale = await FranchiseSale.findOne({ _id: req.params.id, franchise: franchiseId });
+    if (!sale) {
+      return res.status(404).json({
+        success: false,
+        error: 'Sale not found'
+      });
+    }
+
+    if (sale.status !== 'completed') {
+      return res.status(400).json({
+        success: false,
+        error: 'Sale is already voided'
+      });
+    }
+
+    if (sale.zReport || await isDayClosed(franchiseId, sale.businessDate)) {
+      return res.status(400).json({
+        success: false,
+        error: `Business day ${sale.businessDate} is closed; sales from a closed day cannot be voided`
+      });
+    }
+
+    const session = await mongoose.startSession();
+    try {
+      await session.withTransaction(async () => {
+        for (const line of sale.items) {
+          await FranchiseInventory.recordTransaction(
+            franchiseId,
+            line.franchiseProduct,
+            'return',
+            line.quantity,
+            {
+              referenceNumber: sale.billNumber,
+              notes: `POS void: ${req.body.reason}`,
+              session
+            }
+          );
+        }
+
+        sale.status = 'voided';
+        sale.voidReason = req.body.reason;
+        sale.voidedAt = new Date();
+        await sale.save({ session });
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    res.json({
+      success: true,
+      message: 'Sale voided successfully',
+      data: sale
+    });
+  } catch (error) {
+    console.error('Void POS sale error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Preview the running totals of a business day (X-report) without closing it
+router.get('/z-reports/preview', [
+  authenticateFranchise,
+  query('date').optional().isDate({ format: 'YYYY-MM-DD' })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const franchiseId = req.franchiseId as Types.ObjectId;
+    const businessDate = (req.query.date as string) || getBusinessDate();
+    const summary = await FranchiseZReport.summarise(franchiseId, businessDate);
+
+    res.json({
+      success: true,
+      data: {
+        ...summary,
+        isClosed: await isDayClosed(franchiseId, businessDate)
+      }
+    });
+  } catch (error) {
+    console.error('Z-report preview error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Close a business day with an end-of-day Z-report
+router.post('/z-reports', [
+  authenticateFranchise,
+  body('date').optional().isDate({ format: 'YYYY-MM-DD' }).withMessage('Date must be YYYY-MM-DD'),
+  body('cashCounted').optional().isFloat({ min: 0 }).withMessage('Counted cash must be a non-negative number'),
+  body('notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const franchiseId = req.franchiseId as Types.ObjectId;
+    const businessDate: string = req.body.date || getBusinessDate();
+
+    if (businessDate > getBusinessDate()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cannot close a future business day'
+      });
+    }
+
+    if (await isDayClosed(franchiseId, businessDate)) {
+      return res.status(409).json({
+        success: false,
+        error: `Business day ${businessDate} is already closed`
+      });
+    }
+
+    const summary = await FranchiseZReport.summarise(franchiseId, businessDate);
+    const cashCounted = req.body.cashCounted !== undefined ? roundCurrency(Number(req.body.cashCounted)) : undefined;
+
+    const report = await FranchiseZReport.create({
+      ...summary,
+      reportNumber: `Z${businessDate.replace(/-/g, '')}`,
+      franchise: franchiseId,
+      cashCounted,
+      cashVariance: cashCounted !== undefined ? roundCurrency(cashCounted - summary.cashExpected) : undefined,
+      notes: req.body.notes,
+      closedAt: new Date()
+    });
+
+    await FranchiseSale.updateMany(
+      { franchise: franchiseId, businessDate },
+      { zReport: report._id }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: `Business day ${businessDate} closed`,
+      data: report
+    });
+  } catch (error) {
+    if ((error as any).code === 11000) {
+      return res.status(409).json({
+        success: false,
+        error: 'Business day is already closed'
+      });
+    }
+    console.error('Create Z-report error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get Z-reports for the franchise
+router.get('/z-reports', [
+  authenticateFranchise,
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { page = '1', limit = '30' } = req.query as SaleQuery;
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+    const filter = { franchise: req.franchiseId };
+
+    const [reports, total] = await Promise.all([
+      FranchiseZReport.find(filter)
+        .sort({ businessDate: -1 })
+        .limit(limitNum)
+        .skip((pageNum - 1) * limitNum)
+        .lean(),
+      FranchiseZReport.countDocuments(filter)
+    ]);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: reports,
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum * limitNum < total,
+        hasPrev: pageNum > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get Z-reports error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get a single Z-report
+router.get('/z-reports/:id', [
+  authenticateFranchise,
+  param('id').isMongoId()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const report = await FranchiseZReport.findOne({ _id: req.params.id, franchise: req.franchiseId });
+    if (!report) {
+      return res.status(404).json({
+        success: false,
+        error: 'Z-report not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: report
+    });
+  } catch (error) {
+    console.error('Get Z-report error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+export default router;
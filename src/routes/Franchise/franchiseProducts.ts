@@ -4,10 +4,12 @@ const router = express.Router();
 import multer, { FileFilterCallback } from 'multer';
 import path from 'path';
 import { body, validationResult, param, query } from 'express-validator';
-import FranchiseProduct, { IFranchiseProduct } from '../../models/Franchise/FranchiseProduct';
+import FranchiseProduct, { IFranchiseProduct, IFranchiseProductDocument } from '../../models/Franchise/FranchiseProduct';
 import Product from '../../models/Product/Product';
 import Franchise from '../../models/Franchise/Franchise';
 import ExcelProcessor from '../../utils/excelProcessor';
+import { checkFranchisePrice, FranchisePriceError, getListPrice } from '../../utils/franchisePricing';
+import { IPricePoints } from '../../utils/priceRules';
 import { authenticateAdminOrFranchise } from '../../middleware/franchiseAuth';
 import slugify from 'slugify';
 import XLSX from 'xlsx';
@@ -118,6 +120,11 @@ const validateProduct = [
     .isMongoId()
     .withMessage("Valid main product ID is required"),
 
+  body("variant")
+    .optional({ nullable: true })
+    .isMongoId()
+    .withMessage("Valid variant ID is required"),
+
   body("franchise")
     .isMongoId()
     .withMessage("Valid franchise ID is required"),
@@ -135,6 +142,35 @@ const validateProduct = [
     .withMessage("Selling price must be a non-negative number"),
 ];
 
+// Check a new selling price: franchises cannot override an HQ list price, and no one may go below landed cost or above MRP
+const checkSellingPriceUpdate = async (req: AuthRequest, product: IFranchiseProductDocument, price: number): Promise<void> => {
+  if (req.userType === 'franchise') {
+    const listPrice = await getListPrice(product.franchise, product.bharatmartProduct, product.variant);
+    if (listPrice && listPrice.change.price !== price) {
+      throw new FranchisePriceError(
+        `Price is set by the ${listPrice.priceList.name} price list at ${listPrice.change.price}`,
+        403
+      );
+    }
+  }
+  await checkFranchisePrice(product, price);
+};
+
+// Catalogue transfer price (the franchise's cost) and MRP for each imported SKU, product or variant
+const getCataloguePrices = async (rows: Array<{ sku?: unknown }>): Promise<Map<string, IPricePoints>> => {
+  const skus = rows.map(row => String(row.sku ?? '')).filter(Boolean);
+  const products = await Product.find({ $or: [{ sku: { $in: skus } }, { 'variants.sku': { $in: skus } }] });
+
+  const prices = new Map<string, IPricePoints>();
+  for (const product of products) {
+    prices.set(product.sku, { costPrice: product.getTransferPrice(), mrp: product.getMrp() });
+    for (const variant of product.variants) {
+      prices.set(variant.sku, { costPrice: product.getTransferPrice(variant._id), mrp: product.getMrp(variant._id) });
+    }
+  }
+  return prices;
+};
+
 // Get all franchise products with advanced filtering
 router.get('/', [
   authenticateAdminOrFranchise
@@ -340,6 +376,7 @@ router.post('/', [
     // Check if this franchise already has this product
     const existingProduct = await FranchiseProduct.findOne({ 
       bharatmartProduct: req.body.bharatmartProduct,
+      variant: req.body.variant || null,
       franchise: req.body.franchise
     });
     
@@ -359,7 +396,26 @@ router.post('/', [
       });
     }
 
+    // Products sold in variants are stocked per variant
+    if (mainProduct.variants.length > 0) {
+      const variant = mainProduct.getVariant(req.body.variant);
+      if (!variant || !variant.isActive) {
+        return res.status(400).json({
+          success: false,
+          error: req.body.variant
+            ? 'Variant not found on the main product'
+            : 'This product is sold in variants; a variant is required'
+        });
+      }
+    } else if (req.body.variant) {
+      return res.status(400).json({
+        success: false,
+        error: 'This product has no variants'
+      });
+    }
+
     const product = new FranchiseProduct(req.body);
+    await checkFranchisePrice(product, Number(req.body.sellingPrice), mainProduct);
     await product.save();
 
     // Populate the response
@@ -372,6 +428,12 @@ router.post('/', [
       data: populatedProduct
     });
   } catch (error) {
+    if (error instanceof FranchisePriceError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
     console.error('Create franchise product error:', error);
     res.status(500).json({
       success: false,
@@ -418,6 +480,10 @@ router.put('/:id', [
       }
     });
 
+    if (updates.sellingPrice !== undefined && Number(updates.sellingPrice) !== product.sellingPrice) {
+      await checkSellingPriceUpdate(req, product, Number(updates.sellingPrice));
+    }
+
     Object.assign(product, updates);
     await product.save();
 
@@ -431,6 +497,12 @@ router.put('/:id', [
       data: populatedProduct
     });
   } catch (error) {
+    if (error instanceof FranchisePriceError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
     console.error('Update franchise product error:', error);
     res.status(500).json({
       success: false,
@@ -516,8 +588,8 @@ router.post('/bulk/import', [
     // Parse Excel file
     const products = await ExcelProcessor.parseExcelFile(req.file.path);
     
-    // Validate products
-    const { validProducts, errors: validationErrors } = ExcelProcessor.validateProducts(products);
+    // Validate products, holding prices to the catalogue's cost and MRP for each SKU
+    const { validProducts, errors: validationErrors } = ExcelProcessor.validateProducts(products, await getCataloguePrices(products));
     
     if (validationErrors.length > 0) {
       return res.status(400).json({
@@ -707,6 +779,32 @@ router.put('/bulk/update', [
       });
     }
 
+    // Price changes are all-or-nothing: one price out of bounds rejects the whole batch
+    const priceErrors: Array<{ _id: string; error: string; statusCode: number }> = [];
+    for (const update of updates) {
+      const price = update.data?.sellingPrice;
+      const product = existingProducts.find(p => p._id.equals(update._id));
+      if (price === undefined || !product || Number(price) === product.sellingPrice) {
+        continue;
+      }
+      try {
+        await checkSellingPriceUpdate(req, product, Number(price));
+      } catch (error) {
+        if (!(error instanceof FranchisePriceError)) {
+          throw error;
+        }
+        priceErrors.push({ _id: String(update._id), error: error.message, statusCode: error.statusCode });
+      }
+    }
+
+    if (priceErrors.length > 0) {
+      return res.status(priceErrors.every(e => e.statusCode === 403) ? 403 : 400).json({
+        success: false,
+        error: 'Some selling prices are not allowed',
+        details: priceErrors.map(({ _id, error }) => ({ _id, error }))
+      });
+    }
+
     // Perform bulk update
     const result = await FranchiseProduct.bulkUpdate(
       updates.map(u => ({ _id: new Types.ObjectId(u._id), data: u.data } as IBulkUpdateOperationWithObjectId)),
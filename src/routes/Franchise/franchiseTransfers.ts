@@ -1,13 +1,28 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
-import { Types } from 'mongoose';
-import FranchiseTransfer, { ITransfer, TransferStatus } from '../../models/Franchise/FranchiseTransfer';
+import { body, query, validationResult } from 'express-validator';
+import mongoose, { Types } from 'mongoose';
+import FranchiseTransfer, {
+  getOutstandingQuantity,
+  ITransfer,
+  ITransferDocument,
+  ITransferItem,
+  TransferStatus
+} from '../../models/Franchise/FranchiseTransfer';
+import TransferDiscrepancy, { ITransferDiscrepancyDocument } from '../../models/Franchise/TransferDiscrepancy';
 import Franchise from '../../models/Franchise/Franchise';
 import Product from '../../models/Product/Product';
 import FranchiseProduct from '../../models/Franchise/FranchiseProduct';
-import { authenticateToken, requirePermission } from '../../middleware/auth';
-import { authenticateAdminOrFranchise } from '../../middleware/franchiseAuth';
+import FranchiseInventory from '../../models/Franchise/FranchiseInventory';
+import ProductInventory, { ProductStockError } from '../../models/Product/ProductInventory';
+import { requirePermission } from '../../middleware/auth';
+import { authenticateStaff, getStaffActor, performedByFields } from '../../middleware/employeeAuth';
+import { authenticateAdminOrFranchise, requireAdminPermission } from '../../middleware/franchiseAuth';
 import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
+import { IStaffActor } from '../../types/common';
+import { getOrCreateTransferInvoice, InvoiceError } from '../../utils/invoices';
+import { renderInvoiceHtml, getInvoiceFileName } from '../../utils/invoiceRenderer';
+import { createTransferRequest, TransferRequestError } from '../../utils/transferRequests';
+import { reserveTransferStock, releaseTransferStock, WarehouseAllocationError } from '../../utils/warehouseAllocation';
 
 const router = express.Router();
 
@@ -18,11 +33,237 @@ interface TransferQuery {
   status?: string;
   sortBy?: string;
   sortOrder?: 'asc' | 'desc';
+  direction?: 'inbound' | 'outbound';
 }
 
+interface ReceiptLotDetails {
+  itemId?: string;
+  batchNumber?: string;
+  expiryDate?: string;
+}
+
+// A franchise can see transfers it receives and transfers it sends to another store
+const isTransferParty = (transfer: ITransferDocument, franchiseId?: Types.ObjectId | string): boolean =>
+  !!franchiseId && [transfer.franchise, transfer.sourceFranchise]
+    .some(party => party && party.toString() === franchiseId.toString());
+
+/**
+ * Take a central transfer out of stock on the inventory ledger, debiting the
+ * source warehouse and its reservation when there is one. All lines post in
+ * one transaction. Franchise-to-franchise stock left the source on dispatch.
+ */
+const dispatchTransferStock = async (transfer: ITransferDocument, actor: IStaffActor): Promise<void> => {
+  if (transfer.sourceFranchise) {
+    return;
+  }
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      for (const item of transfer.items) {
+        await ProductInventory.recordTransaction(item.bharatmartProduct, 'transfer_out', -item.quantity, {
+          referenceNumber: transfer.transferNumber,
+          notes: `Shipped to franchise on transfer ${transfer.transferNumber}`,
+          ...performedByFields(actor),
+          costPerUnit: item.unitPrice,
+          warehouse: transfer.sourceWarehouse,
+          variant: item.variant,
+          fromReserved: transfer.stockReserved,
+          session
+        });
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  transfer.stockReserved = false;
+};
+
+// Answer with the status carried by stock and warehouse errors; false for anything else
+const sendStockError = (res: AuthResponse, error: unknown): boolean => {
+  if (error instanceof ProductStockError || error instanceof WarehouseAllocationError) {
+    res.status(error.statusCode).json({
+      success: false,
+      error: error.message
+    });
+    return true;
+  }
+  return false;
+};
+
+// Copy batch and expiry details captured at receipt onto the transfer lines
+const applyReceiptLotDetails = (transfer: ITransferDocument, details: ReceiptLotDetails[] = []): void => {
+  for (const detail of details) {
+    const item = transfer.items.find(transferItem => String(transferItem._id) === detail.itemId);
+    if (!item) {
+      continue;
+    }
+    if (detail.batchNumber) item.batchNumber = detail.batchNumber;
+    if (detail.expiryDate) item.expiryDate = new Date(detail.expiryDate);
+  }
+};
+
+interface ReceiptLine extends ReceiptLotDetails {
+  receivedQuantity?: number;
+  damagedQuantity?: number;
+}
+
+interface ReceiptCount {
+  item: ITransferItem;
+  outstanding: number;
+  received: number;
+  damaged: number;
+  missing: number;
+}
+
+/**
+ * Split each outstanding transfer line into received, damaged and missing
+ * units. Lines left out of the receipt arrived in full; anything not counted
+ * as received or damaged on a listed line is missing.
+ */
+const countReceipt = (
+  transfer: ITransferDocument,
+  lines: ReceiptLine[] = []
+): { counts: ReceiptCount[]; error?: string } => {
+  for (const line of lines) {
+    if (line.itemId && !transfer.items.some(item => String(item._id) === line.itemId)) {
+      return { counts: [], error: `Transfer item ${line.itemId} not found` };
+    }
+  }
+
+  const counts: ReceiptCount[] = [];
+
+  for (const item of transfer.items) {
+    const outstanding = getOutstandingQuantity(item);
+    const line = lines.find(entry => entry.itemId === String(item._id));
+    const damaged = line?.damagedQuantity !== undefined ? Number(line.damagedQuantity) : 0;
+    const received = line?.receivedQuantity !== undefined ? Number(line.receivedQuantity) : outstanding - damaged;
+
+    if (received < 0 || received + damaged > outstanding) {
+      return {
+        counts: [],
+        error: `Received and damaged quantities for item ${item._id} exceed the ${outstanding} units outstanding`
+      };
+    }
+
+    if (outstanding > 0) {
+      counts.push({ item, outstanding, received, damaged, missing: outstanding - received - damaged });
+    }
+  }
+
+  if (counts.length === 0) {
+    return { counts, error: 'Nothing is outstanding on this transfer' };
+  }
+
+  return { counts };
+};
+
+/**
+ * Credit what arrived to franchise stock, opening a stock lot per line, and
+ * write damaged units straight back off that lot as 'damage'. Central stock
+ * arrives as 'reorder'; stock from another franchise as 'transfer_in'.
+ */
+const receiveTransferStock = async (
+  transfer: ITransferDocument,
+  counts: ReceiptCount[],
+  franchiseId: Types.ObjectId,
+  actor: IStaffActor
+): Promise<void> => {
+  for (const { item, received, damaged, missing } of counts) {
+    const arrived = received + damaged;
+    if (arrived > 0) {
+      const receipt = await FranchiseInventory.recordTransaction(
+        franchiseId,
+        item.franchiseProduct,
+        transfer.sourceFranchise ? 'transfer_in' : 'reorder',
+        arrived,
+        {
+          referenceNumber: transfer.transferNumber,
+          notes: `Stock received via transfer ${transfer.transferNumber}`,
+          ...performedByFields(actor),
+          costPerUnit: item.unitPrice,
+          batchNumber: item.batchNumber,
+          expiryDate: item.expiryDate
+        }
+      );
+
+      if (damaged > 0) {
+        await FranchiseInventory.recordTransaction(
+          franchiseId,
+          item.franchiseProduct,
+          'damage',
+          -damaged,
+          {
+            referenceNumber: transfer.transferNumber,
+            notes: `Damaged in transit on transfer ${transfer.transferNumber}`,
+            ...performedByFields(actor),
+            costPerUnit: item.unitPrice,
+            lot: receipt.lots?.[0]?.lot
+          }
+        );
+      }
+    }
+
+    item.receivedQuantity = (item.receivedQuantity || 0) + received;
+    item.damagedQuantity = (item.damagedQuantity || 0) + damaged;
+    item.missingQuantity = (item.missingQuantity || 0) + missing;
+  }
+};
+
+/**
+ * Book a receipt against the transfer. A clean receipt delivers the transfer;
+ * any damaged or missing units raise a discrepancy for admin review and leave
+ * the transfer partially received.
+ */
+const settleTransferReceipt = async (
+  transfer: ITransferDocument,
+  counts: ReceiptCount[],
+  actor: IStaffActor,
+  notes?: string
+): Promise<ITransferDiscrepancyDocument | null> => {
+  await receiveTransferStock(transfer, counts, transfer.franchise as Types.ObjectId, actor);
+
+  const shortLines = counts.filter(count => count.damaged > 0 || count.missing > 0);
+  if (shortLines.length === 0) {
+    await transfer.markAsDelivered(actor);
+    return null;
+  }
+
+  const discrepancy = await TransferDiscrepancy.create({
+    transfer: transfer._id,
+    transferNumber: transfer.transferNumber,
+    franchise: transfer.franchise,
+    items: shortLines.map(({ item, outstanding, received, damaged, missing }) => ({
+      transferItem: item._id,
+      bharatmartProduct: item.bharatmartProduct,
+      franchiseProduct: item.franchiseProduct,
+      expectedQuantity: outstanding,
+      receivedQuantity: received,
+      damagedQuantity: damaged,
+      missingQuantity: missing,
+      unitPrice: item.unitPrice,
+      value: (damaged + missing) * item.unitPrice
+    })),
+    totalValue: shortLines.reduce((sum, { item, damaged, missing }) => sum + (damaged + missing) * item.unitPrice, 0),
+    notes,
+    ...(actor.isEmployee ? { raisedByEmployee: actor.id } : { raisedBy: actor.id })
+  });
+
+  const damaged = shortLines.reduce((sum, count) => sum + count.damaged, 0);
+  const missing = shortLines.reduce((sum, count) => sum + count.missing, 0);
+  await transfer.updateStatus(
+    'partially_received',
+    `Partially received: ${damaged} damaged, ${missing} missing. Discrepancy raised for review`,
+    actor
+  );
+
+  return discrepancy;
+};
+
 // Get all franchise transfers
 router.get('/', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('franchise:read')
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
@@ -54,11 +295,14 @@ router.get('/', [
 
     const transfers = await FranchiseTransfer.find(query)
       .populate('franchise', 'name industry')
+      .populate('sourceFranchise', 'name industry')
+      .populate('sourceWarehouse', 'name code')
       .populate('bharatmartManager', 'firstName lastName email')
       .populate('requestedBy', 'firstName lastName email')
       .populate('items.bharatmartProduct', 'name sku stock')
       .populate('items.franchiseProduct', 'name sku stock')
       .populate('deliveredBy', 'firstName lastName email')
+      .populate('deliveredByEmployee', 'firstName lastName email')
       .sort(sortOptions)
       .limit(limitNum)
       .skip((pageNum - 1) * limitNum)
@@ -98,7 +342,8 @@ router.get('/my-transfers', [
       limit = '10',
       status,
       sortBy = 'createdAt',
-      sortOrder = 'desc'
+      sortOrder = 'desc',
+      direction
     } = req.query as TransferQuery;
 
     console.log('[my-transfers] Request received from:', req.userType);
@@ -118,7 +363,13 @@ router.get('/my-transfers', [
 
     console.log('[my-transfers] Using franchise ID:', franchiseId);
 
-    const query: any = { franchise: franchiseId };
+    // Inbound transfers are addressed to the franchise; outbound ones are sent from it to another store
+    const involvement: any = direction === 'inbound'
+      ? { franchise: franchiseId }
+      : direction === 'outbound'
+        ? { sourceFranchise: franchiseId }
+        : { $or: [{ franchise: franchiseId }, { sourceFranchise: franchiseId }] };
+    const query: any = { ...involvement };
     
     if (status) {
       query.status = status;
@@ -132,10 +383,14 @@ router.get('/my-transfers', [
     const limitNum = parseInt(limit);
 
     const transfers = await FranchiseTransfer.find(query)
+      .populate('franchise', 'name franchiseId')
+      .populate('sourceFranchise', 'name franchiseId')
+      .populate('sourceWarehouse', 'name code')
       .populate('bharatmartManager', 'firstName lastName email')
       .populate('items.bharatmartProduct', 'name sku stock')
       .populate('items.franchiseProduct', 'name sku stock')
       .populate('deliveredBy', 'firstName lastName email')
+      .populate('deliveredByEmployee', 'firstName lastName email')
       .sort(sortOptions)
       .limit(limitNum)
       .skip((pageNum - 1) * limitNum)
@@ -145,7 +400,7 @@ router.get('/my-transfers', [
 
     // Get stats
     const stats = await FranchiseTransfer.aggregate([
-      { $match: { franchise: franchiseId } },
+      { $match: involvement },
       {
         $group: {
           _id: '$status',
@@ -182,18 +437,86 @@ router.get('/my-transfers', [
   }
 });
 
+// Get receipt discrepancies across franchises (MUST come before /:id route)
+router.get('/discrepancies', [
+  authenticateStaff,
+  requirePermission('franchise:read'),
+  query('status').optional().isIn(['pending', 'approved', 'rejected']),
+  query('franchise').optional().isMongoId(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { page = '1', limit = '10', status, franchise } = req.query as TransferQuery;
+
+    const filter: any = {};
+    if (status) filter.status = status;
+    if (franchise) filter.franchise = franchise;
+
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+
+    const discrepancies = await TransferDiscrepancy.find(filter)
+      .populate('franchise', 'name franchiseId')
+      .populate('items.bharatmartProduct', 'name sku')
+      .populate('raisedBy', 'firstName lastName email')
+      .populate('raisedByEmployee', 'firstName lastName email')
+      .populate('reviewedBy', 'firstName lastName email')
+      .populate('reviewedByEmployee', 'firstName lastName email')
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .skip((pageNum - 1) * limitNum);
+
+    const total = await TransferDiscrepancy.countDocuments(filter);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: discrepancies,
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum < Math.ceil(total / limitNum),
+        hasPrev: pageNum > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get transfer discrepancies error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
 // Get transfer by ID
 router.get('/:id', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('franchise:read')
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
     const transfer = await FranchiseTransfer.findById(req.params.id)
       .populate('franchise', 'name industry')
+      .populate('sourceFranchise', 'name industry')
+      .populate('sourceWarehouse', 'name code')
       .populate('bharatmartManager', 'firstName lastName email')
       .populate('items.bharatmartProduct', 'name sku stock')
       .populate('items.franchiseProduct', 'name sku stock')
-      .populate('deliveredBy', 'firstName lastName email');
+      .populate('deliveredBy', 'firstName lastName email')
+      .populate('deliveredByEmployee', 'firstName lastName email');
     
     if (!transfer) {
       return res.status(404).json({
@@ -216,15 +539,110 @@ router.get('/:id', [
   }
 });
 
+// Get (and issue on first request) the GST tax invoice of a delivered transfer
+router.get('/:id/invoice', [
+  authenticateAdminOrFranchise,
+  requireAdminPermission('franchise:read')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const transfer = await FranchiseTransfer.findById(req.params.id);
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transfer not found'
+      });
+    }
+
+    // Franchises may only download invoices for their own transfers
+    if (req.userType === 'franchise' && !isTransferParty(transfer, req.franchiseId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+
+    const invoice = await getOrCreateTransferInvoice(transfer);
+
+    if (req.query.format === 'html') {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${getInvoiceFileName(invoice)}"`);
+      return res.send(renderInvoiceHtml(invoice));
+    }
+
+    res.json({
+      success: true,
+      data: invoice
+    });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Transfer invoice error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get receipt discrepancies raised on a transfer
+router.get('/:id/discrepancies', [
+  authenticateAdminOrFranchise,
+  requireAdminPermission('franchise:read')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const transfer = await FranchiseTransfer.findById(req.params.id);
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transfer not found'
+      });
+    }
+
+    // Franchises may only see discrepancies on their own transfers
+    if (req.userType === 'franchise' && !isTransferParty(transfer, req.franchiseId)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+
+    const discrepancies = await TransferDiscrepancy.find({ transfer: transfer._id })
+      .populate('items.bharatmartProduct', 'name sku')
+      .populate('reviewedBy', 'firstName lastName email')
+      .populate('reviewedByEmployee', 'firstName lastName email')
+      .sort({ createdAt: -1 });
+
+    res.json({
+      success: true,
+      data: discrepancies
+    });
+  } catch (error) {
+    console.error('Get transfer discrepancies error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
 // Create new franchise transfer
 router.post('/', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('franchise:write'),
   body('franchise').isMongoId().withMessage('Valid franchise ID is required'),
   body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
   body('items.*.bharatmartProduct').isMongoId().withMessage('Valid product ID is required'),
   body('items.*.franchiseProduct').isMongoId().withMessage('Valid franchise product ID is required'),
-  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1')
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+  body('items.*.batchNumber').optional().trim().isLength({ max: 50 }),
+  body('items.*.expiryDate').optional().isISO8601().withMessage('Expiry date must be a valid date'),
+  body('sourceWarehouse').optional().isMongoId().withMessage('Valid warehouse ID is required')
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
     const errors = validationResult(req);
@@ -236,7 +654,7 @@ router.post('/', [
       });
     }
 
-    const { franchise, items, notes } = req.body;
+    const { franchise, items, notes, sourceWarehouse } = req.body;
 
     // Verify franchise exists
     const franchiseExists = await Franchise.findById(franchise);
@@ -277,24 +695,29 @@ router.post('/', [
         });
       }
 
-      // Check if we have enough stock in the main product
-      if (bharatmartProduct.stock < item.quantity) {
+      // Check if we have enough stock in the main product (or the variant the franchise lists)
+      const variant = franchiseProduct.variant || undefined;
+      const available = bharatmartProduct.getAvailableStock(variant);
+      if (available < item.quantity) {
         return res.status(400).json({
           success: false,
-          error: `Insufficient stock for ${bharatmartProduct.name}. Available: ${bharatmartProduct.stock}, Requested: ${item.quantity}`
+          error: `Insufficient stock for ${bharatmartProduct.name}. Available: ${available}, Requested: ${item.quantity}`
         });
       }
 
       // Calculate pricing
-      const unitPrice = bharatmartProduct.costPrice || bharatmartProduct.salePrice || 0;
+      const unitPrice = bharatmartProduct.getTransferPrice(variant);
       const itemTotal = unitPrice * item.quantity;
 
       transferItems.push({
         bharatmartProduct: bharatmartProduct._id,
+        variant,
         franchiseProduct: franchiseProduct._id,
         quantity: item.quantity,
         unitPrice,
-        totalPrice: itemTotal
+        totalPrice: itemTotal,
+        batchNumber: item.batchNumber,
+        expiryDate: item.expiryDate ? new Date(item.expiryDate) : undefined
       });
 
       totalValue += itemTotal;
@@ -312,11 +735,19 @@ router.post('/', [
       status: 'pending'
     });
 
-    await transfer.save();
+    // Hold stock at the requested warehouse, or the nearest one that has it all
+    await reserveTransferStock(transfer, { warehouseId: sourceWarehouse });
+    try {
+      await transfer.save();
+    } catch (saveError) {
+      await releaseTransferStock(transfer);
+      throw saveError;
+    }
 
     const populatedTransfer = await FranchiseTransfer.findById(transfer._id)
       .populate('franchise', 'name industry')
       .populate('bharatmartManager', 'firstName lastName email')
+      .populate('sourceWarehouse', 'name code')
       .populate('items.bharatmartProduct', 'name sku')
       .populate('items.franchiseProduct', 'name sku');
 
@@ -325,6 +756,9 @@ router.post('/', [
       data: populatedTransfer
     });
   } catch (error) {
+    if (sendStockError(res, error)) {
+      return;
+    }
     console.error('Create transfer error:', error);
     res.status(500).json({
       success: false,
@@ -369,21 +803,125 @@ router.post('/request', [
       });
     }
 
-    // Verify franchise exists
-    const franchiseExists = await Franchise.findById(franchiseId);
-    if (!franchiseExists) {
+    const transfer = await createTransferRequest(franchiseId, items, {
+      notes,
+      requestedBy: req.user?._id
+    });
+
+    const populatedTransfer = await FranchiseTransfer.findById(transfer._id)
+      .populate('franchise', 'name industry')
+      .populate('requestedBy', 'firstName lastName email')
+      .populate('items.bharatmartProduct', 'name sku')
+      .populate('items.franchiseProduct', 'name sku');
+
+    res.status(201).json({
+      success: true,
+      message: 'Transfer request created successfully. Waiting for admin approval.',
+      data: populatedTransfer
+    });
+  } catch (error) {
+    if (error instanceof TransferRequestError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Create transfer request error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Create franchise-to-franchise transfer (source franchise or admin). Stock leaves the source on dispatch
+router.post('/franchise-to-franchise', [
+  authenticateAdminOrFranchise,
+  requireAdminPermission('franchise:write'),
+  body('sourceFranchise').optional().isMongoId().withMessage('Valid source franchise ID is required'),
+  body('franchise').isMongoId().withMessage('Valid destination franchise ID is required'),
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.bharatmartProduct').isMongoId().withMessage('Valid product ID is required'),
+  body('items.*.variant').optional().isMongoId().withMessage('Valid variant ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+  body('notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { franchise: destinationId, items, notes } = req.body;
+
+    // Franchises send their own stock; admins pick the source store
+    let sourceId: string | undefined;
+    if (req.userType === 'franchise') {
+      if (req.body.sourceFranchise && req.body.sourceFranchise !== String(req.franchiseId)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Franchises can only send their own stock'
+        });
+      }
+      sourceId = String(req.franchiseId);
+    } else {
+      sourceId = req.body.sourceFranchise;
+      if (!sourceId) {
+        return res.status(400).json({
+          success: false,
+          error: 'Source franchise is required'
+        });
+      }
+    }
+
+    if (sourceId === String(destinationId)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Source and destination franchise must be different'
+      });
+    }
+
+    const source = await Franchise.findById(sourceId);
+    if (!source) {
       return res.status(404).json({
         success: false,
-        error: 'Franchise not found'
+        error: 'Source franchise not found'
       });
     }
 
-    // Validate products and prepare transfer items
-    const transferItems = [];
-    let totalValue = 0;
+    const destination = await Franchise.findById(destinationId);
+    if (!destination) {
+      return res.status(404).json({
+        success: false,
+        error: 'Destination franchise not found'
+      });
+    }
+
+    if (!destination.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: 'Destination franchise is not active'
+      });
+    }
+
+    const productIds = items.map((item: { bharatmartProduct: string; variant?: string }) =>
+      `${item.bharatmartProduct}:${item.variant || ''}`);
+    if (new Set(productIds).size !== productIds.length) {
+      return res.status(400).json({
+        success: false,
+        error: 'Each product may only appear once per transfer'
+      });
+    }
+
+    // Validate products at both ends and prepare transfer items
+    const transferItems: ITransferItem[] = [];
 
     for (const item of items) {
-      // Verify main product exists
       const bharatmartProduct = await Product.findById(item.bharatmartProduct);
       if (!bharatmartProduct) {
         return res.status(404).json({
@@ -392,79 +930,123 @@ router.post('/request', [
         });
       }
 
-      // Verify franchise product exists and is linked
-      const franchiseProduct = await FranchiseProduct.findById(item.franchiseProduct);
-      if (!franchiseProduct) {
+      const variant = item.variant ? new Types.ObjectId(item.variant) : undefined;
+      if (bharatmartProduct.variants.length > 0 && !bharatmartProduct.getVariant(variant)) {
+        return res.status(400).json({
+          success: false,
+          error: `${bharatmartProduct.name} is sold in variants; a valid variant is required`
+        });
+      }
+
+      const sourceProduct = await FranchiseProduct.findOne({
+        franchise: source._id,
+        bharatmartProduct: bharatmartProduct._id,
+        variant: variant || null
+      });
+      if (!sourceProduct) {
         return res.status(404).json({
           success: false,
-          error: `Franchise product ${item.franchiseProduct} not found`
+          error: `${bharatmartProduct.name} is not stocked by ${source.name}`
         });
       }
 
-      if (String(franchiseProduct.bharatmartProduct) !== String(item.bharatmartProduct)) {
+      const destinationProduct = await FranchiseProduct.findOne({
+        franchise: destination._id,
+        bharatmartProduct: bharatmartProduct._id,
+        variant: variant || null
+      });
+      if (!destinationProduct) {
         return res.status(400).json({
           success: false,
-          error: `Franchise product ${item.franchiseProduct} is not linked to main product ${item.bharatmartProduct}`
+          error: `${bharatmartProduct.name} is not listed by ${destination.name}`
         });
       }
 
-      if (String(franchiseProduct.franchise) !== String(franchiseId)) {
-        return res.status(403).json({
+      if (sourceProduct.stock < item.quantity) {
+        return res.status(400).json({
           success: false,
-          error: `Franchise product ${item.franchiseProduct} does not belong to your franchise`
+          error: `Insufficient stock for ${bharatmartProduct.name} at ${source.name}. Available: ${sourceProduct.stock}, Requested: ${item.quantity}`
         });
       }
 
-      // Calculate pricing
-      const unitPrice = bharatmartProduct.costPrice || bharatmartProduct.salePrice || 0;
-      const itemTotal = unitPrice * item.quantity;
+      const unitPrice = bharatmartProduct.getTransferPrice(variant);
 
       transferItems.push({
         bharatmartProduct: bharatmartProduct._id,
-        franchiseProduct: franchiseProduct._id,
+        variant,
+        franchiseProduct: destinationProduct._id,
+        sourceFranchiseProduct: sourceProduct._id,
         quantity: item.quantity,
         unitPrice,
-        totalPrice: itemTotal
+        totalPrice: unitPrice * item.quantity
       });
-
-      totalValue += itemTotal;
     }
 
-    // Generate transfer number
     const transferNumber = await FranchiseTransfer.generateTransferNumber();
 
-    // Create transfer request
-    const transfer = new FranchiseTransfer({
-      transferNumber,
-      franchise: franchiseId,
-      items: transferItems,
-      notes: notes || 'Stock reorder request from franchise',
-      status: 'requested',
-      requestedBy: req.user?._id,
-      requestedAt: new Date(),
-      statusHistory: [{
-        status: 'requested',
-        timestamp: new Date(),
-        notes: 'Transfer request created by franchise',
-        changedBy: req.user?._id
-      }]
-    });
+    // The transfer and the source's transfer_out rows are written together or not at all
+    const session = await mongoose.startSession();
+    let transfer: ITransferDocument | undefined;
+
+    try {
+      await session.withTransaction(async () => {
+        for (const item of transferItems) {
+          const dispatch = await FranchiseInventory.recordTransaction(
+            source._id,
+            item.sourceFranchiseProduct!,
+            'transfer_out',
+            -item.quantity,
+            {
+              referenceNumber: transferNumber,
+              notes: `Transferred to ${destination.name}`,
+              performedBy: req.user?._id,
+              costPerUnit: item.unitPrice,
+              session
+            }
+          );
 
-    await transfer.save();
+          // Carry the earliest-expiring lot's details so the receiving store keeps FEFO order
+          const [firstLot] = [...(dispatch.lots || [])].sort((a, b) =>
+            (a.expiryDate?.getTime() ?? Number.POSITIVE_INFINITY) - (b.expiryDate?.getTime() ?? Number.POSITIVE_INFINITY)
+          );
+          item.batchNumber = firstLot?.batchNumber;
+          item.expiryDate = firstLot?.expiryDate;
+        }
 
-    const populatedTransfer = await FranchiseTransfer.findById(transfer._id)
-      .populate('franchise', 'name industry')
-      .populate('requestedBy', 'firstName lastName email')
-      .populate('items.bharatmartProduct', 'name sku')
-      .populate('items.franchiseProduct', 'name sku');
+        transfer = new FranchiseTransfer({
+          transferNumber,
+          franchise: destination._id,
+          sourceFranchise: source._id,
+          items: transferItems,
+          notes: notes || `Stock transfer from ${source.name}`,
+          status: 'shipped',
+          requestedBy: req.user?._id,
+          requestedAt: new Date(),
+          statusHistory: [{
+            status: 'shipped',
+            timestamp: new Date(),
+            notes: `Dispatched from ${source.name} to ${destination.name}`,
+            changedBy: req.user?._id
+          }]
+        });
+        await transfer.save({ session });
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    const populatedTransfer = await FranchiseTransfer.findById(transfer!._id)
+      .populate('franchise', 'name franchiseId')
+      .populate('sourceFranchise', 'name franchiseId')
+      .populate('items.bharatmartProduct', 'name sku');
 
     res.status(201).json({
       success: true,
-      message: 'Transfer request created successfully. Waiting for admin approval.',
+      message: 'Stock dispatched. The receiving franchise can now mark the transfer as received.',
       data: populatedTransfer
     });
   } catch (error) {
-    console.error('Create transfer request error:', error);
+    console.error('Create franchise-to-franchise transfer error:', error);
     res.status(500).json({
       success: false,
       error: 'Server error',
@@ -475,9 +1057,10 @@ router.post('/request', [
 
 // Approve transfer request (Admin only)
 router.patch('/:id/approve', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('franchise:write'),
-  body('notes').optional().trim().isLength({ max: 500 })
+  body('notes').optional().trim().isLength({ max: 500 }),
+  body('sourceWarehouse').optional().isMongoId().withMessage('Valid warehouse ID is required')
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
     const errors = validationResult(req);
@@ -514,22 +1097,28 @@ router.patch('/:id/approve', [
         });
       }
 
-      if (product.stock < item.quantity) {
+      const available = product.getAvailableStock(item.variant);
+      if (available < item.quantity) {
         return res.status(400).json({
           success: false,
-          error: `Insufficient stock for ${product.name}. Available: ${product.stock}, Requested: ${item.quantity}`
+          error: `Insufficient stock for ${product.name}. Available: ${available}, Requested: ${item.quantity}`
         });
       }
     }
 
+    // Hold stock at the requested warehouse, or the nearest one that has it all
+    await reserveTransferStock(transfer, { warehouseId: req.body.sourceWarehouse });
+
     // Approve the transfer
-    await transfer.approve(req.user?._id!, req.body.notes);
+    await transfer.approve(getStaffActor(req), req.body.notes);
 
     const updatedTransfer = await FranchiseTransfer.findById(transfer._id)
       .populate('franchise', 'name industry')
       .populate('bharatmartManager', 'firstName lastName email')
       .populate('requestedBy', 'firstName lastName email')
       .populate('approvedBy', 'firstName lastName email')
+      .populate('approvedByEmployee', 'firstName lastName email')
+      .populate('sourceWarehouse', 'name code')
       .populate('items.bharatmartProduct', 'name sku stock')
       .populate('items.franchiseProduct', 'name sku stock');
 
@@ -539,6 +1128,9 @@ router.patch('/:id/approve', [
       data: updatedTransfer
     });
   } catch (error) {
+    if (sendStockError(res, error)) {
+      return;
+    }
     console.error('Approve transfer error:', error);
     res.status(500).json({
       success: false,
@@ -550,7 +1142,7 @@ router.patch('/:id/approve', [
 
 // Reject transfer request (Admin only)
 router.patch('/:id/reject', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('franchise:write'),
   body('reason').trim().isLength({ min: 1, max: 500 }).withMessage('Rejection reason is required')
 ], async (req: AuthRequest, res: AuthResponse) => {
@@ -580,12 +1172,13 @@ router.patch('/:id/reject', [
     }
 
     // Reject the transfer
-    await transfer.reject(req.user?._id!, req.body.reason);
+    await transfer.reject(getStaffActor(req), req.body.reason);
 
     const updatedTransfer = await FranchiseTransfer.findById(transfer._id)
       .populate('franchise', 'name industry')
       .populate('requestedBy', 'firstName lastName email')
       .populate('rejectedBy', 'firstName lastName email')
+      .populate('rejectedByEmployee', 'firstName lastName email')
       .populate('items.bharatmartProduct', 'name sku stock')
       .populate('items.franchiseProduct', 'name sku stock');
 
@@ -606,7 +1199,7 @@ router.patch('/:id/reject', [
 
 // Update transfer status
 router.patch('/:id/status', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('franchise:write'),
   body('status').isIn(['requested', 'rejected', 'pending', 'processing', 'shipped', 'delivered', 'cancelled']).withMessage('Invalid status'),
   body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes must be less than 500 characters'),
@@ -640,6 +1233,7 @@ router.patch('/:id/status', [
       pending: ['processing', 'shipped', 'cancelled'],
       processing: ['shipped', 'cancelled'],
       shipped: ['delivered'],
+      partially_received: [], // Resolved through discrepancy review or a further receipt
       delivered: [], // Final state
       cancelled: [] // Final state
     };
@@ -651,50 +1245,27 @@ router.patch('/:id/status', [
       });
     }
 
-    // If marking as delivered, update stock for both main and franchise products
-    if (newStatus === 'delivered' && oldStatus !== 'delivered') {
-      for (const item of transfer.items) {
-        // Update main product stock (decrease)
-        await Product.findByIdAndUpdate(item.bharatmartProduct, {
-          $inc: { stock: -item.quantity }
-        });
-
-        // Update franchise product stock (increase)
-        await FranchiseProduct.findByIdAndUpdate(item.franchiseProduct, {
-          $inc: { stock: item.quantity }
-        });
-      }
-      
-      // Record inventory transactions for franchise products
-      const FranchiseInventory = (await import('../../models/Franchise/FranchiseInventory')).default;
-      
-      for (const item of transfer.items) {
-        try {
-          await FranchiseInventory.recordTransaction(
-            transfer.franchise as Types.ObjectId,
-            item.franchiseProduct as Types.ObjectId,
-            'reorder',
-            item.quantity,
-            {
-              referenceNumber: transfer.transferNumber,
-              notes: `Stock received via transfer ${transfer.transferNumber}`,
-              performedBy: req.user?._id,
-              costPerUnit: item.unitPrice
-            }
-          );
-        } catch (error) {
-          console.error(`Failed to record inventory transaction for product ${item.franchiseProduct}:`, error);
-        }
-      }
+    // Moving a request straight to pending approves it, so it holds warehouse stock too
+    if (oldStatus === 'requested' && newStatus === 'pending') {
+      await reserveTransferStock(transfer);
     }
 
-    // Handle cancellation - restore inventory if needed
-    if (newStatus === 'cancelled' && oldStatus !== 'cancelled') {
-      // We might want to restore stock if the transfer was already delivered
-      // For now, we'll leave this as a future enhancement
+    // Cancelling before shipment gives the held warehouse stock back
+    if (newStatus === 'cancelled') {
+      await releaseTransferStock(transfer);
     }
 
-    await transfer.updateStatus(newStatus, notes);
+    // Marking as delivered books a full receipt: central stock out, franchise stock in through the ledger
+    if (newStatus === 'delivered') {
+      await dispatchTransferStock(transfer, getStaffActor(req));
+
+      if (notes) {
+        await transfer.addNote(notes);
+      }
+      await settleTransferReceipt(transfer, countReceipt(transfer).counts, getStaffActor(req));
+    } else {
+      await transfer.updateStatus(newStatus, notes, getStaffActor(req));
+    }
 
     const updatedTransfer = await FranchiseTransfer.findById(transfer._id)
       .populate('franchise', 'name industry')
@@ -702,13 +1273,17 @@ router.patch('/:id/status', [
       .populate('requestedBy', 'firstName lastName email')
       .populate('items.bharatmartProduct', 'name sku stock')
       .populate('items.franchiseProduct', 'name sku stock')
-      .populate('deliveredBy', 'firstName lastName email');
+      .populate('deliveredBy', 'firstName lastName email')
+      .populate('deliveredByEmployee', 'firstName lastName email');
 
     res.json({
       success: true,
       data: updatedTransfer
     });
   } catch (error) {
+    if (sendStockError(res, error)) {
+      return;
+    }
     console.error('Update transfer status error:', error);
     res.status(500).json({
       success: false,
@@ -720,9 +1295,15 @@ router.patch('/:id/status', [
 
 // Mark transfer as delivered (special endpoint)
 router.patch('/:id/delivered', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('franchise:write'),
   body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes must be less than 500 characters'),
+  body('items').optional().isArray().withMessage('Items must be an array'),
+  body('items.*.itemId').optional().isMongoId().withMessage('Valid transfer item ID is required'),
+  body('items.*.batchNumber').optional().trim().isLength({ max: 50 }),
+  body('items.*.expiryDate').optional().isISO8601().withMessage('Expiry date must be a valid date'),
+  body('items.*.receivedQuantity').optional().isInt({ min: 0 }).withMessage('Received quantity must be 0 or more'),
+  body('items.*.damagedQuantity').optional().isInt({ min: 0 }).withMessage('Damaged quantity must be 0 or more')
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
     const errors = validationResult(req);
@@ -756,76 +1337,54 @@ router.patch('/:id/delivered', [
       });
     }
 
-    // Update main product stock (decrease)
-    for (const item of transfer.items) {
-      const product = await Product.findById(item.bharatmartProduct);
-      if (!product) {
-        return res.status(404).json({
-          success: false,
-          error: `Main product ${item.bharatmartProduct} not found`
-        });
-      }
-
-      if (product.stock < item.quantity) {
-        return res.status(400).json({
-          success: false,
-          error: `Insufficient stock for ${product.name}. Available: ${product.stock}, Requested: ${item.quantity}`
-        });
-      }
-
-      // Update main product stock (decrease)
-      await Product.findByIdAndUpdate(item.bharatmartProduct, {
-        $inc: { stock: -item.quantity }
+    if (transfer.status === 'partially_received') {
+      return res.status(400).json({
+        success: false,
+        error: 'Transfer is partially received. Review its discrepancy instead'
       });
+    }
 
-      // Update franchise product stock (increase)
-      await FranchiseProduct.findByIdAndUpdate(item.franchiseProduct, {
-        $inc: { stock: item.quantity }
+    const { counts, error: receiptError } = countReceipt(transfer, req.body.items);
+    if (receiptError) {
+      return res.status(400).json({
+        success: false,
+        error: receiptError
       });
     }
 
+    // Update main product stock (decrease); all lines or none
+    await dispatchTransferStock(transfer, getStaffActor(req));
+
     // Add any additional notes
     if (req.body.notes) {
       await transfer.addNote(req.body.notes);
     }
 
-    // Mark as delivered
-    await transfer.markAsDelivered(req.user?._id);
+    applyReceiptLotDetails(transfer, req.body.items);
 
-    // Record inventory transactions for franchise products
-    const FranchiseInventory = (await import('../../models/Franchise/FranchiseInventory')).default;
-    
-    for (const item of transfer.items) {
-      try {
-        await FranchiseInventory.recordTransaction(
-          transfer.franchise as Types.ObjectId,
-          item.franchiseProduct as Types.ObjectId,
-          'reorder',
-          item.quantity,
-          {
-            referenceNumber: transfer.transferNumber,
-            notes: `Stock received via transfer ${transfer.transferNumber}`,
-            performedBy: req.user?._id,
-            costPerUnit: item.unitPrice
-          }
-        );
-      } catch (error) {
-        console.error(`Failed to record inventory transaction for product ${item.franchiseProduct}:`, error);
-      }
-    }
+    // Credit franchise stock through the inventory ledger; shortfalls raise a discrepancy
+    const discrepancy = await settleTransferReceipt(transfer, counts, getStaffActor(req), req.body.notes);
 
     const updatedTransfer = await FranchiseTransfer.findById(transfer._id)
       .populate('franchise', 'name industry')
       .populate('bharatmartManager', 'firstName lastName email')
       .populate('items.bharatmartProduct', 'name sku')
       .populate('items.franchiseProduct', 'name sku')
-      .populate('deliveredBy', 'firstName lastName email');
+      .populate('deliveredBy', 'firstName lastName email')
+      .populate('deliveredByEmployee', 'firstName lastName email');
 
     res.json({
       success: true,
-      data: updatedTransfer
+      message: discrepancy
+        ? 'Transfer partially received. A discrepancy has been raised for review.'
+        : 'Transfer marked as delivered',
+      data: updatedTransfer,
+      discrepancy
     });
   } catch (error) {
+    if (sendStockError(res, error)) {
+      return;
+    }
     console.error('Mark transfer as delivered error:', error);
     res.status(500).json({
       success: false,
@@ -837,7 +1396,7 @@ router.patch('/:id/delivered', [
 
 // Add note to transfer
 router.patch('/:id/note', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('franchise:write'),
   body('note').trim().isLength({ min: 1, max: 500 }).withMessage('Note must be between 1 and 500 characters')
 ], async (req: AuthRequest, res: AuthResponse) => {
@@ -876,6 +1435,142 @@ router.patch('/:id/note', [
   }
 });
 
+// Approve a receipt discrepancy (Admin only): damaged and missing units are credited and the transfer is closed
+router.patch('/discrepancies/:discrepancyId/approve', [
+  authenticateStaff,
+  requirePermission('franchise:write'),
+  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes must be less than 500 characters')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const discrepancy = await TransferDiscrepancy.findById(req.params.discrepancyId);
+    if (!discrepancy) {
+      return res.status(404).json({
+        success: false,
+        error: 'Discrepancy not found'
+      });
+    }
+
+    const transfer = await FranchiseTransfer.findById(discrepancy.transfer);
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transfer not found'
+      });
+    }
+
+    try {
+      await discrepancy.approve(getStaffActor(req), req.body.notes);
+    } catch (approveError) {
+      return res.status(400).json({
+        success: false,
+        error: (approveError as Error).message
+      });
+    }
+
+    for (const line of discrepancy.items) {
+      const item = transfer.items.find(transferItem => transferItem._id?.equals(line.transferItem));
+      if (item) {
+        item.creditedQuantity = (item.creditedQuantity || 0) + line.damagedQuantity + line.missingQuantity;
+      }
+    }
+
+    const note = `Discrepancy approved: ₹${discrepancy.totalValue.toFixed(2)} credited${req.body.notes ? ` (${req.body.notes})` : ''}`;
+    if (transfer.items.every(item => getOutstandingQuantity(item) === 0)) {
+      await transfer.markAsDelivered(getStaffActor(req), note);
+    } else {
+      await transfer.addNote(note);
+    }
+
+    res.json({
+      success: true,
+      message: 'Discrepancy approved',
+      data: discrepancy
+    });
+  } catch (error) {
+    console.error('Approve transfer discrepancy error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Reject a receipt discrepancy (Admin only): missing units stay outstanding for a further receipt
+router.patch('/discrepancies/:discrepancyId/reject', [
+  authenticateStaff,
+  requirePermission('franchise:write'),
+  body('reason').trim().isLength({ min: 1, max: 500 }).withMessage('Rejection reason is required (max 500 characters)')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const discrepancy = await TransferDiscrepancy.findById(req.params.discrepancyId);
+    if (!discrepancy) {
+      return res.status(404).json({
+        success: false,
+        error: 'Discrepancy not found'
+      });
+    }
+
+    const transfer = await FranchiseTransfer.findById(discrepancy.transfer);
+    if (!transfer) {
+      return res.status(404).json({
+        success: false,
+        error: 'Transfer not found'
+      });
+    }
+
+    try {
+      await discrepancy.reject(getStaffActor(req), req.body.reason);
+    } catch (rejectError) {
+      return res.status(400).json({
+        success: false,
+        error: (rejectError as Error).message
+      });
+    }
+
+    // Damaged units were already written off; missing units go back to outstanding
+    for (const line of discrepancy.items) {
+      const item = transfer.items.find(transferItem => transferItem._id?.equals(line.transferItem));
+      if (item) {
+        item.missingQuantity = Math.max(0, (item.missingQuantity || 0) - line.missingQuantity);
+      }
+    }
+
+    await transfer.updateStatus('partially_received', `Discrepancy rejected: ${req.body.reason}`, getStaffActor(req));
+
+    res.json({
+      success: true,
+      message: 'Discrepancy rejected',
+      data: discrepancy
+    });
+  } catch (error) {
+    console.error('Reject transfer discrepancy error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
 // ============================================
 // FRANCHISE-ACCESSIBLE ENDPOINTS
 // ============================================
@@ -883,7 +1578,13 @@ router.patch('/:id/note', [
 // Franchise marks transfer as received
 router.patch('/:id/receive', [
   authenticateAdminOrFranchise,
-  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes must be less than 500 characters')
+  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes must be less than 500 characters'),
+  body('items').optional().isArray().withMessage('Items must be an array'),
+  body('items.*.itemId').optional().isMongoId().withMessage('Valid transfer item ID is required'),
+  body('items.*.batchNumber').optional().trim().isLength({ max: 50 }),
+  body('items.*.expiryDate').optional().isISO8601().withMessage('Expiry date must be a valid date'),
+  body('items.*.receivedQuantity').optional().isInt({ min: 0 }).withMessage('Received quantity must be 0 or more'),
+  body('items.*.damagedQuantity').optional().isInt({ min: 0 }).withMessage('Damaged quantity must be 0 or more')
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
     const errors = validationResult(req);
@@ -926,84 +1627,62 @@ router.patch('/:id/receive', [
       });
     }
 
-    if (transfer.status !== 'shipped') {
+    if (transfer.status !== 'shipped' && transfer.status !== 'partially_received') {
       return res.status(400).json({
         success: false,
         error: 'Transfer must be in shipped status before receiving'
       });
     }
 
-    // Update stock for both main and franchise products
-    for (const item of transfer.items) {
-      // Verify main product has stock
-      const product = await Product.findById(item.bharatmartProduct);
-      if (!product) {
-        return res.status(404).json({
-          success: false,
-          error: `Main product ${item.bharatmartProduct} not found`
-        });
-      }
-
-      if (product.stock < item.quantity) {
-        return res.status(400).json({
-          success: false,
-          error: `Insufficient stock for ${product.name}. Available: ${product.stock}, Requested: ${item.quantity}`
-        });
-      }
-
-      // Update main product stock (decrease)
-      await Product.findByIdAndUpdate(item.bharatmartProduct, {
-        $inc: { stock: -item.quantity }
+    if (await TransferDiscrepancy.findPendingByTransfer(transfer._id)) {
+      return res.status(400).json({
+        success: false,
+        error: 'A discrepancy on this transfer is awaiting admin review'
       });
+    }
 
-      // Update franchise product stock (increase)
-      await FranchiseProduct.findByIdAndUpdate(item.franchiseProduct, {
-        $inc: { stock: item.quantity }
+    const { counts, error: receiptError } = countReceipt(transfer, req.body.items);
+    if (receiptError) {
+      return res.status(400).json({
+        success: false,
+        error: receiptError
       });
     }
 
+    // Central stock leaves the warehouse once, on the first receipt of the shipment
+    if (transfer.status === 'shipped') {
+      await dispatchTransferStock(transfer, getStaffActor(req));
+    }
+
     // Add note if provided
     if (req.body.notes) {
       await transfer.addNote(`Received by franchise: ${req.body.notes}`);
     }
 
-    // Mark as delivered
-    await transfer.markAsDelivered(req.user?._id);
+    applyReceiptLotDetails(transfer, req.body.items);
 
-    // Record inventory transactions for franchise products
-    const FranchiseInventory = (await import('../../models/Franchise/FranchiseInventory')).default;
-    
-    for (const item of transfer.items) {
-      try {
-        await FranchiseInventory.recordTransaction(
-          franchiseId as Types.ObjectId,
-          item.franchiseProduct as Types.ObjectId,
-          'reorder',
-          item.quantity,
-          {
-            referenceNumber: transfer.transferNumber,
-            notes: `Stock received via transfer ${transfer.transferNumber}`,
-            performedBy: req.user?._id,
-            costPerUnit: item.unitPrice
-          }
-        );
-      } catch (error) {
-        console.error(`Failed to record inventory transaction for product ${item.franchiseProduct}:`, error);
-      }
-    }
+    // Credit franchise stock through the inventory ledger; shortfalls raise a discrepancy
+    const discrepancy = await settleTransferReceipt(transfer, counts, getStaffActor(req), req.body.notes);
 
     const updatedTransfer = await FranchiseTransfer.findById(transfer._id)
       .populate('bharatmartManager', 'firstName lastName email')
       .populate('items.bharatmartProduct', 'name sku stock')
       .populate('items.franchiseProduct', 'name sku stock')
-      .populate('deliveredBy', 'firstName lastName email');
+      .populate('deliveredBy', 'firstName lastName email')
+      .populate('deliveredByEmployee', 'firstName lastName email');
 
     res.json({
       success: true,
-      message: 'Transfer marked as received successfully. Stock has been updated.',
-      data: updatedTransfer
+      message: discrepancy
+        ? 'Transfer partially received. Stock has been updated and a discrepancy raised for admin review.'
+        : 'Transfer marked as received successfully. Stock has been updated.',
+      data: updatedTransfer,
+      discrepancy
     });
   } catch (error) {
+    if (sendStockError(res, error)) {
+      return;
+    }
     console.error('Franchise receive transfer error:', error);
     res.status(500).json({
       success: false,
@@ -0,0 +1,448 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import PriceList, { IPriceListDocument } from '../../models/Franchise/PriceList';
+import PriceChange from '../../models/Franchise/PriceChange';
+import Franchise from '../../models/Franchise/Franchise';
+import Product from '../../models/Product/Product';
+import { requirePermission } from '../../middleware/auth';
+import { authenticateStaff } from '../../middleware/employeeAuth';
+import { authenticateFranchise } from '../../middleware/franchiseAuth';
+import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
+import { FranchisePriceError } from '../../utils/franchisePricing';
+import { applyDuePriceChanges, applyPriceChange } from '../../jobs/priceChanges';
+
+const router = express.Router();
+
+const sendPriceListError = (res: AuthResponse, error: unknown, label: string) => {
+  if (error instanceof FranchisePriceError) {
+    return res.status(error.statusCode).json({
+      success: false,
+      error: error.message
+    });
+  }
+  if ((error as any).code === 11000) {
+    return res.status(409).json({
+      success: false,
+      error: 'A price list with this code already exists'
+    });
+  }
+  console.error(`${label} error:`, error);
+  res.status(500).json({
+    success: false,
+    error: 'Server error',
+    details: (error as Error).message
+  });
+};
+
+const loadPriceList = async (id: string): Promise<IPriceListDocument> => {
+  const priceList = await PriceList.findById(id);
+  if (!priceList) {
+    throw new FranchisePriceError('Price list not found', 404);
+  }
+  return priceList;
+};
+
+const priceListValidators = [
+  body('description').optional().trim().isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
+  body('assignment.franchises').optional().isArray().withMessage('Franchises must be an array'),
+  body('assignment.franchises.*').isMongoId().withMessage('Invalid franchise ID'),
+  body('assignment.cities').optional().isArray().withMessage('Cities must be an array'),
+  body('assignment.cities.*').isString().trim().notEmpty().withMessage('City names cannot be empty'),
+  body('assignment.franchiseTypes').optional().isArray().withMessage('Franchise types must be an array'),
+  body('assignment.franchiseTypes.*').isIn(['foco', 'fofo']).withMessage('Franchise type must be foco or fofo'),
+  body('priority').optional().isInt().withMessage('Priority must be an integer'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean')
+];
+
+// Check that every franchise a list is assigned to exists
+const checkAssignedFranchises = async (franchiseIds?: string[]): Promise<void> => {
+  if (!franchiseIds?.length) {
+    return;
+  }
+  const found = await Franchise.countDocuments({ _id: { $in: franchiseIds } });
+  if (found !== new Set(franchiseIds).size) {
+    throw new FranchisePriceError('Some assigned franchises were not found');
+  }
+};
+
+// List price lists
+router.get('/', [
+  authenticateStaff,
+  requirePermission('franchise:read'),
+  query('includeInactive').optional().isBoolean()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const filter: any = {};
+    if (req.query.includeInactive !== 'true') {
+      filter.isActive = true;
+    }
+
+    const priceLists = await PriceList.find(filter)
+      .populate('assignment.franchises', 'name franchiseId city')
+      .sort({ priority: -1, name: 1 });
+
+    res.json({
+      success: true,
+      data: priceLists
+    });
+  } catch (error) {
+    sendPriceListError(res, error, 'Get price lists');
+  }
+});
+
+// Create a price list
+router.post('/', [
+  authenticateStaff,
+  requirePermission('franchise:write'),
+  body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Price list name must be 2-100 characters'),
+  body('code').trim().isLength({ min: 2, max: 20 }).withMessage('Price list code must be 2-20 characters'),
+  ...priceListValidators
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    await checkAssignedFranchises(req.body.assignment?.franchises);
+
+    const priceList = new PriceList({
+      name: req.body.name,
+      code: req.body.code,
+      description: req.body.description,
+      assignment: req.body.assignment,
+      priority: req.body.priority,
+      isActive: req.body.isActive,
+      createdBy: req.user?._id
+    });
+    await priceList.save();
+
+    res.status(201).json({
+      success: true,
+      data: priceList
+    });
+  } catch (error) {
+    sendPriceListError(res, error, 'Create price list');
+  }
+});
+
+// Get the price list a franchise follows, with the prices it sets
+router.get('/mine', authenticateFranchise, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const franchise = await Franchise.findById(req.franchiseId).select('city franchiseType');
+    const priceList = franchise ? await PriceList.findForFranchise(franchise) : null;
+
+    if (!priceList) {
+      return res.json({
+        success: true,
+        data: null,
+        message: 'No price list applies to this franchise; prices are set by the franchise within its bounds'
+      });
+    }
+
+    const [prices, upcoming] = await Promise.all([
+      PriceChange.getCurrentPrices(priceList._id),
+      PriceChange.find({ priceList: priceList._id, status: 'scheduled' })
+        .populate('product', 'name sku')
+        .select('-skipped')
+        .sort({ effectiveFrom: 1 })
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        priceList: {
+          _id: priceList._id,
+          name: priceList.name,
+          code: priceList.code,
+          description: priceList.description
+        },
+        prices,
+        upcoming
+      }
+    });
+  } catch (error) {
+    sendPriceListError(res, error, 'Get franchise price list');
+  }
+});
+
+// Apply every scheduled price change that is due, without waiting for the job
+router.post('/apply-due', [
+  authenticateStaff,
+  requirePermission('franchise:write')
+], async (_req: AuthRequest, res: AuthResponse) => {
+  try {
+    const result = await applyDuePriceChanges();
+
+    res.json({
+      success: true,
+      message: `${result.changesApplied} price changes applied`,
+      data: result
+    });
+  } catch (error) {
+    sendPriceListError(res, error, 'Apply due price changes');
+  }
+});
+
+// Get a price list with the prices it currently sets
+router.get('/:id', [
+  authenticateStaff,
+  requirePermission('franchise:read'),
+  param('id').isMongoId().withMessage('Invalid price list ID')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const priceList = await loadPriceList(req.params.id);
+    await priceList.populate('assignment.franchises', 'name franchiseId city franchiseType');
+    const prices = await PriceChange.getCurrentPrices(priceList._id);
+
+    res.json({
+      success: true,
+      data: {
+        ...priceList.toObject(),
+        prices
+      }
+    });
+  } catch (error) {
+    sendPriceListError(res, error, 'Get price list');
+  }
+});
+
+// Update a price list's details or assignment
+router.put('/:id', [
+  authenticateStaff,
+  requirePermission('franchise:write'),
+  param('id').isMongoId().withMessage('Invalid price list ID'),
+  body('name').optional().trim().isLength({ min: 2, max: 100 }).withMessage('Price list name must be 2-100 characters'),
+  body('code').optional().trim().isLength({ min: 2, max: 20 }).withMessage('Price list code must be 2-20 characters'),
+  ...priceListValidators
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const priceList = await loadPriceList(req.params.id);
+    await checkAssignedFranchises(req.body.assignment?.franchises);
+
+    const allowedUpdates = ['name', 'code', 'description', 'priority', 'isActive'];
+    allowedUpdates.forEach(field => {
+      if (req.body[field] !== undefined) {
+        priceList.set(field, req.body[field]);
+      }
+    });
+    if (req.body.assignment) {
+      for (const key of ['franchises', 'cities', 'franchiseTypes'] as const) {
+        if (req.body.assignment[key] !== undefined) {
+          priceList.set(`assignment.${key}`, req.body.assignment[key]);
+        }
+      }
+    }
+    await priceList.save();
+
+    res.json({
+      success: true,
+      data: priceList
+    });
+  } catch (error) {
+    sendPriceListError(res, error, 'Update price list');
+  }
+});
+
+// Schedule a price change; without effectiveFrom (or with a past date) it applies straight away
+router.post('/:id/prices', [
+  authenticateStaff,
+  requirePermission('franchise:write'),
+  param('id').isMongoId().withMessage('Invalid price list ID'),
+  body('product').isMongoId().withMessage('Valid product ID is required'),
+  body('variant').optional({ nullable: true }).isMongoId().withMessage('Invalid variant ID'),
+  body('price').isFloat({ min: 0 }).withMessage('Price must be a non-negative number'),
+  body('effectiveFrom').optional().isISO8601().withMessage('effectiveFrom must be a valid date'),
+  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes cannot exceed 500 characters')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const priceList = await loadPriceList(req.params.id);
+    const product = await Product.findById(req.body.product);
+    if (!product) {
+      throw new FranchisePriceError('Product not found', 404);
+    }
+
+    if (product.variants.length > 0) {
+      if (!product.getVariant(req.body.variant)) {
+        throw new FranchisePriceError(req.body.variant
+          ? 'Variant not found on the product'
+          : 'This product is sold in variants; a variant is required');
+      }
+    } else if (req.body.variant) {
+      throw new FranchisePriceError('This product has no variants');
+    }
+
+    // HQ prices must leave franchises a margin over the transfer price and stay within MRP
+    const price = Number(req.body.price);
+    const transferPrice = product.getTransferPrice(req.body.variant);
+    const mrp = product.getMrp(req.body.variant);
+    if (price < transferPrice) {
+      throw new FranchisePriceError(`Price ${price} is below the transfer price of ${transferPrice}`);
+    }
+    if (mrp !== undefined && price > mrp) {
+      throw new FranchisePriceError(`Price ${price} is above the MRP of ${mrp}`);
+    }
+
+    const current = await PriceChange.getCurrentPrice(priceList._id, product._id, req.body.variant);
+    const effectiveFrom = req.body.effectiveFrom ? new Date(req.body.effectiveFrom) : new Date();
+
+    const change = await PriceChange.create({
+      priceList: priceList._id,
+      product: product._id,
+      variant: req.body.variant || null,
+      price,
+      previousPrice: current?.price,
+      effectiveFrom,
+      notes: req.body.notes,
+      createdBy: req.user?._id
+    });
+
+    if (effectiveFrom <= new Date()) {
+      await applyPriceChange(change);
+    }
+
+    res.status(201).json({
+      success: true,
+      data: change,
+      message: change.status === 'applied'
+        ? `Price applied to ${change.franchisesUpdated} franchise products`
+        : `Price change scheduled for ${effectiveFrom.toISOString()}`
+    });
+  } catch (error) {
+    sendPriceListError(res, error, 'Schedule price change');
+  }
+});
+
+// Price change history for a list, newest first
+router.get('/:id/prices/history', [
+  authenticateStaff,
+  requirePermission('franchise:read'),
+  param('id').isMongoId().withMessage('Invalid price list ID'),
+  query('product').optional().isMongoId().withMessage('Invalid product ID'),
+  query('status').optional().isIn(['scheduled', 'applied', 'cancelled']).withMessage('Invalid status'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const priceList = await loadPriceList(req.params.id);
+    const page = parseInt(req.query.page as string) || 1;
+    const limit = parseInt(req.query.limit as string) || 20;
+
+    const filter: any = { priceList: priceList._id };
+    if (req.query.product) {
+      filter.product = new Types.ObjectId(req.query.product as string);
+    }
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+
+    const [changes, total] = await Promise.all([
+      PriceChange.find(filter)
+        .populate('product', 'name sku')
+        .populate('createdBy', 'name email')
+        .sort({ effectiveFrom: -1, createdAt: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit),
+      PriceChange.countDocuments(filter)
+    ]);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: changes,
+      pagination: {
+        total,
+        currentPage: page,
+        totalPages: Math.ceil(total / limit),
+        limit,
+        hasNext: page < Math.ceil(total / limit),
+        hasPrev: page > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    sendPriceListError(res, error, 'Get price history');
+  }
+});
+
+// Cancel a price change that has not taken effect yet
+router.post('/:id/prices/:changeId/cancel', [
+  authenticateStaff,
+  requirePermission('franchise:write'),
+  param('id').isMongoId().withMessage('Invalid price list ID'),
+  param('changeId').isMongoId().withMessage('Invalid price change ID')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const change = await PriceChange.findOne({ _id: req.params.changeId, priceList: req.params.id });
+    if (!change) {
+      throw new FranchisePriceError('Price change not found', 404);
+    }
+    if (change.status !== 'scheduled') {
+      throw new FranchisePriceError(`Cannot cancel a price change that is ${change.status}`);
+    }
+
+    change.status = 'cancelled';
+    change.cancelledBy = req.user?._id;
+    change.cancelledAt = new Date();
+    await change.save();
+
+    res.json({
+      success: true,
+      data: change
+    });
+  } catch (error) {
+    sendPriceListError(res, error, 'Cancel price change');
+  }
+});
+
+export default router;
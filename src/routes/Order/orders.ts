@@ -1,10 +1,38 @@
 const express = require('express');
 const router = express.Router();
 import { body, validationResult } from 'express-validator';
-import Order, { IOrder } from '../../models/Order/Order';
-import Product from '../../models/Product/Product';
+import mongoose, { ClientSession, Types } from 'mongoose';
+import Order, {
+  IOrder,
+  IOrderDocument,
+  IOrderItem,
+  IOrderRefund,
+  IOrderRefundLine,
+  OrderActor,
+  OrderStatus,
+  OrderStatusTransitionError,
+  ORDER_STATUSES,
+  getAllowedTransitions
+} from '../../models/Order/Order';
+import Product, { IProductDocument } from '../../models/Product/Product';
+import FranchiseProduct from '../../models/Franchise/FranchiseProduct';
+import Cart, { ICartDocument } from '../../models/Cart';
 import Shop from '../../models/Shop/Shop';
-import { authenticateToken, requirePermission } from '../../middleware/auth';
+import User from '../../models/User/User';
+import { authenticateToken, requirePermission, requirePermissionUnless } from '../../middleware/auth';
+import { authenticateStaff, getStaffActor, performedByFields } from '../../middleware/employeeAuth';
+import { reserveStock, releaseStock, IStockLine, StockReservationError } from '../../utils/stockReservation';
+import { runOrderStatusHooks } from '../../utils/orderStatusHooks';
+import { DEFAULT_GST_RATE } from '../../utils/gst';
+import { getOrCreateOrderInvoice, InvoiceError } from '../../utils/invoices';
+import {
+  evaluatePromotions,
+  getLineDiscounts,
+  redeemPromotions,
+  IAppliedPromotion,
+  PromotionError
+} from '../../utils/promotions';
+import { renderInvoiceHtml, getInvoiceFileName } from '../../utils/invoiceRenderer';
 import { AuthRequest, AuthResponse, PaginatedResponse, ApiResponse } from '../../types/routes';
 
 interface OrderQuery {
@@ -31,13 +59,262 @@ interface OrderStats {
   cancelledOrders: number;
 }
 
-type OrderStatus = 'pending' | 'confirmed' | 'processing' | 'shipped' | 'delivered' | 'cancelled';
 type UserRole = 'superadmin' | 'admin' | 'user' | 'staff' | 'shop_owner' | 'customer';
 
-interface ValidTransitions {
-  [key: string]: OrderStatus[];
+interface PlaceOrderOptions {
+  customer: Types.ObjectId; // Account the order is placed for
+  shop?: Types.ObjectId;
+  shippingAddress: IOrder['shipping']['address'];
+  shippingMethod: string;
+  paymentMethod: string;
+  notes?: string;
+  isGift?: boolean;
+  giftMessage?: string;
+  promotions?: IAppliedPromotion[]; // Keyed by the index of the line in the order's items
 }
 
+const FREE_SHIPPING_THRESHOLD = 1000;
+const STANDARD_SHIPPING_COST = 100;
+
+// Validation middleware shared by order creation and checkout
+const validateOrderShipping = [
+  body('shippingAddress.street').trim().notEmpty().withMessage('Shipping street is required'),
+  body('shippingAddress.city').trim().notEmpty().withMessage('Shipping city is required'),
+  body('shippingAddress.state').trim().notEmpty().withMessage('Shipping state is required'),
+  body('shippingAddress.zipCode').trim().notEmpty().withMessage('Shipping zip code is required'),
+  body('shippingAddress.country').optional().trim(),
+  body('shippingMethod').optional().isIn(['standard', 'express', 'same_day']).withMessage('Invalid shipping method'),
+  body('paymentMethod').isIn(['card', 'upi', 'netbanking', 'cod']).withMessage('Invalid payment method'),
+  body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes must be less than 500 characters')
+];
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Work out the promotions for an order's lines. A coupon the customer asked
+ * for that does not apply fails the order rather than being silently dropped.
+ */
+const priceOrderPromotions = async (
+  customer: Types.ObjectId,
+  items: IOrderItem[],
+  couponCode?: string
+): Promise<IAppliedPromotion[]> => {
+  const result = await evaluatePromotions(
+    items.map((item, index) => ({
+      key: String(index),
+      product: item.product,
+      franchise: item.franchise,
+      quantity: item.quantity,
+      price: item.price,
+      total: item.total
+    })),
+    { user: customer, couponCode }
+  );
+
+  if (couponCode && result.couponError) {
+    throw new PromotionError(`Coupon ${couponCode.toUpperCase()} cannot be applied: ${result.couponError}`);
+  }
+  return result.applied;
+};
+
+/**
+ * Reserve stock for every line, redeem its promotions and persist the order
+ * in one transaction. When a cart is passed it is emptied in the same
+ * transaction, so a failed reservation leaves both stock and cart untouched.
+ * The user or employee behind the request is recorded as having placed it.
+ */
+const placeOrder = async (
+  req: AuthRequest,
+  items: IOrderItem[],
+  stockLines: IStockLine[],
+  options: PlaceOrderOptions,
+  cart?: ICartDocument
+): Promise<IOrderDocument> => {
+  const promotions = options.promotions || [];
+  const lineDiscounts = getLineDiscounts(promotions);
+
+  // Tax is charged per line at the product's GST rate on the discounted value; the CGST/SGST/IGST split is made on the invoice
+  items.forEach((item, index) => {
+    item.discount = lineDiscounts.get(String(index)) || 0;
+    item.gstRate = item.gstRate ?? DEFAULT_GST_RATE;
+    item.taxAmount = roundCurrency((item.total - item.discount) * item.gstRate / 100);
+  });
+
+  const subTotal = roundCurrency(items.reduce((sum, item) => sum + item.total, 0));
+  const discount = roundCurrency(items.reduce((sum, item) => sum + (item.discount || 0), 0));
+  const tax = roundCurrency(items.reduce((sum, item) => sum + (item.taxAmount || 0), 0));
+  const shippingCost = subTotal - discount > FREE_SHIPPING_THRESHOLD ? 0 : STANDARD_SHIPPING_COST;
+  const total = roundCurrency(subTotal - discount + tax + shippingCost);
+
+  const actor = getStaffActor(req);
+  const session = await mongoose.startSession();
+  let order: IOrderDocument | undefined;
+
+  try {
+    await session.withTransaction(async () => {
+      const orderNumber = await Order.generateOrderNumber();
+      await reserveStock(stockLines, session, { referenceNumber: orderNumber, ...performedByFields(actor) });
+
+      order = new Order({
+        orderNumber,
+        user: options.customer,
+        customer: options.customer,
+        shop: options.shop,
+        items,
+        status: 'pending',
+        subTotal,
+        discount,
+        promotions: promotions.map(({ promotion, code, name, type, amount }) => ({ promotion, code, name, type, amount })),
+        tax,
+        shipping: {
+          method: options.shippingMethod,
+          cost: shippingCost,
+          address: {
+            ...options.shippingAddress,
+            country: options.shippingAddress.country || 'India'
+          }
+        },
+        total,
+        payment: {
+          method: options.paymentMethod,
+          status: 'pending',
+          amount: total,
+          currency: 'INR'
+        },
+        timeline: [{
+          timestamp: new Date(),
+          status: 'pending',
+          note: 'Order placed',
+          ...(actor.isEmployee ? { updatedByEmployee: actor.id } : { updatedBy: actor.id })
+        }],
+        notes: options.notes,
+        isGift: options.isGift,
+        giftMessage: options.giftMessage
+      });
+      await order.save({ session });
+      await redeemPromotions(promotions, { user: options.customer, order: order._id }, session);
+
+      if (cart) {
+        cart.items = [];
+        cart.couponCode = undefined;
+        cart.calculateTotals();
+        await cart.save({ session });
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  return order!;
+};
+
+// Who is acting on an order: the employee behind an employee token, or the user and their role
+const getOrderActor = (req: AuthRequest): { actorId?: Types.ObjectId; actor: OrderActor } =>
+  req.employee
+    ? { actorId: req.employee._id, actor: 'employee' }
+    : { actorId: req.user?._id, actor: req.user?.role as OrderActor };
+
+// Customers may read their own orders without order:read
+const isOwnOrder = async (req: AuthRequest): Promise<boolean> =>
+  !!req.user && Types.ObjectId.isValid(req.params.id)
+    && !!await Order.exists({ _id: req.params.id, $or: [{ user: req.user._id }, { customer: req.user._id }] });
+
+// Products sold in variants need one picked; other products take none. Returns the error, if any
+const checkOrderVariant = (product: IProductDocument, variantId?: Types.ObjectId | string): string | undefined => {
+  if (product.variants.length === 0) {
+    return variantId ? `Product ${product.name} has no variants` : undefined;
+  }
+
+  const variant = product.getVariant(variantId);
+  if (!variant) {
+    return variantId
+      ? `Variant ${variantId} not found on product ${product.name}`
+      : `Product ${product.name} is sold in variants; a variant is required`;
+  }
+  if (!variant.isActive) {
+    return `Variant ${variant.name} of ${product.name} is not available`;
+  }
+  return undefined;
+};
+
+// Refund value of a line: what was paid per unit after promotions, plus the GST charged on it
+const refundLineAmount = (order: IOrderDocument, item: IOrderItem, quantity: number): number => {
+  const netSubTotal = order.subTotal - (order.discount || 0);
+  const taxFactor = item.gstRate !== undefined
+    ? 1 + item.gstRate / 100
+    : netSubTotal > 0 ? 1 + order.tax / netSubTotal : 1;
+  const netUnitPrice = (item.total - (item.discount || 0)) / item.quantity;
+  return roundCurrency(netUnitPrice * quantity * taxFactor);
+};
+
+// Put refunded units back into stock as 'return' rows on their inventory ledgers
+const restockRefund = async (
+  order: IOrderDocument,
+  refund: IOrderRefund,
+  { actorId, actor }: { actorId?: Types.ObjectId; actor: OrderActor },
+  session: ClientSession
+): Promise<void> => {
+  const details = {
+    referenceNumber: order.orderNumber,
+    notes: `Customer return - ${refund.reason}`,
+    ...(actor === 'employee' ? { performedByEmployee: actorId } : { performedBy: actorId })
+  };
+
+  const lines: IStockLine[] = refund.items.map(line => ({
+    product: line.product,
+    franchiseProduct: line.franchiseProduct,
+    variant: order.items.find(item => item._id?.equals(line.item))?.variant,
+    quantity: line.quantity
+  }));
+  await releaseStock(lines, session, details);
+};
+
+/**
+ * Book a refund and put its units back in stock in one transaction. The order
+ * is read inside it, so of two refunds racing for the same money the second is
+ * checked against what the first left. Status hooks run once it has committed.
+ */
+const refundOrder = async (
+  req: AuthRequest,
+  orderId: Types.ObjectId,
+  amount: number,
+  reason: string,
+  lines: IOrderRefundLine[]
+): Promise<{ order: IOrderDocument; refund: IOrderRefund }> => {
+  const { actorId, actor } = getOrderActor(req);
+  const session = await mongoose.startSession();
+  let order!: IOrderDocument;
+  let refund!: IOrderRefund;
+  let previousStatus!: OrderStatus;
+
+  try {
+    await session.withTransaction(async () => {
+      const current = await Order.findById(orderId).session(session);
+      if (!current) {
+        throw new Error('Order not found');
+      }
+      order = current;
+      previousStatus = order.status;
+
+      // Cancelled orders were already restocked by the cancel hook
+      const alreadyRestocked = order.status === 'cancelled';
+
+      refund = await order.processRefund(amount, reason, { lines, processedBy: actorId, actor, session });
+      if (!alreadyRestocked) {
+        await restockRefund(order, refund, { actorId, actor }, session);
+      }
+    });
+  } finally {
+    await session.endSession();
+  }
+
+  if (order.status === 'refunded' && previousStatus !== 'refunded') {
+    await runOrderStatusHooks(order, previousStatus, 'refunded');
+  }
+
+  return { order, refund };
+};
+
 // Get all orders
 router.get('/', authenticateToken, async (req: AuthRequest, res: AuthResponse) => {
   try {
@@ -161,12 +438,16 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res: AuthResponse
 
 // Create new order
 router.post('/', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('order:write'),
+  body('customer').optional().isMongoId().withMessage('Valid customer ID is required'),
   body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
   body('items.*.product').isMongoId().withMessage('Valid product ID is required'),
+  body('items.*.variant').optional().isMongoId().withMessage('Valid variant ID is required'),
   body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
   body('shop').isMongoId().withMessage('Valid shop ID is required'),
+  body('couponCode').optional().trim().isLength({ min: 1, max: 50 }).withMessage('Invalid coupon code'),
+  ...validateOrderShipping
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
     const errors = validationResult(req);
@@ -178,7 +459,16 @@ router.post('/', [
       });
     }
 
-    const { items, shop, ...orderData } = req.body;
+    const { items, shop, couponCode, shippingAddress, shippingMethod = 'standard', paymentMethod, notes, isGift, giftMessage } = req.body;
+
+    // Staff may place an order for a customer; an employee has no account of their own to place it for
+    const customer = req.body.customer ? await User.findById(req.body.customer).select('_id') : req.user;
+    if (!customer) {
+      return res.status(req.body.customer ? 404 : 400).json({
+        success: false,
+        error: req.body.customer ? 'Customer not found' : 'A customer is required for orders placed by an employee'
+      });
+    }
 
     // Check if shop exists
     const shopExists = await Shop.findById(shop);
@@ -189,9 +479,9 @@ router.post('/', [
       });
     }
 
-    // Validate products and check inventory
-    const orderItems = [];
-    let subtotal = 0;
+    // Validate products and price lines from the catalogue
+    const orderItems: IOrderItem[] = [];
+    const stockLines: IStockLine[] = [];
 
     for (const item of items) {
       const product = await Product.findById(item.product);
@@ -209,59 +499,211 @@ router.post('/', [
         });
       }
 
-      if ((product as any).inventory.quantity < item.quantity) {
+      const variantError = checkOrderVariant(product, item.variant);
+      if (variantError) {
         return res.status(400).json({
           success: false,
-          error: `Insufficient stock for ${product.name}. Available: ${(product as any).inventory.quantity}`
+          error: variantError
         });
       }
 
-      const itemTotal = (product as any).price.regular * item.quantity;
-      subtotal += itemTotal;
+      const variant = product.getVariant(item.variant);
+      const price = product.getSellingPrice(variant?._id);
 
       orderItems.push({
         product: product._id,
+        variant: variant?._id,
+        variantName: variant?.name,
+        sku: variant?.sku ?? product.sku,
         quantity: item.quantity,
-        price: (product as any).price.regular,
-        total: itemTotal
+        price,
+        total: roundCurrency(price * item.quantity),
+        hsnCode: product.hsnCode,
+        gstRate: product.gstRate,
+        shop
       });
+      stockLines.push({ product: product._id, variant: variant?._id, quantity: item.quantity, name: product.name });
     }
 
-    // Calculate totals
-    const tax = subtotal * 0.18; // 18% GST
-    const shipping = subtotal > 1000 ? 0 : 100; // Free shipping above ₹1000
-    const totalAmount = subtotal + tax + shipping;
+    const promotions = await priceOrderPromotions(customer._id, orderItems, couponCode);
 
-    const order = new Order({
-      customer: req.user?._id,
+    const order = await placeOrder(req, orderItems, stockLines, {
+      customer: customer._id,
       shop,
-      items: orderItems,
-      subtotal,
-      tax: { amount: tax, rate: 18 },
-      shipping: { cost: shipping, method: 'standard' },
-      totalAmount,
-      ...orderData
+      shippingAddress,
+      shippingMethod,
+      paymentMethod,
+      notes,
+      isGift,
+      giftMessage,
+      promotions
     });
 
-    await order.save();
+    const populatedOrder = await Order.findById(order._id)
+      .populate('customer', 'firstName lastName email')
+      .populate('shop', 'name logo')
+      .populate('items.product', 'name sellingPrice images');
+
+    res.status(201).json({
+      success: true,
+      data: populatedOrder
+    });
+  } catch (error) {
+    if (error instanceof StockReservationError || error instanceof PromotionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
 
-    // Update inventory
-    for (const item of items) {
-      await Product.findByIdAndUpdate(item.product, {
-        $inc: { 'inventory.quantity': -item.quantity }
+// Checkout the current user's cart
+router.post('/checkout', [
+  authenticateToken,
+  ...validateOrderShipping
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
       });
     }
 
+    const { shippingAddress, shippingMethod = 'standard', paymentMethod, notes, isGift, giftMessage } = req.body;
+
+    const cart = await Cart.findByUser(req.user!._id);
+    if (!cart || cart.items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cart is empty'
+      });
+    }
+
+    // Re-price every line from the catalogue; cart prices are only indicative
+    const orderItems: IOrderItem[] = [];
+    const stockLines: IStockLine[] = [];
+
+    for (const item of cart.items) {
+      if (item.franchiseProduct) {
+        const franchiseProduct = await FranchiseProduct.findById(item.franchiseProduct)
+          .populate<{ bharatmartProduct: IProductDocument }>('bharatmartProduct', 'name sku isActive hsnCode gstRate variants');
+        if (!franchiseProduct || !franchiseProduct.bharatmartProduct) {
+          return res.status(404).json({
+            success: false,
+            error: `Franchise product ${item.franchiseProduct} not found`
+          });
+        }
+
+        const name = franchiseProduct.bharatmartProduct.name;
+        if (!franchiseProduct.isActive || !franchiseProduct.bharatmartProduct.isActive) {
+          return res.status(400).json({
+            success: false,
+            error: `Product ${name} is not available`
+          });
+        }
+
+        const variant = franchiseProduct.bharatmartProduct.getVariant(franchiseProduct.variant || undefined);
+
+        orderItems.push({
+          product: franchiseProduct.bharatmartProduct._id,
+          franchiseProduct: franchiseProduct._id,
+          franchise: franchiseProduct.franchise,
+          variant: variant?._id,
+          variantName: variant?.name,
+          sku: variant?.sku ?? franchiseProduct.bharatmartProduct.sku,
+          quantity: item.quantity,
+          price: franchiseProduct.sellingPrice,
+          total: roundCurrency(franchiseProduct.sellingPrice * item.quantity),
+          hsnCode: franchiseProduct.bharatmartProduct.hsnCode,
+          gstRate: franchiseProduct.bharatmartProduct.gstRate
+        });
+        stockLines.push({
+          product: franchiseProduct.bharatmartProduct._id,
+          franchiseProduct: franchiseProduct._id,
+          quantity: item.quantity,
+          name
+        });
+      } else {
+        const product = await Product.findById(item.product);
+        if (!product) {
+          return res.status(404).json({
+            success: false,
+            error: `Product ${item.product} not found`
+          });
+        }
+
+        if (!product.isActive) {
+          return res.status(400).json({
+            success: false,
+            error: `Product ${product.name} is not available`
+          });
+        }
+
+        const variantError = checkOrderVariant(product, item.variant);
+        if (variantError) {
+          return res.status(400).json({
+            success: false,
+            error: variantError
+          });
+        }
+
+        const variant = product.getVariant(item.variant);
+        const price = product.getSellingPrice(variant?._id);
+
+        orderItems.push({
+          product: product._id,
+          variant: variant?._id,
+          variantName: variant?.name,
+          sku: variant?.sku ?? product.sku,
+          quantity: item.quantity,
+          price,
+          total: roundCurrency(price * item.quantity),
+          hsnCode: product.hsnCode,
+          gstRate: product.gstRate
+        });
+        stockLines.push({ product: product._id, variant: variant?._id, quantity: item.quantity, name: product.name });
+      }
+    }
+
+    const promotions = await priceOrderPromotions(req.user!._id, orderItems, cart.couponCode);
+
+    const order = await placeOrder(req, orderItems, stockLines, {
+      customer: req.user!._id,
+      shippingAddress,
+      shippingMethod,
+      paymentMethod,
+      notes,
+      isGift,
+      giftMessage,
+      promotions
+    }, cart);
+
     const populatedOrder = await Order.findById(order._id)
-      .populate('customer', 'firstName lastName email')
-      .populate('shop', 'name logo')
-      .populate('items.product', 'name price images');
+      .populate('items.product', 'name sellingPrice images')
+      .populate('items.franchise', 'name');
 
     res.status(201).json({
       success: true,
+      message: 'Order placed successfully',
       data: populatedOrder
     });
   } catch (error) {
+    if (error instanceof StockReservationError || error instanceof PromotionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Checkout error:', error);
     res.status(500).json({
       success: false,
       error: 'Server error',
@@ -272,9 +714,9 @@ router.post('/', [
 
 // Update order status
 router.patch('/:id/status', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('order:write'),
-  body('status').isIn(['pending', 'confirmed', 'processing', 'shipped', 'delivered', 'cancelled']).withMessage('Invalid status'),
+  body('status').isIn(ORDER_STATUSES.filter(status => status !== 'refunded')).withMessage('Invalid status'),
   body('notes').optional().trim().isLength({ max: 500 }).withMessage('Notes must be less than 500 characters'),
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
@@ -306,36 +748,9 @@ router.patch('/:id/status', [
       }
     }
 
-    const oldStatus = order.status;
-    const newStatus = req.body.status as OrderStatus;
-
-    // Validate status transition
-    const validTransitions: ValidTransitions = {
-      pending: ['confirmed', 'cancelled'],
-      confirmed: ['processing', 'cancelled'],
-      processing: ['shipped', 'cancelled'],
-      shipped: ['delivered'],
-      delivered: [],
-      cancelled: []
-    };
-
-    if (!validTransitions[oldStatus].includes(newStatus)) {
-      return res.status(400).json({
-        success: false,
-        error: `Invalid status transition from ${oldStatus} to ${newStatus}`
-      });
-    }
-
-    // Handle cancellation - restore inventory
-    if (newStatus === 'cancelled' && oldStatus !== 'cancelled') {
-      for (const item of order.items) {
-        await Product.findByIdAndUpdate(item.product, {
-          $inc: { 'inventory.quantity': item.quantity }
-        });
-      }
-    }
-
-    await order.updateStatus(newStatus, req.body.notes);
+    // Transition rules, role checks and side effects (restock, timestamps, notifications) live in the model
+    const { actorId, actor } = getOrderActor(req);
+    await order.updateStatus(req.body.status as OrderStatus, req.body.notes, actorId, actor);
 
     const updatedOrder = await Order.findById(order._id)
       .populate('customer', 'firstName lastName email')
@@ -347,6 +762,12 @@ router.patch('/:id/status', [
       data: updatedOrder
     });
   } catch (error) {
+    if (error instanceof OrderStatusTransitionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
     res.status(500).json({
       success: false,
       error: 'Server error',
@@ -374,28 +795,260 @@ router.patch('/:id/cancel', authenticateToken, async (req: AuthRequest, res: Aut
       });
     }
 
-    // Only pending orders can be cancelled
-    if (order.status !== 'pending') {
-      return res.status(400).json({
+    // The state machine only lets customers cancel pending orders; stock is restored by the cancel hook
+    await order.updateStatus('cancelled', 'Cancelled by customer', req.user?._id, 'customer');
+
+    res.json({
+      success: true,
+      message: 'Order cancelled successfully'
+    });
+  } catch (error) {
+    if (error instanceof OrderStatusTransitionError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get (and issue on first request) the GST tax invoice of an order
+router.get('/:id/invoice', [
+  authenticateToken,
+  requirePermissionUnless('order:read', isOwnOrder)
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({
         success: false,
-        error: 'Only pending orders can be cancelled'
+        error: 'Order not found'
       });
     }
 
-    // Restore inventory
-    for (const item of order.items) {
-      await Product.findByIdAndUpdate(item.product, {
-        $inc: { 'inventory.quantity': item.quantity }
+    const invoice = await getOrCreateOrderInvoice(order);
+
+    if (req.query.format === 'html') {
+      res.setHeader('Content-Type', 'text/html; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${getInvoiceFileName(invoice)}"`);
+      return res.send(renderInvoiceHtml(invoice));
+    }
+
+    res.json({
+      success: true,
+      data: invoice
+    });
+  } catch (error) {
+    if (error instanceof InvoiceError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
       });
     }
+    console.error('Order invoice error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get refund ledger for an order
+router.get('/:id/refunds', [
+  authenticateStaff,
+  requirePermission('order:read')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const order = await Order.findById(req.params.id)
+      .select('orderNumber payment refunds total')
+      .populate('refunds.processedBy', 'firstName lastName email')
+      .populate('refunds.processedByEmployee', 'firstName lastName email')
+      .populate('refunds.items.product', 'name sku');
 
-    await order.updateStatus('cancelled', 'Cancelled by customer');
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+    }
 
     res.json({
       success: true,
-      message: 'Order cancelled successfully'
+      data: {
+        orderNumber: order.orderNumber,
+        paidAmount: order.getPaidAmount(),
+        refundedAmount: order.payment.refundAmount || 0,
+        refundableAmount: order.getRefundableAmount(),
+        refunds: order.refunds
+      }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Refund selected items (partial refund)
+router.post('/:id/refunds', [
+  authenticateStaff,
+  requirePermission('order:write'),
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.itemId').isMongoId().withMessage('Valid order item ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+  body('amount').optional().isFloat({ gt: 0 }).withMessage('Amount must be greater than zero'),
+  body('reason').trim().isLength({ min: 1, max: 500 }).withMessage('Refund reason is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+    }
+
+    const lines: IOrderRefundLine[] = [];
+    for (const requested of req.body.items) {
+      const item = order.items.find(orderItem => orderItem._id?.toString() === requested.itemId);
+      if (!item) {
+        return res.status(404).json({
+          success: false,
+          error: `Order item ${requested.itemId} not found`
+        });
+      }
+
+      lines.push({
+        item: item._id!,
+        product: item.product,
+        franchiseProduct: item.franchiseProduct,
+        franchise: item.franchise,
+        quantity: requested.quantity,
+        amount: refundLineAmount(order, item, requested.quantity)
+      });
+    }
+
+    const amount = req.body.amount !== undefined
+      ? roundCurrency(Number(req.body.amount))
+      : roundCurrency(lines.reduce((sum, line) => sum + line.amount, 0));
+
+    let refunded: { order: IOrderDocument; refund: IOrderRefund };
+    try {
+      refunded = await refundOrder(req, order._id, amount, req.body.reason, lines);
+    } catch (refundError) {
+      return res.status(400).json({
+        success: false,
+        error: (refundError as Error).message
+      });
+    }
+    const { refund } = refunded;
+
+    res.status(201).json({
+      success: true,
+      message: 'Refund processed successfully',
+      data: {
+        refund,
+        refundableAmount: refunded.order.getRefundableAmount(),
+        paymentStatus: refunded.order.payment.status,
+        status: refunded.order.status
+      }
+    });
+  } catch (error) {
+    console.error('Partial refund error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Refund everything that has not been refunded yet
+router.post('/:id/refunds/full', [
+  authenticateStaff,
+  requirePermission('order:write'),
+  body('reason').trim().isLength({ min: 1, max: 500 }).withMessage('Refund reason is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const order = await Order.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+    }
+
+    const amount = order.getRefundableAmount();
+    if (amount <= 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Nothing left to refund on this order'
+      });
+    }
+
+    // Remaining quantities of every line; the amount also covers shipping
+    const lines: IOrderRefundLine[] = order.items
+      .filter(item => item.quantity - (item.refundedQuantity || 0) > 0)
+      .map(item => {
+        const quantity = item.quantity - (item.refundedQuantity || 0);
+        return {
+          item: item._id!,
+          product: item.product,
+          franchiseProduct: item.franchiseProduct,
+          franchise: item.franchise,
+          quantity,
+          amount: refundLineAmount(order, item, quantity)
+        };
+      });
+
+    let refunded: { order: IOrderDocument; refund: IOrderRefund };
+    try {
+      refunded = await refundOrder(req, order._id, amount, req.body.reason, lines);
+    } catch (refundError) {
+      return res.status(400).json({
+        success: false,
+        error: (refundError as Error).message
+      });
+    }
+    const { refund } = refunded;
+
+    res.status(201).json({
+      success: true,
+      message: 'Order fully refunded',
+      data: {
+        refund,
+        paymentStatus: refunded.order.payment.status,
+        status: refunded.order.status
+      }
     });
   } catch (error) {
+    console.error('Full refund error:', error);
     res.status(500).json({
       success: false,
       error: 'Server error',
@@ -0,0 +1,282 @@
+import express from 'express';
+import { body, param, validationResult } from 'express-validator';
+import Order, { IOrderDocument } from '../../models/Order/Order';
+import { authenticateToken } from '../../middleware/auth';
+import { getPaymentProvider, isPaymentProviderName } from '../../utils/payments';
+import { AuthRequest, AuthResponse } from '../../types/routes';
+
+const router = express.Router();
+
+// Only the customer who placed the order (or a superadmin) may pay for it
+const canPayForOrder = (req: AuthRequest, order: IOrderDocument): boolean =>
+  req.user?.role === 'superadmin' || order.user.toString() === req.user?._id.toString();
+
+// Start an online payment for an order
+router.post('/orders/:orderId/initiate', [
+  authenticateToken,
+  param('orderId').isMongoId().withMessage('Valid order ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const order = await Order.findById(req.params.orderId);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+    }
+
+    if (!canPayForOrder(req, order)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+
+    if (order.payment.method === 'cod') {
+      return res.status(400).json({
+        success: false,
+        error: 'Cash on delivery orders do not need an online payment'
+      });
+    }
+
+    if (order.status === 'cancelled' || order.payment.status === 'completed' || order.payment.status === 'refunded') {
+      return res.status(400).json({
+        success: false,
+        error: `Cannot start a payment for an order with payment status ${order.payment.status} and order status ${order.status}`
+      });
+    }
+
+    // The provider is the server's choice; a customer must not pick one they can sign for themselves
+    const provider = getPaymentProvider();
+    const intent = await provider.createIntent({
+      orderId: order._id.toString(),
+      orderNumber: order.orderNumber,
+      amount: order.total,
+      currency: order.payment.currency
+    });
+
+    order.payment.provider = provider.name;
+    order.payment.intentId = intent.intentId;
+    order.payment.status = 'pending';
+    await order.addTimelineEntry({
+      timestamp: new Date(),
+      status: order.status,
+      note: `Payment initiated via ${provider.name}`,
+      updatedBy: req.user?._id
+    });
+
+    res.json({
+      success: true,
+      data: intent
+    });
+  } catch (error) {
+    console.error('Initiate payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Confirm a payment with the details returned by the provider's checkout
+router.post('/orders/:orderId/confirm', [
+  authenticateToken,
+  param('orderId').isMongoId().withMessage('Valid order ID is required'),
+  body('paymentId').trim().notEmpty().withMessage('Payment ID is required'),
+  body('signature').trim().notEmpty().withMessage('Payment signature is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const order = await Order.findById(req.params.orderId);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found'
+      });
+    }
+
+    if (!canPayForOrder(req, order)) {
+      return res.status(403).json({
+        success: false,
+        error: 'Access denied'
+      });
+    }
+
+    if (!order.payment.provider || !order.payment.intentId) {
+      return res.status(400).json({
+        success: false,
+        error: 'No payment has been initiated for this order'
+      });
+    }
+
+    if (order.payment.status === 'completed') {
+      return res.json({
+        success: true,
+        message: 'Payment already confirmed',
+        data: order.payment
+      });
+    }
+
+    const provider = getPaymentProvider(order.payment.provider);
+    const confirmation = await provider.confirmPayment({
+      intentId: order.payment.intentId,
+      paymentId: req.body.paymentId,
+      signature: req.body.signature
+    });
+
+    await order.applyPaymentUpdate(
+      confirmation.status,
+      confirmation.status === 'completed'
+        ? `Payment ${confirmation.transactionId} confirmed via ${provider.name}`
+        : `Payment ${confirmation.transactionId} failed verification via ${provider.name}`,
+      confirmation.transactionId
+    );
+
+    if (confirmation.status === 'failed') {
+      return res.status(400).json({
+        success: false,
+        error: 'Payment verification failed',
+        data: order.payment
+      });
+    }
+
+    res.json({
+      success: true,
+      message: 'Payment confirmed successfully',
+      data: order.payment
+    });
+  } catch (error) {
+    console.error('Confirm payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Provider webhook receiver (authenticated by signature, not by token)
+router.post('/webhook/:provider', async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    if (!isPaymentProviderName(req.params.provider)) {
+      return res.status(404).json({
+        success: false,
+        error: 'Unknown payment provider'
+      });
+    }
+
+    const provider = getPaymentProvider(req.params.provider);
+    const signature = req.headers[provider.signatureHeader] as string | undefined;
+
+    if (!req.rawBody || !signature || !provider.verifyWebhookSignature(req.rawBody, signature)) {
+      return res.status(401).json({
+        success: false,
+        error: 'Invalid webhook signature'
+      });
+    }
+
+    const event = provider.parseWebhookEvent(req.body);
+    if (!event) {
+      return res.json({
+        success: true,
+        message: 'Event ignored'
+      });
+    }
+
+    const order = await Order.findOne({
+      'payment.provider': provider.name,
+      'payment.intentId': event.intentId
+    });
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Order not found for payment intent'
+      });
+    }
+
+    // Provider refunds are booked through the refund ledger, once per provider refund
+    if (event.status === 'refunded') {
+      if (event.refundId && order.refunds.some(refund => refund.providerRefundId === event.refundId)) {
+        return res.json({
+          success: true,
+          message: 'Event already processed'
+        });
+      }
+
+      if (order.getPaidAmount() <= 0) {
+        return res.status(409).json({
+          success: false,
+          error: 'Refund received for a payment that has not been collected'
+        });
+      }
+
+      try {
+        await order.processRefund(
+          event.refundAmount ?? order.getRefundableAmount(),
+          `Refunded via ${provider.name} (${event.event}${event.refundId ? ` ${event.refundId}` : ''})`,
+          { actor: 'system', providerRefundId: event.refundId }
+        );
+      } catch (refundError) {
+        return res.status(409).json({
+          success: false,
+          error: (refundError as Error).message
+        });
+      }
+
+      return res.json({
+        success: true,
+        message: 'Webhook processed'
+      });
+    }
+
+    // Webhooks are retried and may arrive after /confirm; never step a payment backwards
+    const alreadyApplied = order.payment.status === event.status;
+    const staleEvent = (order.payment.status === 'refunded')
+      || (event.status === 'failed' && order.payment.status !== 'pending');
+    if (alreadyApplied || staleEvent) {
+      return res.json({
+        success: true,
+        message: 'Event already processed'
+      });
+    }
+
+    await order.applyPaymentUpdate(
+      event.status,
+      `Payment ${event.status} (${provider.name} webhook: ${event.event})`,
+      event.transactionId
+    );
+
+    res.json({
+      success: true,
+      message: 'Webhook processed'
+    });
+  } catch (error) {
+    console.error('Payment webhook error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+export default router;
@@ -2,6 +2,7 @@ const express = require('express');
 const router = express.Router();
 import { body, validationResult } from 'express-validator';
 import ProductCategory, { IProductCategory } from '../../models/Product/ProductCategory';
+import Product from '../../models/Product/Product';
 import { authenticateToken } from '../../middleware/auth';
 import { AuthRequest, AuthResponse, ApiResponse } from '../../types/routes';
 
@@ -81,6 +82,9 @@ router.put('/:id', [
       });
     }
 
+    // Products are searchable by their category name
+    await Product.refreshSearchKeywords({ category: category._id });
+
     res.json({
       success: true,
       data: category
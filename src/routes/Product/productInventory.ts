@@ -0,0 +1,273 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import { requirePermission } from '../../middleware/auth';
+import { authenticateStaff, getStaffActor, performedByFields } from '../../middleware/employeeAuth';
+import Product from '../../models/Product/Product';
+import ProductInventory, {
+  PRODUCT_INVENTORY_TRANSACTION_TYPES,
+  ProductStockError
+} from '../../models/Product/ProductInventory';
+import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
+
+const router = express.Router();
+
+// Build a createdAt range filter from optional startDate/endDate query params
+const dateRangeFilter = (startDate?: string, endDate?: string): any => {
+  if (!startDate && !endDate) {
+    return undefined;
+  }
+
+  const range: any = {};
+  if (startDate) range.$gte = new Date(startDate);
+  if (endDate) range.$lte = new Date(endDate);
+  return range;
+};
+
+// Get central inventory ledger with filtering and pagination
+router.get('/', [
+  authenticateStaff,
+  requirePermission('product:read'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('productId').optional().isMongoId(),
+  query('transactionType').optional().isIn(PRODUCT_INVENTORY_TRANSACTION_TYPES),
+  query('warehouse').optional().isMongoId(),
+  query('variant').optional().isMongoId(),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { page = '1', limit = '20', productId, transactionType, warehouse, variant, startDate, endDate, search } = req.query as any;
+
+    const filter: any = {};
+    if (productId) filter.product = productId;
+    if (transactionType) filter.transactionType = transactionType;
+    if (warehouse) filter.warehouse = warehouse;
+    if (variant) filter.variant = variant;
+    if (search) filter.referenceNumber = { $regex: search, $options: 'i' };
+
+    const createdAt = dateRangeFilter(startDate, endDate);
+    if (createdAt) filter.createdAt = createdAt;
+
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+
+    const transactions = await ProductInventory.find(filter)
+      .populate('product', 'name sku')
+      .populate('warehouse', 'name code')
+      .populate('performedBy', 'firstName lastName email')
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .skip((pageNum - 1) * limitNum);
+
+    const total = await ProductInventory.countDocuments(filter);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: transactions,
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum < Math.ceil(total / limitNum),
+        hasPrev: pageNum > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get inventory ledger error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get ledger totals by transaction type, for reconciling shrinkage
+router.get('/summary', [
+  authenticateStaff,
+  requirePermission('product:read'),
+  query('productId').optional().isMongoId(),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { productId, startDate, endDate } = req.query as any;
+
+    const match: any = {};
+    if (productId) match.product = new Types.ObjectId(productId);
+
+    const createdAt = dateRangeFilter(startDate, endDate);
+    if (createdAt) match.createdAt = createdAt;
+
+    const byType = await ProductInventory.aggregate([
+      { $match: match },
+      {
+        $group: {
+          _id: '$transactionType',
+          quantity: { $sum: '$quantity' },
+          value: { $sum: { $ifNull: ['$totalCost', 0] } },
+          transactions: { $sum: 1 }
+        }
+      },
+      { $sort: { _id: 1 } }
+    ]);
+
+    const netChange = byType.reduce((sum, entry) => sum + entry.quantity, 0);
+    const shrinkage = byType
+      .filter(entry => ['adjustment', 'damage', 'expired'].includes(entry._id) && entry.quantity < 0)
+      .reduce((sum, entry) => sum - entry.quantity, 0);
+
+    res.json({
+      success: true,
+      data: {
+        byType: byType.map(entry => ({
+          transactionType: entry._id,
+          quantity: entry.quantity,
+          value: Math.round(entry.value * 100) / 100,
+          transactions: entry.transactions
+        })),
+        netChange,
+        shrinkage
+      }
+    });
+  } catch (error) {
+    console.error('Get inventory summary error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get ledger history for a single product
+router.get('/product/:productId/history', [
+  authenticateStaff,
+  requirePermission('product:read'),
+  param('productId').isMongoId().withMessage('Valid product ID is required'),
+  query('startDate').optional().isISO8601(),
+  query('endDate').optional().isISO8601()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const product = await Product.findById(req.params.productId).select('name sku stock');
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const { startDate, endDate } = req.query as any;
+    const history = await ProductInventory.getInventoryHistory(
+      product._id,
+      startDate ? new Date(startDate) : undefined,
+      endDate ? new Date(endDate) : undefined
+    );
+
+    res.json({
+      success: true,
+      data: {
+        product,
+        history
+      }
+    });
+  } catch (error) {
+    console.error('Get product inventory history error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Record a manual adjustment, damage or expiry write-off against central stock
+router.post('/adjustments', [
+  authenticateStaff,
+  requirePermission('product:write'),
+  body('productId').isMongoId().withMessage('Valid product ID is required'),
+  body('transactionType').isIn(['adjustment', 'damage', 'expired']).withMessage('Transaction type must be adjustment, damage or expired'),
+  body('quantity').isInt().not().equals('0').withMessage('Quantity must be a non-zero integer'),
+  body('notes').trim().isLength({ min: 3, max: 500 }).withMessage('Notes are required for stock adjustments'),
+  body('warehouse').optional().isMongoId().withMessage('Valid warehouse ID is required'),
+  body('variant').optional().isMongoId().withMessage('Valid variant ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { productId, transactionType, notes, warehouse, variant } = req.body;
+    let quantity = Number(req.body.quantity);
+
+    // Damage and expiry always take stock out
+    if (transactionType !== 'adjustment' && quantity > 0) {
+      quantity = -quantity;
+    }
+
+    const transaction = await ProductInventory.recordTransaction(productId, transactionType, quantity, {
+      notes,
+      ...performedByFields(getStaffActor(req)),
+      warehouse,
+      variant
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Stock adjustment recorded',
+      data: transaction
+    });
+  } catch (error) {
+    if (error instanceof ProductStockError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Record stock adjustment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+export default router;
@@ -1,10 +1,27 @@
 import express from 'express';
-import { body, validationResult } from 'express-validator';
+import { body, param, query, validationResult } from 'express-validator';
 import { Types } from 'mongoose';
 import { authenticateToken, requirePermission } from '../../middleware/auth';
-import Product, { IProduct } from '../../models/Product/Product';
+import { authenticateStaff, getStaffActor, performedByFields } from '../../middleware/employeeAuth';
+import { authenticateAdminOrFranchise } from '../../middleware/franchiseAuth';
+import Product, { IProduct, IProductDocument, IProductVariant } from '../../models/Product/Product';
 import ProductCategory from '../../models/Product/ProductCategory';
+import ProductInventory, { ProductStockError } from '../../models/Product/ProductInventory';
+import BarcodeSequence from '../../models/Product/BarcodeSequence';
+import FranchiseProduct from '../../models/Franchise/FranchiseProduct';
+import WarehouseStock from '../../models/Warehouse/WarehouseStock';
 import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
+import { GST_RATES, isValidHsnCode } from '../../utils/gst';
+import {
+  buildInStoreEan13,
+  IN_STORE_BARCODE_PREFIX,
+  isValidEan13,
+  isValidGtin,
+  normaliseBarcode
+} from '../../utils/barcode';
+import { getBarcodeLabelFileName, IBarcodeLabel, renderBarcodePdf, renderBarcodeSvg } from '../../utils/barcodeRenderer';
+import { PRODUCT_SEARCH_SORTS, ProductSearchError, ProductSearchSort, searchProducts } from '../../utils/productSearch';
+import { findNewPriceViolations, findProductPriceViolations, IPriceRuleViolation, PRICE_RULES } from '../../utils/priceRules';
 
 const router = express.Router();
 
@@ -17,9 +34,81 @@ function cleanFormData(data: any): any {
     delete cleanData.brand;
   }
 
+  // An empty barcode clears it
+  if (cleanData.barcode === '') {
+    cleanData.barcode = undefined;
+  }
+
   return cleanData;
 }
 
+const barcodeValidator = () => body('barcode')
+  .optional({ values: 'falsy' })
+  .customSanitizer(normaliseBarcode)
+  .custom(isValidGtin)
+  .withMessage('Barcode must be a valid GTIN/EAN-13 with a correct check digit');
+
+const priceValidators = [
+  body('mrp').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('MRP must be a non-negative number'),
+  body('salePrice').optional().isFloat({ min: 0 }).withMessage('Sale price must be a non-negative number'),
+  body('costPrice').optional().isFloat({ min: 0 }).withMessage('Cost price must be a non-negative number'),
+  body('sellingPrice').optional().isFloat({ min: 0 }).withMessage('Selling price must be a non-negative number')
+];
+
+const variantValidators = [
+  barcodeValidator(),
+  ...priceValidators,
+  body('weight').optional().isObject(),
+  body('dimensions').optional().isObject(),
+  body('isActive').optional().isBoolean()
+];
+
+// Reject a save that would break cost ≤ selling ≤ MRP
+const sendPriceRuleViolations = (res: AuthResponse, violations: IPriceRuleViolation[]) =>
+  res.status(400).json({
+    success: false,
+    error: 'Prices must satisfy cost price ≤ selling price ≤ MRP',
+    details: violations
+  });
+
+// A variant SKU may not clash with any product SKU or any other variant's SKU
+const isVariantSkuTaken = async (sku: string, variantId?: Types.ObjectId | string): Promise<boolean> => {
+  if (await Product.exists({ sku })) {
+    return true;
+  }
+
+  const filter: any = { variants: { $elemMatch: { sku } } };
+  if (variantId) {
+    filter.variants.$elemMatch._id = { $ne: variantId };
+  }
+  return !!(await Product.exists(filter));
+};
+
+// EAN-13 to print for a product or variant, issuing an in-store code when it has none; null if unprintable
+const ensureLabelBarcode = async (product: IProductDocument, variant?: IProductVariant): Promise<string | null> => {
+  const current = variant ? variant.barcode : product.barcode;
+  if (current) {
+    if (isValidEan13(current)) return current;
+    if (current.length === 12) return `0${current}`;
+    return null;
+  }
+
+  // Skip numbers someone has already typed in by hand
+  let barcode = buildInStoreEan13(await BarcodeSequence.next(IN_STORE_BARCODE_PREFIX));
+  while (await Product.isBarcodeTaken(barcode)) {
+    barcode = buildInStoreEan13(await BarcodeSequence.next(IN_STORE_BARCODE_PREFIX));
+  }
+
+  if (variant) {
+    variant.barcode = barcode;
+  } else {
+    product.barcode = barcode;
+  }
+  await product.save();
+
+  return barcode;
+};
+
 // Get all products
 router.get('/', authenticateToken, async (req: AuthRequest, res: AuthResponse) => {
   try {
@@ -74,6 +163,312 @@ router.get('/', authenticateToken, async (req: AuthRequest, res: AuthResponse) =
   }
 });
 
+// Search products with typo tolerance, facet counts and cursor pagination
+router.get('/search', [
+  authenticateToken,
+  query('q').optional().trim().isLength({ max: 100 }).withMessage('Search text must be at most 100 characters'),
+  query('category').optional().isMongoId(),
+  query('brand').optional().isMongoId(),
+  query('minPrice').optional().isFloat({ min: 0 }),
+  query('maxPrice').optional().isFloat({ min: 0 }),
+  query('inStock').optional().isBoolean(),
+  query('sort').optional().isIn(PRODUCT_SEARCH_SORTS).withMessage(`Sort must be one of ${PRODUCT_SEARCH_SORTS.join(', ')}`),
+  query('limit').optional().isInt({ min: 1, max: 50 }),
+  query('cursor').optional().isString()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { q, category, brand, minPrice, maxPrice, inStock, sort, limit, cursor } = req.query as any;
+
+    const result = await searchProducts({
+      q,
+      category,
+      brand,
+      minPrice: minPrice !== undefined ? Number(minPrice) : undefined,
+      maxPrice: maxPrice !== undefined ? Number(maxPrice) : undefined,
+      inStock: inStock === 'true',
+      sort: sort as ProductSearchSort | undefined,
+      limit: limit ? parseInt(limit) : undefined,
+      cursor
+    });
+
+    res.json({
+      success: true,
+      data: result.items,
+      facets: result.facets,
+      query: {
+        q: q || '',
+        correctedQuery: result.correctedQuery
+      },
+      pagination: {
+        total: result.total,
+        limit: limit ? parseInt(limit) : 20,
+        nextCursor: result.nextCursor,
+        hasNext: result.nextCursor !== null
+      }
+    });
+  } catch (error) {
+    if (error instanceof ProductSearchError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Product search error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Look up a scanned barcode. Franchise tokens get their own selling price and
+ * stock for the product (or variant); other callers get the central figures.
+ */
+router.get('/barcode/:code', [
+  authenticateAdminOrFranchise,
+  param('code').customSanitizer(normaliseBarcode).custom(isValidGtin).withMessage('Barcode must be a valid GTIN/EAN-13')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const match = await Product.findByBarcode(req.params.code);
+    if (!match || !match.product.isActive || (match.variant && !match.variant.isActive)) {
+      return res.status(404).json({
+        success: false,
+        error: 'No product matches this barcode'
+      });
+    }
+
+    const { product, variant } = match;
+    const result: any = {
+      product: {
+        _id: product._id,
+        name: product.name,
+        sku: product.sku,
+        barcode: product.barcode,
+        images: product.images,
+        hsnCode: product.hsnCode,
+        gstRate: product.gstRate
+      },
+      variant: variant || null,
+      sku: variant?.sku ?? product.sku,
+      price: product.getSellingPrice(variant?._id),
+      stock: product.getAvailableStock(variant?._id)
+    };
+
+    if (req.userType === 'franchise') {
+      const franchiseProduct = await FranchiseProduct.findOne({
+        franchise: req.franchiseId,
+        bharatmartProduct: product._id,
+        variant: variant?._id || null
+      });
+      if (!franchiseProduct) {
+        return res.status(404).json({
+          success: false,
+          error: `${product.name} is not listed by your franchise`
+        });
+      }
+
+      result.franchiseProduct = franchiseProduct._id;
+      result.price = franchiseProduct.sellingPrice;
+      result.stock = franchiseProduct.stock;
+      result.isActive = franchiseProduct.isActive;
+    }
+
+    res.json({
+      success: true,
+      data: result
+    });
+  } catch (error) {
+    console.error('Barcode lookup error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Printable EAN-13 labels as an SVG sheet or A4 PDF. Products and variants
+ * without a manufacturer code are issued an in-store code (GS1 prefix 200)
+ * first; a UPC-A code prints as its EAN-13 equivalent.
+ */
+router.post('/barcodes/labels', [
+  authenticateStaff,
+  requirePermission('product:write'),
+  body('format').optional().isIn(['svg', 'pdf']).withMessage('Format must be svg or pdf'),
+  body('items').isArray({ min: 1, max: 200 }).withMessage('Between 1 and 200 items are required'),
+  body('items.*.productId').isMongoId().withMessage('Valid product ID is required'),
+  body('items.*.variant').optional().isMongoId().withMessage('Valid variant ID is required'),
+  body('items.*.copies').optional().isInt({ min: 1, max: 100 }).withMessage('Copies must be between 1 and 100'),
+  body('showPrice').optional().isBoolean()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { items, format = 'pdf', showPrice = true } = req.body;
+    const labels: IBarcodeLabel[] = [];
+
+    for (const item of items) {
+      const product = await Product.findById(item.productId);
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          error: `Product ${item.productId} not found`
+        });
+      }
+
+      const variant = product.getVariant(item.variant);
+      if (item.variant && !variant) {
+        return res.status(404).json({
+          success: false,
+          error: `Variant ${item.variant} not found on product ${product.name}`
+        });
+      }
+
+      const barcode = await ensureLabelBarcode(product, variant);
+      if (!barcode) {
+        return res.status(400).json({
+          success: false,
+          error: `${product.name} has a barcode that cannot be printed as an EAN-13 label`
+        });
+      }
+
+      const label: IBarcodeLabel = {
+        barcode,
+        title: product.name,
+        subtitle: variant ? variant.name : product.sku,
+        price: showPrice === false || showPrice === 'false' ? undefined : product.getSellingPrice(variant?._id)
+      };
+      for (let copy = 0; copy < Number(item.copies || 1); copy++) {
+        labels.push(label);
+      }
+    }
+
+    if (format === 'svg') {
+      res.setHeader('Content-Type', 'image/svg+xml; charset=utf-8');
+      res.setHeader('Content-Disposition', `attachment; filename="${getBarcodeLabelFileName('svg')}"`);
+      return res.send(renderBarcodeSvg(labels));
+    }
+
+    res.setHeader('Content-Type', 'application/pdf');
+    res.setHeader('Content-Disposition', `attachment; filename="${getBarcodeLabelFileName('pdf')}"`);
+    res.send(renderBarcodePdf(labels));
+  } catch (error) {
+    console.error('Barcode label error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Catalogue products whose prices already break cost ≤ selling ≤ MRP, e.g.
+ * saved before the rules were enforced, with what each one breaks.
+ */
+router.get('/reports/price-violations', [
+  authenticateStaff,
+  requirePermission('product:read'),
+  query('rule').optional().isIn(PRICE_RULES).withMessage(`Rule must be one of ${PRICE_RULES.join(', ')}`),
+  query('category').optional().isMongoId().withMessage('Valid category ID is required'),
+  query('includeInactive').optional().isBoolean(),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { rule, category, includeInactive, page = '1', limit = '20' } = req.query;
+    const pageNum = parseInt(page as string);
+    const limitNum = parseInt(limit as string);
+
+    const filter: any = {};
+    if (includeInactive !== 'true') filter.isActive = true;
+    if (category) filter.category = category;
+
+    const products = await Product.find(filter)
+      .select('name sku category isActive mrp salePrice costPrice sellingPrice variants')
+      .sort({ name: 1 })
+      .lean<IProductDocument[]>();
+
+    const byRule: Record<string, number> = Object.fromEntries(PRICE_RULES.map(entry => [entry, 0]));
+    const flagged = [];
+    for (const product of products) {
+      const violations = findProductPriceViolations(product)
+        .filter(violation => !rule || violation.rule === rule);
+      if (violations.length === 0) continue;
+
+      violations.forEach(violation => byRule[violation.rule]++);
+      flagged.push({
+        product: { _id: product._id, name: product.name, sku: product.sku, category: product.category, isActive: product.isActive },
+        violations
+      });
+    }
+
+    const total = flagged.length;
+    const response: PaginatedResponse<any[]> = {
+      success: true,
+      data: flagged.slice((pageNum - 1) * limitNum, pageNum * limitNum),
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum * limitNum < total,
+        hasPrev: pageNum > 1
+      },
+      stats: {
+        productsChecked: products.length,
+        byRule
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Price violation report error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
 // Get product by ID
 router.get('/:id', authenticateToken, async (req: AuthRequest, res: AuthResponse) => {
   try {
@@ -103,7 +498,7 @@ router.get('/:id', authenticateToken, async (req: AuthRequest, res: AuthResponse
 router.post(
   '/',
   [
-    authenticateToken,
+    authenticateStaff,
     requirePermission('product:write'),
     body('name').trim().isLength({ min: 2 }).withMessage('Product name must be at least 2 characters'),
     body('description').trim().isLength({ min: 10 }).withMessage('Description must be at least 10 characters'),
@@ -111,6 +506,10 @@ router.post(
     body('stock').isInt({ min: 0 }).withMessage('Stock must be a non-negative integer'),
     body('minStock').isInt({ min: 0 }).withMessage('minStock must be a non-negative integer'),
     body('images').isArray().withMessage('Images must be an array'),
+    body('hsnCode').optional({ values: 'falsy' }).custom(isValidHsnCode).withMessage('HSN code must be 4, 6 or 8 digits'),
+    barcodeValidator(),
+    ...priceValidators,
+    body('gstRate').optional().isIn(GST_RATES).withMessage(`GST rate must be one of ${GST_RATES.join(', ')}`),
     body('isActive').optional().isBoolean()
   ],
   async (req: AuthRequest, res: AuthResponse) => {
@@ -146,8 +545,31 @@ router.post(
         }
       }
 
-      const product = new Product(cleanedData);
+      if (cleanedData.barcode && await Product.isBarcodeTaken(cleanedData.barcode)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Barcode must be unique. Another product or variant with this barcode already exists.'
+        });
+      }
+
+      // Opening stock is booked on the inventory ledger rather than written directly;
+      // variants are added through their own endpoint so their stock is booked too
+      const { stock, variants, ...productData } = cleanedData;
+      const product = new Product({ ...productData, stock: 0 });
+      const priceViolations = findProductPriceViolations(product);
+      if (priceViolations.length > 0) {
+        return sendPriceRuleViolations(res, priceViolations);
+      }
       await product.save();
+
+      if (Number(stock) > 0) {
+        await ProductInventory.recordTransaction(product._id, 'initial_stock', Number(stock), {
+          notes: 'Opening stock',
+          ...performedByFields(getStaffActor(req))
+        });
+        product.stock = Number(stock);
+      }
+
       res.status(201).json({
         success: true,
         data: product
@@ -173,7 +595,7 @@ router.post(
 router.put(
   '/:id',
   [
-    authenticateToken,
+    authenticateStaff,
     requirePermission('product:write'),
     body('name').optional().trim().isLength({ min: 2 }),
     body('description').optional().trim().isLength({ min: 10 }),
@@ -182,6 +604,10 @@ router.put(
     body('stock').optional().isInt({ min: 0 }),
     body('minStock').optional().isInt({ min: 0 }),
     body('images').optional().isArray(),
+    body('hsnCode').optional({ values: 'falsy' }).custom(isValidHsnCode).withMessage('HSN code must be 4, 6 or 8 digits'),
+    barcodeValidator(),
+    ...priceValidators,
+    body('gstRate').optional().isIn(GST_RATES).withMessage(`GST rate must be one of ${GST_RATES.join(', ')}`),
     body('isActive').optional().isBoolean()
   ],
   async (req: AuthRequest, res: AuthResponse) => {
@@ -208,6 +634,13 @@ router.put(
         }
       }
 
+      if (cleanedData.barcode && await Product.isBarcodeTaken(cleanedData.barcode, { productId: req.params.id })) {
+        return res.status(400).json({
+          success: false,
+          error: 'Barcode must be unique. Another product or variant with this barcode already exists.'
+        });
+      }
+
       const product = await Product.findById(req.params.id);
       if (!product) {
         return res.status(404).json({
@@ -216,9 +649,33 @@ router.put(
         });
       }
 
-      Object.assign(product, cleanedData);
+      // Stock edits are recorded on the inventory ledger as adjustments
+      const { stock, variants, ...productData } = cleanedData;
+      if (stock !== undefined && product.variants.length > 0) {
+        return res.status(400).json({
+          success: false,
+          error: 'This product is sold in variants; edit the stock of each variant instead'
+        });
+      }
+
+      const violationsBefore = findProductPriceViolations(product);
+      Object.assign(product, productData);
+      const priceViolations = findNewPriceViolations(violationsBefore, findProductPriceViolations(product));
+      if (priceViolations.length > 0) {
+        return sendPriceRuleViolations(res, priceViolations);
+      }
       await product.save();
 
+      if (stock !== undefined) {
+        const transaction = await ProductInventory.setStock(product._id, Number(stock), {
+          notes: 'Manual stock edit',
+          ...performedByFields(getStaffActor(req))
+        });
+        if (transaction) {
+          product.stock = transaction.newStock;
+        }
+      }
+
       res.json({
         success: true,
         data: product
@@ -241,7 +698,7 @@ router.put(
 );
 
 // Delete product
-router.delete('/:id', authenticateToken, requirePermission('product:delete'), async (req: AuthRequest, res: AuthResponse) => {
+router.delete('/:id', authenticateStaff, requirePermission('product:delete'), async (req: AuthRequest, res: AuthResponse) => {
   try {
     const product = await Product.findByIdAndDelete(req.params.id);
     if (!product) {
@@ -307,4 +764,250 @@ router.get('/low-stock', authenticateToken, async (req: AuthRequest, res: AuthRe
   }
 });
 
+/**
+ * Add a variant to a product. The first variant takes over the stock already
+ * held for the product (including at warehouses), so Product.stock does not
+ * move; opening stock for later variants is booked on the inventory ledger.
+ */
+router.post(
+  '/:id/variants',
+  [
+    authenticateStaff,
+    requirePermission('product:write'),
+    param('id').isMongoId().withMessage('Valid product ID is required'),
+    body('name').trim().isLength({ min: 1, max: 100 }).withMessage('Variant name must be 1-100 characters'),
+    body('sku').trim().isLength({ min: 1, max: 50 }).withMessage('Variant SKU is required'),
+    body('stock').optional().isInt({ min: 0 }).withMessage('Stock must be a non-negative integer'),
+    ...variantValidators
+  ],
+  async (req: AuthRequest, res: AuthResponse) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const product = await Product.findById(req.params.id);
+      if (!product) {
+        return res.status(404).json({
+          success: false,
+          error: 'Product not found'
+        });
+      }
+
+      const { stock, _id, ...variantData } = req.body;
+      if (await isVariantSkuTaken(variantData.sku)) {
+        return res.status(400).json({
+          success: false,
+          error: 'SKU must be unique. Another product or variant with this SKU already exists.'
+        });
+      }
+      if (variantData.barcode && await Product.isBarcodeTaken(variantData.barcode)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Barcode must be unique. Another product or variant with this barcode already exists.'
+        });
+      }
+
+      const isFirstVariant = product.variants.length === 0;
+      if (isFirstVariant && stock !== undefined && Number(stock) !== product.stock) {
+        return res.status(400).json({
+          success: false,
+          error: `The first variant takes over the product's existing stock of ${product.stock} units`
+        });
+      }
+
+      product.variants.push({ ...variantData, stock: isFirstVariant ? product.stock : 0 });
+      const variant = product.variants[product.variants.length - 1];
+      const priceViolations = findProductPriceViolations(product, variant._id);
+      if (priceViolations.length > 0) {
+        return sendPriceRuleViolations(res, priceViolations);
+      }
+      await product.save();
+
+      if (isFirstVariant) {
+        await WarehouseStock.updateMany({ product: product._id, variant: null }, { variant: variant._id });
+      } else if (Number(stock) > 0) {
+        await ProductInventory.recordTransaction(product._id, 'initial_stock', Number(stock), {
+          notes: `Opening stock for variant ${variant.name}`,
+          ...performedByFields(getStaffActor(req)),
+          variant: variant._id
+        });
+      }
+
+      const updated = await Product.findById(product._id);
+
+      res.status(201).json({
+        success: true,
+        data: updated
+      });
+    } catch (error) {
+      if ((error as any).code === 11000) {
+        return res.status(409).json({
+          success: false,
+          error: 'SKU must be unique. Another product or variant with this SKU already exists.'
+        });
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Server error',
+        details: (error as Error).message
+      });
+    }
+  }
+);
+
+// Update a variant; stock edits are recorded on the inventory ledger as adjustments
+router.put(
+  '/:id/variants/:variantId',
+  [
+    authenticateStaff,
+    requirePermission('product:write'),
+    param('id').isMongoId().withMessage('Valid product ID is required'),
+    param('variantId').isMongoId().withMessage('Valid variant ID is required'),
+    body('name').optional().trim().isLength({ min: 1, max: 100 }),
+    body('sku').optional().trim().isLength({ min: 1, max: 50 }),
+    body('stock').optional().isInt({ min: 0 }).withMessage('Stock must be a non-negative integer'),
+    ...variantValidators
+  ],
+  async (req: AuthRequest, res: AuthResponse) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const product = await Product.findById(req.params.id);
+      const variant = product?.getVariant(req.params.variantId);
+      if (!product || !variant) {
+        return res.status(404).json({
+          success: false,
+          error: 'Variant not found'
+        });
+      }
+
+      const { stock, _id, ...variantData } = req.body;
+      if (variantData.sku && await isVariantSkuTaken(variantData.sku, variant._id)) {
+        return res.status(400).json({
+          success: false,
+          error: 'SKU must be unique. Another product or variant with this SKU already exists.'
+        });
+      }
+      if (variantData.barcode && await Product.isBarcodeTaken(variantData.barcode, { productId: product._id, variantId: variant._id })) {
+        return res.status(400).json({
+          success: false,
+          error: 'Barcode must be unique. Another product or variant with this barcode already exists.'
+        });
+      }
+
+      const violationsBefore = findProductPriceViolations(product, variant._id);
+      Object.assign(variant, variantData);
+      const priceViolations = findNewPriceViolations(violationsBefore, findProductPriceViolations(product, variant._id));
+      if (priceViolations.length > 0) {
+        return sendPriceRuleViolations(res, priceViolations);
+      }
+      await product.save();
+
+      if (stock !== undefined) {
+        await ProductInventory.setStock(product._id, Number(stock), {
+          notes: `Manual stock edit for variant ${variant.name}`,
+          ...performedByFields(getStaffActor(req)),
+          variant: variant._id
+        });
+      }
+
+      const updated = await Product.findById(product._id);
+
+      res.json({
+        success: true,
+        data: updated
+      });
+    } catch (error) {
+      if (error instanceof ProductStockError) {
+        return res.status(error.statusCode).json({
+          success: false,
+          error: error.message
+        });
+      }
+      if ((error as any).code === 11000) {
+        return res.status(409).json({
+          success: false,
+          error: 'SKU must be unique. Another product or variant with this SKU already exists.'
+        });
+      }
+      res.status(500).json({
+        success: false,
+        error: 'Server error',
+        details: (error as Error).message
+      });
+    }
+  }
+);
+
+// Remove a variant: deactivated while it still holds stock, removed outright once empty
+router.delete(
+  '/:id/variants/:variantId',
+  [
+    authenticateStaff,
+    requirePermission('product:write'),
+    param('id').isMongoId().withMessage('Valid product ID is required'),
+    param('variantId').isMongoId().withMessage('Valid variant ID is required')
+  ],
+  async (req: AuthRequest, res: AuthResponse) => {
+    try {
+      const errors = validationResult(req);
+      if (!errors.isEmpty()) {
+        return res.status(400).json({
+          success: false,
+          error: 'Validation failed',
+          details: errors.array()
+        });
+      }
+
+      const product = await Product.findById(req.params.id);
+      const variant = product?.getVariant(req.params.variantId);
+      if (!product || !variant) {
+        return res.status(404).json({
+          success: false,
+          error: 'Variant not found'
+        });
+      }
+
+      if (variant.stock > 0) {
+        variant.isActive = false;
+        await product.save();
+
+        return res.json({
+          success: true,
+          message: `Variant ${variant.name} still holds ${variant.stock} units and has been deactivated`,
+          data: product
+        });
+      }
+
+      product.variants = product.variants.filter(entry => !entry._id?.equals(variant._id));
+      await product.save();
+
+      res.json({
+        success: true,
+        message: `Variant ${variant.name} removed`,
+        data: product
+      });
+    } catch (error) {
+      res.status(500).json({
+        success: false,
+        error: 'Server error',
+        details: (error as Error).message
+      });
+    }
+  }
+);
+
 export default router;
@@ -0,0 +1,496 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import Promotion, { IPromotionDocument, PROMOTION_TYPES } from '../../models/Promotion/Promotion';
+import PromotionRedemption from '../../models/Promotion/PromotionRedemption';
+import Order from '../../models/Order/Order';
+import { requirePermission } from '../../middleware/auth';
+import { authenticateStaff } from '../../middleware/employeeAuth';
+import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
+
+const router = express.Router();
+
+const EDITABLE_FIELDS = [
+  'name', 'description', 'code', 'type', 'value', 'maxDiscount', 'buyQuantity', 'getQuantity', 'getDiscountPercent',
+  'minBasketAmount', 'minBasketQuantity', 'usageLimit', 'usageLimitPerUser', 'startsAt', 'endsAt', 'isActive'
+];
+
+const promotionValidators = [
+  body('description').optional().trim().isLength({ max: 500 }).withMessage('Description cannot exceed 500 characters'),
+  body('code').optional({ values: 'falsy' }).trim().matches(/^[A-Za-z0-9_-]{3,30}$/).withMessage('Coupon code must be 3-30 letters, digits, - or _'),
+  body('value').optional().isFloat({ min: 0 }).withMessage('Value must be a non-negative number'),
+  body('maxDiscount').optional({ nullable: true }).isFloat({ min: 0 }).withMessage('Max discount must be a non-negative number'),
+  body('buyQuantity').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Buy quantity must be at least 1'),
+  body('getQuantity').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Get quantity must be at least 1'),
+  body('getDiscountPercent').optional().isFloat({ min: 1, max: 100 }).withMessage('Get discount must be between 1 and 100 percent'),
+  body('minBasketAmount').optional().isFloat({ min: 0 }).withMessage('Minimum basket amount must be a non-negative number'),
+  body('minBasketQuantity').optional().isInt({ min: 0 }).withMessage('Minimum basket quantity must be a non-negative integer'),
+  body('usageLimit').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Usage limit must be at least 1'),
+  body('usageLimitPerUser').optional({ nullable: true }).isInt({ min: 1 }).withMessage('Per-user usage limit must be at least 1'),
+  body('startsAt').optional({ nullable: true }).isISO8601().withMessage('startsAt must be a valid date'),
+  body('endsAt').optional({ nullable: true }).isISO8601().withMessage('endsAt must be a valid date'),
+  body('isActive').optional().isBoolean().withMessage('isActive must be a boolean'),
+  ...['products', 'categories', 'brands', 'franchises'].flatMap(key => [
+    body(`scope.${key}`).optional().isArray().withMessage(`Scope ${key} must be an array`),
+    body(`scope.${key}.*`).isMongoId().withMessage(`Invalid ID in scope ${key}`)
+  ])
+];
+
+// Rules that depend on the promotion type; returns the error, if any
+const checkPromotionRules = (promotion: IPromotionDocument): string | undefined => {
+  if (promotion.type === 'percentage' && (promotion.value <= 0 || promotion.value > 100)) {
+    return 'A percentage discount must be more than 0 and at most 100';
+  }
+  if (promotion.type === 'flat' && promotion.value <= 0) {
+    return 'A flat discount must be more than 0';
+  }
+  if (promotion.type === 'buy_x_get_y' && (!promotion.buyQuantity || !promotion.getQuantity)) {
+    return 'Buy-X-get-Y offers need buyQuantity and getQuantity';
+  }
+  if (promotion.startsAt && promotion.endsAt && promotion.endsAt <= promotion.startsAt) {
+    return 'endsAt must be after startsAt';
+  }
+  return undefined;
+};
+
+// Copy editable fields and scope from the request body onto a promotion
+const applyPromotionBody = (promotion: IPromotionDocument, data: any): void => {
+  EDITABLE_FIELDS.forEach(field => {
+    if (data[field] !== undefined) {
+      promotion.set(field, data[field] === '' ? undefined : data[field]);
+    }
+  });
+  if (data.scope) {
+    for (const key of ['products', 'categories', 'brands', 'franchises'] as const) {
+      if (data.scope[key] !== undefined) {
+        promotion.set(`scope.${key}`, data.scope[key]);
+      }
+    }
+  }
+};
+
+// Get all promotions
+router.get('/', [
+  authenticateStaff,
+  requirePermission('promotion:read'),
+  query('status').optional().isIn(['live', 'scheduled', 'expired', 'inactive']).withMessage('Invalid status'),
+  query('type').optional().isIn(PROMOTION_TYPES).withMessage('Invalid promotion type'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const pageNum = parseInt(req.query.page as string) || 1;
+    const limitNum = parseInt(req.query.limit as string) || 20;
+    const now = new Date();
+
+    const filter: any = {};
+    if (req.query.type) {
+      filter.type = req.query.type;
+    }
+    if (req.query.search) {
+      const search = String(req.query.search).replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+      filter.$or = [{ name: { $regex: search, $options: 'i' } }, { code: { $regex: search, $options: 'i' } }];
+    }
+    switch (req.query.status) {
+      case 'live':
+        filter.isActive = true;
+        filter.$and = [
+          { $or: [{ startsAt: null }, { startsAt: { $lte: now } }] },
+          { $or: [{ endsAt: null }, { endsAt: { $gte: now } }] }
+        ];
+        break;
+      case 'scheduled':
+        filter.isActive = true;
+        filter.startsAt = { $gt: now };
+        break;
+      case 'expired':
+        filter.endsAt = { $lt: now };
+        break;
+      case 'inactive':
+        filter.isActive = false;
+        break;
+    }
+
+    const [promotions, total] = await Promise.all([
+      Promotion.find(filter)
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      Promotion.countDocuments(filter)
+    ]);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: promotions,
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum * limitNum < total,
+        hasPrev: pageNum > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get promotions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Discount given, orders and refunds per promotion over a period
+router.get('/reports/summary', [
+  authenticateStaff,
+  requirePermission('promotion:read'),
+  query('startDate').optional().isISO8601().withMessage('startDate must be a valid date'),
+  query('endDate').optional().isISO8601().withMessage('endDate must be a valid date')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const match: any = { 'promotions.0': { $exists: true } };
+    if (req.query.startDate || req.query.endDate) {
+      match.createdAt = {};
+      if (req.query.startDate) match.createdAt.$gte = new Date(req.query.startDate as string);
+      if (req.query.endDate) match.createdAt.$lte = new Date(req.query.endDate as string);
+    }
+
+    const summary = await Order.aggregate([
+      { $match: match },
+      { $unwind: '$promotions' },
+      {
+        $group: {
+          _id: '$promotions.promotion',
+          name: { $last: '$promotions.name' },
+          code: { $last: '$promotions.code' },
+          type: { $last: '$promotions.type' },
+          orders: { $sum: 1 },
+          cancelledOrders: { $sum: { $cond: [{ $eq: ['$status', 'cancelled'] }, 1, 0] } },
+          discountGiven: { $sum: '$promotions.amount' },
+          grossSales: { $sum: '$subTotal' },
+          orderTotal: { $sum: '$total' },
+          refunded: { $sum: { $ifNull: ['$payment.refundAmount', 0] } }
+        }
+      },
+      { $sort: { discountGiven: -1 } }
+    ]);
+
+    res.json({
+      success: true,
+      data: summary.map(entry => ({
+        ...entry,
+        discountGiven: Math.round(entry.discountGiven * 100) / 100,
+        netSales: Math.round((entry.orderTotal - entry.refunded) * 100) / 100
+      }))
+    });
+  } catch (error) {
+    console.error('Promotion report error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get promotion by ID
+router.get('/:id', [
+  authenticateStaff,
+  requirePermission('promotion:read'),
+  param('id').isMongoId().withMessage('Invalid promotion ID')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const promotion = await Promotion.findById(req.params.id)
+      .populate('scope.products', 'name sku')
+      .populate('scope.categories', 'name')
+      .populate('scope.brands', 'name')
+      .populate('scope.franchises', 'name');
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        error: 'Promotion not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: promotion
+    });
+  } catch (error) {
+    console.error('Get promotion error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Create promotion
+router.post('/', [
+  authenticateStaff,
+  requirePermission('promotion:write'),
+  body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Promotion name must be 2-100 characters'),
+  body('type').isIn(PROMOTION_TYPES).withMessage(`Type must be one of: ${PROMOTION_TYPES.join(', ')}`),
+  ...promotionValidators
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const promotion = new Promotion({ createdBy: req.user?._id });
+    applyPromotionBody(promotion, req.body);
+
+    const ruleError = checkPromotionRules(promotion);
+    if (ruleError) {
+      return res.status(400).json({
+        success: false,
+        error: ruleError
+      });
+    }
+
+    await promotion.save();
+
+    res.status(201).json({
+      success: true,
+      data: promotion
+    });
+  } catch (error) {
+    if ((error as any).code === 11000) {
+      return res.status(409).json({
+        success: false,
+        error: 'A promotion with this coupon code already exists'
+      });
+    }
+    console.error('Create promotion error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Update promotion
+router.put('/:id', [
+  authenticateStaff,
+  requirePermission('promotion:write'),
+  param('id').isMongoId().withMessage('Invalid promotion ID'),
+  body('name').optional().trim().isLength({ min: 2, max: 100 }).withMessage('Promotion name must be 2-100 characters'),
+  body('type').optional().isIn(PROMOTION_TYPES).withMessage(`Type must be one of: ${PROMOTION_TYPES.join(', ')}`),
+  ...promotionValidators
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const promotion = await Promotion.findById(req.params.id);
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        error: 'Promotion not found'
+      });
+    }
+
+    // Redeemed orders keep the code and type they were sold under
+    const codeChanged = req.body.code !== undefined && (req.body.code || undefined)?.toUpperCase() !== promotion.code;
+    const typeChanged = req.body.type !== undefined && req.body.type !== promotion.type;
+    if (promotion.usedCount > 0 && (codeChanged || typeChanged)) {
+      return res.status(400).json({
+        success: false,
+        error: 'Code and type cannot be changed once the promotion has been used'
+      });
+    }
+
+    applyPromotionBody(promotion, req.body);
+
+    const ruleError = checkPromotionRules(promotion);
+    if (ruleError) {
+      return res.status(400).json({
+        success: false,
+        error: ruleError
+      });
+    }
+
+    await promotion.save();
+
+    res.json({
+      success: true,
+      data: promotion
+    });
+  } catch (error) {
+    if ((error as any).code === 11000) {
+      return res.status(409).json({
+        success: false,
+        error: 'A promotion with this coupon code already exists'
+      });
+    }
+    console.error('Update promotion error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Delete promotion; one that has been used is deactivated instead so its history stays intact
+router.delete('/:id', [
+  authenticateStaff,
+  requirePermission('promotion:write'),
+  param('id').isMongoId().withMessage('Invalid promotion ID')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const promotion = await Promotion.findById(req.params.id);
+    if (!promotion) {
+      return res.status(404).json({
+        success: false,
+        error: 'Promotion not found'
+      });
+    }
+
+    const redeemed = await PromotionRedemption.exists({ promotion: promotion._id });
+    if (redeemed) {
+      promotion.isActive = false;
+      await promotion.save();
+      return res.json({
+        success: true,
+        message: 'Promotion has been used and was deactivated instead of deleted',
+        data: promotion
+      });
+    }
+
+    await promotion.deleteOne();
+    res.json({
+      success: true,
+      message: 'Promotion deleted successfully'
+    });
+  } catch (error) {
+    console.error('Delete promotion error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Redemptions of a promotion, newest first, with totals
+router.get('/:id/redemptions', [
+  authenticateStaff,
+  requirePermission('promotion:read'),
+  param('id').isMongoId().withMessage('Invalid promotion ID'),
+  query('status').optional().isIn(['applied', 'reversed']).withMessage('Invalid status'),
+  query('page').optional().isInt({ min: 1 }).withMessage('Page must be a positive integer'),
+  query('limit').optional().isInt({ min: 1, max: 100 }).withMessage('Limit must be between 1 and 100')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const pageNum = parseInt(req.query.page as string) || 1;
+    const limitNum = parseInt(req.query.limit as string) || 20;
+    const promotionId = new Types.ObjectId(req.params.id);
+
+    const filter: any = { promotion: promotionId };
+    if (req.query.status) {
+      filter.status = req.query.status;
+    }
+
+    const [redemptions, total, totals] = await Promise.all([
+      PromotionRedemption.find(filter)
+        .populate('user', 'firstName lastName email')
+        .populate('order', 'orderNumber status total')
+        .sort({ createdAt: -1 })
+        .skip((pageNum - 1) * limitNum)
+        .limit(limitNum),
+      PromotionRedemption.countDocuments(filter),
+      PromotionRedemption.aggregate([
+        { $match: { promotion: promotionId } },
+        { $group: { _id: '$status', count: { $sum: 1 }, discount: { $sum: '$discount' } } }
+      ])
+    ]);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: redemptions,
+      stats: totals,
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum * limitNum < total,
+        hasPrev: pageNum > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get promotion redemptions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+export default router;
@@ -0,0 +1,133 @@
+import express from 'express';
+import User, { IUser } from '../../models/User/User';
+import EmployeeRole from '../../models/Employee/EmployeeRole';
+import { authenticateToken, requireSuperAdmin } from '../../middleware/auth';
+import { AuthRequest, AuthResponse } from '../../types/routes';
+import { findUnknownPermissions, isPermission, isScopedPermission, Permission, PERMISSION_GROUPS, PERMISSION_REGISTRY, PermissionGroup, PERMISSIONS } from '../../utils/permissions';
+import { ApiRouteMount, listPermissionRoutes } from '../../utils/routeIndex';
+
+const router = express.Router();
+
+const USER_ROLES: IUser['role'][] = ['superadmin', 'admin', 'user', 'staff', 'shop_owner', 'customer'];
+
+// One column per registered permission, true where the list grants it
+const buildGrants = (permissions: string[]): Record<Permission, boolean> =>
+  Object.fromEntries(PERMISSIONS.map(permission => [permission, permissions.includes(permission)])) as Record<Permission, boolean>;
+
+// Get the permission registry by group, with the routes each permission unlocks
+router.get('/', authenticateToken, requireSuperAdmin, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const mounts: ApiRouteMount[] = req.app.locals.apiRoutes || [];
+    const routes = listPermissionRoutes(mounts);
+
+    const groups = (Object.keys(PERMISSION_GROUPS) as PermissionGroup[]).map(group => ({
+      key: group,
+      name: PERMISSION_GROUPS[group],
+      permissions: PERMISSIONS
+        .filter(permission => PERMISSION_REGISTRY[permission].group === group)
+        .map(permission => ({
+          key: permission,
+          description: PERMISSION_REGISTRY[permission].description,
+          routes: routes[permission]
+        }))
+    }));
+
+    res.json({
+      success: true,
+      data: { groups }
+    });
+  } catch (error) {
+    console.error('Get permissions error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Get the role × permission matrix. Superadmins hold every permission and
+ * employee roles hold their role's list. Other users are granted permissions
+ * one by one, so for each user role the matrix counts the active users
+ * holding each permission, and each single-franchise grant apart.
+ */
+router.get('/matrix', authenticateToken, requireSuperAdmin, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const [employeeRoles, userCounts, grantCounts] = await Promise.all([
+      EmployeeRole.find().sort({ name: 1 }),
+      User.aggregate([
+        { $match: { isActive: true } },
+        { $group: { _id: '$role', users: { $sum: 1 } } }
+      ]),
+      User.aggregate([
+        { $match: { isActive: true, role: { $ne: 'superadmin' } } },
+        { $unwind: '$permissions' },
+        { $group: { _id: { role: '$role', permission: '$permissions' }, users: { $sum: 1 } } }
+      ])
+    ]);
+
+    const roles = [
+      {
+        type: 'user_role',
+        name: 'superadmin',
+        isActive: true,
+        grants: buildGrants(PERMISSIONS)
+      },
+      ...employeeRoles.map(role => ({
+        type: 'employee_role',
+        _id: role._id,
+        name: role.name,
+        isActive: role.isActive,
+        grants: buildGrants(role.permissions),
+        unknownPermissions: findUnknownPermissions(role.permissions)
+      }))
+    ];
+
+    const userGrants = USER_ROLES
+      .filter(role => role !== 'superadmin')
+      .map(role => {
+        const grants = Object.fromEntries(PERMISSIONS.map(permission => [permission, 0])) as Record<Permission, number>;
+        const scopedGrants: Record<string, number> = {};
+        const unknownPermissions: string[] = [];
+        grantCounts
+          .filter(grant => grant._id.role === role)
+          .forEach(grant => {
+            const permission: string = grant._id.permission;
+            if (isPermission(permission)) {
+              grants[permission] = grant.users;
+            } else if (isScopedPermission(permission)) {
+              scopedGrants[permission] = grant.users;
+            } else {
+              unknownPermissions.push(permission);
+            }
+          });
+
+        return {
+          role,
+          users: userCounts.find(count => count._id === role)?.users || 0,
+          grants,
+          scopedGrants,
+          unknownPermissions
+        };
+      });
+
+    res.json({
+      success: true,
+      data: {
+        permissions: PERMISSIONS,
+        roles,
+        userGrants
+      }
+    });
+  } catch (error) {
+    console.error('Get permission matrix error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+export default router;
@@ -2,8 +2,12 @@
 const express = require('express');
 import { body, validationResult } from 'express-validator';
 import User, { IUser } from '../../models/User/User';
+import Session from '../../models/Auth/Session';
+import { unlockAccount } from '../../utils/accountLockout';
 type UserRole = 'superadmin' | 'admin' | 'user' | 'staff' | 'shop_owner' | 'customer';
 import { authenticateToken, requireSuperAdmin, requirePermission } from '../../middleware/auth';
+import { authenticateStaff } from '../../middleware/employeeAuth';
+import { isAssignablePermission } from '../../utils/permissions';
 import { AuthRequest, AuthResponse, PaginatedResponse, ApiResponse } from '../../types/routes';
 
 const router = express.Router();
@@ -92,7 +96,7 @@ router.get('/', authenticateToken, requireSuperAdmin, async (req: AuthRequest, r
 });
 
 // Get user by ID
-router.get('/:id', authenticateToken, requirePermission('user:read'), async (req: AuthRequest, res: AuthResponse) => {
+router.get('/:id', authenticateStaff, requirePermission('user:read'), async (req: AuthRequest, res: AuthResponse) => {
   try {
     const user = await User.findById(req.params.id)
       .select('-password -emailVerificationToken -passwordResetToken');
@@ -126,6 +130,8 @@ router.post('/', [
   body('email').isEmail().normalizeEmail().withMessage('Valid email is required'),
   body('role').isIn(['superadmin', 'admin', 'user', 'staff', 'shop_owner', 'customer']).withMessage('Invalid role'),
   body('phone').optional().isMobilePhone('any').withMessage('Valid phone number is required'),
+  body('permissions').optional().isArray().withMessage('Permissions must be an array'),
+  body('permissions.*').custom(isAssignablePermission).withMessage('Unknown permission'),
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
     const errors = validationResult(req);
@@ -172,13 +178,15 @@ router.post('/', [
 
 // Update user
 router.put('/:id', [
-  authenticateToken,
+  authenticateStaff,
   requirePermission('user:write'),
   body('firstName').optional().trim().isLength({ min: 2 }).withMessage('First name must be at least 2 characters'),
   body('lastName').optional().trim().isLength({ min: 2 }).withMessage('Last name must be at least 2 characters'),
   body('email').optional().isEmail().normalizeEmail().withMessage('Valid email is required'),
   body('role').optional().isIn(['superadmin', 'shop_owner', 'customer']).withMessage('Invalid role'),
   body('phone').optional().isMobilePhone('any').withMessage('Valid phone number is required'),
+  body('permissions').optional().isArray().withMessage('Permissions must be an array'),
+  body('permissions.*').custom(isAssignablePermission).withMessage('Unknown permission'),
 ], async (req: AuthRequest, res: AuthResponse) => {
   try {
     const errors = validationResult(req);
@@ -209,8 +217,36 @@ router.put('/:id', [
       }
     }
 
-    // Exclude password from general update - password should be updated via separate endpoint
-    const { password: _password, ...updateData } = req.body;
+    // Employees manage ordinary accounts only: no role changes, no superadmins and no permissions beyond their own
+    if (req.employee) {
+      if (user.role === 'superadmin' || (req.body.role !== undefined && req.body.role !== user.role)) {
+        return res.status(403).json({
+          success: false,
+          error: 'Employees cannot change roles or edit superadmin accounts'
+        });
+      }
+      const unheldPermissions = ((req.body.permissions || []) as string[])
+        .filter(permission => !user.permissions.includes(permission) && !req.employeePermissions?.includes(permission));
+      if (unheldPermissions.length > 0) {
+        return res.status(403).json({
+          success: false,
+          error: 'You cannot grant permissions you do not hold',
+          details: unheldPermissions
+        });
+      }
+    }
+
+    // Password, two-factor and lockout state have their own endpoints and are never set from here
+    const {
+      password: _password,
+      twoFactor: _twoFactor,
+      loginAttempts: _loginAttempts,
+      lockUntil: _lockUntil,
+      lockCount: _lockCount,
+      lastLogin: _lastLogin,
+      _id: _userId,
+      ...updateData
+    } = req.body;
     
     Object.assign(user, updateData);
     await user.save();
@@ -280,6 +316,10 @@ router.patch('/:id/toggle-status', authenticateToken, requireSuperAdmin, async (
     user.isActive = !user.isActive;
     await user.save();
 
+    if (!user.isActive) {
+      await Session.revokeAll('user', user._id, 'account_deactivated');
+    }
+
     res.json({
       success: true,
       message: `User ${user.isActive ? 'activated' : 'deactivated'} successfully`,
@@ -294,4 +334,93 @@ router.patch('/:id/toggle-status', authenticateToken, requireSuperAdmin, async (
   }
 });
 
+// Lift a login lockout on a user account (Superadmin only)
+router.post('/:id/unlock', authenticateToken, requireSuperAdmin, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    await unlockAccount(user);
+
+    res.json({
+      success: true,
+      message: 'User account unlocked successfully'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Turn off a user's two-factor authentication after a lost device and sign them out (Superadmin only)
+router.post('/:id/reset-two-factor', authenticateToken, requireSuperAdmin, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    await User.updateOne({ _id: user._id }, {
+      $set: { 'twoFactor.enabled': false },
+      $unset: {
+        'twoFactor.secret': 1,
+        'twoFactor.pendingSecret': 1,
+        'twoFactor.backupCodes': 1,
+        'twoFactor.lastUsedStep': 1,
+        'twoFactor.enabledAt': 1
+      }
+    });
+    await Session.revokeAll('user', user._id, 'two_factor_reset');
+
+    res.json({
+      success: true,
+      message: 'Two-factor authentication reset; the user must enroll again at next login if it is mandatory'
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Sign a user out of every device, e.g. after a stolen token (Superadmin only)
+router.post('/:id/revoke-sessions', authenticateToken, requireSuperAdmin, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const user = await User.findById(req.params.id);
+    if (!user) {
+      return res.status(404).json({
+        success: false,
+        error: 'User not found'
+      });
+    }
+
+    const revokedCount = await Session.revokeAll('user', user._id, 'revoked_by_admin');
+
+    res.json({
+      success: true,
+      message: `${revokedCount} session(s) revoked`,
+      data: { revokedCount }
+    });
+  } catch (error) {
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
 export default router;
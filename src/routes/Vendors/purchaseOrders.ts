@@ -0,0 +1,805 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import mongoose, { Types } from 'mongoose';
+import PurchaseOrder, {
+  getPendingQuantity,
+  IPurchaseOrderItem,
+  PurchaseOrderError,
+  PurchaseOrderStatus,
+  PURCHASE_ORDER_STATUSES
+} from '../../models/Vendors/PurchaseOrder';
+import GoodsReceipt, { IGoodsReceiptDocument, IGoodsReceiptItem } from '../../models/Vendors/GoodsReceipt';
+import VendorPayment from '../../models/Vendors/VendorPayment';
+import Vendor from '../../models/Vendors/Vendor';
+import Product from '../../models/Product/Product';
+import ProductInventory from '../../models/Product/ProductInventory';
+import Warehouse from '../../models/Warehouse/Warehouse';
+import { requirePermission } from '../../middleware/auth';
+import { authenticateStaff, getStaffActor, performedByFields } from '../../middleware/employeeAuth';
+import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
+import { GST_RATES } from '../../utils/gst';
+
+const router = express.Router();
+
+interface PurchaseOrderLineInput {
+  product: string;
+  quantity: number;
+  unitCost: number;
+  gstRate?: number;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+// Resolve requested lines against the catalogue, snapshotting name and SKU
+const buildPurchaseOrderItems = async (
+  lines: PurchaseOrderLineInput[]
+): Promise<{ items: IPurchaseOrderItem[]; error?: string }> => {
+  const items: IPurchaseOrderItem[] = [];
+
+  for (const line of lines) {
+    const product = await Product.findById(line.product).select('name sku gstRate');
+    if (!product) {
+      return { items: [], error: `Product ${line.product} not found` };
+    }
+
+    items.push({
+      product: product._id,
+      name: product.name,
+      sku: product.sku,
+      quantity: Number(line.quantity),
+      unitCost: Number(line.unitCost),
+      gstRate: line.gstRate !== undefined ? Number(line.gstRate) : product.gstRate,
+      taxAmount: 0,
+      total: 0,
+      receivedQuantity: 0
+    });
+  }
+
+  return { items };
+};
+
+const purchaseOrderLineValidators = [
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.product').isMongoId().withMessage('Valid product ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+  body('items.*.unitCost').isFloat({ min: 0 }).withMessage('Unit cost must be a positive number'),
+  body('items.*.gstRate').optional().isIn(GST_RATES).withMessage(`GST rate must be one of ${GST_RATES.join(', ')}`)
+];
+
+// Get purchase orders with filtering and pagination
+router.get('/', [
+  authenticateStaff,
+  requirePermission('purchase:read'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('vendor').optional().isMongoId(),
+  query('status').optional().isIn(PURCHASE_ORDER_STATUSES)
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { page = '1', limit = '20', vendor, status, search } = req.query as any;
+
+    const filter: any = {};
+    if (vendor) filter.vendor = vendor;
+    if (status) filter.status = status;
+    if (search) filter.poNumber = { $regex: search, $options: 'i' };
+
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+
+    const orders = await PurchaseOrder.find(filter)
+      .populate('vendor', 'name contactPerson.name')
+      .populate('createdBy', 'firstName lastName email')
+      .sort({ createdAt: -1 })
+      .limit(limitNum)
+      .skip((pageNum - 1) * limitNum);
+
+    const total = await PurchaseOrder.countDocuments(filter);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: orders,
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum < Math.ceil(total / limitNum),
+        hasPrev: pageNum > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get purchase orders error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get what is owed to each vendor (MUST come before /:id route)
+router.get('/payables', [
+  authenticateStaff,
+  requirePermission('purchase:read')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const payables = await VendorPayment.summarisePayables();
+    const vendors = await Vendor.find({ _id: { $in: payables.map(payable => payable.vendor) } }).select('name');
+    const vendorNames = new Map(vendors.map(vendor => [vendor._id.toString(), vendor.name]));
+
+    res.json({
+      success: true,
+      data: payables.map(payable => ({
+        ...payable,
+        vendorName: vendorNames.get(payable.vendor.toString())
+      })),
+      totals: {
+        billed: roundCurrency(payables.reduce((sum, payable) => sum + payable.billed, 0)),
+        paid: roundCurrency(payables.reduce((sum, payable) => sum + payable.paid, 0)),
+        outstanding: roundCurrency(payables.reduce((sum, payable) => sum + payable.outstanding, 0))
+      }
+    });
+  } catch (error) {
+    console.error('Get vendor payables error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get one vendor's payable statement: goods receipts and payments in date order
+router.get('/payables/:vendorId', [
+  authenticateStaff,
+  requirePermission('purchase:read'),
+  param('vendorId').isMongoId().withMessage('Valid vendor ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const vendor = await Vendor.findById(req.params.vendorId).select('name gst contactPerson');
+    if (!vendor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Vendor not found'
+      });
+    }
+
+    const [summary] = await VendorPayment.summarisePayables(vendor._id);
+    const receipts = await GoodsReceipt.find({ vendor: vendor._id })
+      .select('grnNumber purchaseOrder total vendorInvoiceNumber receivedAt')
+      .populate('purchaseOrder', 'poNumber')
+      .lean();
+    const payments = await VendorPayment.find({ vendor: vendor._id }).lean();
+
+    // Running balance: receipts raise what is owed, payments settle it
+    const entries = [
+      ...receipts.map(receipt => ({
+        type: 'receipt' as const,
+        date: receipt.receivedAt,
+        reference: receipt.grnNumber,
+        vendorInvoiceNumber: receipt.vendorInvoiceNumber,
+        purchaseOrder: receipt.purchaseOrder,
+        amount: receipt.total
+      })),
+      ...payments.map(payment => ({
+        type: 'payment' as const,
+        date: payment.paidAt,
+        reference: payment.reference,
+        mode: payment.mode,
+        purchaseOrder: payment.purchaseOrder,
+        amount: -payment.amount
+      }))
+    ].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+    let balance = 0;
+    const statement = entries.map(entry => {
+      balance = roundCurrency(balance + entry.amount);
+      return { ...entry, balance };
+    });
+
+    res.json({
+      success: true,
+      data: {
+        vendor,
+        summary: summary || { vendor: vendor._id, billed: 0, paid: 0, outstanding: 0, receiptCount: 0 },
+        statement
+      }
+    });
+  } catch (error) {
+    console.error('Get vendor payable statement error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Record a payment made to a vendor
+router.post('/payments', [
+  authenticateStaff,
+  requirePermission('purchase:write'),
+  body('vendor').isMongoId().withMessage('Valid vendor ID is required'),
+  body('purchaseOrder').optional().isMongoId().withMessage('Valid purchase order ID is required'),
+  body('amount').isFloat({ min: 0.01 }).withMessage('Amount must be greater than 0'),
+  body('mode').isIn(['bank_transfer', 'cheque', 'upi', 'cash']).withMessage('Invalid payment mode'),
+  body('reference').optional().trim().isLength({ max: 100 }),
+  body('paidAt').optional().isISO8601().withMessage('Payment date must be a valid date'),
+  body('notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const vendor = await Vendor.findById(req.body.vendor);
+    if (!vendor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Vendor not found'
+      });
+    }
+
+    if (req.body.purchaseOrder) {
+      const order = await PurchaseOrder.findById(req.body.purchaseOrder).select('vendor');
+      if (!order || !order.vendor.equals(vendor._id)) {
+        return res.status(400).json({
+          success: false,
+          error: 'Purchase order not found for this vendor'
+        });
+      }
+    }
+
+    const payment = await VendorPayment.create({
+      vendor: vendor._id,
+      purchaseOrder: req.body.purchaseOrder,
+      amount: roundCurrency(Number(req.body.amount)),
+      mode: req.body.mode,
+      reference: req.body.reference,
+      paidAt: req.body.paidAt ? new Date(req.body.paidAt) : new Date(),
+      notes: req.body.notes,
+      recordedBy: req.user?._id
+    });
+
+    const [summary] = await VendorPayment.summarisePayables(vendor._id);
+
+    res.status(201).json({
+      success: true,
+      message: 'Vendor payment recorded',
+      data: { payment, summary }
+    });
+  } catch (error) {
+    console.error('Record vendor payment error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get goods receipts (GRNs)
+router.get('/goods-receipts', [
+  authenticateStaff,
+  requirePermission('purchase:read'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('vendor').optional().isMongoId(),
+  query('purchaseOrder').optional().isMongoId()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { page = '1', limit = '20', vendor, purchaseOrder } = req.query as any;
+
+    const filter: any = {};
+    if (vendor) filter.vendor = vendor;
+    if (purchaseOrder) filter.purchaseOrder = purchaseOrder;
+
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+
+    const receipts = await GoodsReceipt.find(filter)
+      .populate('vendor', 'name')
+      .populate('purchaseOrder', 'poNumber status')
+      .populate('receivedBy', 'firstName lastName email')
+      .sort({ receivedAt: -1 })
+      .limit(limitNum)
+      .skip((pageNum - 1) * limitNum);
+
+    const total = await GoodsReceipt.countDocuments(filter);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: receipts,
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum < Math.ceil(total / limitNum),
+        hasPrev: pageNum > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get goods receipts error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get goods receipt by ID
+router.get('/goods-receipts/:id', [
+  authenticateStaff,
+  requirePermission('purchase:read'),
+  param('id').isMongoId().withMessage('Valid goods receipt ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const receipt = await GoodsReceipt.findById(req.params.id)
+      .populate('vendor', 'name gst contactPerson')
+      .populate('purchaseOrder', 'poNumber status')
+      .populate('items.product', 'name sku')
+      .populate('receivedBy', 'firstName lastName email');
+
+    if (!receipt) {
+      return res.status(404).json({
+        success: false,
+        error: 'Goods receipt not found'
+      });
+    }
+
+    res.json({
+      success: true,
+      data: receipt
+    });
+  } catch (error) {
+    console.error('Get goods receipt error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get purchase order by ID with its goods receipts
+router.get('/:id', [
+  authenticateStaff,
+  requirePermission('purchase:read'),
+  param('id').isMongoId().withMessage('Valid purchase order ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const order = await PurchaseOrder.findById(req.params.id)
+      .populate('vendor', 'name gst contactPerson address')
+      .populate('createdBy', 'firstName lastName email')
+      .populate('items.product', 'name sku stock costPrice');
+
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found'
+      });
+    }
+
+    const receipts = await GoodsReceipt.find({ purchaseOrder: order._id })
+      .populate('receivedBy', 'firstName lastName email')
+      .sort({ receivedAt: 1 });
+
+    res.json({
+      success: true,
+      data: { ...order.toObject(), receipts }
+    });
+  } catch (error) {
+    console.error('Get purchase order error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Create purchase order (draft unless sent straight away)
+router.post('/', [
+  authenticateStaff,
+  requirePermission('purchase:write'),
+  body('vendor').isMongoId().withMessage('Valid vendor ID is required'),
+  ...purchaseOrderLineValidators,
+  body('expectedDate').optional().isISO8601().withMessage('Expected date must be a valid date'),
+  body('notes').optional().trim().isLength({ max: 1000 }),
+  body('send').optional().isBoolean()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const vendor = await Vendor.findById(req.body.vendor);
+    if (!vendor) {
+      return res.status(404).json({
+        success: false,
+        error: 'Vendor not found'
+      });
+    }
+
+    if (!vendor.isActive) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cannot raise a purchase order against an inactive vendor'
+      });
+    }
+
+    const { items, error: itemsError } = await buildPurchaseOrderItems(req.body.items);
+    if (itemsError) {
+      return res.status(404).json({
+        success: false,
+        error: itemsError
+      });
+    }
+
+    const poNumber = await PurchaseOrder.generatePoNumber();
+
+    const order = new PurchaseOrder({
+      poNumber,
+      vendor: vendor._id,
+      items,
+      status: 'draft',
+      expectedDate: req.body.expectedDate ? new Date(req.body.expectedDate) : undefined,
+      notes: req.body.notes,
+      createdBy: req.user?._id,
+      statusHistory: [{
+        status: 'draft',
+        timestamp: new Date(),
+        notes: 'Purchase order created',
+        changedBy: req.user?._id
+      }]
+    });
+    order.calculateTotals();
+    await order.save();
+
+    if (req.body.send === true || req.body.send === 'true') {
+      await order.updateStatus('sent', 'Purchase order sent to vendor', req.user?._id);
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Purchase order created successfully',
+      data: order
+    });
+  } catch (error) {
+    console.error('Create purchase order error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Update a draft purchase order
+router.put('/:id', [
+  authenticateStaff,
+  requirePermission('purchase:write'),
+  param('id').isMongoId().withMessage('Valid purchase order ID is required'),
+  ...purchaseOrderLineValidators.map(validator => validator.optional()),
+  body('expectedDate').optional().isISO8601().withMessage('Expected date must be a valid date'),
+  body('notes').optional().trim().isLength({ max: 1000 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const order = await PurchaseOrder.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found'
+      });
+    }
+
+    if (order.status !== 'draft') {
+      return res.status(400).json({
+        success: false,
+        error: 'Only draft purchase orders can be edited'
+      });
+    }
+
+    if (req.body.items) {
+      const { items, error: itemsError } = await buildPurchaseOrderItems(req.body.items);
+      if (itemsError) {
+        return res.status(404).json({
+          success: false,
+          error: itemsError
+        });
+      }
+      order.items = items;
+    }
+    if (req.body.expectedDate !== undefined) order.expectedDate = new Date(req.body.expectedDate);
+    if (req.body.notes !== undefined) order.notes = req.body.notes;
+
+    order.calculateTotals();
+    await order.save();
+
+    res.json({
+      success: true,
+      message: 'Purchase order updated successfully',
+      data: order
+    });
+  } catch (error) {
+    console.error('Update purchase order error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Send, cancel or close a purchase order
+router.patch('/:id/status', [
+  authenticateStaff,
+  requirePermission('purchase:write'),
+  param('id').isMongoId().withMessage('Valid purchase order ID is required'),
+  body('status').isIn(['sent', 'cancelled', 'closed']).withMessage('Status must be sent, cancelled or closed'),
+  body('notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const order = await PurchaseOrder.findById(req.params.id);
+    if (!order) {
+      return res.status(404).json({
+        success: false,
+        error: 'Purchase order not found'
+      });
+    }
+
+    await order.updateStatus(req.body.status as PurchaseOrderStatus, req.body.notes, req.user?._id);
+
+    res.json({
+      success: true,
+      message: `Purchase order ${order.status}`,
+      data: order
+    });
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Update purchase order status error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Receive goods against a purchase order (GRN): raises Product.stock and captures cost
+router.post('/:id/receipts', [
+  authenticateStaff,
+  requirePermission('purchase:write'),
+  param('id').isMongoId().withMessage('Valid purchase order ID is required'),
+  body('items').isArray({ min: 1 }).withMessage('At least one item is required'),
+  body('items.*.itemId').isMongoId().withMessage('Valid purchase order item ID is required'),
+  body('items.*.quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1'),
+  body('items.*.unitCost').optional().isFloat({ min: 0 }).withMessage('Unit cost must be a positive number'),
+  body('warehouse').optional().isMongoId().withMessage('Valid warehouse ID is required'),
+  body('vendorInvoiceNumber').optional().trim().isLength({ max: 50 }),
+  body('vendorInvoiceDate').optional().isISO8601().withMessage('Vendor invoice date must be a valid date'),
+  body('notes').optional().trim().isLength({ max: 500 })
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const lines = req.body.items as Array<{ itemId: string; quantity: number; unitCost?: number }>;
+
+    // Stock, costs, the order's received quantities and the GRN are written together or not at all
+    const session = await mongoose.startSession();
+    let receipt: IGoodsReceiptDocument | undefined;
+
+    try {
+      await session.withTransaction(async () => {
+        const order = await PurchaseOrder.findById(req.params.id).session(session);
+        if (!order) {
+          throw new PurchaseOrderError('Purchase order not found', 404);
+        }
+
+        if (order.status !== 'sent' && order.status !== 'partially_received') {
+          throw new PurchaseOrderError(`Cannot receive goods against a ${order.status} purchase order`);
+        }
+
+        if (req.body.warehouse && !await Warehouse.exists({ _id: req.body.warehouse, isActive: true }).session(session)) {
+          throw new PurchaseOrderError('Warehouse not found or inactive', 404);
+        }
+
+        const grnNumber = await GoodsReceipt.generateGrnNumber(session);
+        const receiptItems: IGoodsReceiptItem[] = [];
+
+        for (const line of lines) {
+          const item = order.items.find(orderItem => orderItem._id?.equals(line.itemId));
+          if (!item) {
+            throw new PurchaseOrderError(`Purchase order item ${line.itemId} not found`, 404);
+          }
+
+          const quantity = Number(line.quantity);
+          const pending = getPendingQuantity(item);
+          if (quantity > pending) {
+            throw new PurchaseOrderError(`Only ${pending} units of ${item.name} are still pending`);
+          }
+
+          const product = await Product.findById(item.product).session(session);
+          if (!product) {
+            throw new PurchaseOrderError(`Product ${item.product} not found`, 404);
+          }
+
+          const unitCost = line.unitCost !== undefined ? Number(line.unitCost) : item.unitCost;
+
+          // Moving weighted average cost across stock on hand and this delivery
+          const stockOnHand = Math.max(0, product.stock);
+          product.costPrice = stockOnHand > 0 && product.costPrice !== undefined
+            ? roundCurrency((stockOnHand * product.costPrice + quantity * unitCost) / (stockOnHand + quantity))
+            : unitCost;
+          await product.save({ session });
+
+          await ProductInventory.recordTransaction(item.product, 'purchase', quantity, {
+            referenceNumber: grnNumber,
+            notes: `Received against ${order.poNumber}`,
+            ...performedByFields(getStaffActor(req)),
+            costPerUnit: unitCost,
+            warehouse: req.body.warehouse,
+            session
+          });
+
+          item.receivedQuantity = (item.receivedQuantity || 0) + quantity;
+
+          const taxableValue = roundCurrency(unitCost * quantity);
+          const taxAmount = roundCurrency(taxableValue * item.gstRate / 100);
+          receiptItems.push({
+            purchaseOrderItem: item._id as Types.ObjectId,
+            product: item.product,
+            quantity,
+            unitCost,
+            gstRate: item.gstRate,
+            taxableValue,
+            taxAmount,
+            total: roundCurrency(taxableValue + taxAmount)
+          });
+        }
+
+        const subTotal = roundCurrency(receiptItems.reduce((sum, item) => sum + item.taxableValue, 0));
+        const taxAmount = roundCurrency(receiptItems.reduce((sum, item) => sum + item.taxAmount, 0));
+
+        receipt = new GoodsReceipt({
+          grnNumber,
+          purchaseOrder: order._id,
+          vendor: order.vendor,
+          warehouse: req.body.warehouse,
+          items: receiptItems,
+          subTotal,
+          taxAmount,
+          total: roundCurrency(subTotal + taxAmount),
+          vendorInvoiceNumber: req.body.vendorInvoiceNumber,
+          vendorInvoiceDate: req.body.vendorInvoiceDate ? new Date(req.body.vendorInvoiceDate) : undefined,
+          receivedBy: req.user?._id,
+          receivedAt: new Date(),
+          notes: req.body.notes
+        });
+        await receipt.save({ session });
+
+        const fullyReceived = order.items.every(item => getPendingQuantity(item) === 0);
+        await order.updateStatus(
+          fullyReceived ? 'received' : 'partially_received',
+          `Goods received on ${grnNumber}`,
+          req.user?._id,
+          session
+        );
+      });
+    } finally {
+      await session.endSession();
+    }
+
+    res.status(201).json({
+      success: true,
+      message: 'Goods receipt recorded. Stock has been updated.',
+      data: receipt
+    });
+  } catch (error) {
+    if (error instanceof PurchaseOrderError) {
+      return res.status(error.statusCode).json({
+        success: false,
+        error: error.message
+      });
+    }
+    console.error('Create goods receipt error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+export default router;
@@ -4,6 +4,7 @@ import Vendor, { IVendor } from '../../models/Vendors/Vendor';
 import Brand from '../../models/Brand';
 import Product from '../../models/Product/Product';
 import { authenticateToken, requirePermission } from '../../middleware/auth';
+import { authenticateStaff } from '../../middleware/employeeAuth';
 import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
 // Add this with your other imports
 import mongoose from 'mongoose';
@@ -223,6 +224,11 @@ router.put(
         return;
       }
 
+      // Products are searchable by their brand name
+      if (req.body.name) {
+        await Product.refreshSearchKeywords({ brand: vendor._id });
+      }
+
       console.log(`[Vendors] Successfully updated vendor: ${vendor.name}`);
 
       res.json({
@@ -243,7 +249,7 @@ router.put(
 // Delete vendor (soft delete by setting isActive to false)
 const deleteMiddlewares = [] as any[];
 if (process.env.NODE_ENV !== 'development') {
-  deleteMiddlewares.push(authenticateToken);
+  deleteMiddlewares.push(authenticateStaff);
   deleteMiddlewares.push(requirePermission('vendor:delete'));
 }
 deleteMiddlewares.push(async (req: AuthRequest, res: AuthResponse): Promise<void> => {
@@ -310,7 +316,7 @@ router.delete('/:id', ...deleteMiddlewares);
 // Toggle vendor verification status
 router.patch(
   '/:id/toggle-verification',
-  authenticateToken,
+  authenticateStaff,
   requirePermission('vendor:verify'),
   async (req: AuthRequest, res: AuthResponse): Promise<void> => {
     try {
@@ -351,7 +357,7 @@ router.patch(
 // Toggle vendor active status
 const toggleStatusMiddlewares = [] as any[];
 if (process.env.NODE_ENV !== 'development') {
-  toggleStatusMiddlewares.push(authenticateToken);
+  toggleStatusMiddlewares.push(authenticateStaff);
   toggleStatusMiddlewares.push(requirePermission('vendor:update'));
 }
 toggleStatusMiddlewares.push(async (req: AuthRequest, res: AuthResponse): Promise<void> => {
@@ -0,0 +1,393 @@
+import express from 'express';
+import { body, param, query, validationResult } from 'express-validator';
+import { Types } from 'mongoose';
+import { requirePermission } from '../../middleware/auth';
+import { authenticateStaff } from '../../middleware/employeeAuth';
+import Warehouse from '../../models/Warehouse/Warehouse';
+import WarehouseStock from '../../models/Warehouse/WarehouseStock';
+import Product from '../../models/Product/Product';
+import { AuthRequest, AuthResponse, PaginatedResponse } from '../../types/routes';
+
+const router = express.Router();
+
+const warehouseValidators = [
+  body('address').optional().isObject(),
+  body('location.latitude').optional().isFloat({ min: -90, max: 90 }).withMessage('Latitude must be between -90 and 90'),
+  body('location.longitude').optional().isFloat({ min: -180, max: 180 }).withMessage('Longitude must be between -180 and 180'),
+  body('contactPerson').optional().trim().isLength({ max: 100 }),
+  body('phone').optional().trim().isLength({ max: 20 }),
+  body('isDefault').optional().isBoolean(),
+  body('isActive').optional().isBoolean()
+];
+
+// Get warehouses
+router.get('/', [
+  authenticateStaff,
+  requirePermission('warehouse:read'),
+  query('includeInactive').optional().isBoolean()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const filter: any = {};
+    if (req.query.includeInactive !== 'true') {
+      filter.isActive = true;
+    }
+
+    const warehouses = await Warehouse.find(filter).sort({ isDefault: -1, name: 1 });
+
+    res.json({
+      success: true,
+      data: warehouses
+    });
+  } catch (error) {
+    console.error('Get warehouses error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Create warehouse
+router.post('/', [
+  authenticateStaff,
+  requirePermission('warehouse:write'),
+  body('name').trim().isLength({ min: 2, max: 100 }).withMessage('Warehouse name must be 2-100 characters'),
+  body('code').trim().isLength({ min: 2, max: 20 }).withMessage('Warehouse code must be 2-20 characters'),
+  ...warehouseValidators
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const warehouse = new Warehouse(req.body);
+    await warehouse.save();
+
+    res.status(201).json({
+      success: true,
+      data: warehouse
+    });
+  } catch (error) {
+    if ((error as any).code === 11000) {
+      return res.status(409).json({
+        success: false,
+        error: 'A warehouse with this code already exists'
+      });
+    }
+    console.error('Create warehouse error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get a product's stock across warehouses, and what is not yet allocated to any
+router.get('/availability/:productId', [
+  authenticateStaff,
+  requirePermission('warehouse:read'),
+  param('productId').isMongoId().withMessage('Valid product ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const product = await Product.findById(req.params.productId).select('name sku stock variants._id variants.name variants.sku');
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    const rows = await WarehouseStock.find({ product: product._id })
+      .populate('warehouse', 'name code isActive')
+      .lean();
+
+    const warehouses = rows.map(row => ({
+      warehouse: row.warehouse,
+      variant: row.variant,
+      stock: row.stock,
+      reserved: row.reserved,
+      available: row.stock - row.reserved
+    }));
+    const allocated = rows.reduce((sum, row) => sum + row.stock, 0);
+
+    res.json({
+      success: true,
+      data: {
+        product,
+        warehouses,
+        allocated,
+        unallocated: Math.max(0, product.stock - allocated)
+      }
+    });
+  } catch (error) {
+    console.error('Get product availability error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get warehouse by ID
+router.get('/:id', [
+  authenticateStaff,
+  requirePermission('warehouse:read'),
+  param('id').isMongoId().withMessage('Valid warehouse ID is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const warehouse = await Warehouse.findById(req.params.id);
+    if (!warehouse) {
+      return res.status(404).json({
+        success: false,
+        error: 'Warehouse not found'
+      });
+    }
+
+    const [totals] = await WarehouseStock.aggregate([
+      { $match: { warehouse: warehouse._id } },
+      {
+        $group: {
+          _id: null,
+          products: { $sum: { $cond: [{ $gt: ['$stock', 0] }, 1, 0] } },
+          stock: { $sum: '$stock' },
+          reserved: { $sum: '$reserved' }
+        }
+      }
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        ...warehouse.toObject(),
+        totals: {
+          products: totals?.products || 0,
+          stock: totals?.stock || 0,
+          reserved: totals?.reserved || 0
+        }
+      }
+    });
+  } catch (error) {
+    console.error('Get warehouse error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Update warehouse
+router.put('/:id', [
+  authenticateStaff,
+  requirePermission('warehouse:write'),
+  param('id').isMongoId().withMessage('Valid warehouse ID is required'),
+  body('name').optional().trim().isLength({ min: 2, max: 100 }),
+  body('code').optional().trim().isLength({ min: 2, max: 20 }),
+  ...warehouseValidators
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const warehouse = await Warehouse.findById(req.params.id);
+    if (!warehouse) {
+      return res.status(404).json({
+        success: false,
+        error: 'Warehouse not found'
+      });
+    }
+
+    Object.assign(warehouse, req.body);
+    await warehouse.save();
+
+    res.json({
+      success: true,
+      data: warehouse
+    });
+  } catch (error) {
+    if ((error as any).code === 11000) {
+      return res.status(409).json({
+        success: false,
+        error: 'A warehouse with this code already exists'
+      });
+    }
+    console.error('Update warehouse error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Get stock held at a warehouse with pagination
+router.get('/:id/stock', [
+  authenticateStaff,
+  requirePermission('warehouse:read'),
+  param('id').isMongoId().withMessage('Valid warehouse ID is required'),
+  query('page').optional().isInt({ min: 1 }),
+  query('limit').optional().isInt({ min: 1, max: 100 }),
+  query('inStock').optional().isBoolean()
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const { page = '1', limit = '20', inStock } = req.query as any;
+
+    const filter: any = { warehouse: req.params.id };
+    if (inStock === 'true') filter.stock = { $gt: 0 };
+
+    const pageNum = parseInt(page);
+    const limitNum = parseInt(limit);
+
+    const stock = await WarehouseStock.find(filter)
+      .populate('product', 'name sku minStock')
+      .sort({ updatedAt: -1 })
+      .limit(limitNum)
+      .skip((pageNum - 1) * limitNum);
+
+    const total = await WarehouseStock.countDocuments(filter);
+
+    const response: PaginatedResponse<any> = {
+      success: true,
+      data: stock,
+      pagination: {
+        total,
+        currentPage: pageNum,
+        totalPages: Math.ceil(total / limitNum),
+        limit: limitNum,
+        hasNext: pageNum < Math.ceil(total / limitNum),
+        hasPrev: pageNum > 1
+      }
+    };
+
+    res.json(response);
+  } catch (error) {
+    console.error('Get warehouse stock error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+/**
+ * Place central stock that is not yet held at any warehouse into this one.
+ * Product.stock does not change, so no ledger row is written; stock arriving
+ * from vendors should be received straight into a warehouse instead.
+ */
+router.post('/:id/stock/allocate', [
+  authenticateStaff,
+  requirePermission('warehouse:write'),
+  param('id').isMongoId().withMessage('Valid warehouse ID is required'),
+  body('productId').isMongoId().withMessage('Valid product ID is required'),
+  body('variant').optional().isMongoId().withMessage('Valid variant ID is required'),
+  body('quantity').isInt({ min: 1 }).withMessage('Quantity must be at least 1')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const warehouse = await Warehouse.findById(req.params.id);
+    if (!warehouse) {
+      return res.status(404).json({
+        success: false,
+        error: 'Warehouse not found'
+      });
+    }
+
+    const product = await Product.findById(req.body.productId).select('name stock variants');
+    if (!product) {
+      return res.status(404).json({
+        success: false,
+        error: 'Product not found'
+      });
+    }
+
+    // Products sold in variants are held at warehouses per variant
+    const variant = product.getVariant(req.body.variant);
+    if (product.variants.length > 0 ? !variant : req.body.variant) {
+      return res.status(400).json({
+        success: false,
+        error: product.variants.length > 0
+          ? `${product.name} is sold in variants; a valid variant is required`
+          : `${product.name} has no variants`
+      });
+    }
+
+    const quantity = Number(req.body.quantity);
+    const unallocated = product.getAvailableStock(variant?._id) -
+      await WarehouseStock.getAllocatedStock(product._id, { variant: variant?._id });
+    if (quantity > unallocated) {
+      return res.status(400).json({
+        success: false,
+        error: `Only ${Math.max(0, unallocated)} units of ${product.name}${variant ? ` (${variant.name})` : ''} are not yet held at a warehouse`
+      });
+    }
+
+    const stock = await WarehouseStock.adjust(warehouse._id, product._id as Types.ObjectId, quantity, {
+      variant: variant?._id
+    });
+
+    res.json({
+      success: true,
+      message: `${quantity} units of ${product.name} allocated to ${warehouse.name}`,
+      data: stock
+    });
+  } catch (error) {
+    console.error('Allocate warehouse stock error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+export default router;
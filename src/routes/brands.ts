@@ -3,6 +3,7 @@ import { body, validationResult } from 'express-validator';
 import Brand, { IBrand } from '../models/Brand';
 import Vendor from '../models/Vendors/Vendor';
 import { authenticateToken, requirePermission } from '../middleware/auth';
+import { authenticateStaff } from '../middleware/employeeAuth';
 import { AuthRequest, AuthResponse } from '../types/routes';
 
 const router = express.Router();
@@ -266,7 +267,7 @@ router.patch('/:id/toggle-status', authenticateToken, async (req: AuthRequest, r
 });
 
 // Delete brand (hard delete)
-router.delete('/:id', authenticateToken, requirePermission('brand:delete'), async (req: AuthRequest, res: AuthResponse) => {
+router.delete('/:id', authenticateStaff, requirePermission('brand:delete'), async (req: AuthRequest, res: AuthResponse) => {
   try {
     const { id } = req.params;
     console.log(`[Brands] Deleting brand with ID: ${id}`);
@@ -5,7 +5,7 @@ import Cart, { ICartDocument, ICartItem } from '../models/Cart';
 import FranchiseProduct from '../models/Franchise/FranchiseProduct';
 import Franchise from '../models/Franchise/Franchise';
 import User from '../models/User/User';
-import { authenticateToken, requirePermission } from '../middleware/auth';
+import { authenticateToken, hasScopedPermission, requirePermission } from '../middleware/auth';
 import { AuthRequest, AuthResponse } from '../types/routes';
 import { Types } from 'mongoose';
 
@@ -32,13 +32,19 @@ router.get('/cart', authenticateToken, async (req: AuthRequest, res: AuthRespons
         success: true,
         data: {
           items: [],
+          discounts: [],
           totalItems: 0,
           totalQuantity: 0,
+          subTotal: 0,
+          discountTotal: 0,
           totalAmount: 0
         }
       });
     }
 
+    // Offers start and end on their own; show the discounts that apply right now
+    await cart.applyPromotions();
+
     res.json({
       success: true,
       data: cart
@@ -110,6 +116,7 @@ router.post('/cart/items', [
     const cartItem: ICartItem = {
       product: franchiseProduct._id,
       franchiseProduct: franchiseProduct._id,
+      variant: franchiseProduct.variant || undefined,
       quantity,
       price,
       total: quantity * price
@@ -337,6 +344,83 @@ router.delete('/cart', authenticateToken, async (req: AuthRequest, res: AuthResp
   }
 });
 
+// Apply a coupon code to the cart
+router.post('/cart/coupon', [
+  authenticateToken,
+  body('code').trim().isLength({ min: 1, max: 50 }).withMessage('Coupon code is required')
+], async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const errors = validationResult(req);
+    if (!errors.isEmpty()) {
+      return res.status(400).json({
+        success: false,
+        error: 'Validation failed',
+        details: errors.array()
+      });
+    }
+
+    const cart = await Cart.findByUser(req.user!._id);
+    if (!cart || cart.items.length === 0) {
+      return res.status(400).json({
+        success: false,
+        error: 'Cart is empty'
+      });
+    }
+
+    cart.couponCode = req.body.code.toUpperCase();
+    await cart.applyPromotions();
+    if (cart.couponError) {
+      return res.status(400).json({
+        success: false,
+        error: cart.couponError
+      });
+    }
+    await cart.save();
+
+    res.json({
+      success: true,
+      message: 'Coupon applied successfully',
+      data: cart
+    });
+  } catch (error) {
+    console.error('Apply coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
+// Remove the coupon from the cart
+router.delete('/cart/coupon', authenticateToken, async (req: AuthRequest, res: AuthResponse) => {
+  try {
+    const cart = await Cart.findByUser(req.user!._id);
+    if (!cart) {
+      return res.status(404).json({
+        success: false,
+        error: 'Cart not found'
+      });
+    }
+
+    cart.couponCode = undefined;
+    await cart.save();
+
+    res.json({
+      success: true,
+      message: 'Coupon removed successfully',
+      data: cart
+    });
+  } catch (error) {
+    console.error('Remove coupon error:', error);
+    res.status(500).json({
+      success: false,
+      error: 'Server error',
+      details: (error as Error).message
+    });
+  }
+});
+
 // View franchise inventory (for franchise owners)
 router.get('/franchise/:franchiseId/inventory', [
   authenticateToken,
@@ -372,10 +456,7 @@ router.get('/franchise/:franchiseId/inventory', [
       // This is a simplified check - in a real application, you'd have a relationship between users and franchises
       if (franchise.email !== req.user?.email && req.user?.role !== 'admin' && req.user?.role !== 'staff') {
         // Check if user has franchise-specific permissions
-        const hasFranchiseAccess = req.user?.permissions.includes('franchise:read') || 
-                                  req.user?.permissions.includes(`franchise:${franchiseId}:read`);
-        
-        if (!hasFranchiseAccess) {
+        if (!hasScopedPermission(req, 'franchise:read', franchiseId)) {
           return res.status(403).json({
             success: false,
             error: 'You do not have permission to access this franchise inventory'
@@ -446,10 +527,7 @@ router.get('/franchise/:franchiseId/inventory/search', [
 
       // Check if user has permission to access this franchise
       if (franchise.email !== req.user?.email && req.user?.role !== 'admin' && req.user?.role !== 'staff') {
-        const hasFranchiseAccess = req.user?.permissions.includes('franchise:read') || 
-                                  req.user?.permissions.includes(`franchise:${franchiseId}:read`);
-        
-        if (!hasFranchiseAccess) {
+        if (!hasScopedPermission(req, 'franchise:read', franchiseId)) {
           return res.status(403).json({
             success: false,
             error: 'You do not have permission to access this franchise inventory'
@@ -677,6 +755,7 @@ router.post('/franchise/:franchiseId/cart/items', [
     const cartItem: ICartItem = {
       product: franchiseProduct._id,
       franchiseProduct: franchiseProduct._id,
+      variant: franchiseProduct.variant || undefined,
       quantity,
       price,
       total: quantity * price
@@ -14,6 +14,10 @@ interface DefaultSettings {
     contactPhone: string;
     timezone: string;
     currency: string;
+    legalName: string;
+    gstin: string;
+    registeredAddress: string;
+    state: string;
   };
   ecommerce: {
     autoAcceptOrders: boolean;
@@ -63,6 +67,10 @@ interface DefaultSettings {
     maxApiRequestsPerMinute: number;
     enableAuditLogging: boolean;
     logRetentionDays: number;
+    maxLoginAttempts: number;
+    lockoutDuration: number;
+    lockoutBackoffMultiplier: number;
+    maxLockoutDuration: number;
   };
   analytics: {
     enableGoogleAnalytics: boolean;
@@ -233,7 +241,11 @@ router.post('/initialize', authenticateToken, requireSuperAdmin, async (_req: Au
         contactEmail: 'support@bharatmart.com',
         contactPhone: '+91-9876543210',
         timezone: 'Asia/Kolkata',
-        currency: 'INR'
+        currency: 'INR',
+        legalName: 'BharatMart Private Limited',
+        gstin: '',
+        registeredAddress: '',
+        state: ''
       },
       ecommerce: {
         autoAcceptOrders: true,
@@ -282,7 +294,11 @@ router.post('/initialize', authenticateToken, requireSuperAdmin, async (_req: Au
         enableApiRateLimiting: true,
         maxApiRequestsPerMinute: 100,
         enableAuditLogging: true,
-        logRetentionDays: 90
+        logRetentionDays: 90,
+        maxLoginAttempts: 5,
+        lockoutDuration: 15,
+        lockoutBackoffMultiplier: 2,
+        maxLockoutDuration: 1440
       },
       analytics: {
         enableGoogleAnalytics: false,
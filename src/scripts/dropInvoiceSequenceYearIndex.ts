@@ -0,0 +1,55 @@
+import mongoose from 'mongoose';
+import dotenv from 'dotenv';
+import InvoiceSequence from '../models/Invoice/InvoiceSequence';
+
+// Load environment variables
+dotenv.config();
+
+/**
+ * Migration script to drop the unique financialYear index of the invoice
+ * sequences. Invoice numbers now run in one series per seller (the company
+ * or a franchise) and financial year, which that index would refuse.
+ *
+ * npx ts-node src/scripts/dropInvoiceSequenceYearIndex.ts
+ */
+async function dropInvoiceSequenceYearIndex() {
+  try {
+    // Connect to MongoDB
+    const mongoUri = process.env.MONGODB_URI || 'mongodb://localhost:27017/test';
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(mongoUri);
+    console.log('✅ Connected to MongoDB');
+
+    const collection = InvoiceSequence.collection;
+    const indexes = await collection.indexes();
+
+    const oldIndexName = 'financialYear_1';
+    if (indexes.some(index => index.name === oldIndexName)) {
+      console.log(`\n🗑️  Dropping old index: ${oldIndexName}`);
+      await collection.dropIndex(oldIndexName);
+      console.log('✅ Old index dropped successfully');
+    } else {
+      console.log(`\n⚠️  Index '${oldIndexName}' not found. Nothing to drop.`);
+    }
+
+    // Build the per-seller index in its place
+    await InvoiceSequence.syncIndexes();
+
+    const finalIndexes = await collection.indexes();
+    console.log('\n📋 Final indexes:');
+    finalIndexes.forEach(index => {
+      console.log(`   - ${index.name}:`, JSON.stringify(index.key));
+    });
+
+    console.log('\n✅ Migration completed successfully');
+  } catch (error) {
+    console.error('\n❌ Migration failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+    console.log('\n👋 Disconnected from MongoDB');
+  }
+}
+
+// Run the migration
+dropInvoiceSequenceYearIndex();
@@ -0,0 +1,66 @@
+import assert from 'assert';
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import XLSX from 'xlsx';
+import ExcelProcessor from '../utils/excelProcessor';
+
+// Import a sheet row and check its cost price and MRP reach the product that is saved
+async function testExcelImportPrices(): Promise<void> {
+  const filePath = path.join(os.tmpdir(), `excel-import-prices-${Date.now()}.xlsx`);
+
+  try {
+    const worksheet = XLSX.utils.json_to_sheet([
+      {
+        name: 'Test Product',
+        description: 'Imported by testExcelImportPrices',
+        sku: 'TEST-IMPORT-PRICES',
+        category: 'Test',
+        price: 999,
+        costPrice: 850,
+        mrp: 1099,
+        stock: 10
+      },
+      {
+        name: 'Test Product Without Prices',
+        description: 'Imported by testExcelImportPrices',
+        sku: 'TEST-IMPORT-NO-PRICES',
+        category: 'Test',
+        price: 499,
+        stock: 5
+      }
+    ]);
+    const workbook = XLSX.utils.book_new();
+    XLSX.utils.book_append_sheet(workbook, worksheet, 'Products');
+    XLSX.writeFile(workbook, filePath);
+
+    const rows = await ExcelProcessor.parseExcelFile(filePath);
+    const { validProducts, errors } = ExcelProcessor.validateProducts(rows);
+
+    assert.deepStrictEqual(errors, []);
+    assert.strictEqual(validProducts.length, 2);
+
+    const [priced, unpriced] = validProducts;
+    assert.strictEqual(priced.price, 999);
+    assert.strictEqual(priced.costPrice, 850);
+    assert.strictEqual(priced.mrp, 1099);
+    console.log('✅ Cost price and MRP are kept on the imported product');
+
+    assert.strictEqual(unpriced.costPrice, undefined);
+    assert.strictEqual(unpriced.mrp, undefined);
+    console.log('✅ Blank price columns are left unset rather than zero');
+
+    // A selling price above MRP is still refused
+    const { validProducts: refused, errors: priceErrors } = ExcelProcessor.validateProducts([{ ...rows[0], price: 1200 }]);
+    assert.strictEqual(refused.length, 0);
+    assert.strictEqual(priceErrors[0]?.field, 'price');
+    console.log('✅ Rows priced above MRP are rejected');
+  } catch (error) {
+    console.error('❌ Test failed:', error);
+    process.exitCode = 1;
+  } finally {
+    await fs.rm(filePath, { force: true });
+  }
+}
+
+testExcelImportPrices();
@@ -14,13 +14,22 @@ import dotenv from 'dotenv';
 // (which may check process.env during module initialization) behave correctly.
 dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
 
+// Every access token is signed with JWT_SECRET; there is no safe default, so refuse to start without it
+if (!process.env.JWT_SECRET) {
+  console.error('JWT_SECRET is not set. Refusing to start.');
+  process.exit(1);
+}
+
 import { AuthRequest as Request, AuthResponse as Response, AuthNextFunction as NextFunction } from './types/express';
 
 // Import routes
 import authRoutes from './routes/Auth/auth';
 import userRoutes from './routes/User/users';
+import permissionRoutes from './routes/User/permissions';
 import productRoutes from './routes/Product/products';
+import productInventoryRoutes from './routes/Product/productInventory';
 import orderRoutes from './routes/Order/orders';
+import paymentRoutes from './routes/Order/payments';
 import categoryRoutes from './routes/Product/categories';
 import shopRoutes from './routes/Shop/shops';
 import settingsRoutes from './routes/settings';
@@ -32,14 +41,24 @@ import franchiseApplicationRoutes from './routes/Franchise/FranchiseApplications
 import franchiseAuthRoutes from './routes/Franchise/franchiseAuth';
 import franchiseInventoryRoutes from './routes/Franchise/franchiseInventory';
 import franchiseTransferRoutes from './routes/Franchise/franchiseTransfers';
+import franchisePosRoutes from './routes/Franchise/franchisePos';
+import cycleCountRoutes from './routes/Franchise/cycleCounts';
+import priceListRoutes from './routes/Franchise/priceLists';
 import cartRoutes from './routes/cart';
+import promotionRoutes from './routes/Promotion/promotions';
 import homeRoutes from './routes/home';
 import vendorsRoutes from './routes/Vendors/vendors';
+import purchaseOrderRoutes from './routes/Vendors/purchaseOrders';
+import warehouseRoutes from './routes/Warehouse/warehouses';
 import brandsRoutes from './routes/brands';
 import ContactUsQueryRoutes from './routes/Query/contactusQueries';
 import employeeRoutes from './routes/Employee/Employee';
+import employeeAuthRoutes from './routes/Employee/employeeAuth';
 import departmentRoutes from './routes/Employee/departments';
 import subscribeRoutes from './routes/subscribers';
+import { ApiRouteMount } from './utils/routeIndex';
+import { scheduleExpiredStockWriteOff } from './jobs/expiredStockWriteOff';
+import { schedulePriceChanges } from './jobs/priceChanges';
 import { subscribe } from 'diagnostics_channel';
 
 dotenv.config({ path: path.resolve(__dirname, '..', '.env') });
@@ -88,7 +107,13 @@ app.use(
 );
 
 // Body parsing middleware
-app.use(express.json({ limit: '10mb' }));
+// Keep the raw payload around so payment webhooks can verify their signatures
+app.use(express.json({
+  limit: '10mb',
+  verify: (req: Request, _res: Response, buf: Buffer) => {
+    req.rawBody = buf;
+  }
+}));
 app.use(express.urlencoded({ extended: true, limit: '10mb' }));
 
 // Logging middleware
@@ -99,30 +124,44 @@ if (process.env.NODE_ENV === 'development') {
 // Static files
 app.use('/uploads', express.static(path.join(__dirname, '..', 'uploads')));
 
-// API routes
-app.use('/api/auth', authRoutes);
-app.use('/api/franchise/auth', franchiseAuthRoutes); // Add franchise authentication routes
-app.use('/api/franchise-applications', franchiseApplicationRoutes);
-app.use('/api/users', userRoutes);
-
-app.use('/api/products', productRoutes);
-app.use('/api/orders', orderRoutes);
-app.use('/api/categories', categoryRoutes);
-app.use('/api/shops', shopRoutes);
-app.use('/api/settings', settingsRoutes);
-app.use('/api/product-categories', productCategoryRoutes);
-app.use('/api/vendors', vendorsRoutes);
-app.use('/api/brands', brandsRoutes);
-app.use('/api/vendor-categories', vendorCategoryRoutes);
-app.use('/api/franchises', franchiseRoutes);
-app.use('/api/franchise-products', franchiseProductRoutes);
-app.use('/api/franchise/inventory', franchiseInventoryRoutes);
-app.use('/api/franchise-transfers', franchiseTransferRoutes);
-app.use('/api/contact-queries', ContactUsQueryRoutes);
-app.use('/api/cart', cartRoutes);
-app.use('/api/employees', employeeRoutes);
-app.use('/api/departments', departmentRoutes);
-app.use('/api/subscribers',subscribeRoutes);
+// API routes, mounted in order. Kept in app.locals so the permission
+// registry can list the routes each permission unlocks.
+const apiRoutes: ApiRouteMount[] = [
+  ['/api/auth', authRoutes],
+  ['/api/franchise/auth', franchiseAuthRoutes],
+  ['/api/franchise-applications', franchiseApplicationRoutes],
+  ['/api/users', userRoutes],
+  ['/api/permissions', permissionRoutes],
+  ['/api/products', productRoutes],
+  ['/api/inventory', productInventoryRoutes],
+  ['/api/orders', orderRoutes],
+  ['/api/payments', paymentRoutes],
+  ['/api/categories', categoryRoutes],
+  ['/api/shops', shopRoutes],
+  ['/api/settings', settingsRoutes],
+  ['/api/product-categories', productCategoryRoutes],
+  ['/api/vendors', vendorsRoutes],
+  ['/api/purchase-orders', purchaseOrderRoutes],
+  ['/api/warehouses', warehouseRoutes],
+  ['/api/brands', brandsRoutes],
+  ['/api/vendor-categories', vendorCategoryRoutes],
+  ['/api/franchises', franchiseRoutes],
+  ['/api/franchise-products', franchiseProductRoutes],
+  ['/api/franchise/inventory', franchiseInventoryRoutes],
+  ['/api/franchise/pos', franchisePosRoutes],
+  ['/api/franchise/cycle-counts', cycleCountRoutes],
+  ['/api/franchise/price-lists', priceListRoutes],
+  ['/api/franchise-transfers', franchiseTransferRoutes],
+  ['/api/contact-queries', ContactUsQueryRoutes],
+  ['/api/cart', cartRoutes],
+  ['/api/promotions', promotionRoutes],
+  ['/api/employees/auth', employeeAuthRoutes],
+  ['/api/employees', employeeRoutes],
+  ['/api/departments', departmentRoutes],
+  ['/api/subscribers', subscribeRoutes]
+];
+apiRoutes.forEach(([mountPath, routes]) => app.use(mountPath, routes));
+app.locals.apiRoutes = apiRoutes;
 
 // Health check endpoint
 app.get('/api/health', (_req: Request, res: Response) => {
@@ -142,14 +181,34 @@ if (process.env.NODE_ENV === 'development') {
       endpoints: {
         auth: {
           'POST /api/auth/register': 'Register a new user',
-          'POST /api/auth/login': 'Login user and get token'
+          'POST /api/auth/login': 'Login user and get an access token and refresh token',
+          'POST /api/auth/refresh': 'Exchange a refresh token for a new access token and refresh token',
+          'POST /api/auth/logout': 'Log out of the current session',
+          'POST /api/auth/logout-all': 'Log out of all devices',
+          'GET /api/auth/sessions': 'List signed-in devices',
+          'DELETE /api/auth/sessions/:sessionId': 'Sign out one device',
+          'POST /api/users/:id/revoke-sessions': 'Sign a user out of every device (superadmin)',
+          'POST /api/users/:id/unlock': 'Lift a login lockout on a user account (superadmin)',
+          'POST /api/auth/login/2fa': 'Second login step: challenge token plus TOTP or backup code',
+          'POST /api/auth/2fa/setup': 'Start TOTP enrollment; returns the secret and otpauth URI',
+          'POST /api/auth/2fa/enable': 'Confirm enrollment with a code; returns backup codes once',
+          'POST /api/auth/2fa/disable': 'Turn two-factor off with password and code',
+          'POST /api/auth/2fa/backup-codes': 'Replace backup codes',
+          'POST /api/users/:id/reset-two-factor': 'Reset a user\'s two-factor after a lost device (superadmin)'
         },
         products: {
           'GET /api/products': 'Get all products with pagination',
           'GET /api/products/:id': 'Get product by ID',
           'POST /api/products': 'Create new product (admin)',
           'PUT /api/products/:id': 'Update product (admin)',
-          'DELETE /api/products/:id': 'Delete product (admin)'
+          'DELETE /api/products/:id': 'Delete product (admin)',
+          'POST /api/products/:id/variants': 'Add a variant with its own SKU, prices and stock (admin)',
+          'PUT /api/products/:id/variants/:variantId': 'Update a variant (admin)',
+          'DELETE /api/products/:id/variants/:variantId': 'Remove or deactivate a variant (admin)',
+          'GET /api/products/search': 'Search products with typo tolerance, facets (category, brand, price band) and cursor pagination',
+          'GET /api/products/barcode/:code': 'Look up a scanned barcode; franchise tokens get their own price and stock',
+          'POST /api/products/barcodes/labels': 'Print EAN-13 labels as SVG or PDF, issuing in-store codes where missing (admin)',
+          'GET /api/products/reports/price-violations': 'Products and variants whose prices break cost ≤ selling ≤ MRP (admin)'
         },
         users: {
           'GET /api/users': 'Get all users (admin)',
@@ -160,8 +219,30 @@ if (process.env.NODE_ENV === 'development') {
         orders: {
           'GET /api/orders': 'Get user orders',
           'POST /api/orders': 'Create new order',
+          'POST /api/orders/checkout': 'Place an order from the current cart, applying its promotions and coupon',
           'GET /api/orders/:id': 'Get order by ID',
-          'PUT /api/orders/:id': 'Update order status (admin)'
+          'PUT /api/orders/:id': 'Update order status (admin)',
+          'GET /api/orders/:id/refunds': 'Get refund ledger for an order',
+          'POST /api/orders/:id/refunds': 'Refund selected items (admin)',
+          'POST /api/orders/:id/refunds/full': 'Refund the remaining order balance (admin)',
+          'GET /api/orders/:id/invoice': 'Get GST tax invoice for an order (?format=html to download)',
+          'GET /api/franchise-transfers/:id/invoice': 'Get GST tax invoice for a delivered transfer (?format=html to download)'
+        },
+        promotions: {
+          'GET /api/promotions': 'List promotions (?status=live|scheduled|expired|inactive, ?type)',
+          'POST /api/promotions': 'Create a coupon or automatic offer: percentage, flat or buy-X-get-Y (admin)',
+          'GET /api/promotions/reports/summary': 'Discount given, orders and refunds per promotion (admin)',
+          'GET /api/promotions/:id': 'Get a promotion with its scope',
+          'PUT /api/promotions/:id': 'Update a promotion (admin)',
+          'DELETE /api/promotions/:id': 'Delete a promotion, or deactivate it once used (admin)',
+          'GET /api/promotions/:id/redemptions': 'Redemptions of a promotion with totals (admin)',
+          'POST /api/cart/cart/coupon': 'Apply a coupon code to the cart',
+          'DELETE /api/cart/cart/coupon': 'Remove the coupon from the cart'
+        },
+        payments: {
+          'POST /api/payments/orders/:orderId/initiate': 'Start an online payment for an order',
+          'POST /api/payments/orders/:orderId/confirm': 'Confirm a payment with the provider signature',
+          'POST /api/payments/webhook/:provider': 'Signed payment provider webhook'
         },
         shops: {
           'GET /api/shops': 'Get all shops',
@@ -175,11 +256,104 @@ if (process.env.NODE_ENV === 'development') {
           'PUT /api/categories/:id': 'Update category (admin)'
         },
         franchises: {
-          'POST /api/franchise/auth/login': 'Login franchise and get token',
+          'POST /api/franchise/auth/login': 'Login franchise and get an access token and refresh token',
+          'POST /api/franchise/auth/refresh': 'Exchange a franchise refresh token for a new token pair',
+          'POST /api/franchise/auth/logout': 'Log the franchise out of the current session',
+          'POST /api/franchise/auth/logout-all': 'Log the franchise out of all devices',
+          'GET /api/franchise/auth/sessions': 'List the franchise\'s signed-in devices',
+          'DELETE /api/franchise/auth/sessions/:sessionId': 'Sign out one franchise device',
           'GET /api/franchises': 'Get all franchises',
           'POST /api/franchises': 'Create franchise (admin)',
           'PUT /api/franchises/:id': 'Update franchise (admin)',
-          'DELETE /api/franchises/:id': 'Delete franchise (admin)'
+          'DELETE /api/franchises/:id': 'Delete franchise (admin)',
+          'POST /api/franchises/:id/unlock': 'Lift a login lockout on a franchise account (admin)'
+        },
+        permissions: {
+          'GET /api/permissions': 'Get the permission registry by group, with the routes each permission unlocks (superadmin)',
+          'GET /api/permissions/matrix': 'Get the role × permission matrix for superadmins, employee roles and user roles (superadmin)'
+        },
+        employees: {
+          'POST /api/employees/auth/login': 'Login employee; the token carries the permissions of the employee\'s role',
+          'GET /api/employees/auth/me': 'Get the logged-in employee and their permissions',
+          'POST /api/employees/auth/change-password': 'Change the logged-in employee\'s password',
+          'POST /api/employees/auth/refresh': 'Exchange an employee refresh token for a new token pair',
+          'POST /api/employees/auth/logout': 'Log the employee out of the current session',
+          'POST /api/employees/:id/unlock': 'Lift a login lockout on an employee account (employee:update)'
+        },
+        inventory: {
+          'GET /api/inventory': 'List central stock movements (ledger)',
+          'GET /api/inventory/summary': 'Stock movement totals by type, for shrinkage reconciliation',
+          'GET /api/inventory/product/:productId/history': 'Get ledger history for a product',
+          'POST /api/inventory/adjustments': 'Record a manual adjustment, damage or expiry write-off'
+        },
+        warehouses: {
+          'GET /api/warehouses': 'List warehouses',
+          'POST /api/warehouses': 'Create a warehouse',
+          'GET /api/warehouses/:id': 'Get a warehouse with stock totals',
+          'PUT /api/warehouses/:id': 'Update a warehouse',
+          'GET /api/warehouses/:id/stock': 'Get stock held at a warehouse',
+          'POST /api/warehouses/:id/stock/allocate': 'Place unallocated central stock into a warehouse',
+          'GET /api/warehouses/availability/:productId': 'Get a product\'s stock across warehouses'
+        },
+        purchaseOrders: {
+          'GET /api/purchase-orders': 'List purchase orders',
+          'POST /api/purchase-orders': 'Raise a purchase order against a vendor',
+          'PUT /api/purchase-orders/:id': 'Edit a draft purchase order',
+          'PATCH /api/purchase-orders/:id/status': 'Send, cancel or close a purchase order',
+          'POST /api/purchase-orders/:id/receipts': 'Record a goods receipt (GRN) that raises product stock',
+          'GET /api/purchase-orders/goods-receipts': 'List goods receipts',
+          'GET /api/purchase-orders/payables': 'Outstanding payables by vendor',
+          'GET /api/purchase-orders/payables/:vendorId': 'Vendor payable statement',
+          'POST /api/purchase-orders/payments': 'Record a payment to a vendor'
+        },
+        franchiseTransfers: {
+          'POST /api/franchise-transfers/franchise-to-franchise': 'Send stock from one franchise to another',
+          'GET /api/franchise-transfers/my-transfers': 'Get transfers the franchise sends or receives (?direction=inbound|outbound)',
+          'PATCH /api/franchise-transfers/:id/receive': 'Receive a transfer with received/damaged quantities per line (franchise)',
+          'GET /api/franchise-transfers/:id/discrepancies': 'Get receipt discrepancies raised on a transfer',
+          'GET /api/franchise-transfers/discrepancies': 'List receipt discrepancies (admin)',
+          'PATCH /api/franchise-transfers/discrepancies/:discrepancyId/approve': 'Approve a discrepancy and credit the shortfall (admin)',
+          'PATCH /api/franchise-transfers/discrepancies/:discrepancyId/reject': 'Reject a discrepancy; missing units stay outstanding (admin)'
+        },
+        cycleCounts: {
+          'POST /api/franchise/cycle-counts': 'Open a cycle count with a snapshot of expected stock (franchise)',
+          'GET /api/franchise/cycle-counts': 'List cycle counts',
+          'GET /api/franchise/cycle-counts/:id': 'Get a cycle count with its lines',
+          'GET /api/franchise/cycle-counts/:id/variance-report': 'Get the variance report for a cycle count',
+          'PATCH /api/franchise/cycle-counts/:id/counts': 'Enter counted quantities by line or code (franchise)',
+          'POST /api/franchise/cycle-counts/:id/scan': 'Add a barcode scan to the running count (franchise)',
+          'POST /api/franchise/cycle-counts/:id/submit': 'Submit a count for approval (franchise)',
+          'POST /api/franchise/cycle-counts/:id/cancel': 'Cancel a count in progress (franchise)',
+          'PATCH /api/franchise/cycle-counts/:id/approve': 'Approve a count and post stock adjustments (admin)',
+          'PATCH /api/franchise/cycle-counts/:id/reject': 'Reject a count without adjusting stock (admin)'
+        },
+        priceLists: {
+          'GET /api/franchise/price-lists': 'List price lists (admin)',
+          'POST /api/franchise/price-lists': 'Create a price list assigned to franchises, cities or franchise types (admin)',
+          'GET /api/franchise/price-lists/mine': 'Get the price list the franchise follows, with current and upcoming prices (franchise)',
+          'POST /api/franchise/price-lists/apply-due': 'Apply scheduled price changes that are due now (admin)',
+          'GET /api/franchise/price-lists/:id': 'Get a price list with the prices it sets (admin)',
+          'PUT /api/franchise/price-lists/:id': 'Update a price list or its assignment (admin)',
+          'POST /api/franchise/price-lists/:id/prices': 'Schedule a price change from an effective date (admin)',
+          'GET /api/franchise/price-lists/:id/prices/history': 'Price change history for a list (admin)',
+          'POST /api/franchise/price-lists/:id/prices/:changeId/cancel': 'Cancel a scheduled price change (admin)'
+        },
+        franchiseInventory: {
+          'GET /api/franchise/inventory/lots': 'Get stock lots on hand in FEFO order (franchise)',
+          'GET /api/franchise/inventory/reports/near-expiry': 'Get expired and near-expiry lots (franchise)',
+          'POST /api/franchise/inventory/lots/write-off-expired': 'Write off expired lots now (franchise)',
+          'GET /api/franchise/inventory/reorder/suggestions': 'Get reorder suggestions from sales velocity (franchise)',
+          'POST /api/franchise/inventory/reorder/request': 'Raise a transfer request from reorder suggestions (franchise)',
+          'GET /api/franchise/inventory/reorder/settings': 'Get lead time and safety stock settings (franchise)',
+          'PUT /api/franchise/inventory/reorder/settings': 'Update lead time and safety stock settings (franchise)'
+        },
+        franchisePos: {
+          'POST /api/franchise/pos/sales': 'Create a counter sale (franchise)',
+          'GET /api/franchise/pos/sales': 'Get sales by business day (franchise)',
+          'POST /api/franchise/pos/sales/:id/void': 'Void a sale from an open day (franchise)',
+          'GET /api/franchise/pos/z-reports/preview': 'Preview running day totals (franchise)',
+          'POST /api/franchise/pos/z-reports': 'Close the business day with a Z-report (franchise)',
+          'GET /api/franchise/pos/z-reports': 'Get Z-reports (franchise)'
         }
       },
       authentication: {
@@ -239,6 +413,8 @@ console.log('- CORS_ORIGIN:', allowedOrigins);
 mongoose.connect(MONGODB_URI)
   .then(() => {
     console.log('Connected to MongoDB');
+    scheduleExpiredStockWriteOff();
+    schedulePriceChanges();
     app.listen(PORT, () => {
       console.log(`Server running on port ${PORT}`);
       console.log(`Environment: ${process.env.NODE_ENV}`);
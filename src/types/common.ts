@@ -5,6 +5,12 @@ export interface ITimestamps {
   updatedAt: Date;
 }
 
+// Who performed a staff action; employees live in their own collection, so they are recorded under separate *Employee references
+export interface IStaffActor {
+  id?: Types.ObjectId;
+  isEmployee?: boolean;
+}
+
 export interface IAddress {
   street?: string;
   city?: string;
@@ -13,6 +19,11 @@ export interface IAddress {
   country?: string;
 }
 
+export interface IGeoPoint {
+  latitude: number;
+  longitude: number;
+}
+
 export interface ISEO {
   title?: string;
   description?: string;
@@ -3,10 +3,16 @@ import type { Response as ExpressResponse } from 'express-serve-static-core';
 import type { NextFunction as ExpressNextFunction } from 'express-serve-static-core';
 import { IUserDocument } from '../models/User/User';
 import { IShopDocument } from '../models/Shop/Shop';
+import { IEmployeeDocument } from '../models/Employee/Employee';
+import { Types } from 'mongoose';
 
 export interface AuthRequest extends ExpressRequest {
   user?: IUserDocument;
   shop?: IShopDocument;
+  sessionId?: Types.ObjectId; // Session the access token belongs to
+  employee?: IEmployeeDocument; // Set instead of user when an employee token is used
+  employeePermissions?: string[]; // Permissions of the employee's role
+  rawBody?: Buffer;
   headers: ExpressRequest['headers'];
   body: any;
   params: any;
@@ -3,12 +3,17 @@ import type { Request as ExpressRequest } from 'express-serve-static-core';
 import type { Response as ExpressResponse } from 'express-serve-static-core';
 import { IUserDocument } from '../models/User/User';
 import { IShopDocument } from '../models/Shop/Shop';
+import { IEmployeeDocument } from '../models/Employee/Employee';
 
 export interface AuthRequest extends ExpressRequest {
   user?: IUserDocument;
   shop?: IShopDocument;
   franchiseId?: Types.ObjectId;
   userType?: 'admin' | 'franchise';
+  sessionId?: Types.ObjectId; // Session the access token belongs to
+  employee?: IEmployeeDocument; // Set instead of user when an employee token is used
+  employeePermissions?: string[]; // Permissions of the employee's role
+  rawBody?: Buffer;
   headers: ExpressRequest['headers'];
   body: any;
   params: any;
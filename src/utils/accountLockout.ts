@@ -0,0 +1,147 @@
+import { Document, Model, Types } from 'mongoose';
+import Settings from '../models/Settings';
+import { sendEmail } from './email';
+
+export type LockoutRealm = 'user' | 'franchise' | 'employee';
+
+// Lockout thresholds (Settings 'security' category)
+export interface ILockoutPolicy {
+  maxLoginAttempts: number;          // Failed logins in a row that lock the account
+  lockoutDuration: number;           // Minutes the first lockout lasts
+  lockoutBackoffMultiplier: number;  // Each further lockout lasts this many times longer
+  maxLockoutDuration: number;        // Longest a lockout may last, in minutes
+}
+
+export const DEFAULT_LOCKOUT_POLICY: ILockoutPolicy = {
+  maxLoginAttempts: 5,
+  lockoutDuration: 15,
+  lockoutBackoffMultiplier: 2,
+  maxLockoutDuration: 24 * 60
+};
+
+// Fields every account that can be locked out carries
+export interface ILockableAccount extends Document {
+  _id: Types.ObjectId;
+  email?: string;
+  loginAttempts: number;
+  lockUntil?: Date;
+  lockCount: number; // Lockouts since the last successful login, for backoff
+}
+
+const REALM_LABELS: Record<LockoutRealm, string> = {
+  user: 'BharatMart account',
+  franchise: 'BharatMart franchise account',
+  employee: 'BharatMart employee account'
+};
+
+export const getLockoutPolicy = async (): Promise<ILockoutPolicy> => {
+  const settings = await Settings.getCategorySettings('security');
+  const values: Record<string, any> = {};
+  settings.forEach(setting => {
+    values[setting.key] = setting.value;
+  });
+
+  const policy = { ...DEFAULT_LOCKOUT_POLICY };
+  (Object.keys(policy) as Array<keyof ILockoutPolicy>).forEach(key => {
+    const value = Number(values[key]);
+    if (values[key] !== undefined && Number.isFinite(value) && value > 0) {
+      policy[key] = value;
+    }
+  });
+  return policy;
+};
+
+// How long the next lockout lasts: the base duration, multiplied for every earlier one, up to the cap
+export const getLockoutDurationMs = (policy: ILockoutPolicy, previousLockouts: number): number => {
+  const minutes = Math.min(
+    policy.lockoutDuration * Math.pow(policy.lockoutBackoffMultiplier, previousLockouts),
+    policy.maxLockoutDuration
+  );
+  return minutes * 60 * 1000;
+};
+
+export const isAccountLocked = (account: Pick<ILockableAccount, 'lockUntil'>, at: Date = new Date()): boolean =>
+  !!account.lockUntil && account.lockUntil > at;
+
+// Body for a 423 response to a login on a locked account
+export const buildLockedResponse = (lockUntil: Date) => ({
+  success: false,
+  error: `Account is locked after too many failed login attempts. Try again after ${lockUntil.toISOString()}.`,
+  lockedUntil: lockUntil
+});
+
+// Lockout emails are best effort: a mail failure must not change the login outcome
+const notifyLockout = async (account: ILockableAccount, realm: LockoutRealm, name: string, policy: ILockoutPolicy) => {
+  if (!account.email || !account.lockUntil) {
+    return;
+  }
+
+  try {
+    await sendEmail({
+      to: account.email,
+      template: 'accountLocked',
+      data: {
+        name,
+        account: REALM_LABELS[realm],
+        attempts: policy.maxLoginAttempts,
+        lockedUntil: account.lockUntil.toUTCString()
+      }
+    });
+  } catch (error) {
+    console.error(`Lockout notification error for ${realm} ${account._id}:`, error);
+  }
+};
+
+/**
+ * Count a failed login and lock the account once the policy's limit is
+ * reached, emailing the owner. Returns when the account is locked until, or
+ * null while it is still open.
+ */
+export const recordFailedLogin = async (
+  account: ILockableAccount,
+  realm: LockoutRealm,
+  name: string
+): Promise<Date | null> => {
+  const policy = await getLockoutPolicy();
+  const AccountModel = account.$model<Model<ILockableAccount>>();
+
+  const counted = await AccountModel.findOneAndUpdate(
+    { _id: account._id },
+    { $inc: { loginAttempts: 1 } },
+    { new: true }
+  );
+  if (!counted || counted.loginAttempts < policy.maxLoginAttempts) {
+    return null;
+  }
+
+  // Conditional so that of several failures racing past the limit, only one locks and emails
+  const lockUntil = new Date(Date.now() + getLockoutDurationMs(policy, counted.lockCount || 0));
+  const locked = await AccountModel.findOneAndUpdate(
+    { _id: account._id, loginAttempts: { $gte: policy.maxLoginAttempts } },
+    { $set: { loginAttempts: 0, lockUntil }, $inc: { lockCount: 1 } },
+    { new: true }
+  );
+  if (!locked) {
+    const current = await AccountModel.findById(account._id).select('lockUntil');
+    return current && isAccountLocked(current) ? current.lockUntil! : null;
+  }
+
+  await notifyLockout(locked, realm, name, policy);
+  return lockUntil;
+};
+
+// Clear failed attempts and lockout history after a successful login
+export const recordSuccessfulLogin = async (account: ILockableAccount): Promise<void> => {
+  if (!account.loginAttempts && !account.lockCount && !account.lockUntil) {
+    return;
+  }
+  await unlockAccount(account);
+};
+
+// Lift a lockout and forget earlier ones, e.g. when an admin unlocks the account
+export const unlockAccount = async (account: ILockableAccount): Promise<void> => {
+  await account.updateOne({
+    $set: { loginAttempts: 0, lockCount: 0 },
+    $unset: { lockUntil: 1 }
+  });
+};
@@ -0,0 +1,172 @@
+import crypto from 'crypto';
+import jwt from 'jsonwebtoken';
+import { Types } from 'mongoose';
+import Session, { ISessionDocument, SessionRealm } from '../models/Auth/Session';
+import { AuthRequest } from '../types/routes';
+
+export interface ITokenPair {
+  token: string;         // Short-lived access token (JWT)
+  refreshToken: string;  // Opaque token that buys a new pair; single use
+  expiresIn: number;     // Seconds until the access token expires
+}
+
+/**
+ * Raised when a refresh token cannot be used: unknown, expired, revoked or
+ * replayed after rotation. statusCode is the HTTP status the route should
+ * answer with.
+ */
+export class SessionError extends Error {
+  constructor(message: string, public statusCode: number = 401) {
+    super(message);
+    this.name = 'SessionError';
+  }
+}
+
+// Secret for signing and verifying access tokens; the server refuses to start without it
+export const getJwtSecret = (): string => {
+  const secret = process.env.JWT_SECRET;
+  if (!secret) {
+    throw new Error('JWT_SECRET is not set');
+  }
+  return secret;
+};
+
+const getAccessTokenTtlSeconds = (): number => parseInt(process.env.ACCESS_TOKEN_TTL_MINUTES || '15') * 60;
+
+const getRefreshTokenTtlMs = (): number => parseInt(process.env.REFRESH_TOKEN_TTL_DAYS || '30') * 24 * 60 * 60 * 1000;
+
+const hashToken = (token: string): string => crypto.createHash('sha256').update(token).digest('hex');
+
+// Refresh tokens are "<session id>.<random secret>" so the session can be found without a scan
+const buildRefreshToken = (sessionId: Types.ObjectId | string): string =>
+  `${sessionId.toString()}.${crypto.randomBytes(32).toString('hex')}`;
+
+// Sign an access token for a session; payload is the realm's usual claims
+export const signAccessToken = (payload: object, session: ISessionDocument): Omit<ITokenPair, 'refreshToken'> => {
+  const expiresIn = getAccessTokenTtlSeconds();
+  const token = jwt.sign({ ...payload, sid: session._id.toString() }, getJwtSecret(), { expiresIn });
+  return { token, expiresIn };
+};
+
+// Decode and check an access token's signature and expiry; throws jwt errors as jwt.verify does
+export const verifyAccessToken = <T extends object>(token: string): T & { sid?: string } =>
+  jwt.verify(token, getJwtSecret()) as T & { sid?: string };
+
+/**
+ * Start a session for a signed-in account and issue its first token pair.
+ * The device's user agent and IP are kept so the account holder can tell
+ * their sessions apart.
+ */
+export const createSession = async (
+  realm: SessionRealm,
+  subject: Types.ObjectId,
+  payload: object,
+  req: AuthRequest
+): Promise<ITokenPair & { session: ISessionDocument }> => {
+  const userAgent = req.headers['user-agent'];
+  const session = new Session({
+    realm,
+    subject,
+    userAgent: userAgent ? userAgent.slice(0, 500) : undefined,
+    ip: req.ip,
+    expiresAt: new Date(Date.now() + getRefreshTokenTtlMs())
+  });
+  const refreshToken = buildRefreshToken(session._id);
+  session.refreshTokenHash = hashToken(refreshToken);
+  await session.save();
+
+  return { ...signAccessToken(payload, session), refreshToken, session };
+};
+
+/**
+ * Swap a refresh token for a new one. Each refresh token works once: a token
+ * that was already rotated away is being replayed, possibly by someone who
+ * stole it, so the whole session is revoked and both parties must log in again.
+ */
+export const rotateRefreshToken = async (
+  refreshToken: string,
+  realm: SessionRealm
+): Promise<{ session: ISessionDocument; refreshToken: string }> => {
+  const [sessionId] = refreshToken.split('.');
+  if (!Types.ObjectId.isValid(sessionId)) {
+    throw new SessionError('Invalid refresh token');
+  }
+
+  const now = new Date();
+  const nextToken = buildRefreshToken(sessionId);
+  const session = await Session.findOneAndUpdate(
+    { _id: sessionId, realm, refreshTokenHash: hashToken(refreshToken), revokedAt: null, expiresAt: { $gt: now } },
+    { refreshTokenHash: hashToken(nextToken), lastUsedAt: now },
+    { new: true }
+  );
+  if (session) {
+    return { session, refreshToken: nextToken };
+  }
+
+  const replayed = await Session.findOneAndUpdate(
+    { _id: sessionId, realm, revokedAt: null, expiresAt: { $gt: now } },
+    { revokedAt: now, revokedReason: 'refresh_token_reuse' }
+  );
+  throw new SessionError(replayed
+    ? 'Refresh token has already been used; the session has been ended for safety'
+    : 'Session has expired or been revoked');
+};
+
+// End one session, e.g. on logout
+export const revokeSession = async (sessionId: Types.ObjectId | string, reason: string): Promise<boolean> => {
+  const result = await Session.updateOne({ _id: sessionId, revokedAt: null }, { revokedAt: new Date(), revokedReason: reason });
+  return result.modifiedCount > 0;
+};
+
+// An account's live sessions, most recently refreshed first, flagging the one making the request
+export const listSessions = async (
+  realm: SessionRealm,
+  subject: Types.ObjectId,
+  currentSessionId?: Types.ObjectId
+) => {
+  const sessions = await Session.find({ realm, subject, revokedAt: null, expiresAt: { $gt: new Date() } })
+    .sort({ lastUsedAt: -1 });
+
+  return sessions.map(session => ({
+    _id: session._id,
+    userAgent: session.userAgent,
+    ip: session.ip,
+    createdAt: session.createdAt,
+    lastUsedAt: session.lastUsedAt,
+    expiresAt: session.expiresAt,
+    isCurrent: !!currentSessionId && session._id.equals(currentSessionId)
+  }));
+};
+
+export type ChallengePurpose = '2fa_login' | '2fa_setup';
+
+const CHALLENGE_TOKEN_TTL_SECONDS = 5 * 60;
+const CHALLENGE_AUDIENCE = 'login-challenge';
+
+/**
+ * Short-lived token showing a login got past the password, issued while a
+ * second factor is still owed. It carries no session, so the auth middleware
+ * never accepts it as an access token.
+ */
+export const signChallengeToken = (userId: Types.ObjectId, purpose: ChallengePurpose) => ({
+  challengeToken: jwt.sign({ userId: userId.toString(), purpose }, getJwtSecret(), {
+    expiresIn: CHALLENGE_TOKEN_TTL_SECONDS,
+    audience: CHALLENGE_AUDIENCE
+  }),
+  expiresIn: CHALLENGE_TOKEN_TTL_SECONDS
+});
+
+// The user ID a challenge token was issued to; throws SessionError if it is invalid, expired or for another step
+export const verifyChallengeToken = (token: string, purpose: ChallengePurpose): string => {
+  try {
+    const decoded = jwt.verify(token, getJwtSecret(), { audience: CHALLENGE_AUDIENCE }) as { userId: string; purpose: string };
+    if (decoded.purpose === purpose) {
+      return decoded.userId;
+    }
+  } catch (error) {
+    if (!(error instanceof jwt.JsonWebTokenError)) {
+      throw error;
+    }
+  }
+  throw new SessionError('Login challenge is invalid or has expired; please log in again');
+};
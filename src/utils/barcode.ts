@@ -0,0 +1,72 @@
+// GS1 "restricted circulation" prefix for codes issued in-store rather than by a manufacturer
+export const IN_STORE_BARCODE_PREFIX = '200';
+
+const GTIN_LENGTHS = [8, 12, 13, 14];
+
+// Left-hand odd-parity (L) patterns; R is the complement of L and G is R reversed
+const L_PATTERNS = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const R_PATTERNS = L_PATTERNS.map(pattern => pattern.replace(/./g, bit => (bit === '1' ? '0' : '1')));
+const G_PATTERNS = R_PATTERNS.map(pattern => pattern.split('').reverse().join(''));
+
+// Parity of the six left-hand digits, chosen by the first (implied) digit
+const FIRST_DIGIT_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+// Strip spaces and dashes scanners and spreadsheets sometimes leave in
+export const normaliseBarcode = (code: string): string => String(code).replace(/[\s-]/g, '');
+
+// GS1 mod-10 check digit for the digits of a GTIN without its check digit
+export const computeGtinCheckDigit = (payload: string): number => {
+  const sum = payload
+    .split('')
+    .reverse()
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+// True for a GTIN-8/12/13/14 (EAN-8, UPC-A, EAN-13, ITF-14) with a correct check digit
+export const isValidGtin = (code: string): boolean => {
+  const value = normaliseBarcode(code);
+  if (!/^\d+$/.test(value) || !GTIN_LENGTHS.includes(value.length)) {
+    return false;
+  }
+  return computeGtinCheckDigit(value.slice(0, -1)) === Number(value.slice(-1));
+};
+
+export const isValidEan13 = (code: string): boolean => {
+  const value = normaliseBarcode(code);
+  return value.length === 13 && isValidGtin(value);
+};
+
+// Build an in-store EAN-13 from a running sequence number
+export const buildInStoreEan13 = (sequence: number): string => {
+  const payload = IN_STORE_BARCODE_PREFIX + String(sequence).padStart(12 - IN_STORE_BARCODE_PREFIX.length, '0');
+  if (payload.length !== 12) {
+    throw new Error('In-store barcode range is exhausted');
+  }
+  return payload + computeGtinCheckDigit(payload);
+};
+
+/**
+ * Encode an EAN-13 as its 95 modules ('1' bar, '0' space): start guard, six
+ * left digits in L/G parity, centre guard, six right digits in R, end guard.
+ */
+export const encodeEan13 = (code: string): string => {
+  const value = normaliseBarcode(code);
+  if (!isValidEan13(value)) {
+    throw new Error(`${code} is not a valid EAN-13`);
+  }
+
+  const digits = value.split('').map(Number);
+  const parity = FIRST_DIGIT_PARITY[digits[0]];
+
+  const left = digits.slice(1, 7)
+    .map((digit, index) => (parity[index] === 'L' ? L_PATTERNS[digit] : G_PATTERNS[digit]))
+    .join('');
+  const right = digits.slice(7).map(digit => R_PATTERNS[digit]).join('');
+
+  return `101${left}01010${right}101`;
+};
+
+// Module positions that belong to the start, centre and end guards, drawn taller
+export const isEan13GuardModule = (index: number): boolean =>
+  index < 3 || (index >= 45 && index < 50) || index >= 92;
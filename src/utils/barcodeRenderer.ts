@@ -0,0 +1,195 @@
+import { encodeEan13, isEan13GuardModule } from './barcode';
+
+export interface IBarcodeLabel {
+  barcode: string;  // EAN-13
+  title: string;
+  subtitle?: string; // Variant name or SKU
+  price?: number;
+}
+
+type LabelShape =
+  | { kind: 'bar'; x: number; y: number; width: number; height: number }
+  | { kind: 'text'; x: number; y: number; size: number; text: string; anchor: 'start' | 'middle' };
+
+// Label sheet laid out in points: three columns of 190 x 100pt labels on A4
+const PAGE_WIDTH = 595;
+const PAGE_HEIGHT = 842;
+const MARGIN = 12;
+const COLUMNS = 3;
+const ROWS_PER_PAGE = 8;
+const LABEL_WIDTH = 190;
+const LABEL_HEIGHT = 100;
+const MODULE_WIDTH = 1.4;
+const BAR_HEIGHT = 42;
+const GUARD_EXTENSION = 5;
+
+const escapeXml = (value: string): string =>
+  value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const truncate = (value: string, length: number): string =>
+  value.length > length ? `${value.slice(0, length - 1)}…` : value;
+
+const formatPrice = (value: number): string =>
+  `Rs. ${value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+
+// Shapes of one label, with (x, y) its top-left corner and y growing downwards
+const layoutLabel = (label: IBarcodeLabel, x: number, y: number): LabelShape[] => {
+  const shapes: LabelShape[] = [];
+  const centre = x + LABEL_WIDTH / 2;
+  const modules = encodeEan13(label.barcode);
+  const barsLeft = centre - (modules.length * MODULE_WIDTH) / 2;
+  const barsTop = y + 30;
+
+  shapes.push({ kind: 'text', x: centre, y: y + 12, size: 8, text: truncate(label.title, 40), anchor: 'middle' });
+  if (label.subtitle) {
+    shapes.push({ kind: 'text', x: centre, y: y + 22, size: 7, text: truncate(label.subtitle, 45), anchor: 'middle' });
+  }
+
+  // Merge runs of dark modules into single bars
+  let index = 0;
+  while (index < modules.length) {
+    if (modules[index] !== '1') {
+      index++;
+      continue;
+    }
+    const start = index;
+    while (index < modules.length && modules[index] === '1') {
+      index++;
+    }
+    shapes.push({
+      kind: 'bar',
+      x: barsLeft + start * MODULE_WIDTH,
+      y: barsTop,
+      width: (index - start) * MODULE_WIDTH,
+      height: BAR_HEIGHT + (isEan13GuardModule(start) ? GUARD_EXTENSION : 0)
+    });
+  }
+
+  // Human-readable digits: the first outside the bars, then two groups of six
+  const textY = barsTop + BAR_HEIGHT + 9;
+  shapes.push({ kind: 'text', x: barsLeft - 7, y: textY, size: 8, text: label.barcode[0], anchor: 'start' });
+  shapes.push({ kind: 'text', x: barsLeft + 24 * MODULE_WIDTH, y: textY, size: 8, text: label.barcode.slice(1, 7), anchor: 'middle' });
+  shapes.push({ kind: 'text', x: barsLeft + 71 * MODULE_WIDTH, y: textY, size: 8, text: label.barcode.slice(7), anchor: 'middle' });
+
+  if (label.price !== undefined) {
+    shapes.push({ kind: 'text', x: centre, y: textY + 11, size: 8, text: formatPrice(label.price), anchor: 'middle' });
+  }
+
+  return shapes;
+};
+
+const labelOrigin = (slot: number): { x: number; y: number } => ({
+  x: MARGIN + (slot % COLUMNS) * (LABEL_WIDTH + 3),
+  y: MARGIN + Math.floor(slot / COLUMNS) * (LABEL_HEIGHT + 3)
+});
+
+/**
+ * Render labels as one SVG sheet, three to a row, sized in points so it
+ * prints at the same scale as the PDF.
+ */
+export const renderBarcodeSvg = (labels: IBarcodeLabel[]): string => {
+  const rows = Math.max(1, Math.ceil(labels.length / COLUMNS));
+  const height = MARGIN * 2 + rows * (LABEL_HEIGHT + 3);
+
+  const elements = labels
+    .flatMap((label, slot) => {
+      const { x, y } = labelOrigin(slot);
+      return layoutLabel(label, x, y);
+    })
+    .map(shape => (shape.kind === 'bar'
+      ? `<rect x="${shape.x.toFixed(2)}" y="${shape.y.toFixed(2)}" width="${shape.width.toFixed(2)}" height="${shape.height}"/>`
+      : `<text x="${shape.x.toFixed(2)}" y="${shape.y.toFixed(2)}" font-size="${shape.size}" text-anchor="${shape.anchor}">${escapeXml(shape.text)}</text>`));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}pt" height="${height}pt" viewBox="0 0 ${PAGE_WIDTH} ${height}">`,
+    '<rect width="100%" height="100%" fill="#fff"/>',
+    '<g fill="#000" font-family="Helvetica, Arial, sans-serif">',
+    ...elements,
+    '</g>',
+    '</svg>'
+  ].join('\n');
+};
+
+// PDF strings are Latin-1 with ( ) \ escaped; anything else the base font cannot show becomes '?'
+const escapePdfText = (value: string): string =>
+  value
+    .replace(/…/g, '...')
+    .replace(/[^\x20-\x7e]/g, '?')
+    .replace(/([()\\])/g, '\\$1');
+
+// Rough Helvetica width, used to centre text since PDF has no text-anchor
+const approximateTextWidth = (text: string, size: number): number => text.length * size * 0.55;
+
+const renderPdfPage = (labels: IBarcodeLabel[]): string => labels
+  .flatMap((label, slot) => {
+    const { x, y } = labelOrigin(slot);
+    return layoutLabel(label, x, y);
+  })
+  .map(shape => {
+    if (shape.kind === 'bar') {
+      // PDF measures y from the bottom of the page
+      const bottom = PAGE_HEIGHT - shape.y - shape.height;
+      return `${shape.x.toFixed(2)} ${bottom.toFixed(2)} ${shape.width.toFixed(2)} ${shape.height} re f`;
+    }
+    const text = escapePdfText(shape.text);
+    const x = shape.anchor === 'middle' ? shape.x - approximateTextWidth(text, shape.size) / 2 : shape.x;
+    return `BT /F1 ${shape.size} Tf ${x.toFixed(2)} ${(PAGE_HEIGHT - shape.y).toFixed(2)} Td (${text}) Tj ET`;
+  })
+  .join('\n');
+
+/**
+ * Render labels as an A4 PDF, 24 labels a page. Written by hand (bars are
+ * filled rectangles, text uses the built-in Helvetica) so no PDF library is
+ * needed.
+ */
+export const renderBarcodePdf = (labels: IBarcodeLabel[]): Buffer => {
+  const perPage = COLUMNS * ROWS_PER_PAGE;
+  const pages: IBarcodeLabel[][] = [];
+  for (let start = 0; start < labels.length; start += perPage) {
+    pages.push(labels.slice(start, start + perPage));
+  }
+  if (pages.length === 0) {
+    pages.push([]);
+  }
+
+  // Objects 1-3 are the catalog, page tree and font; each page adds a page and a content stream
+  const objects: string[] = [];
+  const pageIds = pages.map((_, index) => 4 + index * 2);
+
+  objects[1] = '<< /Type /Catalog /Pages 2 0 R >>';
+  objects[2] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>`;
+  objects[3] = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>';
+
+  pages.forEach((pageLabels, index) => {
+    const pageId = pageIds[index];
+    const content = renderPdfPage(pageLabels);
+    objects[pageId] = `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      `/Resources << /Font << /F1 3 0 R >> >> /Contents ${pageId + 1} 0 R >>`;
+    objects[pageId + 1] = `<< /Length ${Buffer.byteLength(content, 'latin1')} >>\nstream\n${content}\nendstream`;
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets: number[] = [];
+  for (let id = 1; id < objects.length; id++) {
+    offsets[id] = Buffer.byteLength(pdf, 'latin1');
+    pdf += `${id} 0 obj\n${objects[id]}\nendobj\n`;
+  }
+
+  const xrefOffset = Buffer.byteLength(pdf, 'latin1');
+  pdf += `xref\n0 ${objects.length}\n0000000000 65535 f \n`;
+  for (let id = 1; id < objects.length; id++) {
+    pdf += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`;
+  }
+  pdf += `trailer\n<< /Size ${objects.length} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+  return Buffer.from(pdf, 'latin1');
+};
+
+// File name for downloaded labels
+export const getBarcodeLabelFileName = (format: 'svg' | 'pdf'): string =>
+  `barcode-labels-${new Date().toISOString().slice(0, 10)}.${format}`;
@@ -4,7 +4,7 @@ import fs from 'fs/promises';
 
 interface EmailOptions {
   to: string;
-  subject: string;
+  subject?: string;
   template: string;
   data: Record<string, any>;
 }
@@ -41,7 +41,10 @@ class EmailService {
       welcome: 'Welcome to BharatMart',
       orderConfirmation: 'Order Confirmation',
       orderShipped: 'Your order has been shipped',
-      orderDelivered: 'Your order has been delivered'
+      orderDelivered: 'Your order has been delivered',
+      orderCancelled: 'Your order has been cancelled',
+      orderRefunded: 'Your order has been refunded',
+      accountLocked: 'Your account has been locked'
     };
     return subjects[templateName] || 'BharatMart Notification';
   }
@@ -1,6 +1,7 @@
 import XLSX from 'xlsx';
 import { IFranchiseProduct } from '../models/Franchise/FranchiseProduct';
 import { WeightUnit, DimensionUnit, IProductWeight, IProductDimensions } from '../types/mongoose';
+import { checkPriceRules, IPricePoints } from './priceRules';
 
 interface ExcelValidationError {
   row: number;
@@ -20,6 +21,8 @@ interface ExcelProductData {
   category: string;
   brand?: string;
   price: number;
+  costPrice?: number;
+  mrp?: number;
   stock: number;
   minStock?: number;
   weightValue?: number;
@@ -33,9 +36,13 @@ interface ExcelProductData {
   isFeatured?: boolean;
 }
 
+// Optional price columns: a blank cell is no price rather than zero
+const toPrice = (value?: number): number | undefined =>
+  value === undefined || value === null || String(value) === '' ? undefined : Number(value);
+
 class ExcelProcessor {
   private static readonly REQUIRED_FIELDS = ['name', 'description', 'sku', 'category', 'price', 'stock'];
-  private static readonly NUMERIC_FIELDS = ['price', 'stock', 'minStock', 'weightValue', 'length', 'width', 'height'];
+  private static readonly NUMERIC_FIELDS = ['price', 'costPrice', 'mrp', 'stock', 'minStock', 'weightValue', 'length', 'width', 'height'];
   private static readonly WEIGHT_UNITS: WeightUnit[] = ['g', 'kg', 'lb', 'oz'];
   private static readonly DIMENSION_UNITS: DimensionUnit[] = ['cm', 'in', 'm', 'ft'];
 
@@ -46,7 +53,38 @@ class ExcelProcessor {
     return data;
   }
 
-  static validateProducts(products: ExcelProductData[]): ValidationResult {
+  // Rows whose price breaks cost ≤ selling ≤ MRP, by the sheet's own columns and by the catalogue's prices for the SKU
+  private static checkRowPrices(product: ExcelProductData, row: number, catalogue?: Map<string, IPricePoints>): ExcelValidationError[] {
+    const price = Number(product.price);
+    const errors: ExcelValidationError[] = checkPriceRules({
+      costPrice: toPrice(product.costPrice),
+      sellingPrice: price,
+      mrp: toPrice(product.mrp)
+    }).map(violation => ({
+      row,
+      field: violation.rule === 'cost_above_mrp' ? 'costPrice' : 'price',
+      message: violation.message
+    }));
+
+    const listed = catalogue?.get(String(product.sku));
+    if (listed) {
+      checkPriceRules({ costPrice: listed.costPrice, sellingPrice: price, mrp: listed.mrp })
+        .filter(violation => violation.rule !== 'cost_above_mrp')
+        .forEach(violation => errors.push({
+          row,
+          field: 'price',
+          message: `${violation.message} (catalogue price for ${product.sku})`
+        }));
+    }
+
+    return errors;
+  }
+
+  /**
+   * Validate imported rows. Pass the catalogue's cost price and MRP by SKU to
+   * also hold each row's price to the catalogue.
+   */
+  static validateProducts(products: ExcelProductData[], catalogue?: Map<string, IPricePoints>): ValidationResult {
     const validProducts: any[] = [];
     const errors: ExcelValidationError[] = [];
 
@@ -111,6 +149,11 @@ class ExcelProcessor {
         });
       }
 
+      // Validate prices once they are known to be numbers
+      if (!rowErrors.some(error => ['price', 'costPrice', 'mrp'].includes(error.field))) {
+        rowErrors.push(...this.checkRowPrices(product, index + 2, catalogue));
+      }
+
       // Process tags
       let tags: string[] = [];
       if (typeof product.tags === 'string') {
@@ -126,6 +169,8 @@ class ExcelProcessor {
           category: product.category,
           brand: product.brand,
           price: Number(product.price),
+          costPrice: toPrice(product.costPrice),
+          mrp: toPrice(product.mrp),
           stock: Number(product.stock),
           minStock: product.minStock ? Number(product.minStock) : 5,
           weight: product.weightValue ? {
@@ -160,6 +205,8 @@ class ExcelProcessor {
       category: product.category,
       brand: product.brand,
       price: product.price,
+      costPrice: product.costPrice,
+      mrp: product.mrp,
       stock: product.stock,
       minStock: product.minStock,
       weightValue: product.weight?.value,
@@ -188,6 +235,8 @@ class ExcelProcessor {
         category: 'Electronics',
         brand: 'Brand Name',
         price: 999.99,
+        costPrice: 850,
+        mrp: 1099,
         stock: 100,
         minStock: 10,
         weightValue: 1.5,
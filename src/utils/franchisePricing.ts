@@ -0,0 +1,110 @@
+import { Types } from 'mongoose';
+import Franchise from '../models/Franchise/Franchise';
+import { IFranchiseProductDocument } from '../models/Franchise/FranchiseProduct';
+import FranchiseTransfer from '../models/Franchise/FranchiseTransfer';
+import PriceChange, { IPriceChangeDocument } from '../models/Franchise/PriceChange';
+import PriceList, { IPriceListDocument } from '../models/Franchise/PriceList';
+import Product, { IProductDocument } from '../models/Product/Product';
+
+export interface IPriceBounds {
+  floor: number;          // Landed cost: what the franchise last paid per unit
+  ceiling: number | null; // MRP; null when the catalogue records none
+}
+
+export interface IListPrice {
+  priceList: IPriceListDocument;
+  change: IPriceChangeDocument;
+}
+
+/**
+ * Raised when a franchise price falls outside its bounds or is set by HQ;
+ * statusCode is the HTTP status the route should answer with.
+ */
+export class FranchisePriceError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'FranchisePriceError';
+  }
+}
+
+// Unit price on the most recent transfer that landed this product at the franchise
+const getLandedUnitPrice = async (franchiseProduct: IFranchiseProductDocument): Promise<number | null> => {
+  const transfer = await FranchiseTransfer.findOne({
+    franchise: franchiseProduct.franchise,
+    status: { $in: ['delivered', 'partially_received'] },
+    'items.franchiseProduct': franchiseProduct._id
+  })
+    .sort({ deliveredAt: -1, updatedAt: -1 })
+    .select('items.franchiseProduct items.unitPrice')
+    .lean();
+
+  const item = transfer?.items.find(entry => entry.franchiseProduct.equals(franchiseProduct._id));
+  return item ? item.unitPrice : null;
+};
+
+/**
+ * Lowest and highest price a franchise may sell a product at: never below the
+ * landed transfer price (the catalogue transfer price until stock has landed)
+ * and never above MRP.
+ */
+export const getPriceBounds = async (
+  franchiseProduct: IFranchiseProductDocument,
+  product?: IProductDocument | null
+): Promise<IPriceBounds> => {
+  const catalogueProduct = product || await Product.findById(franchiseProduct.bharatmartProduct);
+  const variant = franchiseProduct.variant || undefined;
+
+  const landed = await getLandedUnitPrice(franchiseProduct);
+  return {
+    floor: landed ?? catalogueProduct?.getTransferPrice(variant) ?? 0,
+    ceiling: catalogueProduct?.getMrp(variant) ?? null
+  };
+};
+
+// Why a price breaks its bounds, or null when it is allowed
+export const findPriceViolation = (price: number, bounds: IPriceBounds): string | null => {
+  if (price < bounds.floor) {
+    return `Selling price ${price} is below the landed cost of ${bounds.floor}`;
+  }
+  if (bounds.ceiling !== null && price > bounds.ceiling) {
+    return `Selling price ${price} is above the MRP of ${bounds.ceiling}`;
+  }
+  return null;
+};
+
+// Throw a FranchisePriceError if the price breaks the product's bounds
+export const checkFranchisePrice = async (
+  franchiseProduct: IFranchiseProductDocument,
+  price: number,
+  product?: IProductDocument | null
+): Promise<IPriceBounds> => {
+  const bounds = await getPriceBounds(franchiseProduct, product);
+  const violation = findPriceViolation(price, bounds);
+  if (violation) {
+    throw new FranchisePriceError(violation);
+  }
+  return bounds;
+};
+
+/**
+ * The price list a franchise follows and the price it currently sets for a
+ * product, or null when no list prices the product for that franchise.
+ */
+export const getListPrice = async (
+  franchiseId: Types.ObjectId | string,
+  productId: Types.ObjectId | string,
+  variantId?: Types.ObjectId | string | null
+): Promise<IListPrice | null> => {
+  const franchise = await Franchise.findById(franchiseId).select('city franchiseType');
+  if (!franchise) {
+    return null;
+  }
+
+  const priceList = await PriceList.findForFranchise(franchise);
+  if (!priceList) {
+    return null;
+  }
+
+  const change = await PriceChange.getCurrentPrice(priceList._id, productId, variantId);
+  return change ? { priceList, change } : null;
+};
@@ -0,0 +1,98 @@
+export const GST_RATES = [0, 0.25, 3, 5, 12, 18, 28];
+export const DEFAULT_GST_RATE = 18;
+
+// GST state codes as used in the first two digits of a GSTIN
+export const GST_STATE_CODES: Record<string, string> = {
+  '01': 'Jammu and Kashmir',
+  '02': 'Himachal Pradesh',
+  '03': 'Punjab',
+  '04': 'Chandigarh',
+  '05': 'Uttarakhand',
+  '06': 'Haryana',
+  '07': 'Delhi',
+  '08': 'Rajasthan',
+  '09': 'Uttar Pradesh',
+  '10': 'Bihar',
+  '11': 'Sikkim',
+  '12': 'Arunachal Pradesh',
+  '13': 'Nagaland',
+  '14': 'Manipur',
+  '15': 'Mizoram',
+  '16': 'Tripura',
+  '17': 'Meghalaya',
+  '18': 'Assam',
+  '19': 'West Bengal',
+  '20': 'Jharkhand',
+  '21': 'Odisha',
+  '22': 'Chhattisgarh',
+  '23': 'Madhya Pradesh',
+  '24': 'Gujarat',
+  '26': 'Dadra and Nagar Haveli and Daman and Diu',
+  '27': 'Maharashtra',
+  '29': 'Karnataka',
+  '30': 'Goa',
+  '31': 'Lakshadweep',
+  '32': 'Kerala',
+  '33': 'Tamil Nadu',
+  '34': 'Puducherry',
+  '35': 'Andaman and Nicobar Islands',
+  '36': 'Telangana',
+  '37': 'Andhra Pradesh',
+  '38': 'Ladakh'
+};
+
+export type GstSupplyType = 'intra_state' | 'inter_state';
+
+export interface GstSplit {
+  cgst: number;
+  sgst: number;
+  igst: number;
+  totalTax: number;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const normaliseStateName = (state: string): string =>
+  state.toLowerCase().replace(/&/g, 'and').replace(/[^a-z]/g, '');
+
+// Resolve a state name or two-digit code to its GST state code
+export const getStateCode = (state?: string): string | undefined => {
+  if (!state) {
+    return undefined;
+  }
+  const trimmed = state.trim();
+  if (/^\d{2}$/.test(trimmed)) {
+    return GST_STATE_CODES[trimmed] ? trimmed : undefined;
+  }
+
+  const wanted = normaliseStateName(trimmed);
+  return Object.keys(GST_STATE_CODES).find(code => normaliseStateName(GST_STATE_CODES[code]) === wanted);
+};
+
+// State code embedded in a GSTIN (first two digits)
+export const getStateCodeFromGstin = (gstin?: string): string | undefined =>
+  gstin ? getStateCode(gstin.trim().slice(0, 2)) : undefined;
+
+export const isValidHsnCode = (code: string): boolean => /^(\d{4}|\d{6}|\d{8})$/.test(code);
+
+/**
+ * Supplies within one state attract CGST + SGST, supplies across states IGST.
+ * Unknown states are treated as inter-state so tax is never under-split.
+ */
+export const getSupplyType = (sellerStateCode?: string, buyerStateCode?: string): GstSupplyType =>
+  sellerStateCode && sellerStateCode === buyerStateCode ? 'intra_state' : 'inter_state';
+
+export const calculateGst = (taxableValue: number, rate: number, supplyType: GstSupplyType): GstSplit => {
+  const totalTax = roundCurrency(taxableValue * rate / 100);
+  if (supplyType === 'intra_state') {
+    const cgst = roundCurrency(totalTax / 2);
+    return { cgst, sgst: roundCurrency(totalTax - cgst), igst: 0, totalTax };
+  }
+  return { cgst: 0, sgst: 0, igst: totalTax, totalTax };
+};
+
+// Indian financial year (April to March) of a date, e.g. '2025-26'
+export const getFinancialYear = (date: Date = new Date()): string => {
+  const startYear = date.getMonth() >= 3 ? date.getFullYear() : date.getFullYear() - 1;
+  return `${startYear}-${(startYear + 1).toString().slice(-2)}`;
+};
@@ -0,0 +1,107 @@
+import { IInvoice, IInvoiceParty } from '../models/Invoice/Invoice';
+
+const escapeHtml = (value: unknown): string =>
+  String(value ?? '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+const formatAmount = (value: number): string =>
+  value.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const renderParty = (title: string, party: IInvoiceParty): string => `
+  <div class="party">
+    <h3>${title}</h3>
+    <strong>${escapeHtml(party.name)}</strong><br>
+    ${party.address ? `${escapeHtml(party.address)}<br>` : ''}
+    ${party.state ? `State: ${escapeHtml(party.state)}${party.stateCode ? ` (${escapeHtml(party.stateCode)})` : ''}<br>` : ''}
+    ${party.gstin ? `GSTIN: ${escapeHtml(party.gstin)}` : 'Unregistered'}
+  </div>`;
+
+// File name for a downloaded invoice; invoice numbers contain slashes
+export const getInvoiceFileName = (invoice: Pick<IInvoice, 'invoiceNumber'>, extension = 'html'): string =>
+  `${invoice.invoiceNumber.replace(/[^A-Za-z0-9-]/g, '_')}.${extension}`;
+
+/**
+ * Render a GST tax invoice as a standalone, printable HTML document.
+ * Intra-state invoices show CGST and SGST columns, inter-state ones IGST.
+ */
+export const renderInvoiceHtml = (invoice: IInvoice): string => {
+  const intraState = invoice.supplyType === 'intra_state';
+  const taxHeaders = intraState ? '<th>CGST</th><th>SGST</th>' : '<th>IGST</th>';
+
+  const rows = invoice.items.map((line, index) => `
+      <tr>
+        <td>${index + 1}</td>
+        <td>${escapeHtml(line.description)}</td>
+        <td>${escapeHtml(line.hsnCode || '-')}</td>
+        <td class="num">${line.quantity}</td>
+        <td class="num">${formatAmount(line.unitPrice)}</td>
+        <td class="num">${formatAmount(line.taxableValue)}</td>
+        <td class="num">${line.gstRate}%</td>
+        ${intraState
+          ? `<td class="num">${formatAmount(line.cgst)}</td><td class="num">${formatAmount(line.sgst)}</td>`
+          : `<td class="num">${formatAmount(line.igst)}</td>`}
+        <td class="num">${formatAmount(line.total)}</td>
+      </tr>`).join('');
+
+  const taxTotals = intraState
+    ? `<tr><td>CGST</td><td class="num">${formatAmount(invoice.cgst)}</td></tr>
+       <tr><td>SGST</td><td class="num">${formatAmount(invoice.sgst)}</td></tr>`
+    : `<tr><td>IGST</td><td class="num">${formatAmount(invoice.igst)}</td></tr>`;
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="utf-8">
+  <title>Tax Invoice ${escapeHtml(invoice.invoiceNumber)}</title>
+  <style>
+    body { font-family: Arial, sans-serif; font-size: 12px; color: #222; margin: 24px; }
+    h1 { text-align: center; margin-bottom: 4px; }
+    .meta, .parties { display: flex; justify-content: space-between; margin-bottom: 16px; }
+    .party { width: 48%; }
+    table { width: 100%; border-collapse: collapse; margin-bottom: 16px; }
+    th, td { border: 1px solid #999; padding: 6px; text-align: left; }
+    .num { text-align: right; }
+    .totals { width: 40%; margin-left: auto; }
+    .footer { margin-top: 32px; font-size: 11px; color: #555; }
+  </style>
+</head>
+<body>
+  <h1>Tax Invoice</h1>
+  <div class="meta">
+    <div>
+      Invoice No: <strong>${escapeHtml(invoice.invoiceNumber)}</strong><br>
+      Invoice Date: ${new Date(invoice.issuedAt).toLocaleDateString('en-IN')}
+    </div>
+    <div>
+      Place of Supply: ${escapeHtml(invoice.placeOfSupply || '-')}<br>
+      Supply Type: ${intraState ? 'Intra-state' : 'Inter-state'}
+    </div>
+  </div>
+  <div class="parties">
+    ${renderParty('Sold By', invoice.seller)}
+    ${renderParty('Billed To', invoice.buyer)}
+  </div>
+  <table>
+    <thead>
+      <tr>
+        <th>#</th><th>Description</th><th>HSN</th><th>Qty</th><th>Rate</th>
+        <th>Taxable Value</th><th>GST %</th>${taxHeaders}<th>Total</th>
+      </tr>
+    </thead>
+    <tbody>${rows}
+    </tbody>
+  </table>
+  <table class="totals">
+    <tr><td>Taxable Value</td><td class="num">${formatAmount(invoice.taxableValue)}</td></tr>
+    ${taxTotals}
+    ${invoice.otherCharges ? `<tr><td>Shipping</td><td class="num">${formatAmount(invoice.otherCharges)}</td></tr>` : ''}
+    <tr><th>Grand Total (INR)</th><th class="num">${formatAmount(invoice.grandTotal)}</th></tr>
+  </table>
+  <div class="footer">This is a computer generated invoice and does not require a signature.</div>
+</body>
+</html>`;
+};
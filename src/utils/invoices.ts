@@ -0,0 +1,283 @@
+import mongoose, { Types } from 'mongoose';
+import Invoice, { IInvoice, IInvoiceDocument, IInvoiceLine, IInvoiceParty, IInvoiceSeries } from '../models/Invoice/Invoice';
+import { IOrderDocument } from '../models/Order/Order';
+import { ITransferDocument } from '../models/Franchise/FranchiseTransfer';
+import Franchise from '../models/Franchise/Franchise';
+import Product from '../models/Product/Product';
+import User from '../models/User/User';
+import Settings from '../models/Settings';
+import {
+  DEFAULT_GST_RATE,
+  GST_STATE_CODES,
+  GstSupplyType,
+  calculateGst,
+  getStateCode,
+  getStateCodeFromGstin,
+  getSupplyType
+} from './gst';
+
+interface InvoiceLineInput {
+  product?: Types.ObjectId;
+  description: string;
+  hsnCode?: string;
+  quantity: number;
+  unitPrice: number;
+  taxableValue: number;
+  gstRate: number;
+}
+
+type InvoiceDraft = Omit<IInvoice, 'invoiceNumber' | 'financialYear' | 'sequence' | 'issuedAt' | 'createdAt' | 'updatedAt'>;
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+/**
+ * Raised when an invoice cannot be issued for a document in its current
+ * state (unpaid order, undelivered transfer).
+ */
+export class InvoiceError extends Error {
+  statusCode = 400;
+
+  constructor(message: string) {
+    super(message);
+    this.name = 'InvoiceError';
+  }
+}
+
+// Company details used as seller on central invoices (Settings 'general' category)
+const getCompanyParty = async (): Promise<IInvoiceParty> => {
+  const settings = await Settings.getCategorySettings('general');
+  const values: Record<string, any> = {};
+  settings.forEach(setting => {
+    values[setting.key] = setting.value;
+  });
+
+  const gstin = values.gstin || undefined;
+  const stateCode = getStateCodeFromGstin(gstin) || getStateCode(values.state);
+  return {
+    name: values.legalName || values.siteName || 'BharatMart',
+    gstin,
+    address: values.registeredAddress || undefined,
+    state: stateCode ? GST_STATE_CODES[stateCode] : values.state || undefined,
+    stateCode
+  };
+};
+
+// Franchises have no structured address, so their state comes from the GSTIN
+const getFranchiseParty = async (franchiseId: Types.ObjectId): Promise<IInvoiceParty> => {
+  const franchise = await Franchise.findById(franchiseId).select('name gst address');
+  if (!franchise) {
+    throw new InvoiceError(`Franchise ${franchiseId} not found`);
+  }
+
+  const stateCode = getStateCodeFromGstin(franchise.gst);
+  return {
+    name: franchise.name,
+    gstin: franchise.gst || undefined,
+    address: franchise.address,
+    state: stateCode ? GST_STATE_CODES[stateCode] : undefined,
+    stateCode
+  };
+};
+
+const buildLines = (inputs: InvoiceLineInput[], supplyType: GstSupplyType): IInvoiceLine[] =>
+  inputs.map(input => {
+    const split = calculateGst(input.taxableValue, input.gstRate, supplyType);
+    return {
+      ...input,
+      cgst: split.cgst,
+      sgst: split.sgst,
+      igst: split.igst,
+      total: roundCurrency(input.taxableValue + split.totalTax)
+    };
+  });
+
+const buildDraft = (
+  base: Pick<IInvoice, 'source' | 'order' | 'transfer' | 'franchise' | 'sellerFranchise'>,
+  seller: IInvoiceParty,
+  buyer: IInvoiceParty,
+  inputs: InvoiceLineInput[],
+  otherCharges: number
+): InvoiceDraft => {
+  const supplyType = getSupplyType(seller.stateCode, buyer.stateCode);
+  const items = buildLines(inputs, supplyType);
+  const sum = (pick: (line: IInvoiceLine) => number) => roundCurrency(items.reduce((total, line) => total + pick(line), 0));
+
+  const taxableValue = sum(line => line.taxableValue);
+  const cgst = sum(line => line.cgst);
+  const sgst = sum(line => line.sgst);
+  const igst = sum(line => line.igst);
+  const totalTax = roundCurrency(cgst + sgst + igst);
+
+  return {
+    ...base,
+    seller,
+    buyer,
+    placeOfSupply: buyer.stateCode ? `${buyer.stateCode}-${GST_STATE_CODES[buyer.stateCode]}` : buyer.state,
+    supplyType,
+    items,
+    taxableValue,
+    cgst,
+    sgst,
+    igst,
+    totalTax,
+    otherCharges: roundCurrency(otherCharges),
+    grandTotal: roundCurrency(taxableValue + totalTax + otherCharges)
+  };
+};
+
+// The series a franchise seller numbers its invoices from; the company's series needs none
+const getInvoiceSeries = async (sellerFranchise?: Types.ObjectId): Promise<IInvoiceSeries | undefined> => {
+  if (!sellerFranchise) {
+    return undefined;
+  }
+
+  const franchise = await Franchise.findById(sellerFranchise).select('franchiseId');
+  if (!franchise) {
+    throw new InvoiceError(`Franchise ${sellerFranchise} not found`);
+  }
+  return { franchise: franchise._id, prefix: franchise.franchiseId! };
+};
+
+/**
+ * Persist a draft under the next invoice number of its seller's series. Numbering and insert share a
+ * transaction so a failed insert never leaves a gap in the sequence; if another
+ * request invoiced the same document first, that invoice is returned instead.
+ */
+const issueInvoice = async (draft: InvoiceDraft, existing: Record<string, Types.ObjectId>): Promise<IInvoiceDocument> => {
+  const series = await getInvoiceSeries(draft.sellerFranchise);
+  const session = await mongoose.startSession();
+  let invoice: IInvoiceDocument | undefined;
+
+  try {
+    await session.withTransaction(async () => {
+      const issuedAt = new Date();
+      const numbering = await Invoice.nextInvoiceNumber(issuedAt, series, session);
+      invoice = new Invoice({ ...draft, ...numbering, issuedAt });
+      await invoice.save({ session });
+    });
+  } catch (error) {
+    if ((error as any).code === 11000) {
+      const current = await Invoice.findOne(existing);
+      if (current) {
+        return current;
+      }
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+
+  return invoice!;
+};
+
+/**
+ * Get the tax invoice of an order, issuing it on first request. Lines fulfilled
+ * by a single franchise are invoiced by that franchise, anything else by the
+ * company; the buyer's state is taken from the shipping address.
+ */
+export const getOrCreateOrderInvoice = async (order: IOrderDocument): Promise<IInvoiceDocument> => {
+  const existing = await Invoice.findOne({ order: order._id });
+  if (existing) {
+    return existing;
+  }
+
+  if (['pending', 'cancelled'].includes(order.status)) {
+    throw new InvoiceError(`Cannot issue an invoice for a ${order.status} order`);
+  }
+
+  const franchiseIds = new Set(order.items.map(item => item.franchise?.toString()));
+  const sellingFranchise = franchiseIds.size === 1 ? order.items[0].franchise : undefined;
+  const seller = sellingFranchise ? await getFranchiseParty(sellingFranchise) : await getCompanyParty();
+
+  const customer = await User.findById(order.customer || order.user).select('firstName lastName');
+  const address = order.shipping.address;
+  const buyerStateCode = getStateCode(address.state);
+  const buyer: IInvoiceParty = {
+    name: customer ? `${customer.firstName} ${customer.lastName}` : 'Customer',
+    address: [address.street, address.city, address.state, address.zipCode, address.country].filter(Boolean).join(', '),
+    state: address.state,
+    stateCode: buyerStateCode
+  };
+
+  const products = await Product.find({ _id: { $in: order.items.map(item => item.product) } }).select('name hsnCode');
+  const productById = new Map(products.map(product => [product._id.toString(), product]));
+
+  const lines: InvoiceLineInput[] = order.items.map(item => {
+    const product = productById.get(item.product.toString());
+    return {
+      product: item.product,
+      description: product?.name || 'Product',
+      hsnCode: item.hsnCode || product?.hsnCode,
+      quantity: item.quantity,
+      unitPrice: item.price,
+      taxableValue: roundCurrency(item.total - (item.discount || 0)), // Promotions reduce the value GST is charged on
+      gstRate: item.gstRate ?? DEFAULT_GST_RATE
+    };
+  });
+
+  const draft = buildDraft(
+    { source: 'order', order: order._id, franchise: sellingFranchise, sellerFranchise: sellingFranchise },
+    seller,
+    buyer,
+    lines,
+    order.shipping.cost || 0
+  );
+
+  return issueInvoice(draft, { order: order._id });
+};
+
+/**
+ * Get the tax invoice of a delivered franchise transfer, issuing it on first
+ * request. The company, or the sending franchise for a franchise-to-franchise
+ * transfer, is the seller and the receiving franchise the buyer.
+ */
+export const getOrCreateTransferInvoice = async (transfer: ITransferDocument): Promise<IInvoiceDocument> => {
+  const existing = await Invoice.findOne({ transfer: transfer._id });
+  if (existing) {
+    return existing;
+  }
+
+  if (transfer.status !== 'delivered') {
+    throw new InvoiceError('Invoices are only issued for delivered transfers');
+  }
+
+  const seller = transfer.sourceFranchise
+    ? await getFranchiseParty(transfer.sourceFranchise)
+    : await getCompanyParty();
+  const buyer = await getFranchiseParty(transfer.franchise);
+
+  const products = await Product.find({ _id: { $in: transfer.items.map(item => item.bharatmartProduct) } })
+    .select('name hsnCode gstRate');
+  const productById = new Map(products.map(product => [product._id.toString(), product]));
+
+  // Damaged or missing units credited through an approved discrepancy are not billed
+  const lines: InvoiceLineInput[] = transfer.items
+    .filter(item => item.quantity - (item.creditedQuantity || 0) > 0)
+    .map(item => {
+      const product = productById.get(item.bharatmartProduct.toString());
+      const quantity = item.quantity - (item.creditedQuantity || 0);
+      return {
+        product: item.bharatmartProduct,
+        description: product?.name || 'Product',
+        hsnCode: product?.hsnCode,
+        quantity,
+        unitPrice: item.unitPrice,
+        taxableValue: item.unitPrice * quantity,
+        gstRate: product?.gstRate ?? DEFAULT_GST_RATE
+      };
+    });
+
+  if (lines.length === 0) {
+    throw new InvoiceError('Nothing was received on this transfer to invoice');
+  }
+
+  const draft = buildDraft(
+    { source: 'transfer', transfer: transfer._id, franchise: transfer.franchise, sellerFranchise: transfer.sourceFranchise },
+    seller,
+    buyer,
+    lines,
+    0
+  );
+
+  return issueInvoice(draft, { transfer: transfer._id });
+};
@@ -0,0 +1,98 @@
+import mongoose from 'mongoose';
+import { IOrderDocument, OrderStatus } from '../models/Order/Order';
+import User from '../models/User/User';
+import { releaseStock, IStockLine } from './stockReservation';
+import { sendEmail } from './email';
+import { reversePromotions } from './promotions';
+
+type OrderStatusHook = (order: IOrderDocument, from: OrderStatus, to: OrderStatus) => Promise<void>;
+
+// Email template sent to the customer when an order enters a status
+const NOTIFICATION_TEMPLATES: Partial<Record<OrderStatus, string>> = {
+  confirmed: 'orderConfirmation',
+  shipped: 'orderShipped',
+  delivered: 'orderDelivered',
+  cancelled: 'orderCancelled',
+  refunded: 'orderRefunded'
+};
+
+// Return reserved units of a cancelled order to stock, skipping units already restocked by refunds; all lines or none
+const restockCancelledOrder: OrderStatusHook = async (order) => {
+  const lines: IStockLine[] = order.items
+    .map(item => ({
+      product: item.product,
+      franchiseProduct: item.franchiseProduct,
+      variant: item.variant,
+      quantity: item.quantity - (item.refundedQuantity || 0)
+    }))
+    .filter(line => line.quantity > 0);
+
+  const session = await mongoose.startSession();
+  try {
+    await session.withTransaction(async () => {
+      await releaseStock(lines, session, {
+        referenceNumber: order.orderNumber,
+        notes: 'Order cancelled'
+      });
+    });
+  } finally {
+    await session.endSession();
+  }
+};
+
+// A cancelled order gives its promotion uses back, so the customer can use the offer again
+const releaseCancelledPromotions: OrderStatusHook = async (order) => {
+  if (order.promotions?.length) {
+    await reversePromotions(order._id);
+  }
+};
+
+// Notifications are best effort: a mail failure must not undo a committed status change
+const notifyCustomer: OrderStatusHook = async (order, from, to) => {
+  const template = NOTIFICATION_TEMPLATES[to];
+  if (!template) {
+    return;
+  }
+
+  try {
+    const customer = await User.findById(order.customer || order.user).select('firstName lastName email');
+    if (!customer?.email) {
+      return;
+    }
+
+    await sendEmail({
+      to: customer.email,
+      template,
+      // Blank values would leave the {{placeholder}} in the mail, so each has a fallback
+      data: {
+        firstName: customer.firstName || 'Customer',
+        orderNumber: order.orderNumber,
+        previousStatus: from,
+        status: to,
+        total: order.total.toFixed(2),
+        trackingNumber: order.shipping?.trackingNumber || 'to follow',
+        carrier: order.shipping?.carrier || 'our courier partner'
+      }
+    });
+  } catch (error) {
+    console.error(`Order ${order.orderNumber} ${to} notification error:`, error);
+  }
+};
+
+const hooks: Partial<Record<OrderStatus, OrderStatusHook[]>> = {
+  confirmed: [notifyCustomer],
+  shipped: [notifyCustomer],
+  delivered: [notifyCustomer],
+  cancelled: [restockCancelledOrder, releaseCancelledPromotions, notifyCustomer],
+  refunded: [notifyCustomer]
+};
+
+/**
+ * Run the side effects registered for the status an order just entered.
+ * Called by the Order model after a transition has been saved.
+ */
+export const runOrderStatusHooks = async (order: IOrderDocument, from: OrderStatus, to: OrderStatus): Promise<void> => {
+  for (const hook of hooks[to] || []) {
+    await hook(order, from, to);
+  }
+};
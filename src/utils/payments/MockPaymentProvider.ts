@@ -0,0 +1,88 @@
+import {
+  PaymentProvider,
+  CreatePaymentIntentParams,
+  PaymentIntent,
+  ConfirmPaymentParams,
+  PaymentConfirmation,
+  PaymentWebhookEvent,
+  hmacSha256,
+  signaturesMatch
+} from './PaymentProvider';
+
+/**
+ * Deterministic offline provider for development and tests. It is only
+ * registered when ENABLE_MOCK_PAYMENTS=true outside production.
+ *
+ * Intent IDs are derived from the order number, and signatures are HMACs
+ * with MOCK_PAYMENT_SECRET, so a client can produce a valid confirmation by
+ * calling `sign()`. Payment IDs starting with "fail_" are treated as
+ * declined.
+ */
+class MockPaymentProvider implements PaymentProvider {
+  readonly name = 'mock' as const;
+  readonly signatureHeader = 'x-mock-signature';
+
+  private get secret(): string {
+    const secret = process.env.MOCK_PAYMENT_SECRET;
+    if (!secret) {
+      throw new Error('MOCK_PAYMENT_SECRET is not configured');
+    }
+    return secret;
+  }
+
+  sign(data: string | Buffer): string {
+    return hmacSha256(this.secret, data);
+  }
+
+  async createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const intentId = `mock_order_${params.orderNumber}`;
+
+    return {
+      provider: this.name,
+      intentId,
+      amount: params.amount,
+      currency: params.currency,
+      clientData: {
+        intentId,
+        amount: params.amount,
+        currency: params.currency
+      }
+    };
+  }
+
+  async confirmPayment(params: ConfirmPaymentParams): Promise<PaymentConfirmation> {
+    const validSignature = signaturesMatch(this.sign(`${params.intentId}|${params.paymentId}`), params.signature);
+
+    return {
+      transactionId: params.paymentId,
+      status: validSignature && !params.paymentId.startsWith('fail_') ? 'completed' : 'failed'
+    };
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    return signaturesMatch(this.sign(rawBody), signature);
+  }
+
+  parseWebhookEvent(payload: any): PaymentWebhookEvent | null {
+    const statuses: Record<string, PaymentWebhookEvent['status']> = {
+      'payment.completed': 'completed',
+      'payment.failed': 'failed',
+      'payment.refunded': 'refunded'
+    };
+
+    if (!payload?.intentId || !statuses[payload.event]) {
+      return null;
+    }
+
+    return {
+      event: payload.event,
+      intentId: payload.intentId,
+      transactionId: payload.paymentId,
+      status: statuses[payload.event],
+      refundId: payload.refundId,
+      refundAmount: payload.amount !== undefined ? Number(payload.amount) : undefined
+    };
+  }
+}
+
+export default MockPaymentProvider;
@@ -0,0 +1,57 @@
+import crypto from 'crypto';
+
+export type PaymentProviderName = 'razorpay' | 'mock';
+
+export interface CreatePaymentIntentParams {
+  orderId: string;
+  orderNumber: string;
+  amount: number; // In rupees, providers convert to their own minor unit
+  currency: string;
+}
+
+export interface PaymentIntent {
+  provider: PaymentProviderName;
+  intentId: string;
+  amount: number;
+  currency: string;
+  clientData: Record<string, any>; // Whatever the frontend needs to open the checkout widget
+}
+
+export interface ConfirmPaymentParams {
+  intentId: string;
+  paymentId: string;
+  signature: string;
+}
+
+export interface PaymentConfirmation {
+  transactionId: string;
+  status: 'completed' | 'failed';
+}
+
+export interface PaymentWebhookEvent {
+  intentId: string;
+  transactionId?: string;
+  status: 'completed' | 'failed' | 'refunded';
+  event: string;
+  refundId?: string; // Refund events: the provider's refund ID
+  refundAmount?: number; // Refund events: the amount refunded, in rupees
+}
+
+export interface PaymentProvider {
+  readonly name: PaymentProviderName;
+  readonly signatureHeader: string; // Request header carrying the webhook signature
+  createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent>;
+  confirmPayment(params: ConfirmPaymentParams): Promise<PaymentConfirmation>;
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean;
+  parseWebhookEvent(payload: any): PaymentWebhookEvent | null;
+}
+
+export const hmacSha256 = (secret: string, data: string | Buffer): string =>
+  crypto.createHmac('sha256', secret).update(data).digest('hex');
+
+// Constant-time comparison of two hex signatures
+export const signaturesMatch = (expected: string, received: string): boolean => {
+  const expectedBuffer = Buffer.from(expected);
+  const receivedBuffer = Buffer.from(received || '');
+  return expectedBuffer.length === receivedBuffer.length && crypto.timingSafeEqual(expectedBuffer, receivedBuffer);
+};
@@ -0,0 +1,127 @@
+import {
+  PaymentProvider,
+  CreatePaymentIntentParams,
+  PaymentIntent,
+  ConfirmPaymentParams,
+  PaymentConfirmation,
+  PaymentWebhookEvent,
+  hmacSha256,
+  signaturesMatch
+} from './PaymentProvider';
+
+interface RazorpayOrderResponse {
+  id: string;
+  amount: number;
+  currency: string;
+  status: string;
+}
+
+/**
+ * Adapter for Razorpay Orders + Checkout. Amounts are sent in paise.
+ */
+class RazorpayProvider implements PaymentProvider {
+  readonly name = 'razorpay' as const;
+  readonly signatureHeader = 'x-razorpay-signature';
+  private readonly baseUrl = process.env.RAZORPAY_API_URL || 'https://api.razorpay.com/v1';
+
+  private get keyId(): string {
+    const keyId = process.env.RAZORPAY_KEY_ID;
+    if (!keyId) {
+      throw new Error('RAZORPAY_KEY_ID is not configured');
+    }
+    return keyId;
+  }
+
+  private get keySecret(): string {
+    const keySecret = process.env.RAZORPAY_KEY_SECRET;
+    if (!keySecret) {
+      throw new Error('RAZORPAY_KEY_SECRET is not configured');
+    }
+    return keySecret;
+  }
+
+  async createIntent(params: CreatePaymentIntentParams): Promise<PaymentIntent> {
+    const response = await fetch(`${this.baseUrl}/orders`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Basic ${Buffer.from(`${this.keyId}:${this.keySecret}`).toString('base64')}`
+      },
+      body: JSON.stringify({
+        amount: Math.round(params.amount * 100),
+        currency: params.currency,
+        receipt: params.orderNumber,
+        notes: { orderId: params.orderId }
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(`Razorpay order creation failed with status ${response.status}`);
+    }
+
+    const razorpayOrder = await response.json() as RazorpayOrderResponse;
+
+    return {
+      provider: this.name,
+      intentId: razorpayOrder.id,
+      amount: params.amount,
+      currency: razorpayOrder.currency,
+      clientData: {
+        key: this.keyId,
+        orderId: razorpayOrder.id,
+        amount: razorpayOrder.amount,
+        currency: razorpayOrder.currency
+      }
+    };
+  }
+
+  async confirmPayment(params: ConfirmPaymentParams): Promise<PaymentConfirmation> {
+    // Checkout signs "<razorpay_order_id>|<razorpay_payment_id>" with the key secret
+    const expected = hmacSha256(this.keySecret, `${params.intentId}|${params.paymentId}`);
+
+    return {
+      transactionId: params.paymentId,
+      status: signaturesMatch(expected, params.signature) ? 'completed' : 'failed'
+    };
+  }
+
+  verifyWebhookSignature(rawBody: Buffer, signature: string): boolean {
+    const secret = process.env.RAZORPAY_WEBHOOK_SECRET;
+    if (!secret) {
+      return false;
+    }
+    return signaturesMatch(hmacSha256(secret, rawBody), signature);
+  }
+
+  parseWebhookEvent(payload: any): PaymentWebhookEvent | null {
+    const payment = payload?.payload?.payment?.entity;
+    const refund = payload?.payload?.refund?.entity;
+
+    switch (payload?.event) {
+      case 'payment.captured':
+      case 'order.paid':
+        return payment?.order_id
+          ? { event: payload.event, intentId: payment.order_id, transactionId: payment.id, status: 'completed' }
+          : null;
+      case 'payment.failed':
+        return payment?.order_id
+          ? { event: payload.event, intentId: payment.order_id, transactionId: payment.id, status: 'failed' }
+          : null;
+      case 'refund.processed':
+        return payment?.order_id
+          ? {
+            event: payload.event,
+            intentId: payment.order_id,
+            transactionId: refund?.payment_id || payment.id,
+            status: 'refunded',
+            refundId: refund?.id,
+            refundAmount: typeof refund?.amount === 'number' ? refund.amount / 100 : undefined
+          }
+          : null;
+      default:
+        return null;
+    }
+  }
+}
+
+export default RazorpayProvider;
@@ -0,0 +1,34 @@
+import { PaymentProvider, PaymentProviderName } from './PaymentProvider';
+import RazorpayProvider from './RazorpayProvider';
+import MockPaymentProvider from './MockPaymentProvider';
+
+export * from './PaymentProvider';
+
+/**
+ * The mock provider confirms any payment signed with a shared secret, so it
+ * is only registered when ENABLE_MOCK_PAYMENTS=true outside production.
+ */
+export const isMockPaymentEnabled = (): boolean =>
+  process.env.ENABLE_MOCK_PAYMENTS === 'true' && process.env.NODE_ENV !== 'production';
+
+const razorpayProvider = new RazorpayProvider();
+const mockProvider = new MockPaymentProvider();
+
+// Read per call so the registry follows the environment rather than module load order
+const getProviders = (): Partial<Record<PaymentProviderName, PaymentProvider>> => ({
+  razorpay: razorpayProvider,
+  ...(isMockPaymentEnabled() ? { mock: mockProvider } : {})
+});
+
+export const isPaymentProviderName = (name: string): name is PaymentProviderName =>
+  Object.prototype.hasOwnProperty.call(getProviders(), name);
+
+// A registered provider by name; without a name, the one PAYMENT_PROVIDER configures for new payments
+export const getPaymentProvider = (name?: string): PaymentProvider => {
+  const providerName = name || process.env.PAYMENT_PROVIDER || 'razorpay';
+  const provider = isPaymentProviderName(providerName) ? getProviders()[providerName] : undefined;
+  if (!provider) {
+    throw new Error(`Unknown payment provider: ${providerName}`);
+  }
+  return provider;
+};
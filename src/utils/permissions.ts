@@ -0,0 +1,94 @@
+export type PermissionGroup = 'catalogue' | 'inventory' | 'sales' | 'procurement' | 'franchise' | 'people';
+
+export const PERMISSION_GROUPS: Record<PermissionGroup, string> = {
+  catalogue: 'Catalogue',
+  inventory: 'Warehouses and stock',
+  sales: 'Orders and promotions',
+  procurement: 'Vendors and purchasing',
+  franchise: 'Franchises',
+  people: 'Users and employees'
+};
+
+export interface IPermissionDefinition {
+  group: PermissionGroup;
+  description: string;
+}
+
+// Keeps each entry checked against IPermissionDefinition while the keys stay literal types
+const definePermissions = <T extends Record<string, IPermissionDefinition>>(definitions: T): T => definitions;
+
+/**
+ * Every permission a user, employee role or shop staff member can hold.
+ * requirePermission only accepts these keys, and permission lists are
+ * validated against them when they are assigned.
+ */
+export const PERMISSION_REGISTRY = definePermissions({
+  'product:read': { group: 'catalogue', description: 'View the price violation report and the central inventory ledger' },
+  'product:write': { group: 'catalogue', description: 'Create and edit products, manage their variants, print barcode labels and adjust central stock' },
+  'product:delete': { group: 'catalogue', description: 'Delete products' },
+  'brand:delete': { group: 'catalogue', description: 'Delete brands' },
+  'warehouse:read': { group: 'inventory', description: 'View warehouses, warehouse stock and availability' },
+  'warehouse:write': { group: 'inventory', description: 'Create and edit warehouses and allocate stock to them' },
+  'order:read': { group: 'sales', description: 'View any order, its invoice and its refund ledger' },
+  'order:write': { group: 'sales', description: 'Create orders, change order status and issue refunds' },
+  'promotion:read': { group: 'sales', description: 'View promotions, their redemptions and the promotion report' },
+  'promotion:write': { group: 'sales', description: 'Create, edit and switch off promotions' },
+  'vendor:update': { group: 'procurement', description: 'Activate and deactivate vendors' },
+  'vendor:verify': { group: 'procurement', description: 'Verify vendors' },
+  'vendor:delete': { group: 'procurement', description: 'Delete vendors' },
+  'purchase:read': { group: 'procurement', description: 'View purchase orders and goods receipts' },
+  'purchase:write': { group: 'procurement', description: 'Raise, send and receive purchase orders' },
+  'franchise:read': { group: 'franchise', description: 'View franchise transfers, receipt discrepancies, cycle counts and price lists' },
+  'franchise:write': { group: 'franchise', description: 'Raise, approve and dispatch transfers, settle receipt discrepancies, approve cycle counts and manage price lists' },
+  'user:read': { group: 'people', description: 'View user accounts' },
+  'user:write': { group: 'people', description: 'Edit user accounts and their permissions' },
+  'employee:read': { group: 'people', description: 'View employees, departments and employee roles' },
+  'employee:create': { group: 'people', description: 'Add employees' },
+  'employee:update': { group: 'people', description: 'Edit employees, manage their documents and unlock their logins' },
+  'employee:delete': { group: 'people', description: 'Remove employees' }
+});
+
+export type Permission = keyof typeof PERMISSION_REGISTRY;
+
+export const PERMISSIONS = Object.keys(PERMISSION_REGISTRY) as Permission[];
+
+export const isPermission = (value: unknown): value is Permission =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(PERMISSION_REGISTRY, value);
+
+// Permissions that can also be granted for a single franchise, as franchise:<id>:read
+export const SCOPED_PERMISSIONS: Permission[] = ['franchise:read'];
+
+const SCOPED_PERMISSION_PATTERN = /^([a-z]+):([0-9a-f]{24}):([a-z]+)$/;
+
+// The grant of a scoped permission for one record, e.g. franchise:<id>:read
+export const scopedPermission = (permission: Permission, id: { toString(): string }): string => {
+  const [resource, action] = permission.split(':');
+  return `${resource}:${id.toString()}:${action}`;
+};
+
+export const isScopedPermission = (value: unknown): value is string => {
+  const match = typeof value === 'string' ? SCOPED_PERMISSION_PATTERN.exec(value) : null;
+  return !!match && SCOPED_PERMISSIONS.some(permission => permission === `${match[1]}:${match[3]}`);
+};
+
+// Whether a permission list may hold the value: a registered permission or a scoped grant of one
+export const isAssignablePermission = (value: unknown): boolean =>
+  isPermission(value) || isScopedPermission(value);
+
+// Entries of a permission list that are neither in the registry nor scoped grants of it
+export const findUnknownPermissions = (permissions: unknown[]): unknown[] =>
+  permissions.filter(permission => !isAssignablePermission(permission));
+
+/**
+ * Schema validator for a permission list. Only runs when the list itself was
+ * changed, so documents holding permissions since retired can still be saved.
+ */
+export const permissionListValidator = {
+  validator: function(this: { isModified?: (path: string) => boolean }, permissions: unknown[]): boolean {
+    if (this && typeof this.isModified === 'function' && !this.isModified('permissions')) {
+      return true;
+    }
+    return findUnknownPermissions(permissions || []).length === 0;
+  },
+  message: (props: { value: unknown[] }) => `Unknown permissions: ${findUnknownPermissions(props.value || []).join(', ')}`
+};
@@ -0,0 +1,95 @@
+import { Types } from 'mongoose';
+import { IProduct } from '../models/Product/Product';
+
+export type PriceRule = 'cost_above_selling' | 'selling_above_mrp' | 'sale_above_mrp' | 'cost_above_mrp';
+
+export const PRICE_RULES: PriceRule[] = ['cost_above_selling', 'selling_above_mrp', 'sale_above_mrp', 'cost_above_mrp'];
+
+export interface IPricePoints {
+  costPrice?: number | null;
+  salePrice?: number | null;
+  sellingPrice?: number | null;
+  mrp?: number | null;
+}
+
+export interface IPriceRuleViolation {
+  rule: PriceRule;
+  message: string;
+  variant?: Types.ObjectId;  // Set when the broken prices are a variant's
+  variantName?: string;
+}
+
+const isSet = (value?: number | null): value is number => value !== undefined && value !== null;
+
+/**
+ * Check one set of prices against cost ≤ selling ≤ MRP. Selling is the
+ * customer price (sellingPrice, else salePrice); a rule is only checked when
+ * both of its prices are set. Nothing may be priced above MRP.
+ */
+export const checkPriceRules = (prices: IPricePoints): Array<Pick<IPriceRuleViolation, 'rule' | 'message'>> => {
+  const violations: Array<Pick<IPriceRuleViolation, 'rule' | 'message'>> = [];
+  const selling = isSet(prices.sellingPrice) ? prices.sellingPrice : prices.salePrice;
+
+  if (isSet(prices.costPrice) && isSet(selling) && prices.costPrice > selling) {
+    violations.push({ rule: 'cost_above_selling', message: `Cost price ${prices.costPrice} is above selling price ${selling}` });
+  }
+  if (isSet(prices.mrp)) {
+    if (isSet(prices.sellingPrice) && prices.sellingPrice > prices.mrp) {
+      violations.push({ rule: 'selling_above_mrp', message: `Selling price ${prices.sellingPrice} is above MRP ${prices.mrp}` });
+    }
+    if (isSet(prices.salePrice) && prices.salePrice > prices.mrp) {
+      violations.push({ rule: 'sale_above_mrp', message: `Sale price ${prices.salePrice} is above MRP ${prices.mrp}` });
+    }
+    if (isSet(prices.costPrice) && prices.costPrice > prices.mrp) {
+      violations.push({ rule: 'cost_above_mrp', message: `Cost price ${prices.costPrice} is above MRP ${prices.mrp}` });
+    }
+  }
+
+  return violations;
+};
+
+// Prices a variant sells under: its own, falling back to the product's
+const getVariantPricePoints = (product: IPricePoints, variant: IPricePoints): IPricePoints => ({
+  costPrice: variant.costPrice ?? product.costPrice,
+  salePrice: variant.salePrice ?? product.salePrice,
+  sellingPrice: variant.sellingPrice ?? product.sellingPrice,
+  mrp: variant.mrp ?? product.mrp
+});
+
+/**
+ * Every price rule a product breaks, on its own prices or on any of its
+ * variants' (with the product's prices filling in what a variant leaves out).
+ * Pass a variant ID to check that variant only.
+ */
+export const findProductPriceViolations = (
+  product: Pick<IProduct, 'costPrice' | 'salePrice' | 'sellingPrice' | 'mrp' | 'variants'>,
+  onlyVariant?: Types.ObjectId | string
+): IPriceRuleViolation[] => {
+  const violations: IPriceRuleViolation[] = [];
+
+  if (!onlyVariant) {
+    violations.push(...checkPriceRules(product));
+  }
+
+  for (const variant of product.variants || []) {
+    if (onlyVariant && variant._id?.toString() !== onlyVariant.toString()) {
+      continue;
+    }
+    for (const violation of checkPriceRules(getVariantPricePoints(product, variant))) {
+      violations.push({ ...violation, variant: variant._id, variantName: variant.name });
+    }
+  }
+
+  // A product-level break is repeated by every variant that inherits it; report it once
+  return violations.filter((violation, index) => !violation.variant
+    || !violations.some((other, otherIndex) => otherIndex < index && !other.variant && other.message === violation.message));
+};
+
+/**
+ * Violations in `after` that `before` did not have, so an edit is only held
+ * to the rules it touches. A rule still broken with different prices counts
+ * as new, since the edit changed the prices involved.
+ */
+export const findNewPriceViolations = (before: IPriceRuleViolation[], after: IPriceRuleViolation[]): IPriceRuleViolation[] =>
+  after.filter(violation => !before.some(existing => existing.message === violation.message
+    && existing.variant?.toString() === violation.variant?.toString()));
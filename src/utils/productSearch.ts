@@ -0,0 +1,321 @@
+import { PipelineStage, Types } from 'mongoose';
+import Product from '../models/Product/Product';
+import ProductCategory from '../models/Product/ProductCategory';
+import Vendor from '../models/Vendors/Vendor';
+
+export type ProductSearchSort = 'relevance' | 'price_asc' | 'price_desc' | 'name_asc' | 'newest';
+
+export const PRODUCT_SEARCH_SORTS: ProductSearchSort[] = ['relevance', 'price_asc', 'price_desc', 'name_asc', 'newest'];
+
+export interface IProductSearchParams {
+  q?: string;
+  category?: string;
+  brand?: string;
+  minPrice?: number;
+  maxPrice?: number;
+  inStock?: boolean;
+  sort?: ProductSearchSort;
+  limit?: number;
+  cursor?: string;
+}
+
+export interface IFacetCount {
+  _id: Types.ObjectId;
+  name?: string;
+  count: number;
+}
+
+export interface IPriceBandCount {
+  min: number;
+  max: number | null;  // null for the open-ended top band
+  count: number;
+}
+
+export interface IProductSearchResult {
+  items: any[];
+  total: number;
+  nextCursor: string | null;
+  correctedQuery?: string;  // Set when unknown words were replaced by their closest catalogue match
+  facets: {
+    categories: IFacetCount[];
+    brands: IFacetCount[];
+    priceBands: IPriceBandCount[];
+  };
+}
+
+/**
+ * Raised for search input that cannot be used, such as a cursor from another
+ * sort order; statusCode is the HTTP status the route should answer with.
+ */
+export class ProductSearchError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'ProductSearchError';
+  }
+}
+
+const PRICE_BAND_BOUNDARIES = [0, 100, 250, 500, 1000, 2500, 5000];
+const FACET_LIMIT = 20;
+const VOCABULARY_TTL_MS = 5 * 60 * 1000;
+const MIN_CORRECTABLE_LENGTH = 4;
+
+// Sort keys per order; _id breaks ties so the cursor always moves forward
+const SORT_KEYS: Record<ProductSearchSort, Array<[string, 1 | -1]>> = {
+  relevance: [['score', -1], ['_id', 1]],
+  price_asc: [['price', 1], ['_id', 1]],
+  price_desc: [['price', -1], ['_id', 1]],
+  name_asc: [['name', 1], ['_id', 1]],
+  newest: [['_id', -1]]
+};
+
+const tokenize = (text: string): string[] =>
+  text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean);
+
+// Words in the catalogue with how often they appear, rebuilt every few minutes
+let vocabularyCache: { words: Map<string, number>; builtAt: number } | null = null;
+
+const getVocabulary = async (): Promise<Map<string, number>> => {
+  if (vocabularyCache && Date.now() - vocabularyCache.builtAt < VOCABULARY_TTL_MS) {
+    return vocabularyCache.words;
+  }
+
+  const products = await Product.find({ isActive: true })
+    .select('name variants.name searchKeywords')
+    .lean();
+
+  const words = new Map<string, number>();
+  for (const product of products) {
+    const text = [product.name, ...(product.variants || []).map(variant => variant.name), ...(product.searchKeywords || [])].join(' ');
+    for (const word of tokenize(text)) {
+      words.set(word, (words.get(word) || 0) + 1);
+    }
+  }
+
+  vocabularyCache = { words, builtAt: Date.now() };
+  return words;
+};
+
+// Optimal string alignment distance (Levenshtein plus adjacent swaps), giving up past max
+const editDistance = (a: string, b: string, max: number): number => {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+
+  const rows: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    rows[i] = [i];
+  }
+  for (let j = 1; j <= b.length; j++) {
+    rows[0][j] = j;
+  }
+
+  for (let i = 1; i <= a.length; i++) {
+    let rowMin = Infinity;
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost);
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1);
+      }
+      rowMin = Math.min(rowMin, rows[i][j]);
+    }
+    if (rowMin > max) {
+      return max + 1;
+    }
+  }
+
+  return rows[a.length][b.length];
+};
+
+// Closest catalogue word to a misspelt one, or the word itself when it is known or too short to guess
+const correctWord = (word: string, vocabulary: Map<string, number>): string => {
+  if (vocabulary.has(word) || word.length < MIN_CORRECTABLE_LENGTH || /\d/.test(word)) {
+    return word;
+  }
+
+  const maxDistance = word.length <= 5 ? 1 : 2;
+  let best = word;
+  let bestDistance = maxDistance + 1;
+  let bestFrequency = 0;
+
+  for (const [candidate, frequency] of vocabulary) {
+    const distance = editDistance(word, candidate, maxDistance);
+    if (distance < bestDistance || (distance === bestDistance && frequency > bestFrequency)) {
+      best = candidate;
+      bestDistance = distance;
+      bestFrequency = frequency;
+    }
+  }
+
+  return bestDistance <= maxDistance ? best : word;
+};
+
+const encodeCursor = (sort: ProductSearchSort, item: any): string => {
+  const [primary] = SORT_KEYS[sort];
+  return Buffer.from(JSON.stringify({ s: sort, v: item[primary[0]], id: String(item._id) })).toString('base64url');
+};
+
+// Match only documents after the cursor in the given sort order
+const cursorFilter = (sort: ProductSearchSort, cursor: string): Record<string, any> => {
+  let decoded: { s: string; v: any; id: string };
+  try {
+    decoded = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'));
+  } catch {
+    throw new ProductSearchError('Invalid cursor');
+  }
+  if (decoded.s !== sort || !Types.ObjectId.isValid(decoded.id)) {
+    throw new ProductSearchError('Cursor does not belong to this search');
+  }
+
+  const id = new Types.ObjectId(decoded.id);
+  const keys = SORT_KEYS[sort];
+  if (keys.length === 1) {
+    return { _id: { [keys[0][1] === 1 ? '$gt' : '$lt']: id } };
+  }
+
+  const [[field, direction], [, idDirection]] = keys;
+  return {
+    $or: [
+      { [field]: { [direction === 1 ? '$gt' : '$lt']: decoded.v } },
+      { [field]: decoded.v, _id: { [idDirection === 1 ? '$gt' : '$lt']: id } }
+    ]
+  };
+};
+
+const namedFacet = (field: string, from: string, filters: Record<string, any>[]): PipelineStage.FacetPipelineStage[] => [
+  ...filters.map(filter => ({ $match: filter })),
+  { $match: { [field]: { $ne: null } } },
+  { $group: { _id: `$${field}`, count: { $sum: 1 } } },
+  { $sort: { count: -1, _id: 1 } },
+  { $limit: FACET_LIMIT },
+  { $lookup: { from, localField: '_id', foreignField: '_id', as: 'entry' } },
+  { $project: { _id: 1, count: 1, name: { $arrayElemAt: ['$entry.name', 0] } } }
+];
+
+/**
+ * Search active products by name, SKU, variant, category and brand using the
+ * product_search text index, ranked by text score. Unknown words are swapped
+ * for their closest catalogue word before searching. Facet counts leave out
+ * their own filter, so every category/brand/price band stays selectable.
+ */
+export const searchProducts = async (params: IProductSearchParams): Promise<IProductSearchResult> => {
+  const limit = params.limit || 20;
+  const query = (params.q || '').replace(/["-]/g, ' ').trim();
+
+  // Without words to rank by, relevance falls back to name order
+  const sort: ProductSearchSort = query
+    ? params.sort || 'relevance'
+    : params.sort && params.sort !== 'relevance' ? params.sort : 'name_asc';
+
+  let searchText = query;
+  if (query) {
+    const vocabulary = await getVocabulary();
+    searchText = tokenize(query).map(word => correctWord(word, vocabulary)).join(' ');
+  }
+
+  const base: Record<string, any> = { isActive: true };
+  if (searchText) {
+    base.$text = { $search: searchText };
+  }
+
+  const categoryFilter = params.category ? { category: new Types.ObjectId(params.category) } : {};
+  const brandFilter = params.brand ? { brand: new Types.ObjectId(params.brand) } : {};
+  const stockFilter = params.inStock ? { stock: { $gt: 0 } } : {};
+  const priceFilter: Record<string, any> = {};
+  if (params.minPrice !== undefined || params.maxPrice !== undefined) {
+    priceFilter.price = {};
+    if (params.minPrice !== undefined) priceFilter.price.$gte = params.minPrice;
+    if (params.maxPrice !== undefined) priceFilter.price.$lte = params.maxPrice;
+  }
+  const allFilters = [categoryFilter, brandFilter, priceFilter, stockFilter];
+
+  const sortStage: Record<string, 1 | -1> = {};
+  for (const [field, direction] of SORT_KEYS[sort]) {
+    sortStage[field] = direction;
+  }
+
+  const pipeline: PipelineStage[] = [
+    { $match: base },
+    {
+      $addFields: {
+        score: searchText ? { $meta: 'textScore' } : 0,
+        price: { $ifNull: ['$sellingPrice', { $ifNull: ['$salePrice', 0] }] }
+      }
+    },
+    {
+      $facet: {
+        items: [
+          ...allFilters.map(filter => ({ $match: filter })),
+          ...(params.cursor ? [{ $match: cursorFilter(sort, params.cursor) }] : []),
+          { $sort: sortStage },
+          { $limit: limit + 1 },
+          {
+            $project: {
+              name: 1,
+              sku: 1,
+              barcode: 1,
+              images: 1,
+              category: 1,
+              brand: 1,
+              price: 1,
+              salePrice: 1,
+              sellingPrice: 1,
+              stock: 1,
+              'variants._id': 1,
+              'variants.name': 1,
+              'variants.sku': 1,
+              'variants.sellingPrice': 1,
+              'variants.salePrice': 1,
+              'variants.stock': 1,
+              'variants.isActive': 1,
+              score: 1
+            }
+          }
+        ],
+        total: [
+          ...allFilters.map(filter => ({ $match: filter })),
+          { $count: 'count' }
+        ],
+        categories: namedFacet('category', ProductCategory.collection.name, [brandFilter, priceFilter, stockFilter]),
+        brands: namedFacet('brand', Vendor.collection.name, [categoryFilter, priceFilter, stockFilter]),
+        priceBands: [
+          { $match: categoryFilter },
+          { $match: brandFilter },
+          { $match: stockFilter },
+          {
+            $bucket: {
+              groupBy: '$price',
+              boundaries: PRICE_BAND_BOUNDARIES,
+              default: 'above',
+              output: { count: { $sum: 1 } }
+            }
+          }
+        ]
+      }
+    }
+  ];
+
+  const [result] = await Product.aggregate(pipeline);
+
+  const items = result.items.slice(0, limit);
+  const hasNext = result.items.length > limit;
+  const top = PRICE_BAND_BOUNDARIES[PRICE_BAND_BOUNDARIES.length - 1];
+
+  return {
+    items,
+    total: result.total[0]?.count || 0,
+    nextCursor: hasNext ? encodeCursor(sort, items[items.length - 1]) : null,
+    correctedQuery: searchText && searchText !== tokenize(query).join(' ') ? searchText : undefined,
+    facets: {
+      categories: result.categories,
+      brands: result.brands,
+      priceBands: result.priceBands.map((band: { _id: number | 'above'; count: number }) => {
+        if (band._id === 'above') {
+          return { min: top, max: null, count: band.count };
+        }
+        const index = PRICE_BAND_BOUNDARIES.indexOf(band._id);
+        return { min: band._id, max: PRICE_BAND_BOUNDARIES[index + 1], count: band.count };
+      })
+    }
+  };
+};
@@ -0,0 +1,300 @@
+import { ClientSession, Types } from 'mongoose';
+import Product from '../models/Product/Product';
+import Promotion, { IPromotionDocument, PromotionType } from '../models/Promotion/Promotion';
+import PromotionRedemption from '../models/Promotion/PromotionRedemption';
+
+// A basket line as the promotion engine sees it; key ties discounts back to the caller's line
+export interface IPromotionLine {
+  key: string;
+  product: Types.ObjectId;     // Catalogue product
+  franchise?: Types.ObjectId;  // Selling franchise, for franchise lines
+  quantity: number;
+  price: number;
+  total: number;
+}
+
+export interface IPromotionLineDiscount {
+  key: string;
+  amount: number;
+}
+
+// A promotion that applies to the basket and how much it takes off each line
+export interface IAppliedPromotion {
+  promotion: Types.ObjectId;
+  code?: string;
+  name: string;
+  type: PromotionType;
+  amount: number;
+  lines: IPromotionLineDiscount[];
+}
+
+export interface IPromotionResult {
+  applied: IAppliedPromotion[];
+  discount: number;
+  couponError?: string; // Why the entered coupon does not apply, if it does not
+}
+
+export interface IEvaluateOptions {
+  user?: Types.ObjectId;
+  couponCode?: string;
+  at?: Date;
+}
+
+/**
+ * Raised when a promotion cannot be redeemed, such as a coupon used up
+ * between cart and checkout; statusCode is the HTTP status the route should
+ * answer with.
+ */
+export class PromotionError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'PromotionError';
+  }
+}
+
+interface IProductScopeInfo {
+  category?: Types.ObjectId;
+  brand?: Types.ObjectId | null;
+}
+
+const roundCurrency = (value: number): number => Math.round(value * 100) / 100;
+
+const includesId = (ids: Types.ObjectId[], id?: Types.ObjectId | null): boolean =>
+  !!id && ids.some(entry => entry.equals(id));
+
+// Whether a line falls inside every restriction the promotion sets
+const matchesScope = (promotion: IPromotionDocument, line: IPromotionLine, info?: IProductScopeInfo): boolean => {
+  const { products, categories, brands, franchises } = promotion.scope;
+  return (products.length === 0 || includesId(products, line.product))
+    && (categories.length === 0 || includesId(categories, info?.category))
+    && (brands.length === 0 || includesId(brands, info?.brand))
+    && (franchises.length === 0 || includesId(franchises, line.franchise));
+};
+
+// Spread an amount over lines in proportion to what is left on each
+const allocateProportionally = (amount: number, lines: IPromotionLine[], remaining: Map<string, number>): IPromotionLineDiscount[] => {
+  const base = lines.reduce((sum, line) => sum + (remaining.get(line.key) || 0), 0);
+  let left = amount;
+
+  return lines.map((line, index) => {
+    const available = remaining.get(line.key) || 0;
+    const share = index === lines.length - 1 ? left : roundCurrency(amount * available / base);
+    const discount = roundCurrency(Math.min(share, available, left));
+    left = roundCurrency(left - discount);
+    return { key: line.key, amount: discount };
+  });
+};
+
+// Buy-X-get-Y: in every group of X+Y units, dearest first, the cheapest Y units are discounted
+const allocateBuyXGetY = (promotion: IPromotionDocument, lines: IPromotionLine[], remaining: Map<string, number>): IPromotionLineDiscount[] => {
+  const buy = promotion.buyQuantity || 1;
+  const get = promotion.getQuantity || 1;
+  const groupSize = buy + get;
+
+  const units = lines
+    .flatMap(line => Array.from({ length: line.quantity }, () => ({ key: line.key, price: line.price })))
+    .sort((a, b) => b.price - a.price);
+
+  const discounts = new Map<string, number>();
+  const groups = Math.floor(units.length / groupSize);
+  for (let group = 0; group < groups; group++) {
+    for (let position = group * groupSize + buy; position < (group + 1) * groupSize; position++) {
+      const unit = units[position];
+      discounts.set(unit.key, (discounts.get(unit.key) || 0) + unit.price * promotion.getDiscountPercent / 100);
+    }
+  }
+
+  return [...discounts].map(([key, amount]) => ({
+    key,
+    amount: roundCurrency(Math.min(amount, remaining.get(key) || 0))
+  }));
+};
+
+/**
+ * Work out what one promotion takes off the basket, or why it does not
+ * apply. Discounts are taken from what earlier promotions left on each line.
+ */
+const applyPromotion = async (
+  promotion: IPromotionDocument,
+  lines: IPromotionLine[],
+  scopeInfo: Map<string, IProductScopeInfo>,
+  remaining: Map<string, number>,
+  user?: Types.ObjectId
+): Promise<IAppliedPromotion | string> => {
+  if (user && promotion.usageLimitPerUser) {
+    const used = await PromotionRedemption.countForUser(promotion._id, user);
+    if (used >= promotion.usageLimitPerUser) {
+      return 'You have already used this offer the maximum number of times';
+    }
+  }
+
+  const eligible = lines.filter(line => matchesScope(promotion, line, scopeInfo.get(line.product.toString())));
+  if (eligible.length === 0) {
+    return 'No items in the cart qualify for this offer';
+  }
+
+  const eligibleTotal = roundCurrency(eligible.reduce((sum, line) => sum + line.total, 0));
+  const eligibleQuantity = eligible.reduce((sum, line) => sum + line.quantity, 0);
+  if (eligibleTotal < promotion.minBasketAmount) {
+    return `Add qualifying items worth ${roundCurrency(promotion.minBasketAmount - eligibleTotal)} more to use this offer`;
+  }
+  if (eligibleQuantity < promotion.minBasketQuantity) {
+    return `Add ${promotion.minBasketQuantity - eligibleQuantity} more qualifying items to use this offer`;
+  }
+
+  const available = roundCurrency(eligible.reduce((sum, line) => sum + (remaining.get(line.key) || 0), 0));
+  let allocation: IPromotionLineDiscount[];
+  if (promotion.type === 'buy_x_get_y') {
+    allocation = allocateBuyXGetY(promotion, eligible, remaining);
+  } else {
+    let amount = promotion.type === 'percentage'
+      ? roundCurrency(available * promotion.value / 100)
+      : promotion.value;
+    if (promotion.maxDiscount !== undefined && promotion.maxDiscount !== null) {
+      amount = Math.min(amount, promotion.maxDiscount);
+    }
+    allocation = allocateProportionally(Math.min(amount, available), eligible, remaining);
+  }
+
+  allocation = allocation.filter(line => line.amount > 0);
+  const amount = roundCurrency(allocation.reduce((sum, line) => sum + line.amount, 0));
+  if (amount <= 0) {
+    return promotion.type === 'buy_x_get_y'
+      ? `Buy ${(promotion.buyQuantity || 1) + (promotion.getQuantity || 1)} qualifying items to use this offer`
+      : 'This offer gives no discount on the items in the cart';
+  }
+
+  return {
+    promotion: promotion._id,
+    code: promotion.code,
+    name: promotion.name,
+    type: promotion.type,
+    amount,
+    lines: allocation
+  };
+};
+
+/**
+ * Price a basket's promotions: every live automatic offer, then the coupon
+ * the customer entered, each applied to what the earlier ones left. A coupon
+ * that does not apply is left out and the reason returned as couponError.
+ */
+export const evaluatePromotions = async (lines: IPromotionLine[], options: IEvaluateOptions = {}): Promise<IPromotionResult> => {
+  const at = options.at || new Date();
+  const result: IPromotionResult = { applied: [], discount: 0 };
+
+  let coupon: IPromotionDocument | null = null;
+  if (options.couponCode) {
+    coupon = await Promotion.findByCode(options.couponCode);
+    if (!coupon) {
+      result.couponError = 'Coupon not found';
+    } else if (!coupon.isLive(at)) {
+      result.couponError = 'Coupon has expired or is no longer available';
+      coupon = null;
+    }
+  }
+
+  if (lines.length === 0) {
+    if (coupon) {
+      result.couponError = 'Add items to the cart to use this coupon';
+    }
+    return result;
+  }
+
+  const products = await Product.find({ _id: { $in: lines.map(line => line.product) } })
+    .select('category brand')
+    .lean<Array<IProductScopeInfo & { _id: Types.ObjectId }>>();
+  const scopeInfo = new Map(products.map(product => [product._id.toString(), product]));
+  const remaining = new Map(lines.map(line => [line.key, line.total]));
+
+  const promotions = await Promotion.findLive(at);
+  for (const promotion of [...promotions, ...(coupon ? [coupon] : [])]) {
+    const applied = await applyPromotion(promotion, lines, scopeInfo, remaining, options.user);
+    if (typeof applied === 'string') {
+      if (promotion === coupon) {
+        result.couponError = applied;
+      }
+      continue;
+    }
+
+    for (const line of applied.lines) {
+      remaining.set(line.key, roundCurrency((remaining.get(line.key) || 0) - line.amount));
+    }
+    result.applied.push(applied);
+  }
+
+  result.discount = roundCurrency(result.applied.reduce((sum, promotion) => sum + promotion.amount, 0));
+  return result;
+};
+
+// Total discount each line received across all applied promotions
+export const getLineDiscounts = (applied: IAppliedPromotion[]): Map<string, number> => {
+  const discounts = new Map<string, number>();
+  for (const promotion of applied) {
+    for (const line of promotion.lines) {
+      discounts.set(line.key, roundCurrency((discounts.get(line.key) || 0) + line.amount));
+    }
+  }
+  return discounts;
+};
+
+/**
+ * Count the applied promotions against their limits and record a redemption
+ * for each. Run inside the order's transaction so a limit reached by another
+ * order in the meantime rejects the checkout instead of overselling the offer.
+ */
+export const redeemPromotions = async (
+  applied: IAppliedPromotion[],
+  redemption: { user: Types.ObjectId; order: Types.ObjectId },
+  session?: ClientSession
+): Promise<void> => {
+  for (const promotion of applied) {
+    const updated = await Promotion.findOneAndUpdate(
+      {
+        _id: promotion.promotion,
+        $or: [
+          { usageLimit: null },
+          { $expr: { $lt: ['$usedCount', '$usageLimit'] } }
+        ]
+      },
+      { $inc: { usedCount: 1 } },
+      { session, new: true }
+    );
+    if (!updated) {
+      throw new PromotionError(`Offer ${promotion.name} has reached its usage limit`, 409);
+    }
+
+    if (updated.usageLimitPerUser) {
+      const used = await PromotionRedemption.countDocuments({
+        promotion: promotion.promotion,
+        user: redemption.user,
+        status: 'applied'
+      }).session(session || null);
+      if (used >= updated.usageLimitPerUser) {
+        throw new PromotionError(`You have already used ${promotion.name} the maximum number of times`, 409);
+      }
+    }
+
+    await PromotionRedemption.create([{
+      promotion: promotion.promotion,
+      user: redemption.user,
+      order: redemption.order,
+      code: promotion.code,
+      discount: promotion.amount
+    }], { session });
+  }
+};
+
+// Give back the uses an order took, e.g. when it is cancelled before fulfilment
+export const reversePromotions = async (orderId: Types.ObjectId): Promise<number> => {
+  const redemptions = await PromotionRedemption.find({ order: orderId, status: 'applied' });
+
+  for (const redemption of redemptions) {
+    redemption.status = 'reversed';
+    redemption.reversedAt = new Date();
+    await redemption.save();
+    await Promotion.updateOne({ _id: redemption.promotion, usedCount: { $gt: 0 } }, { $inc: { usedCount: -1 } });
+  }
+
+  return redemptions.length;
+};
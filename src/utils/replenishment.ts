@@ -0,0 +1,164 @@
+import { Types } from 'mongoose';
+import Franchise, { IFranchiseReplenishment } from '../models/Franchise/Franchise';
+import FranchiseProduct from '../models/Franchise/FranchiseProduct';
+import FranchiseInventory from '../models/Franchise/FranchiseInventory';
+import FranchiseTransfer, { getOutstandingQuantity, TransferStatus } from '../models/Franchise/FranchiseTransfer';
+
+export const DEFAULT_REPLENISHMENT: IFranchiseReplenishment = {
+  leadTimeDays: 3,
+  safetyStockDays: 2,
+  reviewPeriodDays: 7,
+  velocityWindowDays: 28
+};
+
+// Transfers whose stock has not reached the franchise shelf yet
+const INBOUND_TRANSFER_STATUSES: TransferStatus[] = ['requested', 'pending', 'processing', 'shipped', 'partially_received'];
+
+export interface IReorderSuggestion {
+  franchiseProduct: Types.ObjectId;
+  bharatmartProduct: Types.ObjectId;
+  name?: string;
+  sku?: string;
+  stock: number;
+  minStock: number;
+  inbound: number;          // Units already on open transfers
+  unitsSold: number;        // Net units sold in the velocity window
+  dailyVelocity: number;
+  daysOfCover: number | null;
+  safetyStock: number;
+  reorderPoint: number;
+  targetStock: number;
+  suggestedQuantity: number;
+  unitPrice: number;        // Transfer price from the central catalogue
+  estimatedCost: number;
+  centralStock: number;
+}
+
+export interface IReorderPlan {
+  settings: IFranchiseReplenishment;
+  windowStart: Date;
+  suggestions: IReorderSuggestion[];
+}
+
+const roundTo = (value: number, places: number): number => {
+  const factor = Math.pow(10, places);
+  return Math.round(value * factor) / factor;
+};
+
+// Franchise settings with defaults filled in for franchises created before replenishment existed
+export const getReplenishmentSettings = async (franchiseId: Types.ObjectId): Promise<IFranchiseReplenishment> => {
+  const franchise = await Franchise.findById(franchiseId).select('replenishment').lean();
+  return { ...DEFAULT_REPLENISHMENT, ...(franchise?.replenishment || {}) };
+};
+
+/**
+ * Work out what a franchise should reorder. Velocity is the net units sold
+ * (sales less returns) per day over the settings window; a product is due once
+ * stock plus inbound transfers falls to its reorder point, which covers the lead
+ * time plus safety stock and never drops below minStock. The suggestion tops
+ * stock up to cover one review period beyond that.
+ */
+export const getReorderSuggestions = async (
+  franchiseId: Types.ObjectId,
+  options: { productIds?: string[]; includeAll?: boolean } = {}
+): Promise<IReorderPlan> => {
+  const settings = await getReplenishmentSettings(franchiseId);
+  const windowStart = new Date(Date.now() - settings.velocityWindowDays * 24 * 60 * 60 * 1000);
+
+  const productQuery: any = { franchise: franchiseId, isActive: true };
+  if (options.productIds?.length) {
+    productQuery._id = { $in: options.productIds };
+  }
+
+  const products = await FranchiseProduct.find(productQuery)
+    .populate('bharatmartProduct', 'name sku stock costPrice salePrice isActive')
+    .lean();
+
+  const sales = await FranchiseInventory.aggregate([
+    {
+      $match: {
+        franchise: new Types.ObjectId(franchiseId),
+        transactionType: { $in: ['sale', 'return'] },
+        createdAt: { $gte: windowStart }
+      }
+    },
+    // Sales are booked as negative quantities and returns as positive ones
+    { $group: { _id: '$product', net: { $sum: '$quantity' } } }
+  ]);
+  const soldByProduct = new Map<string, number>(
+    sales.map(entry => [String(entry._id), Math.max(0, -entry.net)])
+  );
+
+  const inboundTransfers = await FranchiseTransfer.find({
+    franchise: franchiseId,
+    status: { $in: INBOUND_TRANSFER_STATUSES }
+  }).select('items').lean();
+  const inboundByProduct = new Map<string, number>();
+  for (const transfer of inboundTransfers) {
+    for (const item of transfer.items) {
+      const key = String(item.franchiseProduct);
+      inboundByProduct.set(key, (inboundByProduct.get(key) || 0) + getOutstandingQuantity(item));
+    }
+  }
+
+  const suggestions: IReorderSuggestion[] = [];
+
+  for (const product of products) {
+    const mainProduct = product.bharatmartProduct as any;
+    if (!mainProduct || mainProduct.isActive === false) {
+      continue;
+    }
+
+    const unitsSold = soldByProduct.get(String(product._id)) || 0;
+    const inbound = inboundByProduct.get(String(product._id)) || 0;
+    const dailyVelocity = unitsSold / settings.velocityWindowDays;
+
+    const safetyStock = Math.ceil(dailyVelocity * settings.safetyStockDays);
+    const reorderPoint = Math.max(
+      product.minStock,
+      Math.ceil(dailyVelocity * settings.leadTimeDays) + safetyStock
+    );
+    const targetStock = Math.max(
+      reorderPoint + Math.ceil(dailyVelocity * settings.reviewPeriodDays),
+      product.minStock + 1
+    );
+
+    const projected = product.stock + inbound;
+    const suggestedQuantity = projected <= reorderPoint ? targetStock - projected : 0;
+
+    if (suggestedQuantity <= 0 && !options.includeAll) {
+      continue;
+    }
+
+    const unitPrice = mainProduct.costPrice || mainProduct.salePrice || 0;
+
+    suggestions.push({
+      franchiseProduct: product._id,
+      bharatmartProduct: mainProduct._id,
+      name: mainProduct.name,
+      sku: mainProduct.sku,
+      stock: product.stock,
+      minStock: product.minStock,
+      inbound,
+      unitsSold,
+      dailyVelocity: roundTo(dailyVelocity, 3),
+      daysOfCover: dailyVelocity > 0 ? roundTo(product.stock / dailyVelocity, 1) : null,
+      safetyStock,
+      reorderPoint,
+      targetStock,
+      suggestedQuantity: Math.max(0, suggestedQuantity),
+      unitPrice,
+      estimatedCost: roundTo(unitPrice * Math.max(0, suggestedQuantity), 2),
+      centralStock: mainProduct.stock || 0
+    });
+  }
+
+  // Most urgent first: products about to run out, then those with no sales history
+  suggestions.sort((a, b) => {
+    const aCover = a.daysOfCover === null ? Number.POSITIVE_INFINITY : a.daysOfCover;
+    const bCover = b.daysOfCover === null ? Number.POSITIVE_INFINITY : b.daysOfCover;
+    return aCover - bCover || b.suggestedQuantity - a.suggestedQuantity;
+  });
+
+  return { settings, windowStart, suggestions };
+};
@@ -0,0 +1,49 @@
+import type { ILayer, Router } from 'express-serve-static-core';
+import { isPermission, Permission, PERMISSIONS } from './permissions';
+
+// A router and the path it is mounted at, as server.ts mounts the API
+export type ApiRouteMount = [string, Router];
+
+export interface IPermissionRoute {
+  method: string;
+  path: string;
+}
+
+const joinPaths = (mountPath: string, routePath: string): string =>
+  routePath === '/' ? mountPath : `${mountPath.replace(/\/$/, '')}${routePath}`;
+
+// The permission a requirePermission middleware was created for, if the layer is one
+const getLayerPermission = (layer: ILayer): Permission | undefined => {
+  const permission = (layer.handle as { permission?: unknown }).permission;
+  return isPermission(permission) ? permission : undefined;
+};
+
+/**
+ * The routes each permission unlocks, read from the mounted routers: every
+ * route with a requirePermission guard is listed under that permission.
+ * Permissions no route checks come back with an empty list.
+ */
+export const listPermissionRoutes = (mounts: ApiRouteMount[]): Record<Permission, IPermissionRoute[]> => {
+  const routes = Object.fromEntries(PERMISSIONS.map(permission => [permission, [] as IPermissionRoute[]])) as Record<Permission, IPermissionRoute[]>;
+
+  mounts.forEach(([mountPath, router]) => {
+    router.stack.forEach(layer => {
+      if (!layer.route) {
+        return;
+      }
+
+      const path = joinPaths(mountPath, layer.route.path);
+      const methods = [...new Set(layer.route.stack.map(routeLayer => routeLayer.method).filter(Boolean))]
+        .map(method => method.toUpperCase());
+
+      layer.route.stack.forEach(routeLayer => {
+        const permission = getLayerPermission(routeLayer);
+        if (permission) {
+          methods.forEach(method => routes[permission].push({ method, path }));
+        }
+      });
+    });
+  });
+
+  return routes;
+};
@@ -0,0 +1,142 @@
+import { ClientSession, Types } from 'mongoose';
+import FranchiseProduct from '../models/Franchise/FranchiseProduct';
+import FranchiseInventory from '../models/Franchise/FranchiseInventory';
+import { ILotAllocation } from '../models/Franchise/FranchiseStockLot';
+import ProductInventory, { ProductStockError } from '../models/Product/ProductInventory';
+
+export interface IStockLine {
+  product: Types.ObjectId;
+  franchiseProduct?: Types.ObjectId;
+  variant?: Types.ObjectId;  // Central lines of products sold in variants
+  quantity: number;
+  name?: string;
+}
+
+/**
+ * Raised when a line cannot be reserved because the product is missing,
+ * inactive or does not have enough stock left.
+ */
+export interface IStockMovementDetails {
+  referenceNumber?: string; // Order number the movement belongs to
+  notes?: string;
+  performedBy?: Types.ObjectId;
+  performedByEmployee?: Types.ObjectId; // Set instead of performedBy when an employee moved the stock
+}
+
+export class StockReservationError extends Error {
+  statusCode = 400;
+
+  constructor(message: string, public line?: IStockLine) {
+    super(message);
+    this.name = 'StockReservationError';
+  }
+}
+
+/**
+ * Decrement stock for every line, booking each as a 'sale' row on its
+ * inventory ledger: franchise lines on the franchise ledger, which also takes
+ * the units from the franchise's lots FEFO, everything else on the central
+ * ledger. Call inside a transaction so a short line rolls back the lines
+ * reserved before it, and so two reservations of the same unit conflict.
+ */
+export const reserveStock = async (
+  lines: IStockLine[],
+  session?: ClientSession,
+  details: IStockMovementDetails = {}
+): Promise<void> => {
+  for (const line of lines) {
+    const label = line.name || String(line.franchiseProduct || line.product);
+
+    if (line.franchiseProduct) {
+      const product = await FranchiseProduct.findOne({ _id: line.franchiseProduct, isActive: true, stock: { $gte: line.quantity } })
+        .select('franchise')
+        .session(session || null);
+      if (!product) {
+        throw new StockReservationError(`Insufficient stock for ${label}. Requested: ${line.quantity}`, line);
+      }
+
+      await FranchiseInventory.recordTransaction(product.franchise, line.franchiseProduct, 'sale', -line.quantity, {
+        ...details,
+        notes: details.notes || 'Reserved for order',
+        session
+      });
+      continue;
+    }
+
+    try {
+      await ProductInventory.recordTransaction(line.product, 'sale', -line.quantity, {
+        ...details,
+        notes: details.notes || 'Reserved for order',
+        onlyActive: true,
+        variant: line.variant,
+        session
+      });
+    } catch (error) {
+      if (error instanceof ProductStockError) {
+        throw new StockReservationError(`Insufficient stock for ${label}. Requested: ${line.quantity}`, line);
+      }
+      throw error;
+    }
+  }
+};
+
+// Lots the order's 'sale' rows took a franchise product's units from
+const findSoldLots = async (
+  productId: Types.ObjectId,
+  referenceNumber: string | undefined,
+  session?: ClientSession
+): Promise<ILotAllocation[]> => {
+  if (!referenceNumber) {
+    return [];
+  }
+  const sales = await FranchiseInventory.find({ product: productId, transactionType: 'sale', referenceNumber })
+    .select('lots')
+    .session(session || null);
+  return sales.flatMap(sale => sale.lots || []);
+};
+
+/**
+ * Put previously reserved units back into stock (cancellations, refunds) as
+ * 'return' rows on the inventory ledger. Franchise units go back under the
+ * batch and expiry of the lots the sale took them from, as far as the sale's
+ * rows show them; the rest return as a lot of their own.
+ */
+export const releaseStock = async (
+  lines: IStockLine[],
+  session?: ClientSession,
+  details: IStockMovementDetails = {}
+): Promise<void> => {
+  for (const line of lines) {
+    if (line.franchiseProduct) {
+      const product = await FranchiseProduct.findById(line.franchiseProduct).select('franchise').session(session || null);
+      if (!product) {
+        throw new StockReservationError(`Franchise product ${line.franchiseProduct} not found`, line);
+      }
+
+      const returnDetails = { ...details, notes: details.notes || 'Released from order', session };
+      let outstanding = line.quantity;
+      for (const sold of await findSoldLots(line.franchiseProduct, details.referenceNumber, session)) {
+        const quantity = Math.min(sold.quantity, outstanding);
+        if (quantity <= 0) {
+          break;
+        }
+        await FranchiseInventory.recordTransaction(product.franchise, line.franchiseProduct, 'return', quantity, {
+          ...returnDetails,
+          batchNumber: sold.batchNumber,
+          expiryDate: sold.expiryDate
+        });
+        outstanding -= quantity;
+      }
+      if (outstanding > 0) {
+        await FranchiseInventory.recordTransaction(product.franchise, line.franchiseProduct, 'return', outstanding, returnDetails);
+      }
+    } else {
+      await ProductInventory.recordTransaction(line.product, 'return', line.quantity, {
+        ...details,
+        notes: details.notes || 'Released from order',
+        variant: line.variant,
+        session
+      });
+    }
+  }
+};
@@ -0,0 +1,103 @@
+import { Types } from 'mongoose';
+import FranchiseTransfer, { ITransferDocument, ITransferItem } from '../models/Franchise/FranchiseTransfer';
+import Franchise from '../models/Franchise/Franchise';
+import Product from '../models/Product/Product';
+import FranchiseProduct from '../models/Franchise/FranchiseProduct';
+
+export interface ITransferRequestLine {
+  bharatmartProduct: Types.ObjectId | string;
+  franchiseProduct: Types.ObjectId | string;
+  quantity: number;
+}
+
+/**
+ * Raised when a transfer request cannot be created; statusCode is the HTTP
+ * status the route should answer with.
+ */
+export class TransferRequestError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'TransferRequestError';
+  }
+}
+
+/**
+ * Create a franchise stock request in 'requested' status, priced from the
+ * central catalogue and waiting for admin approval. Shared by the /request
+ * endpoint and the replenishment engine.
+ */
+export const createTransferRequest = async (
+  franchiseId: Types.ObjectId,
+  lines: ITransferRequestLine[],
+  options: { notes?: string; requestedBy?: Types.ObjectId; historyNote?: string } = {}
+): Promise<ITransferDocument> => {
+  // Verify franchise exists
+  const franchiseExists = await Franchise.findById(franchiseId);
+  if (!franchiseExists) {
+    throw new TransferRequestError('Franchise not found', 404);
+  }
+
+  // Validate products and prepare transfer items
+  const transferItems: ITransferItem[] = [];
+
+  for (const line of lines) {
+    // Verify main product exists
+    const bharatmartProduct = await Product.findById(line.bharatmartProduct);
+    if (!bharatmartProduct) {
+      throw new TransferRequestError(`Main product ${line.bharatmartProduct} not found`, 404);
+    }
+
+    // Verify franchise product exists and is linked
+    const franchiseProduct = await FranchiseProduct.findById(line.franchiseProduct);
+    if (!franchiseProduct) {
+      throw new TransferRequestError(`Franchise product ${line.franchiseProduct} not found`, 404);
+    }
+
+    if (String(franchiseProduct.bharatmartProduct) !== String(line.bharatmartProduct)) {
+      throw new TransferRequestError(
+        `Franchise product ${line.franchiseProduct} is not linked to main product ${line.bharatmartProduct}`
+      );
+    }
+
+    if (String(franchiseProduct.franchise) !== String(franchiseId)) {
+      throw new TransferRequestError(`Franchise product ${line.franchiseProduct} does not belong to your franchise`, 403);
+    }
+
+    // Calculate pricing
+    const variant = franchiseProduct.variant || undefined;
+    const unitPrice = bharatmartProduct.getTransferPrice(variant);
+
+    transferItems.push({
+      bharatmartProduct: bharatmartProduct._id,
+      variant,
+      franchiseProduct: franchiseProduct._id,
+      quantity: line.quantity,
+      unitPrice,
+      totalPrice: unitPrice * line.quantity
+    });
+  }
+
+  // Generate transfer number
+  const transferNumber = await FranchiseTransfer.generateTransferNumber();
+
+  // Create transfer request
+  const transfer = new FranchiseTransfer({
+    transferNumber,
+    franchise: franchiseId,
+    items: transferItems,
+    notes: options.notes || 'Stock reorder request from franchise',
+    status: 'requested',
+    requestedBy: options.requestedBy,
+    requestedAt: new Date(),
+    statusHistory: [{
+      status: 'requested',
+      timestamp: new Date(),
+      notes: options.historyNote || 'Transfer request created by franchise',
+      changedBy: options.requestedBy
+    }]
+  });
+
+  await transfer.save();
+
+  return transfer;
+};
@@ -0,0 +1,85 @@
+import crypto from 'crypto';
+import { Types } from 'mongoose';
+import Settings from '../models/Settings';
+import User, { IUser } from '../models/User/User';
+import { base32Encode, verifyTotp } from './totp';
+
+export const TWO_FACTOR_ISSUER = 'BharatMart';
+
+// Roles that can always enroll, and that the mandatory setting applies to
+export const TWO_FACTOR_ADMIN_ROLES: IUser['role'][] = ['superadmin', 'admin'];
+
+const BACKUP_CODE_COUNT = 10;
+
+// Two-factor switches (Settings 'security' category)
+export interface ITwoFactorPolicy {
+  enableTwoFactorAuth: boolean;      // Let every user enroll, not only admins
+  requireTwoFactorForAdmin: boolean; // Admins and superadmins cannot log in without it
+}
+
+export type TwoFactorMethod = 'totp' | 'backup_code';
+
+export const getTwoFactorPolicy = async (): Promise<ITwoFactorPolicy> => {
+  const settings = await Settings.getCategorySettings('security');
+  const values: Record<string, any> = {};
+  settings.forEach(setting => {
+    values[setting.key] = setting.value;
+  });
+
+  return {
+    enableTwoFactorAuth: values.enableTwoFactorAuth === true,
+    requireTwoFactorForAdmin: values.requireTwoFactorForAdmin === true
+  };
+};
+
+export const canEnrollTwoFactor = (user: Pick<IUser, 'role'>, policy: ITwoFactorPolicy): boolean =>
+  TWO_FACTOR_ADMIN_ROLES.includes(user.role) || policy.enableTwoFactorAuth;
+
+export const isTwoFactorMandatory = (user: Pick<IUser, 'role'>, policy: ITwoFactorPolicy): boolean =>
+  TWO_FACTOR_ADMIN_ROLES.includes(user.role) && policy.requireTwoFactorForAdmin;
+
+const normaliseCode = (code: string): string => code.replace(/[\s-]/g, '').toUpperCase();
+
+const hashBackupCode = (code: string): string => crypto.createHash('sha256').update(normaliseCode(code)).digest('hex');
+
+// Fresh recovery codes, shown to the user once; only their hashes are stored
+export const generateBackupCodes = (): { codes: string[]; hashes: string[] } => {
+  const codes = Array.from({ length: BACKUP_CODE_COUNT }, () => {
+    const code = base32Encode(crypto.randomBytes(7)).slice(0, 10);
+    return `${code.slice(0, 5)}-${code.slice(5)}`;
+  });
+  return { codes, hashes: codes.map(hashBackupCode) };
+};
+
+/**
+ * Check a second-factor code: a TOTP code from the user's app, or one of
+ * their backup codes. Each is good once; an accepted TOTP step is recorded
+ * and a backup code removed, both conditionally so a code raced in twice
+ * only succeeds the first time.
+ */
+export const verifyTwoFactorCode = async (userId: Types.ObjectId, code: string): Promise<TwoFactorMethod | null> => {
+  const user = await User.findById(userId).select('+twoFactor.secret +twoFactor.lastUsedStep');
+  if (!user?.twoFactor?.enabled || !user.twoFactor.secret) {
+    return null;
+  }
+
+  const normalised = normaliseCode(code);
+  const step = verifyTotp(user.twoFactor.secret, normalised, user.twoFactor.lastUsedStep);
+  if (step !== null) {
+    const result = await User.updateOne(
+      {
+        _id: userId,
+        $or: [{ 'twoFactor.lastUsedStep': null }, { 'twoFactor.lastUsedStep': { $lt: step } }]
+      },
+      { 'twoFactor.lastUsedStep': step }
+    );
+    return result.modifiedCount > 0 ? 'totp' : null;
+  }
+
+  const hash = hashBackupCode(normalised);
+  const result = await User.updateOne(
+    { _id: userId, 'twoFactor.backupCodes': hash },
+    { $pull: { 'twoFactor.backupCodes': hash } }
+  );
+  return result.modifiedCount > 0 ? 'backup_code' : null;
+};
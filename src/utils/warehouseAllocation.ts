@@ -0,0 +1,170 @@
+import { ClientSession, Types } from 'mongoose';
+import { ITransferDocument } from '../models/Franchise/FranchiseTransfer';
+import Franchise from '../models/Franchise/Franchise';
+import Warehouse, { IWarehouseDocument } from '../models/Warehouse/Warehouse';
+import WarehouseStock from '../models/Warehouse/WarehouseStock';
+import { IGeoPoint } from '../types/common';
+
+export interface IWarehouseLine {
+  product: Types.ObjectId;
+  variant?: Types.ObjectId;
+  quantity: number;
+}
+
+// Stock is held per product, or per variant for products sold in variants
+const stockKey = (product: Types.ObjectId | string, variant?: Types.ObjectId | string | null): string =>
+  `${product}:${variant || ''}`;
+
+export interface IWarehouseCandidate {
+  warehouse: IWarehouseDocument;
+  distanceKm?: number;  // Unset when either end has no coordinates
+}
+
+/**
+ * Raised when no warehouse can supply a transfer; statusCode is the HTTP
+ * status the route should answer with.
+ */
+export class WarehouseAllocationError extends Error {
+  constructor(message: string, public statusCode: number = 400) {
+    super(message);
+    this.name = 'WarehouseAllocationError';
+  }
+}
+
+const EARTH_RADIUS_KM = 6371;
+
+const hasLocation = (point?: Partial<IGeoPoint>): point is IGeoPoint =>
+  typeof point?.latitude === 'number' && typeof point?.longitude === 'number';
+
+// Great-circle distance between two points, in kilometres
+export const getDistanceKm = (from: IGeoPoint, to: IGeoPoint): number => {
+  const toRadians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = toRadians(to.latitude - from.latitude);
+  const dLon = toRadians(to.longitude - from.longitude);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2;
+  return Math.round(EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a)) * 10) / 10;
+};
+
+/**
+ * Active warehouses whose unreserved stock covers every line, nearest to the
+ * franchise first. Warehouses that cannot be placed on the map (or all of
+ * them, when the franchise has no location) follow, default warehouse first.
+ */
+export const findSourceWarehouses = async (
+  franchiseId: Types.ObjectId,
+  lines: IWarehouseLine[],
+  session?: ClientSession
+): Promise<IWarehouseCandidate[]> => {
+  const franchise = await Franchise.findById(franchiseId).select('location').session(session || null);
+  const warehouses = await Warehouse.findActive();
+
+  // Several lines may draw on the same product
+  const required = new Map<string, number>();
+  for (const line of lines) {
+    const key = stockKey(line.product, line.variant);
+    required.set(key, (required.get(key) || 0) + line.quantity);
+  }
+
+  const stockRows = await WarehouseStock.find({
+    warehouse: { $in: warehouses.map(warehouse => warehouse._id) },
+    product: { $in: lines.map(line => line.product) }
+  }).session(session || null).lean();
+
+  const free = new Map<string, number>();
+  for (const row of stockRows) {
+    free.set(`${row.warehouse}:${stockKey(row.product, row.variant)}`, row.stock - row.reserved);
+  }
+
+  const candidates: IWarehouseCandidate[] = warehouses
+    .filter(warehouse => Array.from(required.entries())
+      .every(([key, quantity]) => (free.get(`${warehouse._id}:${key}`) || 0) >= quantity))
+    .map(warehouse => ({
+      warehouse,
+      distanceKm: hasLocation(franchise?.location) && hasLocation(warehouse.location)
+        ? getDistanceKm(franchise!.location!, warehouse.location)
+        : undefined
+    }));
+
+  return candidates.sort((a, b) => {
+    if (a.distanceKm !== undefined && b.distanceKm !== undefined) return a.distanceKm - b.distanceKm;
+    if (a.distanceKm !== undefined) return -1;
+    if (b.distanceKm !== undefined) return 1;
+    if (a.warehouse.isDefault !== b.warehouse.isDefault) return a.warehouse.isDefault ? -1 : 1;
+    return a.warehouse.name.localeCompare(b.warehouse.name);
+  });
+};
+
+/**
+ * Pick the warehouse a central transfer ships from and hold its stock. The
+ * caller saves the transfer. Returns null when no warehouses are set up, in
+ * which case transfers draw on Product.stock alone as before.
+ */
+export const reserveTransferStock = async (
+  transfer: ITransferDocument,
+  options: { warehouseId?: Types.ObjectId | string; session?: ClientSession } = {}
+): Promise<IWarehouseDocument | null> => {
+  const { warehouseId, session } = options;
+
+  if (transfer.sourceFranchise || transfer.stockReserved) {
+    return null;
+  }
+
+  if (!warehouseId && await Warehouse.countDocuments({ isActive: true }) === 0) {
+    return null;
+  }
+
+  const lines: IWarehouseLine[] = transfer.items.map(item => ({
+    product: item.bharatmartProduct,
+    variant: item.variant,
+    quantity: item.quantity
+  }));
+  const candidates = await findSourceWarehouses(transfer.franchise, lines, session);
+
+  const candidate = warehouseId
+    ? candidates.find(entry => entry.warehouse._id.equals(warehouseId))
+    : candidates[0];
+  if (!candidate) {
+    throw new WarehouseAllocationError(warehouseId
+      ? `Warehouse ${warehouseId} does not have enough free stock for every item on this transfer`
+      : 'No warehouse has enough free stock for every item on this transfer');
+  }
+
+  const warehouse = candidate.warehouse;
+  const reserved: IWarehouseLine[] = [];
+
+  for (const line of lines) {
+    const held = await WarehouseStock.reserve(warehouse._id, line.product, line.quantity, { variant: line.variant, session });
+    if (!held) {
+      // Another transfer took the stock since it was checked; give back what was held
+      if (!session) {
+        for (const done of reserved) {
+          await WarehouseStock.release(warehouse._id, done.product, done.quantity, { variant: done.variant });
+        }
+      }
+      throw new WarehouseAllocationError(`Stock for product ${line.product} at ${warehouse.name} is no longer available`, 409);
+    }
+    reserved.push(line);
+  }
+
+  transfer.sourceWarehouse = warehouse._id;
+  transfer.stockReserved = true;
+
+  return warehouse;
+};
+
+// Give back warehouse stock held for a transfer that will not ship; the caller saves the transfer
+export const releaseTransferStock = async (transfer: ITransferDocument, session?: ClientSession): Promise<void> => {
+  if (!transfer.stockReserved || !transfer.sourceWarehouse) {
+    return;
+  }
+
+  for (const item of transfer.items) {
+    await WarehouseStock.release(transfer.sourceWarehouse, item.bharatmartProduct, item.quantity, {
+      variant: item.variant,
+      session
+    });
+  }
+
+  transfer.stockReserved = false;
+};